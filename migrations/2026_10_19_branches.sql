@@ -0,0 +1,126 @@
+begin;
+
+create table if not exists public.branches (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  code text not null,
+  address text,
+  phone text,
+  is_active boolean not null default true,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create unique index if not exists uq_branches_code on public.branches (upper(code));
+
+create or replace function public.set_branches_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at := now();
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_branches_updated_at on public.branches;
+create trigger trg_branches_updated_at
+before update on public.branches
+for each row execute function public.set_branches_updated_at();
+
+alter table if exists public.profiles
+  add column if not exists branch_id uuid references public.branches(id) on delete set null;
+
+alter table if exists public.stock_items
+  add column if not exists branch_id uuid references public.branches(id) on delete restrict;
+
+alter table if exists public.sales
+  add column if not exists branch_id uuid references public.branches(id) on delete restrict;
+
+alter table if exists public.trade_ins
+  add column if not exists branch_id uuid references public.branches(id) on delete set null;
+
+create index if not exists idx_profiles_branch_id on public.profiles (branch_id);
+create index if not exists idx_stock_items_branch_id_status on public.stock_items (branch_id, status);
+create index if not exists idx_sales_branch_id_created_at on public.sales (branch_id, created_at desc);
+create index if not exists idx_trade_ins_branch_id_status on public.trade_ins (branch_id, status);
+
+-- Everything that existed before branches belongs to the original store.
+do $$
+declare
+  v_branch_id uuid;
+begin
+  select id into v_branch_id
+  from public.branches
+  order by created_at
+  limit 1;
+
+  if v_branch_id is null then
+    insert into public.branches (name, code)
+    values ('Casa central', 'CENTRAL')
+    returning id into v_branch_id;
+  end if;
+
+  update public.profiles set branch_id = v_branch_id where branch_id is null;
+  update public.stock_items set branch_id = v_branch_id where branch_id is null;
+  update public.sales set branch_id = v_branch_id where branch_id is null;
+  update public.trade_ins set branch_id = v_branch_id where branch_id is null;
+end $$;
+
+-- A sale belongs to the branch whose stock it sold, so rpc_create_sale_v2 and the reservation/quote flows
+-- need no changes. The seller's branch is only a placeholder until the first item is inserted.
+create or replace function public.set_sales_branch_id()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.branch_id is null then
+    select branch_id
+      into new.branch_id
+    from public.profiles
+    where id = coalesce(new.seller_id, new.created_by);
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_sales_branch_id on public.sales;
+create trigger trg_sales_branch_id
+before insert on public.sales
+for each row execute function public.set_sales_branch_id();
+
+create or replace function public.set_sales_branch_from_stock()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  -- Only the first item decides; later items (edits, mixed carts) leave the sale where it is.
+  if exists (
+    select 1
+    from public.sale_items si
+    where si.sale_id = new.sale_id
+      and si.id <> new.id
+  ) then
+    return null;
+  end if;
+
+  update public.sales s
+  set branch_id = st.branch_id
+  from public.stock_items st
+  where s.id = new.sale_id
+    and st.id = new.stock_item_id
+    and st.branch_id is not null
+    and s.branch_id is distinct from st.branch_id;
+
+  return null;
+end;
+$$;
+
+drop trigger if exists trg_sale_items_sale_branch_id on public.sale_items;
+create trigger trg_sale_items_sale_branch_id
+after insert on public.sale_items
+for each row execute function public.set_sales_branch_from_stock();
+
+commit;
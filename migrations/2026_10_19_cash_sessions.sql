@@ -0,0 +1,372 @@
+begin;
+
+create table if not exists public.cash_sessions (
+  id uuid primary key default gen_random_uuid(),
+  branch_id uuid references public.branches(id) on delete restrict,
+  status text not null default 'open',
+  opening_ars numeric not null default 0,
+  opening_usd numeric not null default 0,
+  expected_ars numeric,
+  expected_usd numeric,
+  counted_ars numeric,
+  counted_usd numeric,
+  difference_ars numeric,
+  difference_usd numeric,
+  summary jsonb,
+  notes text,
+  close_notes text,
+  opened_by uuid references public.profiles(id) on delete set null,
+  opened_at timestamptz not null default now(),
+  closed_by uuid references public.profiles(id) on delete set null,
+  closed_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create table if not exists public.cash_movements (
+  id uuid primary key default gen_random_uuid(),
+  session_id uuid not null references public.cash_sessions(id) on delete cascade,
+  kind text not null,
+  direction text not null,
+  currency text not null default 'ARS',
+  amount numeric not null,
+  reason text not null,
+  created_by uuid references public.profiles(id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_constraint where conname = 'cash_sessions_status_check'
+  ) then
+    alter table public.cash_sessions
+      add constraint cash_sessions_status_check
+      check (status in ('open', 'closed'));
+  end if;
+
+  if not exists (
+    select 1 from pg_constraint where conname = 'cash_sessions_opening_non_negative_check'
+  ) then
+    alter table public.cash_sessions
+      add constraint cash_sessions_opening_non_negative_check
+      check (opening_ars >= 0 and opening_usd >= 0);
+  end if;
+
+  if not exists (
+    select 1 from pg_constraint where conname = 'cash_movements_kind_check'
+  ) then
+    alter table public.cash_movements
+      add constraint cash_movements_kind_check
+      check (kind in ('withdrawal', 'expense', 'change', 'deposit'));
+  end if;
+
+  if not exists (
+    select 1 from pg_constraint where conname = 'cash_movements_direction_check'
+  ) then
+    alter table public.cash_movements
+      add constraint cash_movements_direction_check
+      check (direction in ('in', 'out'));
+  end if;
+
+  if not exists (
+    select 1 from pg_constraint where conname = 'cash_movements_currency_check'
+  ) then
+    alter table public.cash_movements
+      add constraint cash_movements_currency_check
+      check (currency in ('ARS', 'USD'));
+  end if;
+
+  if not exists (
+    select 1 from pg_constraint where conname = 'cash_movements_amount_positive_check'
+  ) then
+    alter table public.cash_movements
+      add constraint cash_movements_amount_positive_check
+      check (amount > 0);
+  end if;
+end $$;
+
+-- One open drawer per branch; sessions without branch share the zero uuid slot.
+create unique index if not exists uq_cash_sessions_open_branch
+  on public.cash_sessions (coalesce(branch_id, '00000000-0000-0000-0000-000000000000'::uuid))
+  where status = 'open';
+create index if not exists idx_cash_sessions_branch_opened_at on public.cash_sessions (branch_id, opened_at desc);
+create index if not exists idx_cash_movements_session_id on public.cash_movements (session_id, created_at);
+
+create or replace function public.set_cash_sessions_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at := now();
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_cash_sessions_updated_at on public.cash_sessions;
+create trigger trg_cash_sessions_updated_at
+before update on public.cash_sessions
+for each row execute function public.set_cash_sessions_updated_at();
+
+-- Expected drawer per currency: opening float + cash collected - cash handed back + manual movements.
+-- Only cash that moved inside [opened_at, closed_at or now()] and in the session's branch counts.
+-- Reservation deposits count the day they were received (reservation_deposit_movements, created by the
+-- reservations migration); the sale payment a deposit turns into on conversion is not counted again.
+create or replace function public.rpc_cash_session_summary_v1(
+  p_session_id uuid
+)
+returns jsonb
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_session record;
+  v_until timestamptz;
+  v_result jsonb := '{}'::jsonb;
+  v_currency text;
+  v_opening numeric;
+  v_sales numeric;
+  v_reversals numeric;
+  v_refunds numeric;
+  v_deposits numeric;
+  v_deposit_refunds numeric;
+  v_in numeric;
+  v_out numeric;
+begin
+  select *
+    into v_session
+  from public.cash_sessions
+  where id = p_session_id;
+
+  if not found then
+    raise exception using message = 'not_found', detail = 'cash_session_not_found';
+  end if;
+
+  v_until := coalesce(v_session.closed_at, now());
+
+  foreach v_currency in array array['ARS', 'USD']
+  loop
+    v_opening := case when v_currency = 'ARS' then v_session.opening_ars else v_session.opening_usd end;
+
+    select coalesce(sum(sp.amount), 0)
+      into v_sales
+    from public.sale_payments sp
+    join public.sales s on s.id = sp.sale_id
+    where sp.method = 'cash'
+      and upper(coalesce(sp.currency, 'ARS')) = v_currency
+      and sp.created_at >= v_session.opened_at
+      and sp.created_at <= v_until
+      and s.status = 'completed'
+      and (v_session.branch_id is null or s.branch_id = v_session.branch_id)
+      and not exists (
+        select 1
+        from public.reservation_deposit_movements dm
+        where dm.sale_payment_id = sp.id
+          and dm.kind = 'applied'
+      );
+
+    select
+      coalesce(sum(case when dm.kind = 'received' then dm.amount else 0 end), 0),
+      coalesce(sum(case when dm.kind = 'refunded' then dm.amount else 0 end), 0)
+      into v_deposits, v_deposit_refunds
+    from public.reservation_deposit_movements dm
+    where dm.method = 'cash'
+      and dm.kind in ('received', 'refunded')
+      and upper(dm.currency) = v_currency
+      and dm.created_at >= v_session.opened_at
+      and dm.created_at <= v_until
+      and (v_session.branch_id is null or dm.branch_id = v_session.branch_id);
+
+    select coalesce(sum(r.amount), 0)
+      into v_reversals
+    from public.sale_payment_reversals r
+    join public.sale_payments sp on sp.id = r.sale_payment_id
+    join public.sales s on s.id = r.sale_id
+    where sp.method = 'cash'
+      and upper(coalesce(r.currency, 'ARS')) = v_currency
+      and r.created_at >= v_session.opened_at
+      and r.created_at <= v_until
+      and (v_session.branch_id is null or s.branch_id = v_session.branch_id);
+
+    select coalesce(sum(sr.refund_amount), 0)
+      into v_refunds
+    from public.sale_returns sr
+    join public.sales s on s.id = sr.sale_id
+    where sr.refund_method = 'cash'
+      and upper(coalesce(sr.refund_currency, 'ARS')) = v_currency
+      and sr.created_at >= v_session.opened_at
+      and sr.created_at <= v_until
+      and (v_session.branch_id is null or s.branch_id = v_session.branch_id);
+
+    select
+      coalesce(sum(case when direction = 'in' then amount else 0 end), 0),
+      coalesce(sum(case when direction = 'out' then amount else 0 end), 0)
+      into v_in, v_out
+    from public.cash_movements
+    where session_id = p_session_id
+      and currency = v_currency;
+
+    v_result := v_result || jsonb_build_object(lower(v_currency), jsonb_build_object(
+      'opening', v_opening,
+      'cash_sales', v_sales,
+      'cash_reversals', v_reversals,
+      'cash_refunds', v_refunds,
+      'cash_deposits', v_deposits,
+      'cash_deposit_refunds', v_deposit_refunds,
+      'movements_in', v_in,
+      'movements_out', v_out,
+      'expected', v_opening + v_sales - v_reversals - v_refunds + v_deposits - v_deposit_refunds + v_in - v_out
+    ));
+  end loop;
+
+  return v_result;
+end;
+$$;
+
+create or replace function public.rpc_add_cash_movement_v1(
+  p_session_id uuid,
+  p_payload jsonb,
+  p_user_id uuid
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_status text;
+  v_movement_id uuid;
+begin
+  select status
+    into v_status
+  from public.cash_sessions
+  where id = p_session_id
+  for update;
+
+  if not found then
+    raise exception using message = 'not_found', detail = 'cash_session_not_found';
+  end if;
+
+  if v_status <> 'open' then
+    raise exception using message = 'conflict', detail = 'cash_session_closed';
+  end if;
+
+  insert into public.cash_movements (
+    session_id,
+    kind,
+    direction,
+    currency,
+    amount,
+    reason,
+    created_by
+  ) values (
+    p_session_id,
+    p_payload->>'kind',
+    p_payload->>'direction',
+    upper(coalesce(nullif(p_payload->>'currency', ''), 'ARS')),
+    (p_payload->>'amount')::numeric,
+    p_payload->>'reason',
+    p_user_id
+  )
+  returning id into v_movement_id;
+
+  return jsonb_build_object('movement_id', v_movement_id, 'session_id', p_session_id);
+end;
+$$;
+
+create or replace function public.rpc_close_cash_session_v1(
+  p_session_id uuid,
+  p_payload jsonb,
+  p_user_id uuid
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_status text;
+  v_counted_ars numeric;
+  v_counted_usd numeric;
+  v_summary jsonb;
+  v_expected_ars numeric;
+  v_expected_usd numeric;
+begin
+  select status
+    into v_status
+  from public.cash_sessions
+  where id = p_session_id
+  for update;
+
+  if not found then
+    raise exception using message = 'not_found', detail = 'cash_session_not_found';
+  end if;
+
+  if v_status <> 'open' then
+    raise exception using message = 'conflict', detail = 'cash_session_already_closed';
+  end if;
+
+  v_counted_ars := coalesce(nullif(p_payload->>'counted_ars', '')::numeric, 0);
+  v_counted_usd := coalesce(nullif(p_payload->>'counted_usd', '')::numeric, 0);
+  if v_counted_ars < 0 or v_counted_usd < 0 then
+    raise exception using message = 'validation_error', detail = 'counted_amount_must_be_gte_0';
+  end if;
+
+  update public.cash_sessions
+  set closed_at = now()
+  where id = p_session_id;
+
+  v_summary := public.rpc_cash_session_summary_v1(p_session_id);
+  v_expected_ars := (v_summary->'ars'->>'expected')::numeric;
+  v_expected_usd := (v_summary->'usd'->>'expected')::numeric;
+
+  update public.cash_sessions
+  set
+    status = 'closed',
+    closed_by = p_user_id,
+    expected_ars = v_expected_ars,
+    expected_usd = v_expected_usd,
+    counted_ars = v_counted_ars,
+    counted_usd = v_counted_usd,
+    difference_ars = v_counted_ars - v_expected_ars,
+    difference_usd = v_counted_usd - v_expected_usd,
+    summary = v_summary,
+    close_notes = nullif(btrim(coalesce(p_payload->>'notes', '')), '')
+  where id = p_session_id;
+
+  insert into public.audit_logs (
+    actor_user_id,
+    action,
+    entity_type,
+    entity_id,
+    meta_json
+  ) values (
+    p_user_id,
+    'cash_session_closed',
+    'cash_session',
+    p_session_id,
+    jsonb_build_object(
+      'expected_ars', v_expected_ars,
+      'expected_usd', v_expected_usd,
+      'counted_ars', v_counted_ars,
+      'counted_usd', v_counted_usd,
+      'difference_ars', v_counted_ars - v_expected_ars,
+      'difference_usd', v_counted_usd - v_expected_usd
+    )
+  );
+
+  return jsonb_build_object(
+    'session_id', p_session_id,
+    'status', 'closed',
+    'summary', v_summary,
+    'counted_ars', v_counted_ars,
+    'counted_usd', v_counted_usd,
+    'difference_ars', v_counted_ars - v_expected_ars,
+    'difference_usd', v_counted_usd - v_expected_usd
+  );
+end;
+$$;
+
+commit;
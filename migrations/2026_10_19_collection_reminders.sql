@@ -0,0 +1,136 @@
+begin;
+
+-- Editable WhatsApp texts. Placeholders: {{customer_name}}, {{amount_due}}, {{sale_date}}, {{items}}, {{store_name}}.
+create table if not exists public.reminder_templates (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  body text not null,
+  is_default boolean not null default false,
+  is_active boolean not null default true,
+  created_by uuid references public.profiles(id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create unique index if not exists uq_reminder_templates_default
+  on public.reminder_templates (is_default)
+  where is_default;
+
+-- One row per sale included in a reminder, so each sale keeps its own collection history.
+create table if not exists public.collection_reminders (
+  id uuid primary key default gen_random_uuid(),
+  sale_id uuid not null references public.sales(id) on delete cascade,
+  customer_id uuid references public.customers(id) on delete set null,
+  template_id uuid references public.reminder_templates(id) on delete set null,
+  channel text not null default 'whatsapp',
+  phone text,
+  balance_due_ars numeric not null default 0,
+  message text not null,
+  sent_by uuid references public.profiles(id) on delete set null,
+  sent_at timestamptz not null default now()
+);
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_constraint where conname = 'collection_reminders_channel_check'
+  ) then
+    alter table public.collection_reminders
+      add constraint collection_reminders_channel_check
+      check (channel in ('whatsapp'));
+  end if;
+end $$;
+
+create index if not exists idx_collection_reminders_sale_sent_at on public.collection_reminders (sale_id, sent_at desc);
+create index if not exists idx_collection_reminders_customer_sent_at on public.collection_reminders (customer_id, sent_at desc);
+
+create or replace function public.set_reminder_templates_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at := now();
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_reminder_templates_updated_at on public.reminder_templates;
+create trigger trg_reminder_templates_updated_at
+before update on public.reminder_templates
+for each row execute function public.set_reminder_templates_updated_at();
+
+-- Logs one reminder (a row per sale) unless the customer got one inside the throttle window. The customer row
+-- lock serializes concurrent sends, so two admins clicking at once cannot both get through.
+create or replace function public.rpc_log_collection_reminder_v1(
+  p_customer_id uuid,
+  p_payload jsonb,
+  p_user_id uuid,
+  p_throttle_sec integer default 86400
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_last record;
+  v_reminders jsonb;
+begin
+  perform 1
+  from public.customers
+  where id = p_customer_id
+  for update;
+
+  if not found then
+    raise exception using message = 'not_found', detail = 'customer_not_found';
+  end if;
+
+  if jsonb_typeof(p_payload->'sales') <> 'array' or jsonb_array_length(p_payload->'sales') = 0 then
+    raise exception using message = 'validation_error', detail = 'sales_required';
+  end if;
+
+  select sent_at, sent_by
+    into v_last
+  from public.collection_reminders
+  where customer_id = p_customer_id
+  order by sent_at desc
+  limit 1;
+
+  if found and v_last.sent_at > now() - make_interval(secs => greatest(coalesce(p_throttle_sec, 0), 0)) then
+    raise exception using
+      message = 'reminder_throttled',
+      detail = jsonb_build_object('last_sent_at', v_last.sent_at, 'sent_by', v_last.sent_by)::text;
+  end if;
+
+  with inserted as (
+    insert into public.collection_reminders (
+      sale_id,
+      customer_id,
+      template_id,
+      channel,
+      phone,
+      balance_due_ars,
+      message,
+      sent_by
+    )
+    select
+      (sale->>'sale_id')::uuid,
+      p_customer_id,
+      nullif(p_payload->>'template_id', '')::uuid,
+      coalesce(nullif(p_payload->>'channel', ''), 'whatsapp'),
+      nullif(p_payload->>'phone', ''),
+      coalesce(nullif(sale->>'balance_due_ars', '')::numeric, 0),
+      p_payload->>'message',
+      p_user_id
+    from jsonb_array_elements(p_payload->'sales') as sale
+    returning id, sale_id, customer_id, template_id, channel, phone, balance_due_ars, message, sent_by, sent_at
+  )
+  select coalesce(jsonb_agg(to_jsonb(inserted) order by inserted.sale_id), '[]'::jsonb)
+    into v_reminders
+  from inserted;
+
+  return jsonb_build_object('customer_id', p_customer_id, 'reminders', v_reminders);
+end;
+$$;
+
+commit;
@@ -0,0 +1,79 @@
+begin;
+
+-- A rule targets one seller, one role, or everybody (both null). The most specific match wins per item.
+create table if not exists public.commission_rules (
+  id uuid primary key default gen_random_uuid(),
+  seller_id uuid references public.profiles(id) on delete cascade,
+  role text,
+  category text,
+  basis text not null,
+  rate numeric not null,
+  is_active boolean not null default true,
+  notes text,
+  created_by uuid references public.profiles(id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_constraint where conname = 'commission_rules_basis_check'
+  ) then
+    alter table public.commission_rules
+      add constraint commission_rules_basis_check
+      check (basis in ('sale_pct', 'margin_pct', 'fixed_per_item'));
+  end if;
+
+  if not exists (
+    select 1 from pg_constraint where conname = 'commission_rules_rate_check'
+  ) then
+    alter table public.commission_rules
+      add constraint commission_rules_rate_check
+      check (rate >= 0 and (basis = 'fixed_per_item' or rate <= 100));
+  end if;
+
+  if not exists (
+    select 1 from pg_constraint where conname = 'commission_rules_target_check'
+  ) then
+    alter table public.commission_rules
+      add constraint commission_rules_target_check
+      check (seller_id is null or role is null);
+  end if;
+
+  if not exists (
+    select 1 from pg_constraint where conname = 'commission_rules_role_check'
+  ) then
+    alter table public.commission_rules
+      add constraint commission_rules_role_check
+      check (role is null or role in ('seller', 'admin', 'owner'));
+  end if;
+
+  if not exists (
+    select 1 from pg_constraint where conname = 'commission_rules_category_check'
+  ) then
+    alter table public.commission_rules
+      add constraint commission_rules_category_check
+      check (category is null or category in ('new', 'used_premium', 'outlet'));
+  end if;
+end $$;
+
+create index if not exists idx_commission_rules_seller_id on public.commission_rules (seller_id) where is_active;
+create index if not exists idx_commission_rules_role on public.commission_rules (role) where is_active;
+
+create or replace function public.set_commission_rules_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at := now();
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_commission_rules_updated_at on public.commission_rules;
+create trigger trg_commission_rules_updated_at
+before update on public.commission_rules
+for each row execute function public.set_commission_rules_updated_at();
+
+commit;
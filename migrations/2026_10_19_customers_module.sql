@@ -0,0 +1,258 @@
+begin;
+
+alter table if exists public.customers
+  add column if not exists dni text,
+  add column if not exists email text,
+  add column if not exists notes text,
+  add column if not exists merged_into_id uuid,
+  add column if not exists created_at timestamptz default now(),
+  add column if not exists updated_at timestamptz default now();
+
+update public.customers
+set dni = nullif(btrim(dni), '')
+where dni is not null;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_constraint where conname = 'customers_merged_into_id_fk'
+  ) then
+    alter table public.customers
+      add constraint customers_merged_into_id_fk
+      foreign key (merged_into_id)
+      references public.customers(id)
+      on delete set null;
+  end if;
+end $$;
+
+create index if not exists idx_customers_phone on public.customers (phone);
+create index if not exists idx_customers_lower_name on public.customers (lower(name));
+create index if not exists idx_customers_merged_into_id on public.customers (merged_into_id);
+create unique index if not exists idx_customers_dni_unique_active
+  on public.customers (lower(dni))
+  where dni is not null and merged_into_id is null;
+
+create or replace function public.trg_set_customers_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at = now();
+  return new;
+end;
+$$;
+
+drop trigger if exists customers_set_updated_at on public.customers;
+
+create trigger customers_set_updated_at
+before update on public.customers
+for each row
+execute function public.trg_set_customers_updated_at();
+
+-- Follows merged_into_id to the surviving customer. Unknown ids come back unchanged so callers keep
+-- raising their own not_found.
+create or replace function public.resolve_active_customer_id(p_customer_id uuid)
+returns uuid
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_current uuid := p_customer_id;
+  v_next uuid;
+  v_hops integer := 0;
+begin
+  loop
+    v_next := null;
+    select merged_into_id
+      into v_next
+    from public.customers
+    where id = v_current;
+
+    exit when v_next is null or v_hops >= 10;
+    v_current := v_next;
+    v_hops := v_hops + 1;
+  end loop;
+
+  return v_current;
+end;
+$$;
+
+-- Checkout and sale edits look customers up by phone without knowing about merges; whatever id they land
+-- on, the row is stored against the surviving customer.
+create or replace function public.redirect_merged_customer_id()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.customer_id is not null then
+    new.customer_id := public.resolve_active_customer_id(new.customer_id);
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_sales_redirect_merged_customer on public.sales;
+create trigger trg_sales_redirect_merged_customer
+before insert or update of customer_id on public.sales
+for each row execute function public.redirect_merged_customer_id();
+
+drop trigger if exists trg_warranties_redirect_merged_customer on public.warranties;
+create trigger trg_warranties_redirect_merged_customer
+before insert or update of customer_id on public.warranties
+for each row execute function public.redirect_merged_customer_id();
+
+-- Moves every sale/warranty/trade-in (and reservations and quotes once those tables exist) of the
+-- source customers to the target and marks the sources as merged so they disappear from searches.
+-- Trade-ins only carry the customer's name and phone, so they are rewritten to the target's.
+create or replace function public.rpc_merge_customers_v1(
+  p_target_id uuid,
+  p_source_ids uuid[],
+  p_user_id uuid
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_target record;
+  v_source_ids uuid[];
+  v_found_count integer;
+  v_sales_moved integer := 0;
+  v_warranties_moved integer := 0;
+  v_trade_ins_moved integer := 0;
+  v_reservations_moved integer := 0;
+  v_quotes_moved integer := 0;
+  v_source_phones text[];
+  v_source_dni text;
+begin
+  select array_agg(distinct source_id)
+    into v_source_ids
+  from unnest(coalesce(p_source_ids, array[]::uuid[])) as source_id
+  where source_id is not null
+    and source_id <> p_target_id;
+
+  if v_source_ids is null or array_length(v_source_ids, 1) = 0 then
+    raise exception using message = 'validation_error', detail = 'source_ids_required';
+  end if;
+
+  select *
+    into v_target
+  from public.customers
+  where id = p_target_id
+  for update;
+
+  if not found then
+    raise exception using message = 'not_found', detail = 'customer_not_found';
+  end if;
+
+  if v_target.merged_into_id is not null then
+    raise exception using message = 'conflict', detail = 'target_customer_already_merged';
+  end if;
+
+  select count(*)
+    into v_found_count
+  from public.customers
+  where id = any(v_source_ids)
+    and merged_into_id is null;
+
+  if v_found_count <> array_length(v_source_ids, 1) then
+    raise exception using message = 'not_found', detail = 'source_customer_not_found_or_merged';
+  end if;
+
+  perform 1
+  from public.customers
+  where id = any(v_source_ids)
+  for update;
+
+  select dni
+    into v_source_dni
+  from public.customers
+  where id = any(v_source_ids)
+    and dni is not null
+  order by created_at asc nulls last
+  limit 1;
+
+  select array_agg(distinct phone)
+    into v_source_phones
+  from public.customers
+  where id = any(v_source_ids)
+    and phone is not null
+    and phone is distinct from v_target.phone;
+
+  update public.trade_ins
+  set customer_name = v_target.name,
+      customer_phone = v_target.phone
+  where customer_phone = any(coalesce(v_source_phones, array[]::text[]))
+     or sale_id in (select id from public.sales where customer_id = any(v_source_ids));
+  get diagnostics v_trade_ins_moved = row_count;
+
+  update public.sales
+  set customer_id = p_target_id
+  where customer_id = any(v_source_ids);
+  get diagnostics v_sales_moved = row_count;
+
+  update public.warranties
+  set customer_id = p_target_id
+  where customer_id = any(v_source_ids);
+  get diagnostics v_warranties_moved = row_count;
+
+  if to_regclass('public.reservations') is not null then
+    execute 'update public.reservations set customer_id = $1 where customer_id = any($2)'
+      using p_target_id, v_source_ids;
+    get diagnostics v_reservations_moved = row_count;
+  end if;
+
+  if to_regclass('public.quotes') is not null then
+    execute 'update public.quotes set customer_id = $1 where customer_id = any($2)'
+      using p_target_id, v_source_ids;
+    get diagnostics v_quotes_moved = row_count;
+  end if;
+
+  update public.customers
+  set merged_into_id = p_target_id,
+      dni = null
+  where id = any(v_source_ids);
+
+  if v_target.dni is null and v_source_dni is not null then
+    update public.customers
+    set dni = v_source_dni
+    where id = p_target_id;
+  end if;
+
+  insert into public.audit_logs (
+    actor_user_id,
+    action,
+    entity_type,
+    entity_id,
+    meta_json
+  ) values (
+    p_user_id,
+    'customer_merged',
+    'customer',
+    p_target_id,
+    jsonb_build_object(
+      'source_ids', to_jsonb(v_source_ids),
+      'sales_moved', v_sales_moved,
+      'warranties_moved', v_warranties_moved,
+      'trade_ins_moved', v_trade_ins_moved,
+      'reservations_moved', v_reservations_moved,
+      'quotes_moved', v_quotes_moved
+    )
+  );
+
+  return jsonb_build_object(
+    'customer_id', p_target_id,
+    'merged_ids', to_jsonb(v_source_ids),
+    'sales_moved', v_sales_moved,
+    'warranties_moved', v_warranties_moved,
+    'trade_ins_moved', v_trade_ins_moved,
+    'reservations_moved', v_reservations_moved,
+    'quotes_moved', v_quotes_moved
+  );
+end;
+$$;
+
+commit;
@@ -0,0 +1,75 @@
+begin;
+
+-- Operating expenses for the P&L. amount_ars freezes the ARS value with the fx rate entered at load time.
+create table if not exists public.expenses (
+  id uuid primary key default gen_random_uuid(),
+  expense_date date not null default current_date,
+  category text not null,
+  description text not null,
+  currency text not null default 'ARS',
+  amount numeric not null,
+  fx_rate numeric,
+  amount_ars numeric generated always as (
+    case when currency = 'USD' then round(amount * coalesce(fx_rate, 0), 2) else amount end
+  ) stored,
+  branch_id uuid references public.branches(id) on delete set null,
+  notes text,
+  created_by uuid references public.profiles(id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_constraint where conname = 'expenses_category_check'
+  ) then
+    alter table public.expenses
+      add constraint expenses_category_check
+      check (category in ('rent', 'salaries', 'shipping', 'repairs', 'utilities', 'taxes', 'marketing', 'other'));
+  end if;
+
+  if not exists (
+    select 1 from pg_constraint where conname = 'expenses_currency_check'
+  ) then
+    alter table public.expenses
+      add constraint expenses_currency_check
+      check (currency in ('ARS', 'USD'));
+  end if;
+
+  if not exists (
+    select 1 from pg_constraint where conname = 'expenses_amount_positive_check'
+  ) then
+    alter table public.expenses
+      add constraint expenses_amount_positive_check
+      check (amount > 0);
+  end if;
+
+  if not exists (
+    select 1 from pg_constraint where conname = 'expenses_usd_fx_check'
+  ) then
+    alter table public.expenses
+      add constraint expenses_usd_fx_check
+      check (currency <> 'USD' or coalesce(fx_rate, 0) > 0);
+  end if;
+end $$;
+
+create index if not exists idx_expenses_expense_date on public.expenses (expense_date desc);
+create index if not exists idx_expenses_branch_date on public.expenses (branch_id, expense_date desc);
+
+create or replace function public.set_expenses_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at := now();
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_expenses_updated_at on public.expenses;
+create trigger trg_expenses_updated_at
+before update on public.expenses
+for each row execute function public.set_expenses_updated_at();
+
+commit;
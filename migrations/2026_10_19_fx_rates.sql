@@ -0,0 +1,54 @@
+begin;
+
+-- One quote per day and rate type. The API falls back to the latest rate on or before today
+-- whenever a stock item, trade-in or USD sale arrives without fx_rate_used.
+create table if not exists public.fx_rates (
+  id uuid primary key default gen_random_uuid(),
+  rate_date date not null default current_date,
+  rate_type text not null,
+  rate numeric not null,
+  source text,
+  notes text,
+  created_by uuid references public.profiles(id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_constraint where conname = 'fx_rates_rate_type_check'
+  ) then
+    alter table public.fx_rates
+      add constraint fx_rates_rate_type_check
+      check (rate_type in ('blue', 'oficial', 'card', 'mep'));
+  end if;
+
+  if not exists (
+    select 1 from pg_constraint where conname = 'fx_rates_rate_positive_check'
+  ) then
+    alter table public.fx_rates
+      add constraint fx_rates_rate_positive_check
+      check (rate > 0);
+  end if;
+end $$;
+
+create unique index if not exists uq_fx_rates_date_type on public.fx_rates (rate_date, rate_type);
+create index if not exists idx_fx_rates_type_date on public.fx_rates (rate_type, rate_date desc);
+
+create or replace function public.set_fx_rates_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at := now();
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_fx_rates_updated_at on public.fx_rates;
+create trigger trg_fx_rates_updated_at
+before update on public.fx_rates
+for each row execute function public.set_fx_rates_updated_at();
+
+commit;
@@ -0,0 +1,60 @@
+begin;
+
+-- In-progress keys (response_status null) are found by age, so the sweeper does not scan completed rows.
+create index if not exists idx_idempotency_keys_in_progress_created_at
+  on public.idempotency_keys (created_at)
+  where response_status is null;
+
+-- Deletes expired keys and releases keys whose request never stored a response (crash between reserve and
+-- persist). A released key lets the client retry with the same Idempotency-Key.
+create or replace function public.rpc_sweep_idempotency_keys_v1(
+  p_in_progress_timeout_sec integer default 300,
+  p_limit integer default 1000
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_limit integer := greatest(coalesce(p_limit, 1000), 1);
+  v_timeout integer := greatest(coalesce(p_in_progress_timeout_sec, 300), 30);
+  v_expired integer := 0;
+  v_released integer := 0;
+begin
+  with expired as (
+    select id
+    from public.idempotency_keys
+    where expires_at <= now()
+    order by expires_at
+    limit v_limit
+    for update skip locked
+  )
+  delete from public.idempotency_keys k
+  using expired
+  where k.id = expired.id;
+  get diagnostics v_expired = row_count;
+
+  with stuck as (
+    select id
+    from public.idempotency_keys
+    where response_status is null
+      and created_at < now() - make_interval(secs => v_timeout)
+    order by created_at
+    limit v_limit
+    for update skip locked
+  )
+  delete from public.idempotency_keys k
+  using stuck
+  where k.id = stuck.id
+    and k.response_status is null;
+  get diagnostics v_released = row_count;
+
+  return jsonb_build_object(
+    'expired_deleted', v_expired,
+    'stuck_released', v_released
+  );
+end;
+$$;
+
+commit;
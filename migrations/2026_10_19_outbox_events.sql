@@ -0,0 +1,385 @@
+begin;
+
+-- Domain events delivered by the outbox dispatcher job. They are written by the triggers below, inside the
+-- transaction of the change they describe, so an event exists if and only if its change committed.
+-- delivered_to keeps the subscribers that already handled the event so a retry only re-runs the failed ones.
+create table if not exists public.outbox_events (
+  id uuid primary key default gen_random_uuid(),
+  event_type text not null,
+  aggregate_type text not null,
+  aggregate_id uuid,
+  payload jsonb not null default '{}'::jsonb,
+  actor_user_id uuid references public.profiles(id) on delete set null,
+  status text not null default 'pending',
+  attempts integer not null default 0,
+  next_attempt_at timestamptz not null default now(),
+  locked_at timestamptz,
+  delivered_to text[] not null default array[]::text[],
+  last_error text,
+  delivered_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_constraint where conname = 'outbox_events_status_check'
+  ) then
+    alter table public.outbox_events
+      add constraint outbox_events_status_check
+      check (status in ('pending', 'processing', 'delivered', 'failed'));
+  end if;
+end $$;
+
+create index if not exists idx_outbox_events_due on public.outbox_events (next_attempt_at)
+  where status in ('pending', 'processing');
+create index if not exists idx_outbox_events_aggregate on public.outbox_events (aggregate_type, aggregate_id, created_at desc);
+create index if not exists idx_outbox_events_type_created_at on public.outbox_events (event_type, created_at desc);
+
+-- Claims due events for one dispatcher run. Rows left in 'processing' longer than p_lock_timeout_sec
+-- (a crashed worker) become claimable again.
+create or replace function public.rpc_claim_outbox_events_v1(
+  p_limit integer default 50,
+  p_lock_timeout_sec integer default 300
+)
+returns setof public.outbox_events
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  return query
+  with due as (
+    select id
+    from public.outbox_events
+    where (
+        status = 'pending'
+        and next_attempt_at <= now()
+      ) or (
+        status = 'processing'
+        and locked_at < now() - make_interval(secs => greatest(coalesce(p_lock_timeout_sec, 300), 30))
+      )
+    order by created_at
+    limit greatest(coalesce(p_limit, 50), 1)
+    for update skip locked
+  )
+  update public.outbox_events e
+  set
+    status = 'processing',
+    locked_at = now(),
+    attempts = e.attempts + 1
+  from due
+  where e.id = due.id
+  returning e.*;
+end;
+$$;
+
+-- Direct table writes from the API send the acting user in the x-actor-user-id header; RPC writes carry it
+-- in the row itself.
+create or replace function public.outbox_actor_user_id(p_row jsonb)
+returns uuid
+language plpgsql
+stable
+as $$
+declare
+  v_raw text;
+begin
+  v_raw := coalesce(
+    nullif(nullif(current_setting('request.headers', true), '')::jsonb->>'x-actor-user-id', ''),
+    p_row->>'updated_by',
+    p_row->>'cancelled_by',
+    p_row->>'closed_by',
+    p_row->>'received_by',
+    p_row->>'created_by'
+  );
+  return v_raw::uuid;
+exception
+  when invalid_text_representation then
+    return null;
+end;
+$$;
+
+create or replace function public.outbox_changed_fields(p_before jsonb, p_after jsonb)
+returns jsonb
+language sql
+immutable
+as $$
+  select coalesce(jsonb_agg(a.key order by a.key), '[]'::jsonb)
+  from jsonb_each(p_after) a
+  where a.key not in ('updated_at', 'updated_by')
+    and a.value is distinct from p_before->a.key;
+$$;
+
+create or replace function public.enqueue_outbox_event(
+  p_event_type text,
+  p_aggregate_type text,
+  p_aggregate_id uuid,
+  p_payload jsonb,
+  p_actor_user_id uuid
+)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  insert into public.outbox_events (event_type, aggregate_type, aggregate_id, payload, actor_user_id)
+  values (p_event_type, p_aggregate_type, p_aggregate_id, coalesce(p_payload, '{}'::jsonb), p_actor_user_id);
+$$;
+
+-- sale.created is deferred to commit so the payload includes the items and payments the RPC inserts after
+-- the sale row.
+create or replace function public.capture_sale_created_outbox_event()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_sale jsonb;
+begin
+  select to_jsonb(s) into v_sale from public.sales s where s.id = new.id;
+  if v_sale is null then
+    return null;
+  end if;
+
+  perform public.enqueue_outbox_event(
+    'sale.created',
+    'sale',
+    new.id,
+    jsonb_build_object(
+      'sale', v_sale,
+      'items', coalesce((
+        select jsonb_agg(to_jsonb(si) - 'sale_id' order by si.stock_item_id)
+        from public.sale_items si
+        where si.sale_id = new.id
+      ), '[]'::jsonb)
+    ),
+    public.outbox_actor_user_id(v_sale)
+  );
+  return null;
+end;
+$$;
+
+drop trigger if exists trg_sales_outbox_created on public.sales;
+create constraint trigger trg_sales_outbox_created
+after insert on public.sales
+deferrable initially deferred
+for each row execute function public.capture_sale_created_outbox_event();
+
+create or replace function public.capture_sale_status_outbox_event()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_actor uuid := public.outbox_actor_user_id(to_jsonb(new));
+begin
+  if new.status = 'cancelled' and old.status is distinct from 'cancelled' then
+    perform public.enqueue_outbox_event(
+      'sale.cancelled',
+      'sale',
+      new.id,
+      jsonb_build_object('sale_id', new.id, 'status', new.status, 'previous_status', old.status, 'reason', new.cancel_reason),
+      coalesce(new.cancelled_by, v_actor)
+    );
+  end if;
+
+  if new.receivable_status = 'paid' and old.receivable_status is distinct from 'paid' then
+    perform public.enqueue_outbox_event(
+      'sale.settled',
+      'sale',
+      new.id,
+      jsonb_build_object(
+        'sale_id', new.id,
+        'paid_ars', new.paid_ars,
+        'balance_due_ars', new.balance_due_ars,
+        'receivable_status', new.receivable_status
+      ),
+      v_actor
+    );
+  end if;
+
+  return null;
+end;
+$$;
+
+drop trigger if exists trg_sales_outbox_status on public.sales;
+create trigger trg_sales_outbox_status
+after update of status, receivable_status on public.sales
+for each row execute function public.capture_sale_status_outbox_event();
+
+-- Rows that belong to a sale (payments, reversals, returns). Deferred so the payload carries the sale
+-- balances as they stand once the RPC finished. Arguments: event type, payload key for the row.
+create or replace function public.capture_sale_child_outbox_event()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_row jsonb := to_jsonb(new);
+  v_payload jsonb;
+begin
+  select jsonb_build_object(
+      'sale_id', s.id,
+      'status', s.status,
+      'paid_ars', s.paid_ars,
+      'balance_due_ars', s.balance_due_ars,
+      'receivable_status', s.receivable_status
+    )
+    into v_payload
+  from public.sales s
+  where s.id = new.sale_id;
+
+  v_payload := coalesce(v_payload, jsonb_build_object('sale_id', new.sale_id))
+    || jsonb_build_object(tg_argv[1], v_row);
+
+  if tg_table_name = 'sale_returns' then
+    v_payload := v_payload || jsonb_build_object(
+      'stock_item_ids',
+      coalesce((
+        select jsonb_agg(ri.stock_item_id order by ri.stock_item_id)
+        from public.sale_return_items ri
+        where ri.sale_return_id = new.id
+      ), '[]'::jsonb)
+    );
+  end if;
+
+  perform public.enqueue_outbox_event(tg_argv[0], 'sale', new.sale_id, v_payload, public.outbox_actor_user_id(v_row));
+  return null;
+end;
+$$;
+
+drop trigger if exists trg_sale_payments_outbox on public.sale_payments;
+create constraint trigger trg_sale_payments_outbox
+after insert on public.sale_payments
+deferrable initially deferred
+for each row execute function public.capture_sale_child_outbox_event('sale.payment_registered', 'payment');
+
+create or replace function public.capture_stock_item_outbox_event()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_row jsonb := to_jsonb(new);
+  v_actor uuid := public.outbox_actor_user_id(v_row);
+  v_changed jsonb;
+begin
+  if tg_op = 'INSERT' then
+    perform public.enqueue_outbox_event('stock_item.created', 'stock_item', new.id, jsonb_build_object('stock_item', v_row), v_actor);
+    return null;
+  end if;
+
+  v_changed := public.outbox_changed_fields(to_jsonb(old), v_row);
+  if jsonb_array_length(v_changed) = 0 then
+    return null;
+  end if;
+
+  perform public.enqueue_outbox_event(
+    'stock_item.updated',
+    'stock_item',
+    new.id,
+    jsonb_build_object('previous_status', old.status, 'changed_fields', v_changed, 'stock_item', v_row),
+    v_actor
+  );
+
+  -- Every status change lands here, whatever flow caused it: checkout, cancel, return, reservation,
+  -- transfer, warranty replacement or a manual edit.
+  if new.status::text is distinct from old.status::text then
+    perform public.enqueue_outbox_event(
+      'stock_item.status_changed',
+      'stock_item',
+      new.id,
+      jsonb_build_object(
+        'stock_item_id', new.id,
+        'previous_status', old.status,
+        'status', new.status,
+        'sale_id', v_row->'sale_id',
+        'stock_item', v_row
+      ),
+      v_actor
+    );
+  end if;
+
+  return null;
+end;
+$$;
+
+drop trigger if exists trg_stock_items_outbox on public.stock_items;
+create trigger trg_stock_items_outbox
+after insert or update on public.stock_items
+for each row execute function public.capture_stock_item_outbox_event();
+
+create or replace function public.capture_trade_in_outbox_event()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_row jsonb := to_jsonb(new);
+  v_actor uuid := public.outbox_actor_user_id(v_row);
+  v_changed jsonb;
+begin
+  if tg_op = 'INSERT' then
+    perform public.enqueue_outbox_event('trade_in.created', 'trade_in', new.id, jsonb_build_object('trade_in', v_row), v_actor);
+    return null;
+  end if;
+
+  v_changed := public.outbox_changed_fields(to_jsonb(old), v_row);
+  if jsonb_array_length(v_changed) = 0 then
+    return null;
+  end if;
+
+  perform public.enqueue_outbox_event(
+    case when new.status = 'added_to_stock' and old.status is distinct from 'added_to_stock' then 'trade_in.converted' else 'trade_in.updated' end,
+    'trade_in',
+    new.id,
+    jsonb_build_object('previous_status', old.status, 'changed_fields', v_changed, 'trade_in', v_row),
+    v_actor
+  );
+  return null;
+end;
+$$;
+
+drop trigger if exists trg_trade_ins_outbox on public.trade_ins;
+create trigger trg_trade_ins_outbox
+after insert or update on public.trade_ins
+for each row execute function public.capture_trade_in_outbox_event();
+
+-- Shared by modules whose rows move through a status (reservations, transfers, warranty claims): emits
+-- '<aggregate>.created' and '<aggregate>.status_changed'. Argument: the aggregate type.
+create or replace function public.capture_status_outbox_event()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_row jsonb := to_jsonb(new);
+begin
+  if tg_op = 'INSERT' then
+    perform public.enqueue_outbox_event(
+      tg_argv[0] || '.created',
+      tg_argv[0],
+      new.id,
+      jsonb_build_object(tg_argv[0], v_row),
+      public.outbox_actor_user_id(v_row)
+    );
+  elsif (v_row->>'status') is distinct from (to_jsonb(old)->>'status') then
+    perform public.enqueue_outbox_event(
+      tg_argv[0] || '.status_changed',
+      tg_argv[0],
+      new.id,
+      jsonb_build_object('previous_status', to_jsonb(old)->'status', 'status', v_row->'status', tg_argv[0], v_row),
+      public.outbox_actor_user_id(v_row)
+    );
+  end if;
+  return null;
+end;
+$$;
+
+commit;
@@ -0,0 +1,67 @@
+begin;
+
+create table if not exists public.quotes (
+  id uuid primary key default gen_random_uuid(),
+  share_code text not null,
+  status text not null default 'open',
+  customer_id uuid references public.customers(id) on delete set null,
+  customer_name text,
+  customer_phone text,
+  seller_id uuid references public.profiles(id) on delete set null,
+  currency text not null default 'ARS',
+  fx_rate_used numeric,
+  subtotal_ars numeric not null,
+  trade_in_credit_ars numeric not null default 0,
+  surcharge_ars numeric not null default 0,
+  total_ars numeric not null,
+  payload jsonb not null,
+  pricing jsonb not null,
+  notes text,
+  expires_at timestamptz not null,
+  sale_id uuid references public.sales(id) on delete set null,
+  converted_at timestamptz,
+  created_by uuid references public.profiles(id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_constraint where conname = 'quotes_status_check'
+  ) then
+    alter table public.quotes
+      add constraint quotes_status_check
+      check (status in ('open', 'converted', 'cancelled'));
+  end if;
+
+  if not exists (
+    select 1 from pg_constraint where conname = 'quotes_currency_check'
+  ) then
+    alter table public.quotes
+      add constraint quotes_currency_check
+      check (currency in ('ARS', 'USD'));
+  end if;
+end $$;
+
+create unique index if not exists uq_quotes_share_code on public.quotes (share_code);
+create index if not exists idx_quotes_status_created_at on public.quotes (status, created_at desc);
+create index if not exists idx_quotes_customer_phone on public.quotes (customer_phone);
+create index if not exists idx_quotes_seller_id on public.quotes (seller_id);
+
+create or replace function public.set_quotes_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at := now();
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_quotes_updated_at on public.quotes;
+create trigger trg_quotes_updated_at
+before update on public.quotes
+for each row execute function public.set_quotes_updated_at();
+
+commit;
@@ -0,0 +1,1185 @@
+begin;
+
+create table if not exists public.reservations (
+  id uuid primary key default gen_random_uuid(),
+  stock_item_id uuid not null references public.stock_items(id) on delete restrict,
+  customer_id uuid not null references public.customers(id) on delete restrict,
+  seller_id uuid references public.profiles(id) on delete set null,
+  status text not null default 'active',
+  sale_price_ars numeric not null,
+  deposit_method text not null,
+  deposit_currency text not null default 'ARS',
+  deposit_amount numeric not null,
+  deposit_ars numeric not null,
+  fx_rate_used numeric,
+  expires_at timestamptz not null,
+  notes text,
+  sale_id uuid references public.sales(id) on delete set null,
+  closed_at timestamptz,
+  closed_by uuid references public.profiles(id) on delete set null,
+  close_reason text,
+  created_by uuid references public.profiles(id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_constraint where conname = 'reservations_status_check'
+  ) then
+    alter table public.reservations
+      add constraint reservations_status_check
+      check (status in ('active', 'converted', 'released', 'expired'));
+  end if;
+
+  if not exists (
+    select 1 from pg_constraint where conname = 'reservations_deposit_method_check'
+  ) then
+    alter table public.reservations
+      add constraint reservations_deposit_method_check
+      check (deposit_method in ('cash', 'transfer', 'card'));
+  end if;
+
+  if not exists (
+    select 1 from pg_constraint where conname = 'reservations_deposit_currency_check'
+  ) then
+    alter table public.reservations
+      add constraint reservations_deposit_currency_check
+      check (deposit_currency in ('ARS', 'USD'));
+  end if;
+
+  if not exists (
+    select 1 from pg_constraint where conname = 'reservations_amounts_positive_check'
+  ) then
+    alter table public.reservations
+      add constraint reservations_amounts_positive_check
+      check (deposit_amount > 0 and deposit_ars > 0 and sale_price_ars > 0);
+  end if;
+end $$;
+
+-- Only one live hold per phone.
+create unique index if not exists uq_reservations_active_stock_item
+  on public.reservations (stock_item_id)
+  where status = 'active';
+
+create index if not exists idx_reservations_status_expires_at on public.reservations (status, expires_at);
+create index if not exists idx_reservations_customer_id on public.reservations (customer_id);
+create index if not exists idx_reservations_created_at on public.reservations (created_at desc);
+
+-- Money side of a deposit (seña): 'received' when the hold is taken, then exactly one of 'applied' (it became
+-- the sale's first payment), 'refunded' (handed back on release) or 'forfeited' (kept by the store).
+create table if not exists public.reservation_deposit_movements (
+  id uuid primary key default gen_random_uuid(),
+  reservation_id uuid not null references public.reservations(id) on delete cascade,
+  kind text not null,
+  method text not null,
+  currency text not null default 'ARS',
+  amount numeric not null,
+  amount_ars numeric not null,
+  branch_id uuid references public.branches(id) on delete set null,
+  sale_payment_id uuid references public.sale_payments(id) on delete set null,
+  created_by uuid references public.profiles(id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_constraint where conname = 'reservation_deposit_movements_kind_check'
+  ) then
+    alter table public.reservation_deposit_movements
+      add constraint reservation_deposit_movements_kind_check
+      check (kind in ('received', 'applied', 'refunded', 'forfeited'));
+  end if;
+
+  if not exists (
+    select 1 from pg_constraint where conname = 'reservation_deposit_movements_method_check'
+  ) then
+    alter table public.reservation_deposit_movements
+      add constraint reservation_deposit_movements_method_check
+      check (method in ('cash', 'transfer', 'card'));
+  end if;
+
+  if not exists (
+    select 1 from pg_constraint where conname = 'reservation_deposit_movements_amount_check'
+  ) then
+    alter table public.reservation_deposit_movements
+      add constraint reservation_deposit_movements_amount_check
+      check (amount > 0 and amount_ars > 0);
+  end if;
+end $$;
+
+create unique index if not exists uq_reservation_deposit_movements_received
+  on public.reservation_deposit_movements (reservation_id)
+  where kind = 'received';
+
+create unique index if not exists uq_reservation_deposit_movements_settled
+  on public.reservation_deposit_movements (reservation_id)
+  where kind <> 'received';
+
+create index if not exists idx_reservation_deposit_movements_created_at
+  on public.reservation_deposit_movements (branch_id, created_at desc);
+
+create index if not exists idx_reservation_deposit_movements_sale_payment_id
+  on public.reservation_deposit_movements (sale_payment_id)
+  where sale_payment_id is not null;
+
+-- Reservations taken before the ledger existed: received on the day of the hold, settled when it closed.
+insert into public.reservation_deposit_movements (
+  reservation_id, kind, method, currency, amount, amount_ars, branch_id, created_by, created_at
+)
+select r.id, 'received', r.deposit_method, r.deposit_currency, r.deposit_amount, r.deposit_ars, st.branch_id, r.created_by, r.created_at
+from public.reservations r
+left join public.stock_items st on st.id = r.stock_item_id
+where not exists (
+  select 1 from public.reservation_deposit_movements m
+  where m.reservation_id = r.id and m.kind = 'received'
+);
+
+insert into public.reservation_deposit_movements (
+  reservation_id, kind, method, currency, amount, amount_ars, branch_id, sale_payment_id, created_by, created_at
+)
+select
+  r.id,
+  case r.status when 'converted' then 'applied' when 'released' then 'refunded' else 'forfeited' end,
+  r.deposit_method,
+  r.deposit_currency,
+  r.deposit_amount,
+  r.deposit_ars,
+  st.branch_id,
+  (
+    select sp.id
+    from public.sale_payments sp
+    where sp.sale_id = r.sale_id
+      and sp.note = format('Seña reserva %s', r.id)
+    order by sp.created_at
+    limit 1
+  ),
+  r.closed_by,
+  coalesce(r.closed_at, r.updated_at)
+from public.reservations r
+left join public.stock_items st on st.id = r.stock_item_id
+where r.status <> 'active'
+  and not exists (
+    select 1 from public.reservation_deposit_movements m
+    where m.reservation_id = r.id and m.kind <> 'received'
+  );
+
+create or replace function public.set_reservations_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at := now();
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_reservations_updated_at on public.reservations;
+create trigger trg_reservations_updated_at
+before update on public.reservations
+for each row execute function public.set_reservations_updated_at();
+
+create or replace function public.rpc_create_reservation_v1(
+  p_payload jsonb,
+  p_user_id uuid
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_reservation_id uuid;
+  v_stock_id uuid;
+  v_stock record;
+  v_customer_id uuid;
+  v_customer jsonb;
+  v_customer_name text;
+  v_customer_phone text;
+  v_seller_id uuid;
+  v_sale_price numeric;
+  v_deposit jsonb;
+  v_deposit_method text;
+  v_deposit_currency text;
+  v_deposit_amount numeric;
+  v_deposit_ars numeric;
+  v_fx_rate_used numeric;
+  v_expires_at timestamptz;
+begin
+  begin
+    v_stock_id := (p_payload->>'stock_item_id')::uuid;
+    v_customer_id := nullif(p_payload->>'customer_id', '')::uuid;
+    v_seller_id := coalesce(nullif(p_payload->>'seller_id', '')::uuid, p_user_id);
+  exception
+    when invalid_text_representation then
+      raise exception using message = 'validation_error', detail = 'invalid_uuid';
+  end;
+
+  if v_stock_id is null then
+    raise exception using message = 'validation_error', detail = 'stock_item_id_required';
+  end if;
+
+  v_expires_at := nullif(p_payload->>'expires_at', '')::timestamptz;
+  if v_expires_at is null or v_expires_at <= now() then
+    raise exception using message = 'validation_error', detail = 'expires_at_must_be_future';
+  end if;
+
+  v_deposit := coalesce(p_payload->'deposit', '{}'::jsonb);
+  v_deposit_method := lower(coalesce(nullif(v_deposit->>'method', ''), ''));
+  v_deposit_currency := upper(coalesce(nullif(v_deposit->>'currency', ''), 'ARS'));
+  v_deposit_amount := coalesce(nullif(v_deposit->>'amount', '')::numeric, 0);
+  v_fx_rate_used := nullif(p_payload->>'fx_rate_used', '')::numeric;
+
+  if v_deposit_method not in ('cash', 'transfer', 'card') then
+    raise exception using message = 'validation_error', detail = format('invalid_payment_method:%s', v_deposit_method);
+  end if;
+
+  if v_deposit_currency not in ('ARS', 'USD') then
+    raise exception using message = 'validation_error', detail = format('invalid_currency:%s', v_deposit_currency);
+  end if;
+
+  if v_deposit_amount <= 0 then
+    raise exception using message = 'validation_error', detail = 'deposit_amount_must_be_gt_0';
+  end if;
+
+  if v_deposit_currency = 'USD' then
+    if coalesce(v_fx_rate_used, 0) <= 0 then
+      raise exception using message = 'validation_error', detail = 'fx_rate_used_required_for_usd';
+    end if;
+    v_deposit_ars := round(v_deposit_amount * v_fx_rate_used, 2);
+  else
+    v_deposit_ars := v_deposit_amount;
+  end if;
+
+  if not exists (select 1 from public.profiles where id = v_seller_id) then
+    raise exception using message = 'not_found', detail = 'seller_not_found';
+  end if;
+
+  if v_customer_id is null then
+    v_customer := p_payload->'customer';
+    v_customer_name := nullif(v_customer->>'name', '');
+    v_customer_phone := nullif(v_customer->>'phone', '');
+    if v_customer_name is null or v_customer_phone is null then
+      raise exception using message = 'validation_error', detail = 'customer_name_and_phone_required';
+    end if;
+
+    select id into v_customer_id
+    from public.customers
+    where phone = v_customer_phone
+      and merged_into_id is null
+    order by created_at asc nulls last
+    limit 1;
+
+    if v_customer_id is null then
+      insert into public.customers (name, phone)
+      values (v_customer_name, v_customer_phone)
+      returning id into v_customer_id;
+    end if;
+  else
+    -- A customer picked before a merge keeps working: the hold goes to the surviving record.
+    v_customer_id := public.resolve_active_customer_id(v_customer_id);
+    if not exists (select 1 from public.customers where id = v_customer_id) then
+      raise exception using message = 'not_found', detail = 'customer_not_found';
+    end if;
+  end if;
+
+  select id, status, sale_price_ars, branch_id
+    into v_stock
+  from public.stock_items
+  where id = v_stock_id
+  for update;
+
+  if not found then
+    raise exception using message = 'not_found', detail = format('stock_item_not_found:%s', v_stock_id);
+  end if;
+
+  if v_stock.status <> 'available' then
+    raise exception using message = 'stock_conflict', detail = format('%s:%s', v_stock_id, v_stock.status);
+  end if;
+
+  v_sale_price := coalesce(nullif(p_payload->>'sale_price_ars', '')::numeric, v_stock.sale_price_ars);
+  if coalesce(v_sale_price, 0) <= 0 then
+    raise exception using message = 'validation_error', detail = 'sale_price_must_be_gt_0';
+  end if;
+
+  if v_deposit_ars > v_sale_price then
+    raise exception using message = 'validation_error', detail = 'deposit_exceeds_sale_price';
+  end if;
+
+  insert into public.reservations (
+    stock_item_id,
+    customer_id,
+    seller_id,
+    status,
+    sale_price_ars,
+    deposit_method,
+    deposit_currency,
+    deposit_amount,
+    deposit_ars,
+    fx_rate_used,
+    expires_at,
+    notes,
+    created_by
+  ) values (
+    v_stock_id,
+    v_customer_id,
+    v_seller_id,
+    'active',
+    v_sale_price,
+    v_deposit_method,
+    v_deposit_currency,
+    v_deposit_amount,
+    v_deposit_ars,
+    v_fx_rate_used,
+    v_expires_at,
+    nullif(p_payload->>'notes', ''),
+    p_user_id
+  )
+  returning id into v_reservation_id;
+
+  insert into public.reservation_deposit_movements (
+    reservation_id,
+    kind,
+    method,
+    currency,
+    amount,
+    amount_ars,
+    branch_id,
+    created_by
+  ) values (
+    v_reservation_id,
+    'received',
+    v_deposit_method,
+    v_deposit_currency,
+    v_deposit_amount,
+    v_deposit_ars,
+    v_stock.branch_id,
+    p_user_id
+  );
+
+  update public.stock_items
+  set status = 'reserved'
+  where id = v_stock_id;
+
+  insert into public.audit_logs (
+    actor_user_id,
+    action,
+    entity_type,
+    entity_id,
+    after_json,
+    meta_json
+  ) values (
+    p_user_id,
+    'reservation_created',
+    'reservation',
+    v_reservation_id,
+    jsonb_build_object(
+      'stock_item_id', v_stock_id,
+      'customer_id', v_customer_id,
+      'deposit_ars', v_deposit_ars,
+      'expires_at', v_expires_at
+    ),
+    jsonb_build_object('source', 'rpc_create_reservation_v1')
+  );
+
+  insert into public.audit_logs (
+    actor_user_id,
+    action,
+    entity_type,
+    entity_id,
+    meta_json
+  ) values (
+    p_user_id,
+    'stock_state_changed',
+    'stock_item',
+    v_stock_id,
+    jsonb_build_object('new_status', 'reserved', 'reservation_id', v_reservation_id)
+  );
+
+  return jsonb_build_object(
+    'reservation_id', v_reservation_id,
+    'stock_item_id', v_stock_id,
+    'customer_id', v_customer_id,
+    'status', 'active',
+    'sale_price_ars', v_sale_price,
+    'deposit_ars', v_deposit_ars,
+    'expires_at', v_expires_at
+  );
+end;
+$$;
+
+-- Shared by manual release and expiry: closes the hold, frees the phone if it is still reserved and settles
+-- the deposit ('refund' hands it back, 'forfeit' keeps it).
+drop function if exists public.release_reservation_internal(uuid, text, text, uuid);
+create or replace function public.release_reservation_internal(
+  p_reservation_id uuid,
+  p_status text,
+  p_reason text,
+  p_user_id uuid,
+  p_deposit_action text
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_reservation record;
+  v_stock_released boolean := false;
+  v_deposit_kind text;
+begin
+  if p_deposit_action not in ('refund', 'forfeit') then
+    raise exception using message = 'validation_error', detail = format('invalid_deposit_action:%s', p_deposit_action);
+  end if;
+  v_deposit_kind := case when p_deposit_action = 'refund' then 'refunded' else 'forfeited' end;
+
+  select *
+    into v_reservation
+  from public.reservations
+  where id = p_reservation_id
+  for update;
+
+  if not found then
+    raise exception using message = 'not_found', detail = 'reservation_not_found';
+  end if;
+
+  if v_reservation.status <> 'active' then
+    raise exception using message = 'conflict', detail = format('reservation_not_active:%s', v_reservation.status);
+  end if;
+
+  update public.reservations
+  set status = p_status,
+      closed_at = now(),
+      closed_by = p_user_id,
+      close_reason = p_reason
+  where id = p_reservation_id;
+
+  update public.stock_items
+  set status = 'available'
+  where id = v_reservation.stock_item_id
+    and status = 'reserved';
+  v_stock_released := found;
+
+  insert into public.reservation_deposit_movements (
+    reservation_id,
+    kind,
+    method,
+    currency,
+    amount,
+    amount_ars,
+    branch_id,
+    created_by
+  )
+  select
+    p_reservation_id,
+    v_deposit_kind,
+    v_reservation.deposit_method,
+    v_reservation.deposit_currency,
+    v_reservation.deposit_amount,
+    v_reservation.deposit_ars,
+    st.branch_id,
+    p_user_id
+  from public.stock_items st
+  where st.id = v_reservation.stock_item_id;
+
+  insert into public.audit_logs (
+    actor_user_id,
+    action,
+    entity_type,
+    entity_id,
+    before_json,
+    after_json,
+    meta_json
+  ) values (
+    p_user_id,
+    case when p_status = 'expired' then 'reservation_expired' else 'reservation_released' end,
+    'reservation',
+    p_reservation_id,
+    jsonb_build_object('status', v_reservation.status),
+    jsonb_build_object('status', p_status),
+    jsonb_build_object(
+      'reason', p_reason,
+      'stock_item_id', v_reservation.stock_item_id,
+      'stock_released', v_stock_released,
+      'deposit_action', p_deposit_action,
+      'deposit_ars', v_reservation.deposit_ars
+    )
+  );
+
+  if v_stock_released then
+    insert into public.audit_logs (
+      actor_user_id,
+      action,
+      entity_type,
+      entity_id,
+      meta_json
+    ) values (
+      p_user_id,
+      'stock_state_changed',
+      'stock_item',
+      v_reservation.stock_item_id,
+      jsonb_build_object('new_status', 'available', 'reservation_id', p_reservation_id)
+    );
+  end if;
+
+  return jsonb_build_object(
+    'reservation_id', p_reservation_id,
+    'status', p_status,
+    'stock_item_id', v_reservation.stock_item_id,
+    'stock_released', v_stock_released,
+    'deposit_action', p_deposit_action,
+    'deposit_ars', v_reservation.deposit_ars
+  );
+end;
+$$;
+
+drop function if exists public.rpc_release_reservation_v1(uuid, text, uuid);
+create or replace function public.rpc_release_reservation_v1(
+  p_reservation_id uuid,
+  p_reason text,
+  p_user_id uuid,
+  p_deposit_action text default 'refund'
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if nullif(btrim(coalesce(p_reason, '')), '') is null then
+    raise exception using message = 'validation_error', detail = 'reason_required';
+  end if;
+
+  return public.release_reservation_internal(
+    p_reservation_id,
+    'released',
+    p_reason,
+    p_user_id,
+    coalesce(nullif(p_deposit_action, ''), 'refund')
+  );
+end;
+$$;
+
+create or replace function public.rpc_expire_reservations_v1(
+  p_limit integer default 100
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_reservation_id uuid;
+  v_ids uuid[] := array[]::uuid[];
+begin
+  for v_reservation_id in
+    select id
+    from public.reservations
+    where status = 'active'
+      and expires_at <= now()
+    order by expires_at
+    limit greatest(coalesce(p_limit, 100), 1)
+    for update skip locked
+  loop
+    -- A customer who let the hold lapse loses the deposit.
+    perform public.release_reservation_internal(v_reservation_id, 'expired', 'expired', null, 'forfeit');
+    v_ids := array_append(v_ids, v_reservation_id);
+  end loop;
+
+  return jsonb_build_object(
+    'expired_count', coalesce(array_length(v_ids, 1), 0),
+    'reservation_ids', to_jsonb(v_ids)
+  );
+end;
+$$;
+
+-- Same checkout as 2026_02_19_sales_atomic_payments.sql with two additions for conversions: a `reservation_id`
+-- lets the sale take the stock straight from `reserved` to `sold`, and `payment_ids` lists the created
+-- payments in payload order so callers do not have to find them again.
+create or replace function public.rpc_create_sale_v2(
+  p_payload jsonb,
+  p_user_id uuid
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_sale_id uuid;
+  v_customer_id uuid;
+  v_trade_in_id uuid;
+  v_sale_date timestamptz;
+  v_customer jsonb;
+  v_payment jsonb;
+  v_trade_in jsonb;
+  v_item jsonb;
+  v_stock_id uuid;
+  v_qty integer;
+  v_sale_price numeric;
+  v_subtotal numeric;
+  v_server_total numeric := 0;
+  v_input_total numeric;
+  v_payment_method_text text;
+  v_payment_method public.payment_method;
+  v_card_brand_text text;
+  v_card_brand public.card_brand;
+  v_installments integer;
+  v_surcharge_pct numeric;
+  v_deposit_ars numeric;
+  v_currency text;
+  v_fx_rate_used numeric;
+  v_total_usd numeric;
+  v_balance_due_ars numeric;
+  v_notes text;
+  v_details text;
+  v_seller_id uuid;
+  v_includes_cube_20w boolean;
+  v_payments jsonb;
+  v_payment_item jsonb;
+  v_payment_item_method text;
+  v_payment_item_currency text;
+  v_payment_item_amount numeric;
+  v_payment_item_card_brand text;
+  v_payment_item_installments integer;
+  v_payment_item_surcharge_pct numeric;
+  v_payment_item_note text;
+  v_stock record;
+  v_warranty_days integer;
+  v_customer_name text;
+  v_customer_phone text;
+  v_reservation_id uuid;
+  v_payment_id uuid;
+  v_payment_ids jsonb := '[]'::jsonb;
+begin
+  v_sale_date := (p_payload->>'sale_date')::timestamptz;
+  if v_sale_date is null then
+    raise exception using message = 'validation_error', detail = 'sale_date_required';
+  end if;
+
+  if jsonb_typeof(p_payload->'items') <> 'array' or jsonb_array_length(p_payload->'items') = 0 then
+    raise exception using message = 'validation_error', detail = 'items_required';
+  end if;
+
+  for v_item in select value from jsonb_array_elements(p_payload->'items')
+  loop
+    v_qty := coalesce((v_item->>'qty')::integer, 1);
+    v_sale_price := coalesce((v_item->>'sale_price_ars')::numeric, 0);
+    if v_qty < 1 then
+      raise exception using message = 'validation_error', detail = 'qty_must_be_gte_1';
+    end if;
+    if v_sale_price <= 0 then
+      raise exception using message = 'validation_error', detail = 'sale_price_must_be_gt_0';
+    end if;
+    v_server_total := v_server_total + (v_qty * v_sale_price);
+  end loop;
+
+  if v_server_total <= 0 then
+    raise exception using message = 'validation_error', detail = 'total_ars_must_be_gt_0';
+  end if;
+
+  v_input_total := nullif(p_payload->>'total_ars', '')::numeric;
+  if v_input_total is not null and abs(v_input_total - v_server_total) > 0.01 then
+    raise exception using message = 'total_mismatch', detail = format('input=%s server=%s', v_input_total, v_server_total);
+  end if;
+
+  begin
+    v_seller_id := coalesce(nullif(p_payload->>'seller_id', '')::uuid, p_user_id);
+  exception
+    when invalid_text_representation then
+      raise exception using message = 'validation_error', detail = 'seller_id_invalid';
+  end;
+
+  begin
+    v_reservation_id := nullif(p_payload->>'reservation_id', '')::uuid;
+  exception
+    when invalid_text_representation then
+      raise exception using message = 'validation_error', detail = 'reservation_id_invalid';
+  end;
+
+  if not exists (select 1 from public.profiles where id = v_seller_id) then
+    raise exception using message = 'not_found', detail = 'seller_not_found';
+  end if;
+
+  v_customer_id := nullif(p_payload->>'customer_id', '')::uuid;
+  v_customer := p_payload->'customer';
+
+  if v_customer_id is null then
+    if v_customer is null then
+      raise exception using message = 'validation_error', detail = 'customer_or_customer_id_required';
+    end if;
+    v_customer_name := nullif(v_customer->>'name', '');
+    v_customer_phone := nullif(v_customer->>'phone', '');
+    if v_customer_name is null or v_customer_phone is null then
+      raise exception using message = 'validation_error', detail = 'customer_name_and_phone_required';
+    end if;
+
+    select id into v_customer_id
+    from public.customers
+    where phone = v_customer_phone
+    limit 1;
+
+    if v_customer_id is null then
+      insert into public.customers (name, phone)
+      values (v_customer_name, v_customer_phone)
+      returning id into v_customer_id;
+    else
+      update public.customers
+      set name = v_customer_name
+      where id = v_customer_id;
+    end if;
+  else
+    if not exists (select 1 from public.customers where id = v_customer_id) then
+      raise exception using message = 'not_found', detail = 'customer_not_found';
+    end if;
+  end if;
+
+  v_payment := p_payload->'payment';
+  v_payment_method_text := coalesce(nullif(p_payload->>'payment_method', ''), nullif(v_payment->>'method', ''), 'cash');
+  begin
+    v_payment_method := v_payment_method_text::public.payment_method;
+  exception
+    when invalid_text_representation then
+      raise exception using message = 'validation_error', detail = format('invalid_payment_method:%s', v_payment_method_text);
+  end;
+
+  v_card_brand_text := coalesce(nullif(p_payload->>'card_brand', ''), nullif(v_payment->>'card_brand', ''));
+  if v_card_brand_text is null then
+    v_card_brand := null;
+  else
+    begin
+      v_card_brand := v_card_brand_text::public.card_brand;
+    exception
+      when invalid_text_representation then
+        raise exception using message = 'validation_error', detail = format('invalid_card_brand:%s', v_card_brand_text);
+    end;
+  end if;
+
+  v_installments := coalesce(nullif(p_payload->>'installments', '')::integer, nullif(v_payment->>'installments', '')::integer);
+  v_surcharge_pct := coalesce(nullif(p_payload->>'surcharge_pct', '')::numeric, nullif(v_payment->>'surcharge_pct', '')::numeric);
+  v_deposit_ars := coalesce(nullif(p_payload->>'deposit_ars', '')::numeric, nullif(v_payment->>'deposit_ars', '')::numeric);
+
+  v_currency := upper(coalesce(nullif(p_payload->>'currency', ''), 'ARS'));
+  if v_currency not in ('ARS', 'USD') then
+    raise exception using message = 'validation_error', detail = format('invalid_currency:%s', v_currency);
+  end if;
+
+  v_fx_rate_used := nullif(p_payload->>'fx_rate_used', '')::numeric;
+  if v_currency = 'USD' and coalesce(v_fx_rate_used, 0) <= 0 then
+    raise exception using message = 'validation_error', detail = 'fx_rate_used_required_for_usd';
+  end if;
+
+  v_total_usd := nullif(p_payload->>'total_usd', '')::numeric;
+  if v_total_usd is null and v_currency = 'USD' and coalesce(v_fx_rate_used, 0) > 0 then
+    v_total_usd := round(v_server_total / v_fx_rate_used, 2);
+  end if;
+
+  v_balance_due_ars := coalesce(nullif(p_payload->>'balance_due_ars', '')::numeric, greatest(v_server_total - coalesce(v_deposit_ars, 0), 0));
+  v_notes := nullif(p_payload->>'notes', '');
+  v_details := nullif(p_payload->>'details', '');
+  v_includes_cube_20w := coalesce((p_payload->>'includes_cube_20w')::boolean, false);
+
+  insert into public.sales (
+    sale_date,
+    customer_id,
+    seller_id,
+    payment_method,
+    card_brand,
+    installments,
+    surcharge_pct,
+    deposit_ars,
+    total_ars,
+    created_by,
+    status,
+    updated_at,
+    updated_by,
+    currency,
+    fx_rate_used,
+    total_usd,
+    balance_due_ars,
+    details,
+    notes,
+    includes_cube_20w
+  ) values (
+    v_sale_date,
+    v_customer_id,
+    v_seller_id,
+    v_payment_method,
+    v_card_brand,
+    v_installments,
+    v_surcharge_pct,
+    v_deposit_ars,
+    v_server_total,
+    p_user_id,
+    'completed',
+    now(),
+    p_user_id,
+    v_currency,
+    v_fx_rate_used,
+    v_total_usd,
+    v_balance_due_ars,
+    v_details,
+    v_notes,
+    v_includes_cube_20w
+  )
+  returning id into v_sale_id;
+
+  for v_item in select value from jsonb_array_elements(p_payload->'items')
+  loop
+    v_stock_id := (v_item->>'stock_item_id')::uuid;
+    v_qty := coalesce((v_item->>'qty')::integer, 1);
+    v_sale_price := (v_item->>'sale_price_ars')::numeric;
+    v_subtotal := v_qty * v_sale_price;
+
+    if v_qty <> 1 then
+      raise exception using message = 'validation_error', detail = format('qty_not_supported_for_serialized_stock:%s', v_stock_id);
+    end if;
+
+    select id, status, purchase_ars, coalesce(warranty_days, warranty_days_default, 90) as warranty_days
+      into v_stock
+    from public.stock_items
+    where id = v_stock_id
+    for update;
+
+    if not found then
+      raise exception using message = 'not_found', detail = format('stock_item_not_found:%s', v_stock_id);
+    end if;
+
+    -- Reserved stock is only sold by the conversion of its own active reservation.
+    if v_stock.status <> 'available' and not (
+      v_stock.status = 'reserved'
+      and v_reservation_id is not null
+      and exists (
+        select 1
+        from public.reservations r
+        where r.id = v_reservation_id
+          and r.stock_item_id = v_stock_id
+          and r.status = 'active'
+      )
+    ) then
+      raise exception using message = 'stock_unavailable', detail = format('%s:%s', v_stock_id, v_stock.status);
+    end if;
+
+    insert into public.sale_items (
+      sale_id,
+      stock_item_id,
+      qty,
+      sale_price_ars,
+      subtotal_ars,
+      unit_cost_ars
+    ) values (
+      v_sale_id,
+      v_stock_id,
+      v_qty,
+      v_sale_price,
+      v_subtotal,
+      v_stock.purchase_ars
+    );
+
+    update public.stock_items
+      set status = 'sold'
+    where id = v_stock_id;
+
+    v_warranty_days := coalesce(v_stock.warranty_days, 90);
+    insert into public.warranties (
+      sale_id,
+      stock_item_id,
+      customer_id,
+      start_date,
+      end_date,
+      warranty_days,
+      warranty_start,
+      warranty_end
+    ) values (
+      v_sale_id,
+      v_stock_id,
+      v_customer_id,
+      v_sale_date::date,
+      (v_sale_date::date + v_warranty_days),
+      v_warranty_days,
+      v_sale_date::date,
+      (v_sale_date::date + v_warranty_days)
+    );
+  end loop;
+
+  v_payments := p_payload->'payments';
+  if v_payments is null then
+    insert into public.sale_payments (
+      sale_id,
+      method,
+      currency,
+      amount,
+      card_brand,
+      installments,
+      surcharge_pct,
+      note
+    ) values (
+      v_sale_id,
+      lower(v_payment_method::text),
+      v_currency,
+      v_server_total,
+      v_card_brand_text,
+      v_installments,
+      v_surcharge_pct,
+      null
+    )
+    returning id into v_payment_id;
+    v_payment_ids := v_payment_ids || to_jsonb(v_payment_id);
+  else
+    if jsonb_typeof(v_payments) <> 'array' or jsonb_array_length(v_payments) = 0 then
+      raise exception using message = 'validation_error', detail = 'payments_required';
+    end if;
+
+    for v_payment_item in select value from jsonb_array_elements(v_payments)
+    loop
+      v_payment_item_method := lower(coalesce(nullif(v_payment_item->>'method', ''), ''));
+      if v_payment_item_method not in ('cash', 'transfer', 'card', 'mixed', 'trade_in') then
+        raise exception using message = 'validation_error', detail = format('invalid_payment_method:%s', v_payment_item_method);
+      end if;
+
+      v_payment_item_currency := upper(coalesce(nullif(v_payment_item->>'currency', ''), v_currency, 'ARS'));
+      if v_payment_item_currency not in ('ARS', 'USD') then
+        raise exception using message = 'validation_error', detail = format('invalid_currency:%s', v_payment_item_currency);
+      end if;
+
+      v_payment_item_amount := coalesce(nullif(v_payment_item->>'amount', '')::numeric, 0);
+      if v_payment_item_amount <= 0 then
+        raise exception using message = 'validation_error', detail = 'payment_amount_must_be_gt_0';
+      end if;
+
+      v_payment_item_card_brand := nullif(v_payment_item->>'card_brand', '');
+      v_payment_item_installments := nullif(v_payment_item->>'installments', '')::integer;
+      if v_payment_item_installments is not null and v_payment_item_installments < 1 then
+        raise exception using message = 'validation_error', detail = 'payment_installments_must_be_gte_1';
+      end if;
+
+      v_payment_item_surcharge_pct := nullif(v_payment_item->>'surcharge_pct', '')::numeric;
+      if v_payment_item_surcharge_pct is not null and v_payment_item_surcharge_pct < 0 then
+        raise exception using message = 'validation_error', detail = 'payment_surcharge_pct_must_be_gte_0';
+      end if;
+
+      v_payment_item_note := nullif(v_payment_item->>'note', '');
+
+      insert into public.sale_payments (
+        sale_id,
+        method,
+        currency,
+        amount,
+        card_brand,
+        installments,
+        surcharge_pct,
+        note
+      ) values (
+        v_sale_id,
+        v_payment_item_method,
+        v_payment_item_currency,
+        v_payment_item_amount,
+        v_payment_item_card_brand,
+        v_payment_item_installments,
+        v_payment_item_surcharge_pct,
+        v_payment_item_note
+      )
+      returning id into v_payment_id;
+      v_payment_ids := v_payment_ids || to_jsonb(v_payment_id);
+    end loop;
+  end if;
+
+  v_trade_in := p_payload->'trade_in';
+  if coalesce((v_trade_in->>'enabled')::boolean, false) then
+    insert into public.trade_ins (
+      sale_id,
+      device,
+      trade_value_usd,
+      fx_rate_used,
+      status,
+      customer_name,
+      customer_phone,
+      sale_ref
+    ) values (
+      v_sale_id,
+      coalesce(v_trade_in->'device', '{}'::jsonb),
+      coalesce((v_trade_in->>'trade_value_usd')::numeric, 0),
+      coalesce((v_trade_in->>'fx_rate_used')::numeric, 0),
+      'valued',
+      v_customer_name,
+      v_customer_phone,
+      v_sale_id::text
+    )
+    returning id into v_trade_in_id;
+  end if;
+
+  insert into public.sale_audit_logs (sale_id, action, actor_user_id, payload)
+  values (v_sale_id, 'created', p_user_id, p_payload);
+
+  return jsonb_build_object(
+    'sale_id', v_sale_id,
+    'trade_in_id', v_trade_in_id,
+    'customer_id', v_customer_id,
+    'seller_id', v_seller_id,
+    'total_ars', v_server_total,
+    'server_total_ars', v_server_total,
+    'currency', v_currency,
+    'fx_rate_used', v_fx_rate_used,
+    'total_usd', v_total_usd,
+    'balance_due_ars', v_balance_due_ars,
+    'details', v_details,
+    'notes', v_notes,
+    'includes_cube_20w', v_includes_cube_20w,
+    'payment_ids', v_payment_ids
+  );
+end;
+$$;
+
+-- Converts through rpc_create_sale_v2 so checkout rules (warranties, receivables, audit) stay in one place.
+-- The deposit is applied as the first sale payment.
+create or replace function public.rpc_convert_reservation_v1(
+  p_reservation_id uuid,
+  p_payload jsonb,
+  p_user_id uuid
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_reservation record;
+  v_sale_payload jsonb;
+  v_payments jsonb;
+  v_currency text;
+  v_fx_rate_used numeric;
+  v_sale_result jsonb;
+  v_sale_id uuid;
+  v_deposit_payment_id uuid;
+begin
+  select *
+    into v_reservation
+  from public.reservations
+  where id = p_reservation_id
+  for update;
+
+  if not found then
+    raise exception using message = 'not_found', detail = 'reservation_not_found';
+  end if;
+
+  if v_reservation.status <> 'active' then
+    raise exception using message = 'conflict', detail = format('reservation_not_active:%s', v_reservation.status);
+  end if;
+
+  if v_reservation.expires_at <= now() then
+    raise exception using message = 'conflict', detail = 'reservation_expired';
+  end if;
+
+  perform 1
+  from public.stock_items
+  where id = v_reservation.stock_item_id
+    and status = 'reserved'
+  for update;
+
+  if not found then
+    raise exception using message = 'stock_conflict', detail = format('%s:not_reserved', v_reservation.stock_item_id);
+  end if;
+
+  v_currency := upper(coalesce(nullif(p_payload->>'currency', ''), 'ARS'));
+  v_fx_rate_used := coalesce(nullif(p_payload->>'fx_rate_used', '')::numeric, v_reservation.fx_rate_used);
+
+  v_payments := jsonb_build_array(jsonb_build_object(
+    'method', v_reservation.deposit_method,
+    'currency', v_reservation.deposit_currency,
+    'amount', v_reservation.deposit_amount,
+    'note', format('Seña reserva %s', p_reservation_id)
+  ));
+
+  if jsonb_typeof(p_payload->'payments') = 'array' then
+    v_payments := v_payments || (p_payload->'payments');
+  end if;
+
+  v_sale_payload := jsonb_strip_nulls(jsonb_build_object(
+    'sale_date', coalesce(nullif(p_payload->>'sale_date', ''), now()::text),
+    'customer_id', v_reservation.customer_id,
+    'seller_id', coalesce(nullif(p_payload->>'seller_id', ''), v_reservation.seller_id::text),
+    'payment_method', coalesce(nullif(p_payload->>'payment_method', ''), v_reservation.deposit_method),
+    'currency', v_currency,
+    'fx_rate_used', v_fx_rate_used,
+    'items', jsonb_build_array(jsonb_build_object(
+      'stock_item_id', v_reservation.stock_item_id,
+      'qty', 1,
+      'sale_price_ars', coalesce(nullif(p_payload->>'sale_price_ars', '')::numeric, v_reservation.sale_price_ars)
+    )),
+    'payments', v_payments,
+    'notes', nullif(p_payload->>'notes', ''),
+    'details', nullif(p_payload->>'details', ''),
+    'includes_cube_20w', (p_payload->>'includes_cube_20w')::boolean,
+    'reservation_id', p_reservation_id
+  ));
+
+  -- reservation_id lets rpc_create_sale_v2 sell the reserved unit without passing through 'available'.
+  v_sale_result := public.rpc_create_sale_v2(v_sale_payload, p_user_id);
+  v_sale_id := (v_sale_result->>'sale_id')::uuid;
+  -- The deposit is the first payment of the payload.
+  v_deposit_payment_id := (v_sale_result->'payment_ids'->>0)::uuid;
+
+  -- The deposit already counted as money in when it was received; the sale payment it became is only a
+  -- transfer of that money, so cash reports skip it through sale_payment_id.
+  insert into public.reservation_deposit_movements (
+    reservation_id,
+    kind,
+    method,
+    currency,
+    amount,
+    amount_ars,
+    branch_id,
+    sale_payment_id,
+    created_by
+  )
+  select
+    p_reservation_id,
+    'applied',
+    v_reservation.deposit_method,
+    v_reservation.deposit_currency,
+    v_reservation.deposit_amount,
+    v_reservation.deposit_ars,
+    st.branch_id,
+    v_deposit_payment_id,
+    p_user_id
+  from public.stock_items st
+  where st.id = v_reservation.stock_item_id;
+
+  update public.reservations
+  set status = 'converted',
+      sale_id = v_sale_id,
+      closed_at = now(),
+      closed_by = p_user_id,
+      close_reason = 'converted'
+  where id = p_reservation_id;
+
+  insert into public.audit_logs (
+    actor_user_id,
+    action,
+    entity_type,
+    entity_id,
+    before_json,
+    after_json,
+    meta_json
+  ) values (
+    p_user_id,
+    'reservation_converted',
+    'reservation',
+    p_reservation_id,
+    jsonb_build_object('status', 'active'),
+    jsonb_build_object('status', 'converted', 'sale_id', v_sale_id),
+    jsonb_build_object('deposit_ars', v_reservation.deposit_ars, 'source', 'rpc_convert_reservation_v1')
+  );
+
+  return v_sale_result || jsonb_build_object('reservation_id', p_reservation_id, 'deposit_ars', v_reservation.deposit_ars);
+end;
+$$;
+
+drop trigger if exists trg_reservations_outbox on public.reservations;
+create trigger trg_reservations_outbox
+after insert or update of status on public.reservations
+for each row execute function public.capture_status_outbox_event('reservation');
+
+commit;
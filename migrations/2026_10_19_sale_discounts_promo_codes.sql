@@ -0,0 +1,556 @@
+begin;
+
+-- List price is snapshotted from stock_items so discounts stay reportable after the stock price changes.
+alter table if exists public.sale_items
+  add column if not exists list_price_ars numeric,
+  add column if not exists discount_ars numeric not null default 0,
+  add column if not exists promo_discount_ars numeric not null default 0;
+
+create table if not exists public.promo_codes (
+  id uuid primary key default gen_random_uuid(),
+  code text not null,
+  description text,
+  discount_type text not null,
+  discount_value numeric not null,
+  min_total_ars numeric,
+  starts_at timestamptz,
+  ends_at timestamptz,
+  max_uses integer,
+  uses_count integer not null default 0,
+  is_active boolean not null default true,
+  created_by uuid references public.profiles(id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create table if not exists public.promo_code_redemptions (
+  id uuid primary key default gen_random_uuid(),
+  promo_code_id uuid not null references public.promo_codes(id) on delete restrict,
+  sale_id uuid not null references public.sales(id) on delete cascade,
+  customer_id uuid references public.customers(id) on delete set null,
+  subtotal_before_ars numeric not null,
+  discount_ars numeric not null,
+  redeemed_by uuid references public.profiles(id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+alter table if exists public.sales
+  add column if not exists promo_code_id uuid references public.promo_codes(id) on delete set null,
+  add column if not exists promo_discount_ars numeric not null default 0;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_constraint where conname = 'promo_codes_discount_type_check'
+  ) then
+    alter table public.promo_codes
+      add constraint promo_codes_discount_type_check
+      check (discount_type in ('percent', 'fixed'));
+  end if;
+
+  if not exists (
+    select 1 from pg_constraint where conname = 'promo_codes_discount_value_check'
+  ) then
+    alter table public.promo_codes
+      add constraint promo_codes_discount_value_check
+      check (discount_value > 0 and (discount_type <> 'percent' or discount_value <= 100));
+  end if;
+
+  if not exists (
+    select 1 from pg_constraint where conname = 'promo_codes_max_uses_check'
+  ) then
+    alter table public.promo_codes
+      add constraint promo_codes_max_uses_check
+      check (max_uses is null or max_uses > 0);
+  end if;
+
+  if not exists (
+    select 1 from pg_constraint where conname = 'promo_codes_validity_check'
+  ) then
+    alter table public.promo_codes
+      add constraint promo_codes_validity_check
+      check (starts_at is null or ends_at is null or ends_at > starts_at);
+  end if;
+end $$;
+
+create unique index if not exists uq_promo_codes_code on public.promo_codes (upper(code));
+create unique index if not exists uq_promo_code_redemptions_sale on public.promo_code_redemptions (sale_id);
+create index if not exists idx_promo_code_redemptions_promo on public.promo_code_redemptions (promo_code_id, created_at desc);
+create index if not exists idx_sales_promo_code_id on public.sales (promo_code_id);
+
+create or replace function public.set_promo_codes_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at := now();
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_promo_codes_updated_at on public.promo_codes;
+create trigger trg_promo_codes_updated_at
+before update on public.promo_codes
+for each row execute function public.set_promo_codes_updated_at();
+
+-- Every writer of sale_items (checkout, edit, reservations) goes through this, so no RPC needs to know about list prices.
+create or replace function public.set_sale_items_discount()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.list_price_ars is null then
+    select sale_price_ars
+      into new.list_price_ars
+    from public.stock_items
+    where id = new.stock_item_id;
+  end if;
+
+  new.discount_ars := greatest(
+    coalesce(new.list_price_ars * coalesce(new.qty, 1), 0)
+      - coalesce(new.subtotal_ars, coalesce(new.sale_price_ars, 0) * coalesce(new.qty, 1)),
+    0
+  );
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_sale_items_discount on public.sale_items;
+create trigger trg_sale_items_discount
+before insert or update of list_price_ars, qty, sale_price_ars, subtotal_ars on public.sale_items
+for each row execute function public.set_sale_items_discount();
+
+update public.sale_items si
+set list_price_ars = st.sale_price_ars
+from public.stock_items st
+where st.id = si.stock_item_id
+  and si.list_price_ars is null
+  and st.sale_price_ars is not null;
+
+-- Item prices in p_payload already carry the promo discount; p_payload->'promo' holds the split so the
+-- code can be re-checked under lock and its usage counted in the same transaction as the sale.
+create or replace function public.rpc_create_sale_with_promo_v1(
+  p_payload jsonb,
+  p_user_id uuid
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_promo_payload jsonb;
+  v_promo record;
+  v_subtotal_before numeric;
+  v_discount numeric;
+  v_expected_discount numeric;
+  v_result jsonb;
+  v_sale_id uuid;
+  v_item jsonb;
+begin
+  v_promo_payload := p_payload->'promo';
+  if v_promo_payload is null or nullif(v_promo_payload->>'promo_code_id', '') is null then
+    raise exception using message = 'validation_error', detail = 'promo_required';
+  end if;
+
+  select *
+    into v_promo
+  from public.promo_codes
+  where id = (v_promo_payload->>'promo_code_id')::uuid
+  for update;
+
+  if not found then
+    raise exception using message = 'validation_error', detail = 'promo_code_not_found';
+  end if;
+
+  if not v_promo.is_active
+    or (v_promo.starts_at is not null and v_promo.starts_at > now())
+    or (v_promo.ends_at is not null and v_promo.ends_at <= now()) then
+    raise exception using message = 'conflict', detail = 'promo_code_inactive';
+  end if;
+
+  if v_promo.max_uses is not null and v_promo.uses_count >= v_promo.max_uses then
+    raise exception using message = 'conflict', detail = 'promo_code_exhausted';
+  end if;
+
+  v_subtotal_before := coalesce(nullif(v_promo_payload->>'subtotal_before_ars', '')::numeric, 0);
+  v_discount := coalesce(nullif(v_promo_payload->>'discount_ars', '')::numeric, 0);
+
+  if v_promo.min_total_ars is not null and v_subtotal_before < v_promo.min_total_ars then
+    raise exception using message = 'validation_error', detail = format('promo_code_min_total:%s', v_promo.min_total_ars);
+  end if;
+
+  if v_promo.discount_type = 'percent' then
+    v_expected_discount := round(v_subtotal_before * v_promo.discount_value / 100, 2);
+  else
+    v_expected_discount := least(v_promo.discount_value, v_subtotal_before);
+  end if;
+
+  if abs(v_expected_discount - v_discount) > 0.01 then
+    raise exception using message = 'validation_error', detail = format('promo_discount_mismatch:%s<>%s', v_discount, v_expected_discount);
+  end if;
+
+  v_result := public.rpc_create_sale_v2(p_payload - 'promo', p_user_id);
+  v_sale_id := (v_result->>'sale_id')::uuid;
+
+  update public.sales
+  set
+    promo_code_id = v_promo.id,
+    promo_discount_ars = v_discount
+  where id = v_sale_id;
+
+  for v_item in select value from jsonb_array_elements(coalesce(v_promo_payload->'items', '[]'::jsonb))
+  loop
+    update public.sale_items
+    set promo_discount_ars = coalesce(nullif(v_item->>'promo_discount_ars', '')::numeric, 0)
+    where sale_id = v_sale_id
+      and stock_item_id = (v_item->>'stock_item_id')::uuid;
+  end loop;
+
+  insert into public.promo_code_redemptions (
+    promo_code_id,
+    sale_id,
+    customer_id,
+    subtotal_before_ars,
+    discount_ars,
+    redeemed_by
+  ) values (
+    v_promo.id,
+    v_sale_id,
+    nullif(v_result->>'customer_id', '')::uuid,
+    v_subtotal_before,
+    v_discount,
+    p_user_id
+  );
+
+  update public.promo_codes
+  set uses_count = uses_count + 1
+  where id = v_promo.id;
+
+  insert into public.audit_logs (
+    actor_user_id,
+    action,
+    entity_type,
+    entity_id,
+    meta_json
+  ) values (
+    p_user_id,
+    'promo_code_redeemed',
+    'sale',
+    v_sale_id,
+    jsonb_build_object(
+      'promo_code_id', v_promo.id,
+      'code', v_promo.code,
+      'subtotal_before_ars', v_subtotal_before,
+      'discount_ars', v_discount
+    )
+  );
+
+  return v_result || jsonb_build_object(
+    'promo_code', v_promo.code,
+    'promo_discount_ars', v_discount
+  );
+end;
+$$;
+
+-- Same as the 2026_02_15 definition, plus: items that survive an edit keep their share of the promo
+-- discount (and the sale total follows), the promo_code link is left as is, and customers resolve
+-- through merges. rpc_update_sale_versioned_v1 calls this.
+create or replace function public.rpc_update_sale_v2(
+  p_sale_id uuid,
+  p_payload jsonb,
+  p_user_id uuid
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_sale record;
+  v_sale_date timestamptz;
+  v_customer jsonb;
+  v_payment jsonb;
+  v_item jsonb;
+  v_items jsonb;
+  v_customer_id uuid;
+  v_total_ars numeric := 0;
+  v_input_total numeric;
+  v_payment_method_text text;
+  v_payment_method public.payment_method;
+  v_card_brand_text text;
+  v_card_brand public.card_brand;
+  v_installments integer;
+  v_surcharge_pct numeric;
+  v_deposit_ars numeric;
+  v_currency text;
+  v_fx_rate_used numeric;
+  v_total_usd numeric;
+  v_balance_due_ars numeric;
+  v_notes text;
+  v_includes_cube_20w boolean;
+  v_qty integer;
+  v_sale_price numeric;
+  v_subtotal numeric;
+  v_stock_id uuid;
+  v_stock record;
+  v_warranty_days integer;
+  v_customer_name text;
+  v_customer_phone text;
+  v_previous_promo jsonb;
+begin
+  select *
+    into v_sale
+  from public.sales
+  where id = p_sale_id
+  for update;
+
+  if not found then
+    raise exception using message = 'not_found', detail = 'sale_not_found';
+  end if;
+
+  if v_sale.status = 'cancelled' then
+    raise exception using message = 'conflict', detail = 'sale_already_cancelled';
+  end if;
+
+  v_sale_date := coalesce((p_payload->>'sale_date')::timestamptz, v_sale.sale_date);
+  v_customer_id := public.resolve_active_customer_id(
+    coalesce(nullif(p_payload->>'customer_id', '')::uuid, v_sale.customer_id)
+  );
+  v_customer := p_payload->'customer';
+
+  if v_customer is not null then
+    v_customer_name := nullif(v_customer->>'name', '');
+    v_customer_phone := nullif(v_customer->>'phone', '');
+    if v_customer_name is null or v_customer_phone is null then
+      raise exception using message = 'validation_error', detail = 'customer_name_and_phone_required';
+    end if;
+
+    select id into v_customer_id
+    from public.customers
+    where phone = v_customer_phone
+      and merged_into_id is null
+    order by created_at asc nulls last
+    limit 1;
+
+    if v_customer_id is null then
+      insert into public.customers (name, phone)
+      values (v_customer_name, v_customer_phone)
+      returning id into v_customer_id;
+    else
+      update public.customers
+      set name = v_customer_name
+      where id = v_customer_id;
+    end if;
+  end if;
+
+  v_payment := p_payload->'payment';
+  v_payment_method_text := coalesce(nullif(p_payload->>'payment_method', ''), nullif(v_payment->>'method', ''), v_sale.payment_method::text, 'cash');
+  begin
+    v_payment_method := v_payment_method_text::public.payment_method;
+  exception
+    when invalid_text_representation then
+      raise exception using message = 'validation_error', detail = format('invalid_payment_method:%s', v_payment_method_text);
+  end;
+
+  v_card_brand_text := coalesce(nullif(p_payload->>'card_brand', ''), nullif(v_payment->>'card_brand', ''), v_sale.card_brand::text);
+  if v_card_brand_text is null then
+    v_card_brand := null;
+  else
+    begin
+      v_card_brand := v_card_brand_text::public.card_brand;
+    exception
+      when invalid_text_representation then
+        raise exception using message = 'validation_error', detail = format('invalid_card_brand:%s', v_card_brand_text);
+    end;
+  end if;
+
+  v_installments := coalesce(nullif(p_payload->>'installments', '')::integer, nullif(v_payment->>'installments', '')::integer, v_sale.installments);
+  v_surcharge_pct := coalesce(nullif(p_payload->>'surcharge_pct', '')::numeric, nullif(v_payment->>'surcharge_pct', '')::numeric, v_sale.surcharge_pct);
+  v_deposit_ars := coalesce(nullif(p_payload->>'deposit_ars', '')::numeric, nullif(v_payment->>'deposit_ars', '')::numeric, v_sale.deposit_ars);
+
+  v_currency := upper(coalesce(nullif(p_payload->>'currency', ''), v_sale.currency, 'ARS'));
+  if v_currency not in ('ARS', 'USD') then
+    raise exception using message = 'validation_error', detail = format('invalid_currency:%s', v_currency);
+  end if;
+
+  v_fx_rate_used := coalesce(nullif(p_payload->>'fx_rate_used', '')::numeric, v_sale.fx_rate_used);
+  if v_currency = 'USD' and coalesce(v_fx_rate_used, 0) <= 0 then
+    raise exception using message = 'validation_error', detail = 'fx_rate_used_required_for_usd';
+  end if;
+
+  v_items := p_payload->'items';
+
+  if v_items is null then
+    select coalesce(sum(subtotal_ars), 0) into v_total_ars
+    from public.sale_items
+    where sale_id = p_sale_id;
+  else
+    if jsonb_typeof(v_items) <> 'array' or jsonb_array_length(v_items) = 0 then
+      raise exception using message = 'validation_error', detail = 'items_required';
+    end if;
+
+    update public.stock_items
+    set status = 'available'
+    where id in (
+      select stock_item_id
+      from public.sale_items
+      where sale_id = p_sale_id
+    );
+
+    select coalesce(jsonb_object_agg(stock_item_id::text, promo_discount_ars), '{}'::jsonb)
+      into v_previous_promo
+    from public.sale_items
+    where sale_id = p_sale_id
+      and promo_discount_ars > 0;
+
+    delete from public.warranties where sale_id = p_sale_id;
+    delete from public.sale_items where sale_id = p_sale_id;
+
+    for v_item in select value from jsonb_array_elements(v_items)
+    loop
+      v_qty := coalesce((v_item->>'qty')::integer, 1);
+      v_sale_price := coalesce((v_item->>'sale_price_ars')::numeric, 0);
+      v_stock_id := (v_item->>'stock_item_id')::uuid;
+
+      if v_qty < 1 then
+        raise exception using message = 'validation_error', detail = 'qty_must_be_gte_1';
+      end if;
+      if v_sale_price <= 0 then
+        raise exception using message = 'validation_error', detail = 'sale_price_must_be_gt_0';
+      end if;
+      if v_qty <> 1 then
+        raise exception using message = 'validation_error', detail = format('qty_not_supported_for_serialized_stock:%s', v_stock_id);
+      end if;
+
+      select id, status, purchase_ars, coalesce(warranty_days, warranty_days_default, 90) as warranty_days
+        into v_stock
+      from public.stock_items
+      where id = v_stock_id
+      for update;
+
+      if not found then
+        raise exception using message = 'not_found', detail = format('stock_item_not_found:%s', v_stock_id);
+      end if;
+
+      if v_stock.status <> 'available' then
+        raise exception using message = 'stock_unavailable', detail = format('%s:%s', v_stock_id, v_stock.status);
+      end if;
+
+      v_subtotal := v_qty * v_sale_price;
+      v_total_ars := v_total_ars + v_subtotal;
+
+      insert into public.sale_items (
+        sale_id,
+        stock_item_id,
+        qty,
+        sale_price_ars,
+        subtotal_ars,
+        unit_cost_ars,
+        promo_discount_ars
+      ) values (
+        p_sale_id,
+        v_stock_id,
+        v_qty,
+        v_sale_price,
+        v_subtotal,
+        v_stock.purchase_ars,
+        coalesce((v_previous_promo->>v_stock_id::text)::numeric, 0)
+      );
+
+      update public.stock_items
+        set status = 'sold'
+      where id = v_stock_id;
+
+      v_warranty_days := coalesce(v_stock.warranty_days, 90);
+      insert into public.warranties (
+        sale_id,
+        stock_item_id,
+        customer_id,
+        start_date,
+        end_date,
+        warranty_days,
+        warranty_start,
+        warranty_end
+      ) values (
+        p_sale_id,
+        v_stock_id,
+        v_customer_id,
+        v_sale_date::date,
+        (v_sale_date::date + v_warranty_days),
+        v_warranty_days,
+        v_sale_date::date,
+        (v_sale_date::date + v_warranty_days)
+      );
+    end loop;
+
+    -- A raised price cannot leave more promo than total discount on the line.
+    update public.sale_items
+    set promo_discount_ars = least(promo_discount_ars, discount_ars)
+    where sale_id = p_sale_id
+      and promo_discount_ars > discount_ars;
+  end if;
+
+  if v_total_ars <= 0 then
+    raise exception using message = 'validation_error', detail = 'total_ars_must_be_gt_0';
+  end if;
+
+  v_input_total := nullif(p_payload->>'total_ars', '')::numeric;
+  if v_input_total is not null and abs(v_input_total - v_total_ars) > 0.01 then
+    raise exception using message = 'total_mismatch', detail = format('input=%s server=%s', v_input_total, v_total_ars);
+  end if;
+
+  v_total_usd := coalesce(nullif(p_payload->>'total_usd', '')::numeric, v_sale.total_usd);
+  if v_total_usd is null and v_currency = 'USD' and coalesce(v_fx_rate_used, 0) > 0 then
+    v_total_usd := round(v_total_ars / v_fx_rate_used, 2);
+  end if;
+
+  v_balance_due_ars := coalesce(nullif(p_payload->>'balance_due_ars', '')::numeric, greatest(v_total_ars - coalesce(v_deposit_ars, 0), 0));
+  v_notes := coalesce(nullif(p_payload->>'notes', ''), v_sale.notes);
+  v_includes_cube_20w := coalesce((p_payload->>'includes_cube_20w')::boolean, v_sale.includes_cube_20w, false);
+
+  update public.sales
+  set
+    sale_date = v_sale_date,
+    customer_id = v_customer_id,
+    payment_method = v_payment_method,
+    card_brand = v_card_brand,
+    installments = v_installments,
+    surcharge_pct = v_surcharge_pct,
+    deposit_ars = v_deposit_ars,
+    total_ars = v_total_ars,
+    updated_at = now(),
+    updated_by = p_user_id,
+    currency = v_currency,
+    fx_rate_used = v_fx_rate_used,
+    total_usd = v_total_usd,
+    balance_due_ars = v_balance_due_ars,
+    notes = v_notes,
+    includes_cube_20w = v_includes_cube_20w,
+    promo_discount_ars = case
+      when v_items is null or v_sale.promo_code_id is null then promo_discount_ars
+      else (select coalesce(sum(promo_discount_ars), 0) from public.sale_items where sale_id = p_sale_id)
+    end
+  where id = p_sale_id;
+
+  insert into public.sale_audit_logs (sale_id, action, actor_user_id, payload)
+  values (p_sale_id, 'updated', p_user_id, p_payload);
+
+  return jsonb_build_object(
+    'sale_id', p_sale_id,
+    'customer_id', v_customer_id,
+    'total_ars', v_total_ars,
+    'server_total_ars', v_total_ars,
+    'status', 'completed',
+    'currency', v_currency,
+    'fx_rate_used', v_fx_rate_used,
+    'total_usd', v_total_usd,
+    'balance_due_ars', v_balance_due_ars,
+    'notes', v_notes,
+    'includes_cube_20w', v_includes_cube_20w,
+    'promo_code_id', v_sale.promo_code_id
+  );
+end;
+$$;
+
+commit;
@@ -0,0 +1,428 @@
+begin;
+
+create table if not exists public.sale_returns (
+  id uuid primary key default gen_random_uuid(),
+  sale_id uuid not null references public.sales(id) on delete cascade,
+  reason text not null,
+  restock_status text not null default 'available',
+  restock_category text,
+  refund_method text,
+  refund_currency text not null default 'ARS',
+  refund_amount numeric not null default 0,
+  refund_ars numeric not null default 0,
+  total_before_ars numeric not null,
+  total_after_ars numeric not null,
+  created_by uuid references public.profiles(id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.sale_return_items (
+  id uuid primary key default gen_random_uuid(),
+  sale_return_id uuid not null references public.sale_returns(id) on delete cascade,
+  sale_id uuid not null references public.sales(id) on delete cascade,
+  stock_item_id uuid not null references public.stock_items(id) on delete restrict,
+  qty integer not null default 1,
+  sale_price_ars numeric not null,
+  subtotal_ars numeric not null,
+  unit_cost_ars numeric,
+  created_at timestamptz not null default now()
+);
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_constraint where conname = 'sale_returns_refund_method_check'
+  ) then
+    alter table public.sale_returns
+      add constraint sale_returns_refund_method_check
+      check (refund_method is null or refund_method in ('cash', 'transfer', 'card'));
+  end if;
+
+  if not exists (
+    select 1 from pg_constraint where conname = 'sale_returns_refund_currency_check'
+  ) then
+    alter table public.sale_returns
+      add constraint sale_returns_refund_currency_check
+      check (refund_currency in ('ARS', 'USD'));
+  end if;
+
+  if not exists (
+    select 1 from pg_constraint where conname = 'sale_returns_refund_non_negative_check'
+  ) then
+    alter table public.sale_returns
+      add constraint sale_returns_refund_non_negative_check
+      check (refund_amount >= 0 and refund_ars >= 0);
+  end if;
+end $$;
+
+create index if not exists idx_sale_returns_sale_id_created_at on public.sale_returns (sale_id, created_at desc);
+create index if not exists idx_sale_returns_created_at on public.sale_returns (created_at);
+create index if not exists idx_sale_return_items_sale_return_id on public.sale_return_items (sale_return_id);
+create index if not exists idx_sale_return_items_stock_item_id on public.sale_return_items (stock_item_id);
+
+-- Refunds handed back on partial returns reduce what the customer has paid.
+create or replace function public.rpc_recompute_sale_receivable_v1(
+  p_sale_id uuid,
+  p_actor_user_id uuid default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_sale record;
+  v_paid_ars numeric := 0;
+  v_refunded_ars numeric := 0;
+  v_balance_due_ars numeric := 0;
+  v_receivable_status text := 'pending';
+begin
+  select id, total_ars, fx_rate_used, status
+    into v_sale
+  from public.sales
+  where id = p_sale_id
+  for update;
+
+  if not found then
+    raise exception using message = 'not_found', detail = 'sale_not_found';
+  end if;
+
+  select coalesce(sum(
+    case
+      when upper(coalesce(sp.currency, 'ARS')) = 'USD' then coalesce(sp.amount, 0) * coalesce(v_sale.fx_rate_used, 0)
+      else coalesce(sp.amount, 0)
+    end
+  ), 0)
+    into v_paid_ars
+  from public.sale_payments sp
+  where sp.sale_id = p_sale_id;
+
+  select coalesce(sum(coalesce(sr.refund_ars, 0)), 0)
+    into v_refunded_ars
+  from public.sale_returns sr
+  where sr.sale_id = p_sale_id;
+
+  v_paid_ars := greatest(v_paid_ars - v_refunded_ars, 0);
+  v_balance_due_ars := greatest(coalesce(v_sale.total_ars, 0) - coalesce(v_paid_ars, 0), 0);
+
+  if v_sale.status = 'cancelled' then
+    v_receivable_status := 'paid';
+  elsif v_balance_due_ars <= 0 then
+    v_receivable_status := 'paid';
+  elsif v_paid_ars > 0 then
+    v_receivable_status := 'partial';
+  else
+    v_receivable_status := 'pending';
+  end if;
+
+  update public.sales
+  set
+    paid_ars = v_paid_ars,
+    balance_due_ars = v_balance_due_ars,
+    receivable_status = v_receivable_status,
+    updated_at = now(),
+    updated_by = coalesce(p_actor_user_id, updated_by)
+  where id = p_sale_id;
+
+  return jsonb_build_object(
+    'sale_id', p_sale_id,
+    'paid_ars', v_paid_ars,
+    'balance_due_ars', v_balance_due_ars,
+    'receivable_status', v_receivable_status
+  );
+end;
+$$;
+
+create or replace function public.rpc_return_sale_items_v1(
+  p_sale_id uuid,
+  p_payload jsonb,
+  p_user_id uuid
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_sale record;
+  v_return_id uuid;
+  v_stock_ids uuid[];
+  v_matched_count integer;
+  v_remaining_count integer;
+  v_reason text;
+  v_restock_status text;
+  v_restock_category text;
+  v_refund jsonb;
+  v_refund_method text;
+  v_refund_currency text;
+  v_refund_amount numeric;
+  v_refund_ars numeric;
+  v_paid_before_ars numeric;
+  v_total_before_ars numeric;
+  v_total_after_ars numeric;
+  v_total_usd numeric;
+  v_receivable jsonb;
+begin
+  v_reason := nullif(btrim(coalesce(p_payload->>'reason', '')), '');
+  if v_reason is null then
+    raise exception using message = 'validation_error', detail = 'reason_required';
+  end if;
+
+  v_restock_status := coalesce(nullif(p_payload->>'restock_status', ''), 'available');
+  v_restock_category := nullif(p_payload->>'restock_category', '');
+
+  if v_restock_status not in ('available', 'reserved', 'drawer', 'service_tech') then
+    raise exception using message = 'validation_error', detail = 'invalid_restock_status';
+  end if;
+
+  if v_restock_category is not null and v_restock_category not in ('used_premium', 'outlet', 'new') then
+    raise exception using message = 'validation_error', detail = 'invalid_restock_category';
+  end if;
+
+  if jsonb_typeof(p_payload->'stock_item_ids') <> 'array' or jsonb_array_length(p_payload->'stock_item_ids') = 0 then
+    raise exception using message = 'validation_error', detail = 'stock_item_ids_required';
+  end if;
+
+  begin
+    select array_agg(distinct value::uuid)
+      into v_stock_ids
+    from jsonb_array_elements_text(p_payload->'stock_item_ids');
+  exception
+    when invalid_text_representation then
+      raise exception using message = 'validation_error', detail = 'stock_item_id_invalid';
+  end;
+
+  select *
+    into v_sale
+  from public.sales
+  where id = p_sale_id
+  for update;
+
+  if not found then
+    raise exception using message = 'not_found', detail = 'sale_not_found';
+  end if;
+
+  if v_sale.status = 'cancelled' then
+    raise exception using message = 'conflict', detail = 'sale_cancelled';
+  end if;
+
+  select count(*)
+    into v_matched_count
+  from public.sale_items
+  where sale_id = p_sale_id
+    and stock_item_id = any(v_stock_ids);
+
+  if v_matched_count <> array_length(v_stock_ids, 1) then
+    raise exception using message = 'validation_error', detail = 'stock_item_not_in_sale';
+  end if;
+
+  select count(*)
+    into v_remaining_count
+  from public.sale_items
+  where sale_id = p_sale_id
+    and not (stock_item_id = any(v_stock_ids));
+
+  if v_remaining_count = 0 then
+    raise exception using message = 'conflict', detail = 'return_all_items_requires_cancel';
+  end if;
+
+  v_refund := coalesce(p_payload->'refund', '{}'::jsonb);
+  v_refund_amount := coalesce(nullif(v_refund->>'amount', '')::numeric, 0);
+  v_refund_currency := upper(coalesce(nullif(v_refund->>'currency', ''), 'ARS'));
+  v_refund_method := nullif(lower(coalesce(v_refund->>'method', '')), '');
+
+  if v_refund_amount < 0 then
+    raise exception using message = 'validation_error', detail = 'refund_amount_must_be_gte_0';
+  end if;
+
+  if v_refund_currency not in ('ARS', 'USD') then
+    raise exception using message = 'validation_error', detail = format('invalid_currency:%s', v_refund_currency);
+  end if;
+
+  if v_refund_amount > 0 and (v_refund_method is null or v_refund_method not in ('cash', 'transfer', 'card')) then
+    raise exception using message = 'validation_error', detail = 'refund_method_required';
+  end if;
+
+  if v_refund_currency = 'USD' then
+    if coalesce(v_sale.fx_rate_used, 0) <= 0 then
+      raise exception using message = 'validation_error', detail = 'fx_rate_used_required_for_usd';
+    end if;
+    v_refund_ars := round(v_refund_amount * v_sale.fx_rate_used, 2);
+  else
+    v_refund_ars := v_refund_amount;
+  end if;
+
+  v_paid_before_ars := coalesce(v_sale.paid_ars, 0);
+  if v_refund_ars > v_paid_before_ars + 0.01 then
+    raise exception using message = 'validation_error', detail = format('refund_exceeds_paid:%s>%s', v_refund_ars, v_paid_before_ars);
+  end if;
+
+  v_total_before_ars := coalesce(v_sale.total_ars, 0);
+
+  select coalesce(sum(subtotal_ars), 0)
+    into v_total_after_ars
+  from public.sale_items
+  where sale_id = p_sale_id
+    and not (stock_item_id = any(v_stock_ids));
+
+  insert into public.sale_returns (
+    sale_id,
+    reason,
+    restock_status,
+    restock_category,
+    refund_method,
+    refund_currency,
+    refund_amount,
+    refund_ars,
+    total_before_ars,
+    total_after_ars,
+    created_by
+  ) values (
+    p_sale_id,
+    v_reason,
+    v_restock_status,
+    v_restock_category,
+    case when v_refund_amount > 0 then v_refund_method else null end,
+    v_refund_currency,
+    v_refund_amount,
+    v_refund_ars,
+    v_total_before_ars,
+    v_total_after_ars,
+    p_user_id
+  )
+  returning id into v_return_id;
+
+  insert into public.sale_return_items (
+    sale_return_id,
+    sale_id,
+    stock_item_id,
+    qty,
+    sale_price_ars,
+    subtotal_ars,
+    unit_cost_ars
+  )
+  select
+    v_return_id,
+    si.sale_id,
+    si.stock_item_id,
+    coalesce(si.qty, 1),
+    coalesce(si.sale_price_ars, 0),
+    coalesce(si.subtotal_ars, 0),
+    si.unit_cost_ars
+  from public.sale_items si
+  where si.sale_id = p_sale_id
+    and si.stock_item_id = any(v_stock_ids);
+
+  delete from public.warranties
+  where sale_id = p_sale_id
+    and stock_item_id = any(v_stock_ids);
+
+  delete from public.sale_items
+  where sale_id = p_sale_id
+    and stock_item_id = any(v_stock_ids);
+
+  update public.stock_items
+  set status = v_restock_status,
+      category = case
+        when v_restock_status = 'available' and v_restock_category is not null then v_restock_category
+        else category
+      end,
+      sale_id = null,
+      sold_at = null
+  where id = any(v_stock_ids);
+
+  v_total_usd := v_sale.total_usd;
+  if v_sale.currency = 'USD' and coalesce(v_sale.fx_rate_used, 0) > 0 then
+    v_total_usd := round(v_total_after_ars / v_sale.fx_rate_used, 2);
+  end if;
+
+  update public.sales
+  set
+    total_ars = v_total_after_ars,
+    total_usd = v_total_usd,
+    updated_at = now(),
+    updated_by = p_user_id
+  where id = p_sale_id;
+
+  v_receivable := public.rpc_recompute_sale_receivable_v1(p_sale_id, p_user_id);
+
+  insert into public.sale_audit_logs (sale_id, action, actor_user_id, reason, payload)
+  values (
+    p_sale_id,
+    'items_returned',
+    p_user_id,
+    v_reason,
+    jsonb_build_object(
+      'return_id', v_return_id,
+      'stock_item_ids', to_jsonb(v_stock_ids),
+      'restock_status', v_restock_status,
+      'restock_category', v_restock_category,
+      'refund_method', v_refund_method,
+      'refund_currency', v_refund_currency,
+      'refund_amount', v_refund_amount,
+      'refund_ars', v_refund_ars,
+      'total_before_ars', v_total_before_ars,
+      'total_after_ars', v_total_after_ars
+    )
+  );
+
+  insert into public.audit_logs (
+    actor_user_id,
+    action,
+    entity_type,
+    entity_id,
+    meta_json
+  ) values (
+    p_user_id,
+    'stock_state_changed',
+    'sale',
+    p_sale_id,
+    jsonb_build_object(
+      'stock_item_ids', to_jsonb(v_stock_ids),
+      'new_status', v_restock_status,
+      'new_category', v_restock_category,
+      'reason', v_reason,
+      'source', 'rpc_return_sale_items_v1'
+    )
+  );
+
+  insert into public.audit_logs (
+    actor_user_id,
+    action,
+    entity_type,
+    entity_id,
+    meta_json
+  ) values (
+    p_user_id,
+    'warranty_status_changed',
+    'sale',
+    p_sale_id,
+    jsonb_build_object('event', 'items_returned', 'stock_item_ids', to_jsonb(v_stock_ids), 'reason', v_reason)
+  );
+
+  return jsonb_build_object(
+    'sale_id', p_sale_id,
+    'return_id', v_return_id,
+    'returned_stock_item_ids', to_jsonb(v_stock_ids),
+    'restock_status', v_restock_status,
+    'restock_category', v_restock_category,
+    'refund_method', v_refund_method,
+    'refund_currency', v_refund_currency,
+    'refund_amount', v_refund_amount,
+    'refund_ars', v_refund_ars,
+    'total_ars', v_total_after_ars,
+    'total_usd', v_total_usd,
+    'paid_ars', coalesce((v_receivable->>'paid_ars')::numeric, 0),
+    'balance_due_ars', coalesce((v_receivable->>'balance_due_ars')::numeric, 0),
+    'receivable_status', coalesce(v_receivable->>'receivable_status', 'pending')
+  );
+end;
+$$;
+
+drop trigger if exists trg_sale_returns_outbox on public.sale_returns;
+create constraint trigger trg_sale_returns_outbox
+after insert on public.sale_returns
+deferrable initially deferred
+for each row execute function public.capture_sale_child_outbox_event('sale.items_returned', 'return');
+
+commit;
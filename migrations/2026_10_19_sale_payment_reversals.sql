@@ -0,0 +1,279 @@
+begin;
+
+-- Reversals never touch the original sale_payments row; they are netted out on recompute.
+create table if not exists public.sale_payment_reversals (
+  id uuid primary key default gen_random_uuid(),
+  sale_payment_id uuid not null references public.sale_payments(id) on delete cascade,
+  sale_id uuid not null references public.sales(id) on delete cascade,
+  kind text not null,
+  currency text not null,
+  amount numeric not null,
+  reason text not null,
+  created_by uuid references public.profiles(id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_constraint where conname = 'sale_payment_reversals_kind_check'
+  ) then
+    alter table public.sale_payment_reversals
+      add constraint sale_payment_reversals_kind_check
+      check (kind in ('void', 'refund'));
+  end if;
+
+  if not exists (
+    select 1 from pg_constraint where conname = 'sale_payment_reversals_amount_positive_check'
+  ) then
+    alter table public.sale_payment_reversals
+      add constraint sale_payment_reversals_amount_positive_check
+      check (amount > 0);
+  end if;
+end $$;
+
+create index if not exists idx_sale_payment_reversals_sale_id on public.sale_payment_reversals (sale_id, created_at desc);
+create index if not exists idx_sale_payment_reversals_payment_id on public.sale_payment_reversals (sale_payment_id);
+
+create or replace function public.rpc_recompute_sale_receivable_v1(
+  p_sale_id uuid,
+  p_actor_user_id uuid default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_sale record;
+  v_paid_ars numeric := 0;
+  v_reversed_ars numeric := 0;
+  v_refunded_ars numeric := 0;
+  v_balance_due_ars numeric := 0;
+  v_receivable_status text := 'pending';
+begin
+  select id, total_ars, fx_rate_used, status
+    into v_sale
+  from public.sales
+  where id = p_sale_id
+  for update;
+
+  if not found then
+    raise exception using message = 'not_found', detail = 'sale_not_found';
+  end if;
+
+  select coalesce(sum(
+    case
+      when upper(coalesce(sp.currency, 'ARS')) = 'USD' then coalesce(sp.amount, 0) * coalesce(v_sale.fx_rate_used, 0)
+      else coalesce(sp.amount, 0)
+    end
+  ), 0)
+    into v_paid_ars
+  from public.sale_payments sp
+  where sp.sale_id = p_sale_id;
+
+  select coalesce(sum(
+    case
+      when upper(coalesce(r.currency, 'ARS')) = 'USD' then coalesce(r.amount, 0) * coalesce(v_sale.fx_rate_used, 0)
+      else coalesce(r.amount, 0)
+    end
+  ), 0)
+    into v_reversed_ars
+  from public.sale_payment_reversals r
+  where r.sale_id = p_sale_id;
+
+  select coalesce(sum(coalesce(sr.refund_ars, 0)), 0)
+    into v_refunded_ars
+  from public.sale_returns sr
+  where sr.sale_id = p_sale_id;
+
+  v_paid_ars := greatest(v_paid_ars - v_reversed_ars - v_refunded_ars, 0);
+  v_balance_due_ars := greatest(coalesce(v_sale.total_ars, 0) - coalesce(v_paid_ars, 0), 0);
+
+  if v_sale.status = 'cancelled' then
+    v_receivable_status := 'paid';
+  elsif v_balance_due_ars <= 0 then
+    v_receivable_status := 'paid';
+  elsif v_paid_ars > 0 then
+    v_receivable_status := 'partial';
+  else
+    v_receivable_status := 'pending';
+  end if;
+
+  update public.sales
+  set
+    paid_ars = v_paid_ars,
+    balance_due_ars = v_balance_due_ars,
+    receivable_status = v_receivable_status,
+    updated_at = now(),
+    updated_by = coalesce(p_actor_user_id, updated_by)
+  where id = p_sale_id;
+
+  return jsonb_build_object(
+    'sale_id', p_sale_id,
+    'paid_ars', v_paid_ars,
+    'balance_due_ars', v_balance_due_ars,
+    'receivable_status', v_receivable_status
+  );
+end;
+$$;
+
+create or replace function public.rpc_reverse_sale_payment_v1(
+  p_sale_id uuid,
+  p_payment_id uuid,
+  p_payload jsonb,
+  p_user_id uuid
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_sale record;
+  v_payment record;
+  v_kind text;
+  v_reason text;
+  v_reversed numeric;
+  v_remaining numeric;
+  v_amount numeric;
+  v_reversal_id uuid;
+  v_receivable jsonb;
+begin
+  v_kind := lower(coalesce(nullif(p_payload->>'kind', ''), 'void'));
+  if v_kind not in ('void', 'refund') then
+    raise exception using message = 'validation_error', detail = format('invalid_reversal_kind:%s', v_kind);
+  end if;
+
+  v_reason := nullif(btrim(coalesce(p_payload->>'reason', '')), '');
+  if v_reason is null then
+    raise exception using message = 'validation_error', detail = 'reason_required';
+  end if;
+
+  select id, status
+    into v_sale
+  from public.sales
+  where id = p_sale_id
+  for update;
+
+  if not found then
+    raise exception using message = 'not_found', detail = 'sale_not_found';
+  end if;
+
+  if v_sale.status = 'cancelled' then
+    raise exception using message = 'conflict', detail = 'sale_cancelled';
+  end if;
+
+  select id, method, currency, amount
+    into v_payment
+  from public.sale_payments
+  where id = p_payment_id
+    and sale_id = p_sale_id
+  for update;
+
+  if not found then
+    raise exception using message = 'not_found', detail = 'payment_not_found';
+  end if;
+
+  select coalesce(sum(amount), 0)
+    into v_reversed
+  from public.sale_payment_reversals
+  where sale_payment_id = p_payment_id;
+
+  v_remaining := coalesce(v_payment.amount, 0) - v_reversed;
+  if v_remaining <= 0 then
+    raise exception using message = 'conflict', detail = 'payment_already_reversed';
+  end if;
+
+  if v_kind = 'void' then
+    v_amount := v_remaining;
+  else
+    v_amount := coalesce(nullif(p_payload->>'amount', '')::numeric, v_remaining);
+    if v_amount <= 0 then
+      raise exception using message = 'validation_error', detail = 'amount_must_be_gt_0';
+    end if;
+    if v_amount > v_remaining + 0.01 then
+      raise exception using message = 'validation_error', detail = format('amount_exceeds_payment:%s>%s', v_amount, v_remaining);
+    end if;
+    v_amount := least(v_amount, v_remaining);
+  end if;
+
+  insert into public.sale_payment_reversals (
+    sale_payment_id,
+    sale_id,
+    kind,
+    currency,
+    amount,
+    reason,
+    created_by
+  ) values (
+    p_payment_id,
+    p_sale_id,
+    v_kind,
+    upper(coalesce(v_payment.currency, 'ARS')),
+    v_amount,
+    v_reason,
+    p_user_id
+  )
+  returning id into v_reversal_id;
+
+  v_receivable := public.rpc_recompute_sale_receivable_v1(p_sale_id, p_user_id);
+
+  insert into public.sale_audit_logs (sale_id, action, actor_user_id, reason, payload)
+  values (
+    p_sale_id,
+    case when v_kind = 'void' then 'payment_voided' else 'payment_refunded' end,
+    p_user_id,
+    v_reason,
+    jsonb_build_object(
+      'reversal_id', v_reversal_id,
+      'payment_id', p_payment_id,
+      'method', v_payment.method,
+      'currency', v_payment.currency,
+      'payment_amount', v_payment.amount,
+      'reversed_amount', v_amount
+    )
+  );
+
+  insert into public.audit_logs (
+    actor_user_id,
+    action,
+    entity_type,
+    entity_id,
+    meta_json
+  ) values (
+    p_user_id,
+    'payment_reversed',
+    'sale',
+    p_sale_id,
+    jsonb_build_object(
+      'reversal_id', v_reversal_id,
+      'payment_id', p_payment_id,
+      'kind', v_kind,
+      'amount', v_amount,
+      'reason', v_reason
+    )
+  );
+
+  return jsonb_build_object(
+    'sale_id', p_sale_id,
+    'payment_id', p_payment_id,
+    'reversal_id', v_reversal_id,
+    'kind', v_kind,
+    'currency', upper(coalesce(v_payment.currency, 'ARS')),
+    'amount', v_amount,
+    'remaining_amount', v_remaining - v_amount,
+    'paid_ars', coalesce((v_receivable->>'paid_ars')::numeric, 0),
+    'balance_due_ars', coalesce((v_receivable->>'balance_due_ars')::numeric, 0),
+    'receivable_status', coalesce(v_receivable->>'receivable_status', 'pending')
+  );
+end;
+$$;
+
+drop trigger if exists trg_sale_payment_reversals_outbox on public.sale_payment_reversals;
+create constraint trigger trg_sale_payment_reversals_outbox
+after insert on public.sale_payment_reversals
+deferrable initially deferred
+for each row execute function public.capture_sale_child_outbox_event('sale.payment_reversed', 'reversal');
+
+commit;
@@ -0,0 +1,127 @@
+begin;
+
+-- Full before/after snapshot of every sale edit. sale_audit_logs keeps the raw patch payload; this table
+-- is what the version history diffs are computed from.
+create table if not exists public.sale_versions (
+  id uuid primary key default gen_random_uuid(),
+  sale_id uuid not null references public.sales(id) on delete cascade,
+  version integer not null,
+  action text not null default 'updated',
+  actor_user_id uuid references public.profiles(id) on delete set null,
+  before_snapshot jsonb not null,
+  after_snapshot jsonb not null,
+  created_at timestamptz not null default now()
+);
+
+create unique index if not exists uq_sale_versions_sale_version on public.sale_versions (sale_id, version);
+
+-- Sale row plus customer and items, so a snapshot stays readable after the customer or stock item changes.
+create or replace function public.sale_version_snapshot(p_sale_id uuid)
+returns jsonb
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select
+    (to_jsonb(s) - 'updated_at' - 'updated_by')
+    || jsonb_build_object(
+      'customer',
+      (
+        select jsonb_build_object('id', c.id, 'name', c.name, 'phone', c.phone)
+        from public.customers c
+        where c.id = s.customer_id
+      ),
+      'items',
+      coalesce((
+        select jsonb_agg(
+          jsonb_build_object(
+            'stock_item_id', si.stock_item_id,
+            'qty', si.qty,
+            'sale_price_ars', si.sale_price_ars,
+            'subtotal_ars', si.subtotal_ars,
+            'brand', st.brand,
+            'model', st.model,
+            'imei', st.imei
+          )
+          order by si.stock_item_id
+        )
+        from public.sale_items si
+        left join public.stock_items st on st.id = si.stock_item_id
+        where si.sale_id = s.id
+      ), '[]'::jsonb)
+    )
+  from public.sales s
+  where s.id = p_sale_id;
+$$;
+
+-- Wraps rpc_update_sale_v2 in the same transaction: lock, snapshot, update, snapshot, record the version.
+create or replace function public.rpc_update_sale_versioned_v1(
+  p_sale_id uuid,
+  p_payload jsonb,
+  p_user_id uuid
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_before jsonb;
+  v_after jsonb;
+  v_result jsonb;
+  v_version integer;
+begin
+  perform 1
+  from public.sales
+  where id = p_sale_id
+  for update;
+
+  v_before := public.sale_version_snapshot(p_sale_id);
+
+  -- Raises not_found / conflict / validation_error itself.
+  v_result := public.rpc_update_sale_v2(p_sale_id, p_payload, p_user_id);
+
+  v_after := public.sale_version_snapshot(p_sale_id);
+
+  select coalesce(max(version), 0) + 1
+    into v_version
+  from public.sale_versions
+  where sale_id = p_sale_id;
+
+  insert into public.sale_versions (sale_id, version, action, actor_user_id, before_snapshot, after_snapshot)
+  values (p_sale_id, v_version, 'updated', p_user_id, v_before, v_after);
+
+  return v_result || jsonb_build_object('version', v_version);
+end;
+$$;
+
+create or replace function public.capture_sale_version_outbox_event()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform public.enqueue_outbox_event(
+    'sale.updated',
+    'sale',
+    new.sale_id,
+    jsonb_build_object(
+      'sale_id', new.sale_id,
+      'version', new.version,
+      'changed_fields', public.outbox_changed_fields(new.before_snapshot, new.after_snapshot),
+      'sale', new.after_snapshot
+    ),
+    new.actor_user_id
+  );
+  return null;
+end;
+$$;
+
+drop trigger if exists trg_sale_versions_outbox on public.sale_versions;
+create trigger trg_sale_versions_outbox
+after insert on public.sale_versions
+for each row execute function public.capture_sale_version_outbox_event();
+
+commit;
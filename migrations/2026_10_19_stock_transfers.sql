@@ -0,0 +1,354 @@
+begin;
+
+-- in_transit keeps transferred units out of rpc_create_sale_v2, which only sells 'available' stock.
+-- Same shape as the service_tech/drawer change: extend the enum when status is one, otherwise the CHECK.
+do $$
+declare
+  v_data_type text;
+  v_udt_name text;
+  v_constraint_name text;
+begin
+  select c.data_type, c.udt_name
+    into v_data_type, v_udt_name
+  from information_schema.columns c
+  where c.table_schema = 'public'
+    and c.table_name = 'stock_items'
+    and c.column_name = 'status';
+
+  if v_data_type = 'USER-DEFINED' and v_udt_name is not null then
+    execute format('alter type public.%I add value if not exists %L', v_udt_name, 'in_transit');
+  else
+    for v_constraint_name in
+      select pc.conname
+      from pg_constraint pc
+      join pg_class t on t.oid = pc.conrelid
+      join pg_namespace n on n.oid = t.relnamespace
+      where n.nspname = 'public'
+        and t.relname = 'stock_items'
+        and pc.contype = 'c'
+        and pg_get_constraintdef(pc.oid) ilike '%status%'
+    loop
+      execute format('alter table public.stock_items drop constraint %I', v_constraint_name);
+    end loop;
+
+    alter table public.stock_items
+      add constraint stock_items_status_check
+      check (status in ('available', 'reserved', 'sold', 'service_tech', 'drawer', 'in_transit'));
+  end if;
+end $$;
+
+create table if not exists public.stock_transfers (
+  id uuid primary key default gen_random_uuid(),
+  origin_branch_id uuid not null references public.branches(id) on delete restrict,
+  destination_branch_id uuid not null references public.branches(id) on delete restrict,
+  status text not null default 'in_transit',
+  notes text,
+  created_by uuid references public.profiles(id) on delete set null,
+  received_by uuid references public.profiles(id) on delete set null,
+  received_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create table if not exists public.stock_transfer_items (
+  id uuid primary key default gen_random_uuid(),
+  transfer_id uuid not null references public.stock_transfers(id) on delete cascade,
+  stock_item_id uuid not null references public.stock_items(id) on delete restrict,
+  imei text,
+  previous_status text not null,
+  received_at timestamptz,
+  received_by uuid references public.profiles(id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_constraint where conname = 'stock_transfers_status_check'
+  ) then
+    alter table public.stock_transfers
+      add constraint stock_transfers_status_check
+      check (status in ('in_transit', 'received'));
+  end if;
+
+  if not exists (
+    select 1 from pg_constraint where conname = 'stock_transfers_branches_check'
+  ) then
+    alter table public.stock_transfers
+      add constraint stock_transfers_branches_check
+      check (origin_branch_id <> destination_branch_id);
+  end if;
+end $$;
+
+create index if not exists idx_stock_transfers_status_created_at on public.stock_transfers (status, created_at desc);
+create index if not exists idx_stock_transfers_destination on public.stock_transfers (destination_branch_id, status);
+create index if not exists idx_stock_transfer_items_transfer_id on public.stock_transfer_items (transfer_id);
+create index if not exists idx_stock_transfer_items_stock_item_id on public.stock_transfer_items (stock_item_id, created_at desc);
+create unique index if not exists uq_stock_transfer_items_pending
+  on public.stock_transfer_items (stock_item_id)
+  where received_at is null;
+
+create or replace function public.set_stock_transfers_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at := now();
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_stock_transfers_updated_at on public.stock_transfers;
+create trigger trg_stock_transfers_updated_at
+before update on public.stock_transfers
+for each row execute function public.set_stock_transfers_updated_at();
+
+create or replace function public.rpc_create_stock_transfer_v1(
+  p_payload jsonb,
+  p_user_id uuid
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_origin_branch_id uuid;
+  v_destination_branch_id uuid;
+  v_transfer_id uuid;
+  v_stock_id uuid;
+  v_stock record;
+  v_count integer := 0;
+begin
+  begin
+    v_origin_branch_id := (p_payload->>'origin_branch_id')::uuid;
+    v_destination_branch_id := (p_payload->>'destination_branch_id')::uuid;
+  exception
+    when invalid_text_representation then
+      raise exception using message = 'validation_error', detail = 'invalid_branch_id';
+  end;
+
+  if v_origin_branch_id is null or v_destination_branch_id is null then
+    raise exception using message = 'validation_error', detail = 'origin_and_destination_required';
+  end if;
+
+  if v_origin_branch_id = v_destination_branch_id then
+    raise exception using message = 'validation_error', detail = 'origin_equals_destination';
+  end if;
+
+  if not exists (select 1 from public.branches where id = v_origin_branch_id) then
+    raise exception using message = 'not_found', detail = 'origin_branch_not_found';
+  end if;
+
+  if not exists (select 1 from public.branches where id = v_destination_branch_id and is_active) then
+    raise exception using message = 'not_found', detail = 'destination_branch_not_found';
+  end if;
+
+  if jsonb_typeof(p_payload->'stock_item_ids') <> 'array' or jsonb_array_length(p_payload->'stock_item_ids') = 0 then
+    raise exception using message = 'validation_error', detail = 'stock_item_ids_required';
+  end if;
+
+  insert into public.stock_transfers (
+    origin_branch_id,
+    destination_branch_id,
+    notes,
+    created_by
+  ) values (
+    v_origin_branch_id,
+    v_destination_branch_id,
+    nullif(btrim(coalesce(p_payload->>'notes', '')), ''),
+    p_user_id
+  )
+  returning id into v_transfer_id;
+
+  for v_stock_id in
+    select distinct value::uuid
+    from jsonb_array_elements_text(p_payload->'stock_item_ids')
+  loop
+    select id, imei, status, branch_id
+      into v_stock
+    from public.stock_items
+    where id = v_stock_id
+    for update;
+
+    if not found then
+      raise exception using message = 'not_found', detail = format('stock_item_not_found:%s', v_stock_id);
+    end if;
+
+    if v_stock.branch_id is distinct from v_origin_branch_id then
+      raise exception using message = 'conflict', detail = format('stock_item_not_in_origin_branch:%s', v_stock_id);
+    end if;
+
+    if v_stock.status <> 'available' then
+      raise exception using message = 'stock_conflict', detail = format('%s:%s', v_stock_id, v_stock.status);
+    end if;
+
+    insert into public.stock_transfer_items (
+      transfer_id,
+      stock_item_id,
+      imei,
+      previous_status
+    ) values (
+      v_transfer_id,
+      v_stock_id,
+      v_stock.imei,
+      v_stock.status
+    );
+
+    update public.stock_items
+    set status = 'in_transit'
+    where id = v_stock_id;
+
+    v_count := v_count + 1;
+  end loop;
+
+  insert into public.audit_logs (
+    actor_user_id,
+    action,
+    entity_type,
+    entity_id,
+    meta_json
+  ) values (
+    p_user_id,
+    'stock_transfer_created',
+    'stock_transfer',
+    v_transfer_id,
+    jsonb_build_object(
+      'origin_branch_id', v_origin_branch_id,
+      'destination_branch_id', v_destination_branch_id,
+      'items_count', v_count
+    )
+  );
+
+  return jsonb_build_object(
+    'transfer_id', v_transfer_id,
+    'status', 'in_transit',
+    'items_count', v_count
+  );
+end;
+$$;
+
+-- Receiving is driven by scanned IMEIs; a transfer can be received across several scans.
+create or replace function public.rpc_receive_stock_transfer_v1(
+  p_transfer_id uuid,
+  p_payload jsonb,
+  p_user_id uuid
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_transfer record;
+  v_imei text;
+  v_item record;
+  v_received integer := 0;
+  v_pending integer := 0;
+  v_status text;
+begin
+  select id, status, destination_branch_id
+    into v_transfer
+  from public.stock_transfers
+  where id = p_transfer_id
+  for update;
+
+  if not found then
+    raise exception using message = 'not_found', detail = 'transfer_not_found';
+  end if;
+
+  if v_transfer.status <> 'in_transit' then
+    raise exception using message = 'conflict', detail = 'transfer_already_received';
+  end if;
+
+  if jsonb_typeof(p_payload->'imeis') <> 'array' or jsonb_array_length(p_payload->'imeis') = 0 then
+    raise exception using message = 'validation_error', detail = 'imeis_required';
+  end if;
+
+  for v_imei in
+    select distinct btrim(value)
+    from jsonb_array_elements_text(p_payload->'imeis')
+    where btrim(value) <> ''
+  loop
+    select ti.id, ti.stock_item_id, ti.previous_status, ti.received_at
+      into v_item
+    from public.stock_transfer_items ti
+    join public.stock_items st on st.id = ti.stock_item_id
+    where ti.transfer_id = p_transfer_id
+      and st.imei = v_imei
+    for update of ti;
+
+    if not found then
+      raise exception using message = 'validation_error', detail = format('imei_not_in_transfer:%s', v_imei);
+    end if;
+
+    if v_item.received_at is not null then
+      continue;
+    end if;
+
+    update public.stock_transfer_items
+    set
+      received_at = now(),
+      received_by = p_user_id
+    where id = v_item.id;
+
+    update public.stock_items
+    set
+      status = v_item.previous_status,
+      branch_id = v_transfer.destination_branch_id
+    where id = v_item.stock_item_id
+      and status = 'in_transit';
+
+    v_received := v_received + 1;
+  end loop;
+
+  select count(*)
+    into v_pending
+  from public.stock_transfer_items
+  where transfer_id = p_transfer_id
+    and received_at is null;
+
+  v_status := case when v_pending = 0 then 'received' else 'in_transit' end;
+
+  if v_status = 'received' then
+    update public.stock_transfers
+    set
+      status = 'received',
+      received_by = p_user_id,
+      received_at = now()
+    where id = p_transfer_id;
+  end if;
+
+  insert into public.audit_logs (
+    actor_user_id,
+    action,
+    entity_type,
+    entity_id,
+    meta_json
+  ) values (
+    p_user_id,
+    'stock_transfer_received',
+    'stock_transfer',
+    p_transfer_id,
+    jsonb_build_object(
+      'received_count', v_received,
+      'pending_count', v_pending,
+      'status', v_status
+    )
+  );
+
+  return jsonb_build_object(
+    'transfer_id', p_transfer_id,
+    'status', v_status,
+    'received_count', v_received,
+    'pending_count', v_pending
+  );
+end;
+$$;
+
+drop trigger if exists trg_stock_transfers_outbox on public.stock_transfers;
+create trigger trg_stock_transfers_outbox
+after insert or update of status on public.stock_transfers
+for each row execute function public.capture_status_outbox_event('stock_transfer');
+
+commit;
@@ -0,0 +1,469 @@
+begin;
+
+create table if not exists public.warranty_claims (
+  id uuid primary key default gen_random_uuid(),
+  sale_id uuid not null references public.sales(id) on delete restrict,
+  sale_item_id uuid references public.sale_items(id) on delete set null,
+  stock_item_id uuid not null references public.stock_items(id) on delete restrict,
+  warranty_id uuid references public.warranties(id) on delete set null,
+  customer_id uuid references public.customers(id) on delete set null,
+  imei text,
+  status text not null default 'received',
+  issue_description text not null,
+  sale_date date not null,
+  warranty_days integer not null,
+  warranty_until date not null,
+  in_warranty boolean not null,
+  resolution_notes text,
+  replacement_stock_item_id uuid references public.stock_items(id) on delete set null,
+  closed_at timestamptz,
+  created_by uuid references public.profiles(id) on delete set null,
+  updated_by uuid references public.profiles(id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_constraint where conname = 'warranty_claims_status_check'
+  ) then
+    alter table public.warranty_claims
+      add constraint warranty_claims_status_check
+      check (status in ('received', 'sent_to_tech', 'repaired', 'replaced', 'rejected'));
+  end if;
+end $$;
+
+-- A phone can only have one claim in progress at a time.
+create unique index if not exists uq_warranty_claims_open_stock_item
+  on public.warranty_claims (stock_item_id)
+  where status in ('received', 'sent_to_tech');
+
+create index if not exists idx_warranty_claims_status_created_at on public.warranty_claims (status, created_at desc);
+create index if not exists idx_warranty_claims_sale_id on public.warranty_claims (sale_id);
+create index if not exists idx_warranty_claims_customer_id on public.warranty_claims (customer_id);
+
+create or replace function public.set_warranty_claims_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at := now();
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_warranty_claims_updated_at on public.warranty_claims;
+create trigger trg_warranty_claims_updated_at
+before update on public.warranty_claims
+for each row execute function public.set_warranty_claims_updated_at();
+
+-- Coverage is sale_date + warranty_days of the latest completed sale of the phone. A unit handed out as a
+-- warranty replacement has no sale item; it is covered by the warranty row the replacement carried over,
+-- which keeps the original expiry. A unit that was swapped out reports replaced and is no longer covered.
+create or replace function public.rpc_check_warranty_v1(
+  p_imei text default null,
+  p_sale_item_id uuid default null
+)
+returns jsonb
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_row record;
+  v_warranty_until date;
+  v_replaced boolean;
+begin
+  if nullif(btrim(coalesce(p_imei, '')), '') is null and p_sale_item_id is null then
+    raise exception using message = 'validation_error', detail = 'imei_or_sale_item_id_required';
+  end if;
+
+  select *
+    into v_row
+  from (
+    select
+      si.id as sale_item_id,
+      si.sale_id,
+      si.stock_item_id,
+      s.customer_id,
+      coalesce(s.sale_date, s.created_at)::date as sale_date,
+      coalesce(s.sale_date, s.created_at) as covered_since,
+      st.imei,
+      st.brand,
+      st.model,
+      w.id as warranty_id,
+      coalesce(w.warranty_days, st.warranty_days, 90) as warranty_days,
+      null::date as carried_until,
+      w.replacement_stock_item_id
+    from public.sale_items si
+    join public.sales s on s.id = si.sale_id
+    join public.stock_items st on st.id = si.stock_item_id
+    left join public.warranties w on w.sale_id = si.sale_id and w.stock_item_id = si.stock_item_id
+    where s.status = 'completed'
+      and (
+        (p_sale_item_id is not null and si.id = p_sale_item_id)
+        or (p_sale_item_id is null and lower(st.imei) = lower(btrim(p_imei)))
+      )
+
+    union all
+
+    select
+      null::uuid,
+      w.sale_id,
+      w.stock_item_id,
+      s.customer_id,
+      coalesce(w.start_date, w.warranty_start, coalesce(s.sale_date, s.created_at)::date),
+      w.created_at,
+      st.imei,
+      st.brand,
+      st.model,
+      w.id,
+      coalesce(w.warranty_days, st.warranty_days, 90),
+      coalesce(w.end_date, w.warranty_end),
+      w.replacement_stock_item_id
+    from public.warranties w
+    join public.sales s on s.id = w.sale_id
+    join public.stock_items st on st.id = w.stock_item_id
+    where p_sale_item_id is null
+      and s.status = 'completed'
+      and lower(st.imei) = lower(btrim(p_imei))
+      and not exists (
+        select 1
+        from public.sale_items si
+        where si.sale_id = w.sale_id
+          and si.stock_item_id = w.stock_item_id
+      )
+  ) candidates
+  order by covered_since desc
+  limit 1;
+
+  if not found then
+    raise exception using message = 'not_found', detail = 'sold_item_not_found';
+  end if;
+
+  v_warranty_until := coalesce(v_row.carried_until, v_row.sale_date + v_row.warranty_days);
+  v_replaced := v_row.replacement_stock_item_id is not null;
+
+  return jsonb_build_object(
+    'sale_item_id', v_row.sale_item_id,
+    'sale_id', v_row.sale_id,
+    'stock_item_id', v_row.stock_item_id,
+    'warranty_id', v_row.warranty_id,
+    'customer_id', v_row.customer_id,
+    'imei', v_row.imei,
+    'brand', v_row.brand,
+    'model', v_row.model,
+    'sale_date', v_row.sale_date,
+    'warranty_days', v_row.warranty_days,
+    'warranty_until', v_warranty_until,
+    'is_replacement', v_row.carried_until is not null,
+    'replaced', v_replaced,
+    'replacement_stock_item_id', v_row.replacement_stock_item_id,
+    'in_warranty', not v_replaced and current_date <= v_warranty_until
+  );
+end;
+$$;
+
+create or replace function public.rpc_open_warranty_claim_v1(
+  p_payload jsonb,
+  p_user_id uuid
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_coverage jsonb;
+  v_claim_id uuid;
+  v_issue text;
+  v_sale_item_id uuid;
+begin
+  v_issue := nullif(btrim(coalesce(p_payload->>'issue_description', '')), '');
+  if v_issue is null then
+    raise exception using message = 'validation_error', detail = 'issue_description_required';
+  end if;
+
+  begin
+    v_sale_item_id := nullif(p_payload->>'sale_item_id', '')::uuid;
+  exception
+    when invalid_text_representation then
+      raise exception using message = 'validation_error', detail = 'sale_item_id_invalid';
+  end;
+
+  v_coverage := public.rpc_check_warranty_v1(nullif(p_payload->>'imei', ''), v_sale_item_id);
+
+  if (v_coverage->>'replaced')::boolean then
+    raise exception using message = 'conflict', detail = format('unit_replaced:%s', v_coverage->>'replacement_stock_item_id');
+  end if;
+
+  if exists (
+    select 1
+    from public.warranty_claims
+    where stock_item_id = (v_coverage->>'stock_item_id')::uuid
+      and status in ('received', 'sent_to_tech')
+  ) then
+    raise exception using message = 'conflict', detail = 'open_claim_exists';
+  end if;
+
+  insert into public.warranty_claims (
+    sale_id,
+    sale_item_id,
+    stock_item_id,
+    warranty_id,
+    customer_id,
+    imei,
+    status,
+    issue_description,
+    sale_date,
+    warranty_days,
+    warranty_until,
+    in_warranty,
+    created_by,
+    updated_by
+  ) values (
+    (v_coverage->>'sale_id')::uuid,
+    (v_coverage->>'sale_item_id')::uuid,
+    (v_coverage->>'stock_item_id')::uuid,
+    nullif(v_coverage->>'warranty_id', '')::uuid,
+    nullif(v_coverage->>'customer_id', '')::uuid,
+    v_coverage->>'imei',
+    'received',
+    v_issue,
+    (v_coverage->>'sale_date')::date,
+    (v_coverage->>'warranty_days')::integer,
+    (v_coverage->>'warranty_until')::date,
+    (v_coverage->>'in_warranty')::boolean,
+    p_user_id,
+    p_user_id
+  )
+  returning id into v_claim_id;
+
+  insert into public.audit_logs (
+    actor_user_id,
+    action,
+    entity_type,
+    entity_id,
+    after_json,
+    meta_json
+  ) values (
+    p_user_id,
+    'warranty_claim_opened',
+    'warranty_claim',
+    v_claim_id,
+    jsonb_build_object('status', 'received', 'issue_description', v_issue),
+    v_coverage
+  );
+
+  return v_coverage || jsonb_build_object('claim_id', v_claim_id, 'status', 'received');
+end;
+$$;
+
+create or replace function public.rpc_update_warranty_claim_status_v1(
+  p_claim_id uuid,
+  p_status text,
+  p_payload jsonb,
+  p_user_id uuid
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_claim record;
+  v_note text;
+  v_replacement_id uuid;
+  v_replacement record;
+begin
+  if p_status not in ('sent_to_tech', 'repaired', 'replaced', 'rejected') then
+    raise exception using message = 'validation_error', detail = format('invalid_claim_status:%s', p_status);
+  end if;
+
+  select *
+    into v_claim
+  from public.warranty_claims
+  where id = p_claim_id
+  for update;
+
+  if not found then
+    raise exception using message = 'not_found', detail = 'warranty_claim_not_found';
+  end if;
+
+  if v_claim.status not in ('received', 'sent_to_tech') then
+    raise exception using message = 'conflict', detail = format('claim_closed:%s', v_claim.status);
+  end if;
+
+  if v_claim.status = p_status then
+    raise exception using message = 'conflict', detail = format('claim_already_%s', p_status);
+  end if;
+
+  v_note := nullif(btrim(coalesce(p_payload->>'note', '')), '');
+
+  if p_status = 'replaced' then
+    begin
+      v_replacement_id := nullif(p_payload->>'replacement_stock_item_id', '')::uuid;
+    exception
+      when invalid_text_representation then
+        raise exception using message = 'validation_error', detail = 'replacement_stock_item_id_invalid';
+    end;
+
+    if v_replacement_id is null then
+      raise exception using message = 'validation_error', detail = 'replacement_stock_item_id_required';
+    end if;
+
+    if v_replacement_id = v_claim.stock_item_id then
+      raise exception using message = 'validation_error', detail = 'replacement_must_differ';
+    end if;
+
+    select id, status, brand, model, imei
+      into v_replacement
+    from public.stock_items
+    where id = v_replacement_id
+    for update;
+
+    if not found then
+      raise exception using message = 'not_found', detail = format('stock_item_not_found:%s', v_replacement_id);
+    end if;
+
+    if v_replacement.status <> 'available' then
+      raise exception using message = 'stock_conflict', detail = format('%s:%s', v_replacement_id, v_replacement.status);
+    end if;
+
+    update public.stock_items
+    set status = 'sold',
+        sale_id = v_claim.sale_id,
+        sold_at = now()
+    where id = v_replacement_id;
+
+    -- The defective unit comes back to the store for repair.
+    update public.stock_items
+    set status = 'service_tech',
+        sale_id = null,
+        sold_at = null
+    where id = v_claim.stock_item_id;
+
+    -- The original unit is marked as replaced so a later check or claim on its IMEI is not covered again.
+    if v_claim.warranty_id is not null then
+      update public.warranties
+      set replacement_stock_item_id = v_replacement_id,
+          replacement_device_label = concat_ws(' ', v_replacement.brand, v_replacement.model, v_replacement.imei),
+          issue_reason = v_claim.issue_description,
+          replaced_at = now()
+      where id = v_claim.warranty_id;
+    else
+      insert into public.warranties (
+        sale_id,
+        stock_item_id,
+        customer_id,
+        start_date,
+        end_date,
+        warranty_days,
+        warranty_start,
+        warranty_end,
+        issue_reason,
+        replacement_stock_item_id,
+        replacement_device_label,
+        replaced_at
+      ) values (
+        v_claim.sale_id,
+        v_claim.stock_item_id,
+        v_claim.customer_id,
+        v_claim.sale_date,
+        v_claim.warranty_until,
+        v_claim.warranty_days,
+        v_claim.sale_date,
+        v_claim.warranty_until,
+        v_claim.issue_description,
+        v_replacement_id,
+        concat_ws(' ', v_replacement.brand, v_replacement.model, v_replacement.imei),
+        now()
+      );
+    end if;
+
+    -- The replacement carries the original warranty over: same start and expiry, not a fresh period.
+    insert into public.warranties (
+      sale_id,
+      stock_item_id,
+      customer_id,
+      start_date,
+      end_date,
+      warranty_days,
+      warranty_start,
+      warranty_end,
+      notes
+    ) values (
+      v_claim.sale_id,
+      v_replacement_id,
+      v_claim.customer_id,
+      v_claim.sale_date,
+      v_claim.warranty_until,
+      v_claim.warranty_days,
+      v_claim.sale_date,
+      v_claim.warranty_until,
+      format('Reemplazo por reclamo %s de %s', p_claim_id, coalesce(v_claim.imei, v_claim.stock_item_id::text))
+    );
+
+    insert into public.audit_logs (
+      actor_user_id,
+      action,
+      entity_type,
+      entity_id,
+      meta_json
+    ) values (
+      p_user_id,
+      'stock_state_changed',
+      'warranty_claim',
+      p_claim_id,
+      jsonb_build_object(
+        'replacement_stock_item_id', v_replacement_id,
+        'replacement_new_status', 'sold',
+        'returned_stock_item_id', v_claim.stock_item_id,
+        'returned_new_status', 'service_tech'
+      )
+    );
+  end if;
+
+  update public.warranty_claims
+  set status = p_status,
+      resolution_notes = coalesce(v_note, resolution_notes),
+      replacement_stock_item_id = coalesce(v_replacement_id, replacement_stock_item_id),
+      closed_at = case when p_status in ('repaired', 'replaced', 'rejected') then now() else null end,
+      updated_by = p_user_id
+  where id = p_claim_id;
+
+  insert into public.audit_logs (
+    actor_user_id,
+    action,
+    entity_type,
+    entity_id,
+    before_json,
+    after_json,
+    meta_json
+  ) values (
+    p_user_id,
+    'warranty_claim_status_changed',
+    'warranty_claim',
+    p_claim_id,
+    jsonb_build_object('status', v_claim.status),
+    jsonb_build_object('status', p_status, 'replacement_stock_item_id', v_replacement_id),
+    jsonb_build_object('note', v_note, 'sale_id', v_claim.sale_id, 'stock_item_id', v_claim.stock_item_id)
+  );
+
+  return jsonb_build_object(
+    'claim_id', p_claim_id,
+    'previous_status', v_claim.status,
+    'status', p_status,
+    'replacement_stock_item_id', v_replacement_id
+  );
+end;
+$$;
+
+drop trigger if exists trg_warranty_claims_outbox on public.warranty_claims;
+create trigger trg_warranty_claims_outbox
+after insert or update of status on public.warranty_claims
+for each row execute function public.capture_status_outbox_event('warranty_claim');
+
+commit;
@@ -0,0 +1,117 @@
+begin;
+
+-- Outgoing webhooks. The secret is only shown when the endpoint is created or rotated; it signs every delivery.
+create table if not exists public.webhook_endpoints (
+  id uuid primary key default gen_random_uuid(),
+  url text not null,
+  description text,
+  event_types text[] not null,
+  secret text not null,
+  is_active boolean not null default true,
+  created_by uuid references public.profiles(id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_constraint where conname = 'webhook_endpoints_event_types_check'
+  ) then
+    alter table public.webhook_endpoints
+      add constraint webhook_endpoints_event_types_check
+      check (
+        cardinality(event_types) > 0
+        and event_types <@ array['sale.created', 'sale.cancelled', 'stock_item.status_changed']::text[]
+      );
+  end if;
+end $$;
+
+-- One row per endpoint and webhook event. payload is the exact JSON body sent, so a replay is byte-identical.
+create table if not exists public.webhook_deliveries (
+  id uuid primary key default gen_random_uuid(),
+  endpoint_id uuid not null references public.webhook_endpoints(id) on delete cascade,
+  outbox_event_id uuid references public.outbox_events(id) on delete set null,
+  event_type text not null,
+  payload jsonb not null,
+  status text not null default 'pending',
+  attempts integer not null default 0,
+  next_attempt_at timestamptz not null default now(),
+  locked_at timestamptz,
+  response_status integer,
+  response_body text,
+  last_error text,
+  delivered_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_constraint where conname = 'webhook_deliveries_status_check'
+  ) then
+    alter table public.webhook_deliveries
+      add constraint webhook_deliveries_status_check
+      check (status in ('pending', 'processing', 'delivered', 'failed'));
+  end if;
+end $$;
+
+create unique index if not exists uq_webhook_deliveries_endpoint_event
+  on public.webhook_deliveries (endpoint_id, outbox_event_id, event_type);
+create index if not exists idx_webhook_deliveries_due on public.webhook_deliveries (next_attempt_at)
+  where status in ('pending', 'processing');
+create index if not exists idx_webhook_deliveries_endpoint_created_at on public.webhook_deliveries (endpoint_id, created_at desc);
+
+create or replace function public.set_webhook_endpoints_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at := now();
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_webhook_endpoints_updated_at on public.webhook_endpoints;
+create trigger trg_webhook_endpoints_updated_at
+before update on public.webhook_endpoints
+for each row execute function public.set_webhook_endpoints_updated_at();
+
+-- Same claiming rules as rpc_claim_outbox_events_v1: due pending rows plus processing rows whose worker died.
+create or replace function public.rpc_claim_webhook_deliveries_v1(
+  p_limit integer default 50,
+  p_lock_timeout_sec integer default 300
+)
+returns setof public.webhook_deliveries
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  return query
+  with due as (
+    select id
+    from public.webhook_deliveries
+    where (
+        status = 'pending'
+        and next_attempt_at <= now()
+      ) or (
+        status = 'processing'
+        and locked_at < now() - make_interval(secs => greatest(coalesce(p_lock_timeout_sec, 300), 30))
+      )
+    order by created_at
+    limit greatest(coalesce(p_limit, 50), 1)
+    for update skip locked
+  )
+  update public.webhook_deliveries d
+  set
+    status = 'processing',
+    locked_at = now(),
+    attempts = d.attempts + 1
+  from due
+  where d.id = due.id
+  returning d.*;
+end;
+$$;
+
+commit;
@@ -0,0 +1,103 @@
+begin;
+
+-- Same list as 2026_10_19_sales_list_server_side.sql plus the branch filter. Kept in its own later migration
+-- because that file sorts after the branches migration and would otherwise replace this definition.
+create or replace function public.rpc_list_sales_v1(
+  p_filters jsonb
+)
+returns jsonb
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_from timestamptz;
+  v_to timestamptz;
+  v_seller_id uuid;
+  v_branch_id uuid;
+  v_query text;
+  v_page integer;
+  v_page_size integer;
+  v_total integer := 0;
+  v_total_ars numeric := 0;
+  v_pending_ars numeric := 0;
+  v_rows jsonb := '[]'::jsonb;
+begin
+  begin
+    v_from := case
+      when nullif(p_filters->>'from', '') is null then null
+      else ((p_filters->>'from') || 'T00:00:00Z')::timestamptz
+    end;
+    v_to := case
+      when nullif(p_filters->>'to', '') is null then null
+      else ((p_filters->>'to') || 'T23:59:59Z')::timestamptz
+    end;
+    v_seller_id := nullif(p_filters->>'seller_id', '')::uuid;
+    v_branch_id := nullif(p_filters->>'branch_id', '')::uuid;
+  exception
+    when invalid_text_representation or invalid_datetime_format or datetime_field_overflow then
+      raise exception using message = 'validation_error', detail = 'invalid_sales_list_filters';
+  end;
+
+  v_query := lower(nullif(btrim(coalesce(p_filters->>'query', '')), ''));
+  v_page := greatest(coalesce(nullif(p_filters->>'page', '')::integer, 1), 1);
+  v_page_size := least(greatest(coalesce(nullif(p_filters->>'page_size', '')::integer, 30), 1), 200);
+
+  with filtered as (
+    select
+      s.id as sale_id,
+      si.id as sale_item_id,
+      si.stock_item_id,
+      s.created_at,
+      s.total_ars,
+      s.balance_due_ars
+    from public.sales s
+    left join public.customers c on c.id = s.customer_id
+    left join public.sale_items si on si.sale_id = s.id
+    left join public.stock_items st on st.id = si.stock_item_id
+    where (v_seller_id is null or s.seller_id = v_seller_id)
+      and (v_branch_id is null or s.branch_id = v_branch_id)
+      and (v_from is null or coalesce(s.sale_date, s.created_at) >= v_from)
+      and (v_to is null or coalesce(s.sale_date, s.created_at) <= v_to)
+      and (
+        v_query is null
+        or strpos(lower(concat_ws(' ', c.name, c.phone, st.model, st.imei, s.notes, s.details)), v_query) > 0
+      )
+  ),
+  sale_totals as (
+    select distinct on (sale_id) sale_id, total_ars, balance_due_ars
+    from filtered
+  ),
+  page_rows as (
+    select sale_id, stock_item_id, created_at, sale_item_id
+    from filtered
+    order by created_at desc nulls last, sale_id, sale_item_id
+    offset (v_page - 1) * v_page_size
+    limit v_page_size
+  )
+  select
+    (select count(*) from filtered),
+    (select coalesce(sum(coalesce(total_ars, 0)), 0) from sale_totals),
+    (select coalesce(sum(coalesce(balance_due_ars, 0)), 0) from sale_totals),
+    coalesce((
+      select jsonb_agg(
+        jsonb_build_object('sale_id', p.sale_id, 'stock_item_id', p.stock_item_id)
+        order by p.created_at desc nulls last, p.sale_id, p.sale_item_id
+      )
+      from page_rows p
+    ), '[]'::jsonb)
+  into v_total, v_total_ars, v_pending_ars, v_rows;
+
+  return jsonb_build_object(
+    'total', v_total,
+    'page', v_page,
+    'page_size', v_page_size,
+    'total_ars', v_total_ars,
+    'pending_ars', v_pending_ars,
+    'rows', v_rows
+  );
+end;
+$$;
+
+commit;
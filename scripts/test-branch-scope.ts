@@ -0,0 +1,64 @@
+import type { Request } from 'express';
+import { resolveBranchScope } from '../src/lib/branchScope.js';
+
+function fail(message: string, details?: unknown): never {
+  // eslint-disable-next-line no-console
+  console.error(JSON.stringify({ ok: false, message, details }, null, 2));
+  process.exit(1);
+}
+
+function assert(condition: unknown, message: string, details?: unknown) {
+  if (!condition) {
+    fail(message, details);
+  }
+}
+
+type MockUser = { id: string; email: string | null; role: 'owner' | 'admin' | 'seller'; branch_id: string | null };
+
+const asRequest = (user?: MockUser) => ({ user }) as unknown as Request;
+const user = (role: MockUser['role'], branchId: string | null): MockUser => ({ id: `${role}-id`, email: null, role, branch_id: branchId });
+
+const report: Record<string, unknown> = {};
+
+const seller = asRequest(user('seller', 'branch-centro'));
+const sellerScopes = {
+  default: resolveBranchScope(seller),
+  own_branch: resolveBranchScope(seller, 'branch-centro'),
+  other_branch: resolveBranchScope(seller, 'branch-norte'),
+  explicit_null: resolveBranchScope(seller, null)
+};
+assert(sellerScopes.default.ok && sellerScopes.default.branchId === 'branch-centro', 'seller_should_be_pinned_to_own_branch', sellerScopes);
+assert(sellerScopes.own_branch.ok && sellerScopes.own_branch.branchId === 'branch-centro', 'seller_may_ask_for_own_branch', sellerScopes);
+assert(sellerScopes.explicit_null.ok && sellerScopes.explicit_null.branchId === 'branch-centro', 'seller_cannot_drop_branch_filter', sellerScopes);
+assert(
+  !sellerScopes.other_branch.ok
+    && sellerScopes.other_branch.status === 403
+    && sellerScopes.other_branch.error.code === 'forbidden'
+    && sellerScopes.other_branch.error.details === 'branch_scope_restricted',
+  'seller_other_branch_should_be_403',
+  sellerScopes
+);
+report.seller = sellerScopes;
+
+// A seller without a branch (single-store setups) is not restricted.
+const unassigned = {
+  default: resolveBranchScope(asRequest(user('seller', null))),
+  requested: resolveBranchScope(asRequest(user('seller', null)), 'branch-norte')
+};
+assert(unassigned.default.ok && unassigned.default.branchId === null, 'unassigned_seller_should_see_all', unassigned);
+assert(unassigned.requested.ok && unassigned.requested.branchId === 'branch-norte', 'unassigned_seller_may_filter', unassigned);
+report.unassigned_seller = unassigned;
+
+for (const role of ['admin', 'owner'] as const) {
+  const req = asRequest(user(role, 'branch-centro'));
+  const all = resolveBranchScope(req);
+  const other = resolveBranchScope(req, 'branch-norte');
+  assert(all.ok && all.branchId === null, `${role}_should_default_to_all_branches`, all);
+  assert(other.ok && other.branchId === 'branch-norte', `${role}_may_pick_any_branch`, other);
+}
+
+const anonymous = resolveBranchScope(asRequest(), 'branch-norte');
+assert(anonymous.ok && anonymous.branchId === 'branch-norte', 'request_without_user_should_pass_requested_branch', anonymous);
+
+// eslint-disable-next-line no-console
+console.log(JSON.stringify({ ok: true, report }, null, 2));
@@ -0,0 +1,255 @@
+import 'dotenv/config';
+import { createClient } from '@supabase/supabase-js';
+
+function fail(message, details) {
+  // eslint-disable-next-line no-console
+  console.error(JSON.stringify({ ok: false, message, details }, null, 2));
+  process.exit(1);
+}
+
+function assert(condition, message, details) {
+  if (!condition) {
+    fail(message, details);
+  }
+}
+
+const baseUrl = process.env.API_BASE_URL ?? 'http://127.0.0.1:3000';
+const supabaseUrl = process.env.SUPABASE_URL;
+const serviceRole = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+if (!supabaseUrl || !serviceRole) {
+  fail('Missing SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY');
+}
+
+const supabase = createClient(supabaseUrl, serviceRole, {
+  auth: {
+    persistSession: false,
+    autoRefreshToken: false
+  }
+});
+
+async function fetchJson(path, { method = 'GET', token, body } = {}) {
+  const response = await fetch(`${baseUrl}${path}`, {
+    method,
+    headers: {
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      ...(body ? { 'Content-Type': 'application/json' } : {})
+    },
+    ...(body ? { body: JSON.stringify(body) } : {})
+  });
+
+  let json = null;
+  try {
+    json = await response.json();
+  } catch {
+    json = null;
+  }
+
+  return { status: response.status, body: json };
+}
+
+async function login(email, password) {
+  const result = await fetchJson('/api/auth/login', {
+    method: 'POST',
+    body: { email, password }
+  });
+
+  assert(result.status === 200, `login_failed_${email}`, result);
+  assert(Boolean(result.body?.access_token), `missing_access_token_${email}`, result);
+  return result.body.access_token;
+}
+
+const report = {
+  session: null,
+  second_open_blocked: null,
+  summary: null,
+  other_branch_seller: null,
+  closed: null,
+  closed_session_locked: null
+};
+
+const stockItemIds = [];
+const reservationIds = [];
+let branchId = null;
+let sessionId = null;
+let saleId = null;
+let saleOriginalBranchId = null;
+let ownerToken = null;
+
+try {
+  ownerToken = await login('mocho@gmail.com', '123456');
+  const sellerToken = await login('bruno@gmail.com', '123456');
+  const seed = `${Date.now()}`;
+
+  // A fresh branch keeps the drawer free of whatever else the store sells today.
+  const { data: branch, error: branchError } = await supabase
+    .from('branches')
+    .insert({ name: `Sucursal Caja ${seed}`, code: `TC${seed.slice(-6)}` })
+    .select('id')
+    .single();
+  assert(!branchError && branch?.id, 'temp_branch_create_failed', branchError?.message);
+  branchId = branch.id;
+
+  for (const suffix of ['1', '2']) {
+    const { data: stock, error: stockError } = await supabase
+      .from('stock_items')
+      .insert({
+        brand: 'Apple',
+        model: `iPhone Caja ${seed}-${suffix}`,
+        condition: 'used',
+        category: 'used_premium',
+        status: 'available',
+        sale_price_ars: 1500,
+        purchase_ars: 900,
+        imei: `33${seed}${suffix}`.slice(0, 15),
+        branch_id: branchId,
+        details: 'auto-test-cash-sessions'
+      })
+      .select('id')
+      .single();
+    assert(!stockError && stock?.id, 'temp_stock_create_failed', stockError?.message);
+    stockItemIds.push(stock.id);
+  }
+  const [releasedStockId, convertedStockId] = stockItemIds;
+
+  const opened = await fetchJson('/api/cash-sessions', {
+    method: 'POST',
+    token: ownerToken,
+    body: { branch_id: branchId, opening_ars: 10000, notes: 'auto-test-cash-sessions' }
+  });
+  assert(opened.status === 201 && opened.body?.session?.id, 'open_should_be_201', opened);
+  sessionId = opened.body.session.id;
+  assert(opened.body.session.status === 'open' && opened.body.session.branch_id === branchId, 'session_should_be_open_for_branch', opened.body.session);
+  report.session = { id: sessionId };
+
+  const secondOpen = await fetchJson('/api/cash-sessions', { method: 'POST', token: ownerToken, body: { branch_id: branchId } });
+  assert(secondOpen.status === 409, 'second_open_session_should_be_409', secondOpen);
+  report.second_open_blocked = secondOpen.status;
+
+  const withdrawal = await fetchJson(`/api/cash-sessions/${sessionId}/movements`, {
+    method: 'POST',
+    token: ownerToken,
+    body: { kind: 'withdrawal', amount: 2000, reason: 'Retiro para el banco' }
+  });
+  assert(withdrawal.status === 201 && withdrawal.body?.movement_id, 'withdrawal_should_be_201', withdrawal);
+
+  const change = await fetchJson(`/api/cash-sessions/${sessionId}/movements`, {
+    method: 'POST',
+    token: ownerToken,
+    body: { kind: 'change', amount: 500, reason: 'Cambio para el día' }
+  });
+  assert(change.status === 201, 'change_should_be_201', change);
+
+  const customer = { name: 'Cliente Caja Test', phone: `3815${seed.slice(-6)}` };
+
+  // Cash deposit that is later refunded: counts in and then out of the drawer.
+  const toRelease = await fetchJson('/api/reservations', {
+    method: 'POST',
+    token: ownerToken,
+    body: { stock_item_id: releasedStockId, customer, deposit: { method: 'cash', amount: 300 } }
+  });
+  assert(toRelease.status === 201 && toRelease.body?.reservation?.id, 'reservation_should_be_201', toRelease);
+  reservationIds.push(toRelease.body.reservation.id);
+
+  const released = await fetchJson(`/api/reservations/${toRelease.body.reservation.id}/release`, {
+    method: 'POST',
+    token: ownerToken,
+    body: { reason: 'Cliente desistió', deposit_action: 'refund' }
+  });
+  assert(released.status === 200 && released.body?.deposit_action === 'refund', 'release_should_refund_deposit', released);
+
+  // Cash deposit that is applied on conversion: counted once, the day it was received.
+  const toConvert = await fetchJson('/api/reservations', {
+    method: 'POST',
+    token: ownerToken,
+    body: { stock_item_id: convertedStockId, customer, deposit: { method: 'cash', amount: 200 } }
+  });
+  assert(toConvert.status === 201 && toConvert.body?.reservation?.id, 'second_reservation_should_be_201', toConvert);
+  reservationIds.push(toConvert.body.reservation.id);
+
+  const converted = await fetchJson(`/api/reservations/${toConvert.body.reservation.id}/convert`, {
+    method: 'POST',
+    token: ownerToken,
+    body: { payments: [{ method: 'cash', amount: 1300 }] }
+  });
+  assert(converted.status === 201 && converted.body?.sale_id, 'convert_should_be_201', converted);
+  assert(converted.body.paid_ars === 1500, 'convert_should_apply_deposit', converted.body);
+  saleId = converted.body.sale_id;
+
+  // Sales take the seller's branch; move this one onto the test branch so the drawer sees it.
+  const { data: saleRow } = await supabase.from('sales').select('branch_id').eq('id', saleId).single();
+  saleOriginalBranchId = saleRow?.branch_id ?? null;
+  const { error: moveError } = await supabase.from('sales').update({ branch_id: branchId }).eq('id', saleId);
+  assert(!moveError, 'sale_branch_move_failed', moveError?.message);
+
+  const detail = await fetchJson(`/api/cash-sessions/${sessionId}`, { token: ownerToken });
+  assert(detail.status === 200 && detail.body?.session?.summary?.ars, 'session_detail_should_be_200', detail);
+  const ars = detail.body.session.summary.ars;
+  assert(Number(ars.opening) === 10000, 'summary_opening', ars);
+  assert(Number(ars.cash_sales) === 1300, 'applied_deposit_should_not_count_as_cash_sale', ars);
+  assert(Number(ars.cash_deposits) === 500, 'received_deposits_should_count', ars);
+  assert(Number(ars.cash_deposit_refunds) === 300, 'refunded_deposit_should_leave_drawer', ars);
+  assert(Number(ars.movements_in) === 500 && Number(ars.movements_out) === 2000, 'summary_movements', ars);
+  assert(Number(ars.expected) === 10000, 'expected_should_net_everything', ars);
+  assert(detail.body.session.movements?.length === 2, 'detail_should_list_movements', detail.body.session.movements);
+  report.summary = ars;
+
+  const me = await fetchJson('/api/auth/me', { token: sellerToken });
+  if (me.body?.branch_id && me.body.branch_id !== branchId) {
+    const foreign = await fetchJson(`/api/cash-sessions/${sessionId}`, { token: sellerToken });
+    assert(foreign.status === 403, 'seller_from_other_branch_should_be_403', foreign);
+    const foreignMovement = await fetchJson(`/api/cash-sessions/${sessionId}/movements`, {
+      method: 'POST',
+      token: sellerToken,
+      body: { kind: 'withdrawal', amount: 100, reason: 'Retiro ajeno' }
+    });
+    assert(foreignMovement.status === 403, 'seller_from_other_branch_cannot_move_cash', foreignMovement);
+    report.other_branch_seller = foreign.status;
+  } else {
+    report.other_branch_seller = 'skipped_seller_without_branch';
+  }
+
+  const closed = await fetchJson(`/api/cash-sessions/${sessionId}/close`, {
+    method: 'POST',
+    token: ownerToken,
+    body: { counted_ars: 9900, notes: 'Faltan 100' }
+  });
+  assert(closed.status === 200 && closed.body?.session?.status === 'closed', 'close_should_be_200', closed);
+  assert(Number(closed.body.session.expected_ars) === 10000, 'close_should_store_expected', closed.body.session);
+  assert(Number(closed.body.session.difference_ars) === -100, 'close_should_store_difference', closed.body.session);
+  report.closed = { expected_ars: closed.body.session.expected_ars, difference_ars: closed.body.session.difference_ars };
+
+  const afterClose = await fetchJson(`/api/cash-sessions/${sessionId}/movements`, {
+    method: 'POST',
+    token: ownerToken,
+    body: { kind: 'withdrawal', amount: 100, reason: 'Retiro tardío' }
+  });
+  assert(afterClose.status === 409, 'closed_session_should_reject_movements', afterClose);
+  report.closed_session_locked = afterClose.status;
+
+  // eslint-disable-next-line no-console
+  console.log(JSON.stringify({ ok: true, report }, null, 2));
+} finally {
+  if (saleId && ownerToken) {
+    await fetchJson(`/api/sales/${saleId}/cancel`, {
+      method: 'POST',
+      token: ownerToken,
+      body: { reason: 'test_cleanup' }
+    });
+    await supabase.from('sales').update({ branch_id: saleOriginalBranchId }).eq('id', saleId);
+    await supabase.from('stock_items').update({ branch_id: saleOriginalBranchId }).eq('id', stockItemIds[1]);
+  }
+  if (sessionId) {
+    await supabase.from('cash_sessions').delete().eq('id', sessionId);
+  }
+  const deletableStockIds = saleId ? stockItemIds.slice(0, 1) : stockItemIds;
+  if (reservationIds.length > 0) {
+    await supabase.from('reservations').delete().in('id', saleId ? reservationIds.slice(0, 1) : reservationIds);
+  }
+  if (deletableStockIds.length > 0) {
+    await supabase.from('stock_items').delete().in('id', deletableStockIds);
+  }
+  if (branchId) {
+    await supabase.from('branches').delete().eq('id', branchId);
+  }
+}
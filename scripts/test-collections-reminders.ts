@@ -0,0 +1,66 @@
+import { buildWhatsAppLink, renderReminderMessage, toWhatsAppNumber } from '../src/modules/collections/reminderMessage.js';
+
+function fail(message: string, details?: unknown): never {
+  // eslint-disable-next-line no-console
+  console.error(JSON.stringify({ ok: false, message, details }, null, 2));
+  process.exit(1);
+}
+
+function assert(condition: unknown, message: string, details?: unknown) {
+  if (!condition) {
+    fail(message, details);
+  }
+}
+
+const report: Record<string, unknown> = {};
+
+// Every way staff type the same Buenos Aires mobile ends up as 549 + 11 + subscriber.
+const ambaVariants = [
+  '+54 9 11 1234-5678',
+  '5491112345678',
+  '+54 11 1234-5678',
+  '0054 9 11 1234 5678',
+  '011 15 1234-5678',
+  '11 15 1234 5678',
+  '11 1234-5678',
+  '+54 9 11 15 1234-5678'
+];
+for (const phone of ambaVariants) {
+  const number = toWhatsAppNumber(phone);
+  assert(number === '5491112345678', 'amba_variant_should_normalize', { phone, number });
+}
+report.amba_variants = ambaVariants.length;
+
+// Interior area codes: 3 digits (Córdoba) and 4 digits (Bariloche), with and without the local 15.
+assert(toWhatsAppNumber('0351 15 512-3456') === '5493515123456', 'three_digit_area_should_strip_15', toWhatsAppNumber('0351 15 512-3456'));
+assert(toWhatsAppNumber('+54 351 512-3456') === '5493515123456', 'three_digit_area_without_9_should_get_9', toWhatsAppNumber('+54 351 512-3456'));
+assert(toWhatsAppNumber('02944 15 42-3456') === '5492944423456', 'four_digit_area_should_strip_15', toWhatsAppNumber('02944 15 42-3456'));
+report.interior = toWhatsAppNumber('0351 15 512-3456');
+
+for (const invalid of [null, undefined, '', 'sin teléfono', '1234-5678', '+54 9 11 1234']) {
+  assert(toWhatsAppNumber(invalid) === null, 'incomplete_number_should_be_rejected', { invalid, number: toWhatsAppNumber(invalid) });
+}
+assert(buildWhatsAppLink('1234-5678', 'hola') === null, 'link_should_be_null_for_invalid_phone');
+
+const link = buildWhatsAppLink('11 15 1234 5678', 'Hola Juan & cía');
+assert(link === 'https://wa.me/5491112345678?text=Hola%20Juan%20%26%20c%C3%ADa', 'link_should_encode_text', link);
+report.link = link;
+
+const sales = [
+  { sale_id: 'b', sale_date: '2026-09-10T15:00:00.000Z', balance_due_ars: 50000, items: ['Samsung A54'] },
+  { sale_id: 'a', sale_date: '2026-08-01T15:00:00.000Z', balance_due_ars: 150000, items: ['iPhone 13 128GB', 'Funda'] }
+];
+
+const single = renderReminderMessage('Hola {{customer_name}}: {{amount_due}} del {{sale_date}}\n{{items}}', 'Juan', [sales[1]]);
+assert(single.includes('Juan') && single.includes('• iPhone 13 128GB\n• Funda'), 'single_sale_should_list_items', single);
+
+const multiple = renderReminderMessage('{{customer_name}} {{amount_due}} {{sale_date}}\n{{items}} {{typo}}', null, sales);
+const lines = multiple.split('\n');
+assert(multiple.startsWith('cliente '), 'missing_name_should_fall_back', multiple);
+assert(multiple.includes('200.000'), 'amount_should_be_total_owed', multiple);
+assert(lines[1]?.includes('iPhone 13 128GB, Funda') && lines[2]?.includes('Samsung A54'), 'sales_should_be_listed_oldest_first', lines);
+assert(multiple.includes('{{typo}}'), 'unknown_placeholder_should_stay_visible', multiple);
+report.multiple = multiple;
+
+// eslint-disable-next-line no-console
+console.log(JSON.stringify({ ok: true, report }, null, 2));
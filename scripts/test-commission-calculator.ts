@@ -0,0 +1,76 @@
+import { computeItemCommission, resolveCommissionRule } from '../src/modules/commissions/calculator.js';
+import type { CommissionRule } from '../src/modules/commissions/calculator.js';
+
+function fail(message: string, details?: unknown): never {
+  // eslint-disable-next-line no-console
+  console.error(JSON.stringify({ ok: false, message, details }, null, 2));
+  process.exit(1);
+}
+
+function assert(condition: unknown, message: string, details?: unknown) {
+  if (!condition) {
+    fail(message, details);
+  }
+}
+
+const report: Record<string, unknown> = {};
+
+const rule = (id: string, overrides: Partial<CommissionRule>): CommissionRule => ({
+  id,
+  seller_id: null,
+  role: null,
+  category: null,
+  basis: 'sale_pct',
+  rate: 1,
+  ...overrides
+});
+
+const rules: CommissionRule[] = [
+  rule('global', {}),
+  rule('global-outlet', { category: 'outlet' }),
+  rule('role-seller', { role: 'seller' }),
+  rule('role-seller-new', { role: 'seller', category: 'new' }),
+  rule('seller-bruno', { seller_id: 'bruno' }),
+  rule('seller-bruno-used', { seller_id: 'bruno', category: 'used_premium' })
+];
+
+const resolved = (sellerId: string | null, role: string | null, category: string | null) => resolveCommissionRule(rules, sellerId, role, category)?.id ?? null;
+
+const picks = {
+  seller_category: resolved('bruno', 'seller', 'used_premium'),
+  seller_catch_all: resolved('bruno', 'seller', 'new'),
+  role_category: resolved('ana', 'seller', 'new'),
+  role_catch_all: resolved('ana', 'seller', 'used_premium'),
+  global_category: resolved('mocho', 'owner', 'outlet'),
+  global_catch_all: resolved('mocho', 'owner', 'new'),
+  no_seller: resolved(null, null, null)
+};
+assert(picks.seller_category === 'seller-bruno-used', 'seller_category_rule_should_win', picks);
+// A seller-specific catch-all still beats a role rule for the exact category.
+assert(picks.seller_catch_all === 'seller-bruno', 'seller_rule_should_beat_role_category_rule', picks);
+assert(picks.role_category === 'role-seller-new' && picks.role_catch_all === 'role-seller', 'role_rules_should_apply_to_other_sellers', picks);
+assert(picks.global_category === 'global-outlet' && picks.global_catch_all === 'global', 'global_rules_should_be_the_fallback', picks);
+assert(picks.no_seller === 'global', 'sale_without_seller_should_use_global', picks);
+report.resolution = picks;
+
+assert(resolveCommissionRule([rule('only-bruno', { seller_id: 'bruno' })], 'ana', 'seller', 'new') === null, 'no_matching_rule_should_be_null');
+
+const item = { category: 'used_premium', qty: 2, subtotal_ars: 200_000, unit_cost_ars: 70_000 };
+const commissions = {
+  sale_pct: computeItemCommission(rule('r', { basis: 'sale_pct', rate: 2.5 }), item),
+  margin_pct: computeItemCommission(rule('r', { basis: 'margin_pct', rate: 10 }), item),
+  negative_margin: computeItemCommission(rule('r', { basis: 'margin_pct', rate: 10 }), { ...item, unit_cost_ars: 120_000 }),
+  fixed_per_item: computeItemCommission(rule('r', { basis: 'fixed_per_item', rate: 1500 }), item),
+  rounded: computeItemCommission(rule('r', { basis: 'sale_pct', rate: 3 }), { ...item, subtotal_ars: 333.33 }),
+  no_rule: computeItemCommission(null, item)
+};
+assert(commissions.sale_pct === 5000, 'sale_pct_should_use_subtotal', commissions);
+assert(commissions.margin_pct === 6000, 'margin_pct_should_use_subtotal_minus_cost', commissions);
+assert(commissions.negative_margin === 0, 'negative_margin_should_not_go_below_zero', commissions);
+assert(commissions.fixed_per_item === 3000, 'fixed_should_multiply_by_qty', commissions);
+assert(commissions.rounded === 10, 'commission_should_round_to_cents', commissions);
+assert(commissions.no_rule === 0, 'missing_rule_should_pay_nothing', commissions);
+report.commissions = commissions;
+
+// eslint-disable-next-line no-console
+console.log(JSON.stringify({ ok: true, report }, null, 2));
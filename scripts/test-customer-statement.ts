@@ -0,0 +1,97 @@
+import { PassThrough } from 'node:stream';
+import { buildCustomerStatement, writeCustomerStatementPdf } from '../src/modules/finance/statement.js';
+
+function fail(message: string, details?: unknown): never {
+  // eslint-disable-next-line no-console
+  console.error(JSON.stringify({ ok: false, message, details }, null, 2));
+  process.exit(1);
+}
+
+function assert(condition: unknown, message: string, details?: unknown) {
+  if (!condition) {
+    fail(message, details);
+  }
+}
+
+const report: Record<string, unknown> = {};
+
+const customer = { id: 'c1', name: 'Juan Pérez', phone: '+5491112345678', dni: null };
+const arsSaleId = 'aaaa1111-0000-4000-8000-000000000001';
+const usdSaleId = 'bbbb2222-0000-4000-8000-000000000002';
+
+// ARS sale of 2500 with one item returned (total now 2000), partly paid, a payment refund and a cash reintegro;
+// then a USD-rated sale paid 100 USD at its own rate.
+const statement = buildCustomerStatement({
+  customer,
+  sales: [
+    { id: usdSaleId, sale_date: '2026-09-10T10:00:00.000Z', total_ars: 300_000, balance_due_ars: 200_000, fx_rate_used: 1000 },
+    { id: arsSaleId, sale_date: '2026-09-01T10:00:00.000Z', total_ars: 2000, balance_due_ars: 200, fx_rate_used: null }
+  ],
+  payments: [
+    { sale_id: arsSaleId, method: 'cash', currency: 'ARS', amount: 1500, created_at: '2026-09-01T10:00:00.000Z' },
+    { sale_id: arsSaleId, method: 'transfer', currency: null, amount: 1000, created_at: '2026-09-02T10:00:00.000Z' },
+    { sale_id: usdSaleId, method: 'cash', currency: 'usd', amount: 100, created_at: '2026-09-10T12:00:00.000Z' },
+    { sale_id: 'not-this-customer', method: 'cash', currency: 'ARS', amount: 999, created_at: '2026-09-03T10:00:00.000Z' }
+  ],
+  reversals: [
+    { sale_id: arsSaleId, kind: 'refund', currency: 'ARS', amount: 200, created_at: '2026-09-03T10:00:00.000Z' }
+  ],
+  returns: [
+    { sale_id: arsSaleId, total_before_ars: 2500, total_after_ars: 2000, refund_ars: 500, created_at: '2026-09-05T10:00:00.000Z' }
+  ]
+});
+
+const ledger = statement.entries.map((entry) => `${entry.type}:${entry.debit_ars}:${entry.credit_ars}:${entry.balance_ars}`);
+assert(ledger.join(',') === [
+  'sale:2500:0:2500',
+  'payment:0:1500:1000',
+  'payment:0:1000:0',
+  'reversal:200:0:200',
+  'return:0:500:-300',
+  'refund:500:0:200',
+  'sale:300000:0:300200',
+  'payment:0:100000:200200'
+].join(','), 'ledger_should_be_chronological_with_running_balance', ledger);
+report.ledger = ledger;
+
+const [saleEntry, cashEntry, transferEntry, reversalEntry] = statement.entries;
+assert(saleEntry.amount === 2500 && saleEntry.sale_number === 'AAAA1111', 'sale_should_restore_pre_return_total', saleEntry);
+assert(saleEntry.description === 'Venta N° AAAA1111', 'sale_description_should_use_sale_number', saleEntry);
+assert(cashEntry.description === 'Pago Efectivo' && transferEntry.currency === 'ARS', 'payment_should_use_labels_and_default_currency', [cashEntry, transferEntry]);
+assert(reversalEntry.description === 'Devolución de pago', 'refund_reversal_should_be_labelled', reversalEntry);
+
+const usdPayment = statement.entries[7];
+assert(usdPayment.currency === 'USD' && usdPayment.amount === 100 && usdPayment.credit_ars === 100_000, 'usd_payment_should_convert_with_sale_rate', usdPayment);
+assert(!statement.entries.some((entry) => entry.sale_id === 'not-this-customer'), 'movements_of_other_sales_should_be_skipped', statement.entries);
+
+assert(statement.totals.debit_ars === 303_200 && statement.totals.credit_ars === 103_000, 'totals_should_add_debits_and_credits', statement.totals);
+assert(statement.totals.balance_ars === 200_200 && statement.totals.balance_due_ars === 200_200, 'ledger_balance_should_match_balance_due', statement.totals);
+assert(statement.customer === customer && Boolean(statement.store.name), 'statement_should_carry_customer_and_store', statement);
+report.totals = statement.totals;
+
+const voided = buildCustomerStatement({
+  customer,
+  sales: [{ id: arsSaleId, sale_date: '2026-09-01T10:00:00.000Z', total_ars: 1000, balance_due_ars: 1000, fx_rate_used: null }],
+  payments: [{ sale_id: arsSaleId, method: 'card', currency: 'ARS', amount: 1000, created_at: '2026-09-01T11:00:00.000Z' }],
+  reversals: [{ sale_id: arsSaleId, kind: 'void', currency: 'ARS', amount: 1000, created_at: '2026-09-01T12:00:00.000Z' }],
+  returns: []
+});
+assert(voided.entries[2]?.description === 'Anulación de pago' && voided.totals.balance_ars === 1000, 'void_should_reopen_balance', voided.entries);
+
+const empty = buildCustomerStatement({ customer, sales: [], payments: [], reversals: [], returns: [] });
+assert(empty.entries.length === 0 && empty.totals.balance_ars === 0 && empty.totals.balance_due_ars === 0, 'empty_statement_should_be_zero', empty.totals);
+
+for (const [name, value] of [['full', statement], ['empty', empty]] as const) {
+  const output = new PassThrough();
+  const chunks: Buffer[] = [];
+  output.on('data', (chunk: Buffer) => chunks.push(chunk));
+  const finished = new Promise<void>((resolve) => output.on('end', () => resolve()));
+  writeCustomerStatementPdf(value, output);
+  await finished;
+  const pdf = Buffer.concat(chunks);
+  assert(pdf.subarray(0, 5).toString() === '%PDF-', `${name}_pdf_should_start_with_header`, pdf.subarray(0, 16).toString());
+  report[`${name}_pdf_bytes`] = pdf.length;
+}
+
+// eslint-disable-next-line no-console
+console.log(JSON.stringify({ ok: true, report }, null, 2));
@@ -0,0 +1,166 @@
+import 'dotenv/config';
+import { createClient } from '@supabase/supabase-js';
+
+function fail(message, details) {
+  // eslint-disable-next-line no-console
+  console.error(JSON.stringify({ ok: false, message, details }, null, 2));
+  process.exit(1);
+}
+
+function assert(condition, message, details) {
+  if (!condition) {
+    fail(message, details);
+  }
+}
+
+const baseUrl = process.env.API_BASE_URL ?? 'http://127.0.0.1:3000';
+const supabaseUrl = process.env.SUPABASE_URL;
+const serviceRole = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+if (!supabaseUrl || !serviceRole) {
+  fail('Missing SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY');
+}
+
+const supabase = createClient(supabaseUrl, serviceRole, {
+  auth: {
+    persistSession: false,
+    autoRefreshToken: false
+  }
+});
+
+async function fetchJson(path, { method = 'GET', token, body } = {}) {
+  const response = await fetch(`${baseUrl}${path}`, {
+    method,
+    headers: {
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      ...(body ? { 'Content-Type': 'application/json' } : {})
+    },
+    ...(body ? { body: JSON.stringify(body) } : {})
+  });
+
+  let json = null;
+  try {
+    json = await response.json();
+  } catch {
+    json = null;
+  }
+
+  return { status: response.status, body: json };
+}
+
+async function login(email, password) {
+  const result = await fetchJson('/api/auth/login', {
+    method: 'POST',
+    body: { email, password }
+  });
+
+  assert(result.status === 200, `login_failed_${email}`, result);
+  assert(Boolean(result.body?.access_token), `missing_access_token_${email}`, result);
+  return result.body.access_token;
+}
+
+const report = {
+  created: null,
+  duplicate_phone_blocked: null,
+  search_by_dni: null,
+  patch_phone_blocked: null,
+  malformed_id: null,
+  seller_merge_blocked: null,
+  merged: null,
+  detail: null
+};
+
+const createdIds = [];
+
+try {
+  const ownerToken = await login('mocho@gmail.com', '123456');
+  const sellerToken = await login('bruno@gmail.com', '123456');
+  const seed = `${Date.now()}`;
+
+  const createPrimary = await fetchJson('/api/customers', {
+    method: 'POST',
+    token: sellerToken,
+    body: { name: 'Cliente Test Principal', phone: `+54911${seed.slice(-8)}`, dni: `9${seed.slice(-7)}` }
+  });
+  assert(createPrimary.status === 201, 'create_customer_should_be_201', createPrimary);
+  const primaryId = createPrimary.body?.customer?.id;
+  createdIds.push(primaryId);
+  report.created = { status: createPrimary.status, id: primaryId };
+
+  const duplicatePhone = await fetchJson('/api/customers', {
+    method: 'POST',
+    token: sellerToken,
+    body: { name: 'Cliente Duplicado', phone: createPrimary.body.customer.phone }
+  });
+  assert(duplicatePhone.status === 409, 'duplicate_phone_should_be_409', duplicatePhone);
+  assert(duplicatePhone.body?.error?.details?.customer_id === primaryId, 'duplicate_phone_should_point_to_existing', duplicatePhone.body);
+  report.duplicate_phone_blocked = { status: duplicatePhone.status, code: duplicatePhone.body?.error?.code ?? null };
+
+  const byDni = await fetchJson(`/api/customers?dni=${encodeURIComponent(createPrimary.body.customer.dni)}`, { token: sellerToken });
+  assert(byDni.status === 200, 'search_by_dni_should_be_200', byDni);
+  assert((byDni.body?.customers ?? []).some((customer) => customer.id === primaryId), 'search_by_dni_should_find_customer', byDni.body);
+  report.search_by_dni = { status: byDni.status, total: byDni.body?.total ?? null };
+
+  const createDuplicate = await fetchJson('/api/customers', {
+    method: 'POST',
+    token: sellerToken,
+    body: { name: 'Cliente Test Duplicado', phone: `+54922${seed.slice(-8)}` }
+  });
+  assert(createDuplicate.status === 201, 'create_duplicate_customer_should_be_201', createDuplicate);
+  const duplicateId = createDuplicate.body?.customer?.id;
+  createdIds.push(duplicateId);
+
+  const patchPhone = await fetchJson(`/api/customers/${duplicateId}`, {
+    method: 'PATCH',
+    token: sellerToken,
+    body: { phone: createPrimary.body.customer.phone }
+  });
+  assert(patchPhone.status === 409 && patchPhone.body?.error?.code === 'customer_conflict', 'patch_to_taken_phone_should_be_409', patchPhone);
+  assert(patchPhone.body?.error?.details?.customer_id === primaryId, 'patch_conflict_should_point_to_existing', patchPhone.body);
+  const patchSamePhone = await fetchJson(`/api/customers/${primaryId}`, {
+    method: 'PATCH',
+    token: sellerToken,
+    body: { phone: createPrimary.body.customer.phone, notes: 'Sin cambios de teléfono' }
+  });
+  assert(patchSamePhone.status === 200, 'patch_keeping_own_phone_should_be_200', patchSamePhone);
+  report.patch_phone_blocked = { status: patchPhone.status, code: patchPhone.body.error.code };
+
+  const malformed = await fetchJson('/api/customers/not-a-uuid', { token: sellerToken });
+  assert(malformed.status === 400 && malformed.body?.error?.code === 'validation_error', 'malformed_id_should_be_validation_error', malformed);
+  report.malformed_id = { status: malformed.status, code: malformed.body.error.code };
+
+  const sellerMerge = await fetchJson(`/api/customers/${primaryId}/merge`, {
+    method: 'POST',
+    token: sellerToken,
+    body: { source_ids: [duplicateId] }
+  });
+  assert(sellerMerge.status === 403, 'seller_merge_should_be_403', sellerMerge);
+  report.seller_merge_blocked = { status: sellerMerge.status };
+
+  const merge = await fetchJson(`/api/customers/${primaryId}/merge`, {
+    method: 'POST',
+    token: ownerToken,
+    body: { source_ids: [duplicateId] }
+  });
+  assert(merge.status === 200, 'merge_should_be_200', merge);
+  assert((merge.body?.merged_ids ?? []).includes(duplicateId), 'merge_should_report_source', merge.body);
+
+  const mergedSearch = await fetchJson(`/api/customers?phone=${encodeURIComponent(createDuplicate.body.customer.phone)}`, { token: sellerToken });
+  assert(mergedSearch.status === 200 && Number(mergedSearch.body?.total) === 0, 'merged_customer_should_be_hidden', mergedSearch.body);
+  report.merged = { status: merge.status, sales_moved: merge.body?.sales_moved ?? null };
+
+  const detail = await fetchJson(`/api/customers/${primaryId}/detail`, { token: sellerToken });
+  assert(detail.status === 200, 'detail_should_be_200', detail);
+  assert(typeof detail.body?.summary?.balance_due_ars === 'number', 'detail_should_include_balance_due', detail.body);
+  assert(Array.isArray(detail.body?.sales) && Array.isArray(detail.body?.payments) && Array.isArray(detail.body?.trade_ins), 'detail_should_include_relations', detail.body);
+  report.detail = { status: detail.status, summary: detail.body.summary };
+
+  // eslint-disable-next-line no-console
+  console.log(JSON.stringify({ ok: true, report }, null, 2));
+} finally {
+  const ids = createdIds.filter(Boolean);
+  if (ids.length > 0) {
+    await supabase.from('customers').update({ merged_into_id: null }).in('id', ids);
+    await supabase.from('customers').delete().in('id', ids);
+  }
+}
@@ -0,0 +1,221 @@
+import 'dotenv/config';
+import { createClient } from '@supabase/supabase-js';
+
+function fail(message, details) {
+  // eslint-disable-next-line no-console
+  console.error(JSON.stringify({ ok: false, message, details }, null, 2));
+  process.exit(1);
+}
+
+function assert(condition, message, details) {
+  if (!condition) {
+    fail(message, details);
+  }
+}
+
+const baseUrl = process.env.API_BASE_URL ?? 'http://127.0.0.1:3000';
+const supabaseUrl = process.env.SUPABASE_URL;
+const serviceRole = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+if (!supabaseUrl || !serviceRole) {
+  fail('Missing SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY');
+}
+
+const supabase = createClient(supabaseUrl, serviceRole, {
+  auth: {
+    persistSession: false,
+    autoRefreshToken: false
+  }
+});
+
+async function fetchJson(path, { method = 'GET', token, body } = {}) {
+  const response = await fetch(`${baseUrl}${path}`, {
+    method,
+    headers: {
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      ...(body ? { 'Content-Type': 'application/json' } : {})
+    },
+    ...(body ? { body: JSON.stringify(body) } : {})
+  });
+
+  let json = null;
+  try {
+    json = await response.json();
+  } catch {
+    json = null;
+  }
+
+  return { status: response.status, body: json };
+}
+
+async function login(email, password) {
+  const result = await fetchJson('/api/auth/login', {
+    method: 'POST',
+    body: { email, password }
+  });
+
+  assert(result.status === 200, `login_failed_${email}`, result);
+  assert(Boolean(result.body?.access_token), `missing_access_token_${email}`, result);
+  return result.body.access_token;
+}
+
+const report = {
+  seller_forbidden: null,
+  usd_without_rate_rejected: null,
+  expenses: null,
+  patched: null,
+  pnl: null,
+  deleted: null
+};
+
+const expenseIds = [];
+let branchId = null;
+let stockItemId = null;
+let saleId = null;
+let saleOriginalBranchId = null;
+let ownerToken = null;
+
+try {
+  ownerToken = await login('mocho@gmail.com', '123456');
+  const sellerToken = await login('bruno@gmail.com', '123456');
+  const seed = `${Date.now()}`;
+  // A day nobody sells on, in a fresh branch, so the P&L only sees what this test loads.
+  const day = '2001-01-15';
+
+  const { data: branch, error: branchError } = await supabase
+    .from('branches')
+    .insert({ name: `Sucursal Gastos ${seed}`, code: `TG${seed.slice(-6)}` })
+    .select('id')
+    .single();
+  assert(!branchError && branch?.id, 'temp_branch_create_failed', branchError?.message);
+  branchId = branch.id;
+
+  const rent = { expense_date: day, category: 'rent', description: 'Alquiler local test', amount: 100, branch_id: branchId };
+
+  const sellerAttempt = await fetchJson('/api/expenses', { method: 'POST', token: sellerToken, body: rent });
+  assert(sellerAttempt.status === 403, 'seller_create_should_be_403', sellerAttempt);
+  report.seller_forbidden = sellerAttempt.status;
+
+  const usdWithoutRate = await fetchJson('/api/expenses', {
+    method: 'POST',
+    token: ownerToken,
+    body: { ...rent, category: 'shipping', currency: 'USD', amount: 0.5 }
+  });
+  assert(usdWithoutRate.status === 400 && usdWithoutRate.body?.error?.code === 'validation_error', 'usd_without_rate_should_be_400', usdWithoutRate);
+  report.usd_without_rate_rejected = usdWithoutRate.status;
+
+  const rentCreated = await fetchJson('/api/expenses', { method: 'POST', token: ownerToken, body: rent });
+  assert(rentCreated.status === 201 && rentCreated.body?.expense?.id, 'rent_create_should_be_201', rentCreated);
+  expenseIds.push(rentCreated.body.expense.id);
+  assert(Number(rentCreated.body.expense.amount_ars) === 100 && rentCreated.body.expense.fx_rate === null, 'ars_expense_should_keep_amount', rentCreated.body.expense);
+
+  const shipping = await fetchJson('/api/expenses', {
+    method: 'POST',
+    token: ownerToken,
+    body: { ...rent, category: 'shipping', description: 'Envío test', currency: 'USD', amount: 0.5, fx_rate: 1000 }
+  });
+  assert(shipping.status === 201 && Number(shipping.body?.expense?.amount_ars) === 500, 'usd_expense_should_freeze_ars_value', shipping);
+  expenseIds.push(shipping.body.expense.id);
+
+  // Company-wide expense: out of a branch P&L.
+  const companyWide = await fetchJson('/api/expenses', {
+    method: 'POST',
+    token: ownerToken,
+    body: { ...rent, category: 'other', description: 'Gasto general test', amount: 10000, branch_id: null }
+  });
+  assert(companyWide.status === 201, 'company_wide_create_should_be_201', companyWide);
+  expenseIds.push(companyWide.body.expense.id);
+  report.expenses = expenseIds.length;
+
+  const patched = await fetchJson(`/api/expenses/${rentCreated.body.expense.id}`, { method: 'PATCH', token: ownerToken, body: { amount: 300 } });
+  assert(patched.status === 200 && Number(patched.body?.expense?.amount_ars) === 300, 'patch_should_recompute_amount_ars', patched);
+
+  const badPatch = await fetchJson(`/api/expenses/${rentCreated.body.expense.id}`, { method: 'PATCH', token: ownerToken, body: { currency: 'USD' } });
+  assert(badPatch.status === 400 && badPatch.body?.error?.code === 'validation_error', 'switch_to_usd_without_rate_should_be_400', badPatch);
+  report.patched = { amount_ars: Number(patched.body.expense.amount_ars), bad_patch: badPatch.status };
+
+  const listed = await fetchJson(`/api/expenses?from=${day}&to=${day}&branch_id=${branchId}`, { token: ownerToken });
+  assert(listed.status === 200 && listed.body?.total === 2, 'list_should_filter_by_branch_and_date', listed);
+
+  const { data: stock, error: stockError } = await supabase
+    .from('stock_items')
+    .insert({
+      brand: 'Apple',
+      model: `iPhone Gastos ${seed}`,
+      condition: 'used',
+      category: 'used_premium',
+      status: 'available',
+      sale_price_ars: 1500,
+      purchase_ars: 900,
+      imei: `32${seed}`.slice(0, 15),
+      branch_id: branchId,
+      details: 'auto-test-expenses-pnl'
+    })
+    .select('id')
+    .single();
+  assert(!stockError && stock?.id, 'temp_stock_create_failed', stockError?.message);
+  stockItemId = stock.id;
+
+  const sale = await fetchJson('/api/sales', {
+    method: 'POST',
+    token: ownerToken,
+    body: {
+      sale_date: `${day}T15:00:00.000Z`,
+      customer: { name: 'Cliente Gastos Test', phone: `3814${seed.slice(-6)}` },
+      payment_method: 'cash',
+      currency: 'ARS',
+      total_ars: 1500,
+      items: [{ stock_item_id: stockItemId, qty: 1, sale_price_ars: 1500 }]
+    }
+  });
+  assert(sale.status === 201, 'sale_should_be_201', sale);
+  saleId = sale.body?.sale_id ?? sale.body?.sale?.id ?? null;
+  assert(Boolean(saleId), 'sale_id_missing', sale.body);
+
+  // Sales take the seller's branch; move this one onto the test branch.
+  const { data: saleRow } = await supabase.from('sales').select('branch_id').eq('id', saleId).single();
+  saleOriginalBranchId = saleRow?.branch_id ?? null;
+  const { error: moveError } = await supabase.from('sales').update({ branch_id: branchId }).eq('id', saleId);
+  assert(!moveError, 'sale_branch_move_failed', moveError?.message);
+
+  const pnl = await fetchJson(`/api/finance/pnl?from=${day}&to=${day}&branch_id=${branchId}`, { token: ownerToken });
+  assert(pnl.status === 200, 'pnl_should_be_200', pnl);
+  assert(pnl.body.revenue_ars === 1500 && pnl.body.cost_of_goods_ars === 900 && pnl.body.gross_margin_ars === 600, 'pnl_margin', pnl.body);
+  assert(pnl.body.expenses_total_ars === 800, 'branch_pnl_should_skip_company_wide_expenses', pnl.body);
+  assert(pnl.body.net_profit_ars === -200 && pnl.body.net_margin_pct === -13.33, 'pnl_net_profit', pnl.body);
+  const categories = pnl.body.expenses_by_category.map((row) => `${row.category}:${row.total_ars}`);
+  assert(categories.join(',') === 'shipping:500,rent:300', 'pnl_categories_should_sort_by_total', pnl.body.expenses_by_category);
+  report.pnl = pnl.body;
+
+  const sellerPnl = await fetchJson(`/api/finance/pnl?from=${day}&to=${day}`, { token: sellerToken });
+  assert(sellerPnl.status === 403, 'seller_pnl_should_be_403', sellerPnl);
+
+  const companyPnl = await fetchJson(`/api/finance/pnl?from=${day}&to=${day}`, { token: ownerToken });
+  assert(companyPnl.status === 200 && companyPnl.body.expenses_total_ars >= 10800, 'company_pnl_should_include_all_expenses', companyPnl.body);
+
+  const deleted = await fetchJson(`/api/expenses/${companyWide.body.expense.id}`, { method: 'DELETE', token: ownerToken });
+  assert(deleted.status === 204, 'delete_should_be_204', deleted);
+  expenseIds.pop();
+  report.deleted = deleted.status;
+
+  // eslint-disable-next-line no-console
+  console.log(JSON.stringify({ ok: true, report }, null, 2));
+} finally {
+  if (expenseIds.length > 0) {
+    await supabase.from('expenses').delete().in('id', expenseIds);
+  }
+  if (saleId && ownerToken) {
+    await fetchJson(`/api/sales/${saleId}/cancel`, {
+      method: 'POST',
+      token: ownerToken,
+      body: { reason: 'test_cleanup' }
+    });
+    await supabase.from('sales').update({ branch_id: saleOriginalBranchId }).eq('id', saleId);
+    await supabase.from('stock_items').update({ branch_id: saleOriginalBranchId }).eq('id', stockItemId);
+  } else if (stockItemId) {
+    await supabase.from('stock_items').delete().eq('id', stockItemId);
+  }
+  if (branchId) {
+    await supabase.from('branches').delete().eq('id', branchId);
+  }
+}
@@ -0,0 +1,50 @@
+import { summarizeCollections } from '../src/modules/finance/collections.js';
+
+function fail(message: string, details?: unknown): never {
+  // eslint-disable-next-line no-console
+  console.error(JSON.stringify({ ok: false, message, details }, null, 2));
+  process.exit(1);
+}
+
+function assert(condition: unknown, message: string, details?: unknown) {
+  if (!condition) {
+    fail(message, details);
+  }
+}
+
+const report: Record<string, unknown> = {};
+
+const payments = [
+  { method: 'cash', currency: 'ARS', amount: 100000 },
+  { method: 'cash', currency: 'USD', amount: 300 },
+  { method: 'transfer', currency: 'ARS', amount: 50000 },
+  { method: null, currency: null, amount: 1000 }
+];
+
+const plain = summarizeCollections(payments, []);
+assert(plain.collected_ars === 151000 && plain.collected_usd === 300, 'payments_should_add_by_currency', plain);
+assert(plain.payment_mix_by_currency.some((row) => row.method === 'unknown' && row.currency === 'ARS'), 'missing_method_should_be_unknown_ars', plain);
+report.without_outflows = plain;
+
+// A voided transfer, a USD cash refund and an ARS card refund with no card payments in the period.
+const netted = summarizeCollections(payments, [
+  { method: 'transfer', currency: 'ARS', amount: 20000 },
+  { method: 'cash', currency: 'USD', amount: 100 },
+  { method: 'card', currency: 'ARS', amount: 5000 }
+]);
+assert(netted.collected_ars === 126000, 'ars_outflows_should_be_subtracted', netted);
+assert(netted.collected_usd === 200, 'usd_outflows_should_only_touch_usd', netted);
+
+const mixRow = (method: string, currency: string) => netted.payment_mix_by_currency.find((row) => row.method === method && row.currency === currency);
+assert(mixRow('transfer', 'ARS')?.total === 30000, 'transfer_mix_should_be_net', netted.payment_mix_by_currency);
+assert(mixRow('cash', 'USD')?.total === 200, 'usd_cash_mix_should_be_net', netted.payment_mix_by_currency);
+assert(mixRow('cash', 'ARS')?.total === 100000, 'ars_cash_mix_should_be_untouched', netted.payment_mix_by_currency);
+assert(mixRow('card', 'ARS')?.total === -5000, 'refund_without_payment_should_show_negative', netted.payment_mix_by_currency);
+assert(netted.payment_mix_by_currency[0]?.currency === 'ARS', 'mix_should_sort_by_currency', netted.payment_mix_by_currency);
+report.with_outflows = netted;
+
+const rounding = summarizeCollections([{ method: 'cash', currency: 'ARS', amount: 0.1 }, { method: 'cash', currency: 'ARS', amount: 0.2 }], []);
+assert(rounding.collected_ars === 0.3, 'totals_should_round_to_cents', rounding);
+
+// eslint-disable-next-line no-console
+console.log(JSON.stringify({ ok: true, report }, null, 2));
@@ -82,6 +82,11 @@ assert(isNumber(happySummary.body?.sales_count), 'sales_count must be number', h
 assert(isNumber(happySummary.body?.margin_total), 'margin_total must be number', happySummary.body);
 assert(isNumber(happySummary.body?.ticket_avg), 'ticket_avg must be number', happySummary.body);
 assert(Array.isArray(happySummary.body?.payment_mix), 'payment_mix must be an array', happySummary.body);
+assert(isNumber(happySummary.body?.sales_total_usd), 'sales_total_usd must be number', happySummary.body);
+assert(isNumber(happySummary.body?.margin_total_usd), 'margin_total_usd must be number', happySummary.body);
+assert(isNumber(happySummary.body?.collected_usd), 'collected_usd must be number', happySummary.body);
+assert(Array.isArray(happySummary.body?.payment_mix_by_currency), 'payment_mix_by_currency must be an array', happySummary.body);
+assert(happySummary.body?.sales_month_usd === happySummary.body?.sales_total_usd, 'sales_month_usd must mirror sales_total_usd', happySummary.body);
 assert((happySummary.body?.sales_count ?? 0) >= 1, 'Expected at least one sale in happy case range', happySummary.body);
 
 const noDataSummary = await fetchJson(`${baseUrl}/api/finance/summary?from=${noDataFrom}&to=${noDataTo}`, {
@@ -97,6 +102,8 @@ assert(Number(noDataSummary.body?.sales_count ?? NaN) === 0, 'Expected sales_cou
 assert(Number(noDataSummary.body?.margin_total ?? NaN) === 0, 'Expected margin_total=0 on no-data range', noDataSummary.body);
 assert(Number(noDataSummary.body?.ticket_avg ?? NaN) === 0, 'Expected ticket_avg=0 on no-data range', noDataSummary.body);
 assert(Array.isArray(noDataSummary.body?.payment_mix) && noDataSummary.body.payment_mix.length === 0, 'Expected empty payment_mix on no-data range', noDataSummary.body);
+assert(Number(noDataSummary.body?.sales_total_usd ?? NaN) === 0, 'Expected sales_total_usd=0 on no-data range', noDataSummary.body);
+assert(Array.isArray(noDataSummary.body?.payment_mix_by_currency) && noDataSummary.body.payment_mix_by_currency.length === 0, 'Expected empty payment_mix_by_currency on no-data range', noDataSummary.body);
 
 const regressionSummary = await fetchJson(`${baseUrl}/api/finance/summary?from=${happyDate}&to=${happyDate}`, {
   method: 'GET',
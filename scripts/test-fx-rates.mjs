@@ -0,0 +1,187 @@
+import 'dotenv/config';
+import { createClient } from '@supabase/supabase-js';
+
+function fail(message, details) {
+  // eslint-disable-next-line no-console
+  console.error(JSON.stringify({ ok: false, message, details }, null, 2));
+  process.exit(1);
+}
+
+function assert(condition, message, details) {
+  if (!condition) {
+    fail(message, details);
+  }
+}
+
+const baseUrl = process.env.API_BASE_URL ?? 'http://127.0.0.1:3000';
+const supabaseUrl = process.env.SUPABASE_URL;
+const serviceRole = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+if (!supabaseUrl || !serviceRole) {
+  fail('Missing SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY');
+}
+
+const supabase = createClient(supabaseUrl, serviceRole, {
+  auth: {
+    persistSession: false,
+    autoRefreshToken: false
+  }
+});
+
+async function fetchJson(path, { method = 'GET', token, body } = {}) {
+  const response = await fetch(`${baseUrl}${path}`, {
+    method,
+    headers: {
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      ...(body ? { 'Content-Type': 'application/json' } : {})
+    },
+    ...(body ? { body: JSON.stringify(body) } : {})
+  });
+
+  let json = null;
+  try {
+    json = await response.json();
+  } catch {
+    json = null;
+  }
+
+  return { status: response.status, body: json };
+}
+
+async function login(email, password) {
+  const result = await fetchJson('/api/auth/login', {
+    method: 'POST',
+    body: { email, password }
+  });
+
+  assert(result.status === 200, `login_failed_${email}`, result);
+  assert(Boolean(result.body?.access_token), `missing_access_token_${email}`, result);
+  return result.body.access_token;
+}
+
+const report = {
+  seller_forbidden: null,
+  created: null,
+  duplicate_rejected: null,
+  future_rate_ignored: null,
+  patched: null,
+  stock_fallback: null
+};
+
+const rateIds = [];
+const stockItemIds = [];
+
+try {
+  const ownerToken = await login('mocho@gmail.com', '123456');
+  const sellerToken = await login('bruno@gmail.com', '123456');
+  const seed = `${Date.now()}`;
+  // Dates far from today so the store's live quotes are never shadowed by the test rows.
+  const pastDay = '2001-01-10';
+  const futureDay = `${new Date().getUTCFullYear() + 5}-01-10`;
+
+  const sellerAttempt = await fetchJson('/api/fx-rates', {
+    method: 'POST',
+    token: sellerToken,
+    body: { rate_date: pastDay, rate_type: 'mep', rate: 1 }
+  });
+  assert(sellerAttempt.status === 403, 'seller_create_should_be_403', sellerAttempt);
+  report.seller_forbidden = sellerAttempt.status;
+
+  const created = await fetchJson('/api/fx-rates', {
+    method: 'POST',
+    token: ownerToken,
+    body: { rate_date: pastDay, rate_type: 'mep', rate: 1.5, source: 'auto-test-fx-rates' }
+  });
+  assert(created.status === 201 && created.body?.rate?.id, 'create_should_be_201', created);
+  rateIds.push(created.body.rate.id);
+  assert(Number(created.body.rate.rate) === 1.5 && created.body.rate.rate_date === pastDay, 'created_rate_should_keep_values', created.body.rate);
+  report.created = created.body.rate.id;
+
+  const duplicate = await fetchJson('/api/fx-rates', {
+    method: 'POST',
+    token: ownerToken,
+    body: { rate_date: pastDay, rate_type: 'mep', rate: 2 }
+  });
+  assert(duplicate.status === 409 && duplicate.body?.error?.code === 'conflict', 'same_day_and_type_should_be_409', duplicate);
+  report.duplicate_rejected = duplicate.status;
+
+  const otherType = await fetchJson('/api/fx-rates', {
+    method: 'POST',
+    token: ownerToken,
+    body: { rate_date: pastDay, rate_type: 'card', rate: 2, source: 'auto-test-fx-rates' }
+  });
+  assert(otherType.status === 201, 'same_day_other_type_should_be_201', otherType);
+  rateIds.push(otherType.body.rate.id);
+
+  const future = await fetchJson('/api/fx-rates', {
+    method: 'POST',
+    token: ownerToken,
+    body: { rate_date: futureDay, rate_type: 'mep', rate: 99999, source: 'auto-test-fx-rates' }
+  });
+  assert(future.status === 201, 'future_rate_create_should_be_201', future);
+  rateIds.push(future.body.rate.id);
+
+  const current = await fetchJson('/api/fx-rates/current?rate_type=mep', { token: sellerToken });
+  assert(current.status === 200 && current.body?.rate?.id !== future.body.rate.id, 'current_should_ignore_future_rates', current);
+  assert(current.body.rate.rate_date < futureDay, 'current_should_be_dated_today_or_before', current.body);
+  report.future_rate_ignored = current.body.rate.rate_date;
+
+  const listed = await fetchJson(`/api/fx-rates?from=${pastDay}&to=${pastDay}`, { token: sellerToken });
+  assert(listed.status === 200, 'list_should_be_200', listed);
+  const listedTypes = (listed.body?.rates ?? []).filter((rate) => rateIds.includes(rate.id)).map((rate) => rate.rate_type).sort();
+  assert(listedTypes.join(',') === 'card,mep', 'list_should_filter_by_date', listed.body);
+
+  const badType = await fetchJson('/api/fx-rates/current?rate_type=euro', { token: sellerToken });
+  assert(badType.status === 400, 'unknown_rate_type_should_be_400', badType);
+
+  const patched = await fetchJson(`/api/fx-rates/${created.body.rate.id}`, { method: 'PATCH', token: ownerToken, body: { rate: 1.75 } });
+  assert(patched.status === 200 && Number(patched.body?.rate?.rate) === 1.75, 'patch_should_update_rate', patched);
+
+  const collide = await fetchJson(`/api/fx-rates/${otherType.body.rate.id}`, { method: 'PATCH', token: ownerToken, body: { rate_type: 'mep' } });
+  assert(collide.status === 409, 'patch_onto_existing_day_and_type_should_be_409', collide);
+  report.patched = { rate: Number(patched.body.rate.rate), collision: collide.status };
+
+  // USD stock without fx_rate_used takes the current quote of the default type, or is rejected without one.
+  const defaultRate = await fetchJson('/api/fx-rates/current', { token: ownerToken });
+  const stock = await fetchJson('/api/stock-items', {
+    method: 'POST',
+    token: ownerToken,
+    body: {
+      brand: 'Apple',
+      model: `iPhone Cotizacion ${seed}`,
+      condition: 'used',
+      category: 'used_premium',
+      sale_price_ars: 1500,
+      purchase_usd: 100,
+      imei: `31${seed}`.slice(0, 15),
+      details: 'auto-test-fx-rates'
+    }
+  });
+  if (defaultRate.status === 200) {
+    assert(stock.status === 201 && stock.body?.id, 'usd_stock_should_be_201', stock);
+    stockItemIds.push(stock.body.id);
+    const rate = Number(defaultRate.body.rate.rate);
+    assert(Number(stock.body.fx_rate_used) === rate, 'usd_stock_should_store_current_rate', { stock: stock.body, rate });
+    assert(Math.abs(Number(stock.body.purchase_ars) - (100 * rate)) < 0.01, 'usd_stock_should_derive_purchase_ars', stock.body);
+    report.stock_fallback = { fx_rate_used: rate };
+  } else {
+    assert(defaultRate.status === 404, 'current_default_rate_should_be_200_or_404', defaultRate);
+    assert(stock.status === 400 && stock.body?.error?.details === 'fx_rate_unavailable', 'usd_stock_without_any_rate_should_be_400', stock);
+    if (stock.body?.id) stockItemIds.push(stock.body.id);
+    report.stock_fallback = 'no_stored_rate';
+  }
+
+  const deleted = await fetchJson(`/api/fx-rates/${future.body.rate.id}`, { method: 'DELETE', token: ownerToken });
+  assert(deleted.status === 204, 'delete_should_be_204', deleted);
+  rateIds.pop();
+
+  // eslint-disable-next-line no-console
+  console.log(JSON.stringify({ ok: true, report }, null, 2));
+} finally {
+  if (rateIds.length > 0) {
+    await supabase.from('fx_rates').delete().in('id', rateIds);
+  }
+  if (stockItemIds.length > 0) {
+    await supabase.from('stock_items').delete().in('id', stockItemIds);
+  }
+}
@@ -0,0 +1,167 @@
+import 'dotenv/config';
+import { createClient } from '@supabase/supabase-js';
+
+function fail(message, details) {
+  // eslint-disable-next-line no-console
+  console.error(JSON.stringify({ ok: false, message, details }, null, 2));
+  process.exit(1);
+}
+
+function assert(condition, message, details) {
+  if (!condition) {
+    fail(message, details);
+  }
+}
+
+const baseUrl = process.env.API_BASE_URL ?? 'http://127.0.0.1:3000';
+const supabaseUrl = process.env.SUPABASE_URL;
+const serviceRole = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+if (!supabaseUrl || !serviceRole) {
+  fail('Missing SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY');
+}
+
+const supabase = createClient(supabaseUrl, serviceRole, {
+  auth: {
+    persistSession: false,
+    autoRefreshToken: false
+  }
+});
+
+async function fetchJson(path, { method = 'GET', token, body } = {}) {
+  const response = await fetch(`${baseUrl}${path}`, {
+    method,
+    headers: {
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      ...(body ? { 'Content-Type': 'application/json' } : {})
+    },
+    ...(body ? { body: JSON.stringify(body) } : {})
+  });
+
+  let json = null;
+  try {
+    json = await response.json();
+  } catch {
+    json = null;
+  }
+
+  return { status: response.status, body: json };
+}
+
+async function login(email, password) {
+  const result = await fetchJson('/api/auth/login', {
+    method: 'POST',
+    body: { email, password }
+  });
+
+  assert(result.status === 200, `login_failed_${email}`, result);
+  assert(Boolean(result.body?.access_token), `missing_access_token_${email}`, result);
+  return result.body.access_token;
+}
+
+const report = {
+  seller_forbidden: null,
+  list_by_state: null,
+  detail: null,
+  sweep: null,
+  remaining: null,
+  cleared: null,
+  clear_again: null
+};
+
+const route = `test-idempotency-sweeper-${Date.now()}`;
+
+try {
+  const ownerToken = await login('mocho@gmail.com', '123456');
+  const sellerToken = await login('bruno@gmail.com', '123456');
+
+  const me = await fetchJson('/api/auth/me', { token: ownerToken });
+  assert(me.status === 200 && me.body?.id, 'me_should_return_owner', me);
+
+  const now = Date.now();
+  const hoursAgo = (hours) => new Date(now - hours * 60 * 60 * 1000).toISOString();
+  const inHours = (hours) => new Date(now + hours * 60 * 60 * 1000).toISOString();
+  const base = { user_id: me.body.id, route, request_hash: 'test-hash' };
+
+  const { data: keys, error: keysError } = await supabase
+    .from('idempotency_keys')
+    .insert([
+      { ...base, key: 'expired', response_status: 201, response_body: { id: 'old' }, created_at: hoursAgo(30), expires_at: hoursAgo(6) },
+      { ...base, key: 'stuck', created_at: hoursAgo(2), expires_at: inHours(22) },
+      { ...base, key: 'fresh', created_at: new Date(now).toISOString(), expires_at: inHours(24) },
+      { ...base, key: 'completed', response_status: 201, response_body: { id: 'done' }, created_at: hoursAgo(2), expires_at: inHours(22) }
+    ])
+    .select('id, key');
+  assert(!keysError && keys?.length === 4, 'temp_keys_create_failed', keysError?.message ?? keys);
+  const keyId = Object.fromEntries(keys.map((row) => [row.key, row.id]));
+
+  const sellerList = await fetchJson('/api/admin/idempotency-keys', { token: sellerToken });
+  const sellerSweep = await fetchJson('/api/admin/idempotency-keys/sweep', { method: 'POST', token: sellerToken });
+  const sellerDelete = await fetchJson(`/api/admin/idempotency-keys/${keyId.fresh}`, { method: 'DELETE', token: sellerToken });
+  assert(sellerList.status === 403 && sellerSweep.status === 403 && sellerDelete.status === 403, 'seller_should_be_403', {
+    list: sellerList.status,
+    sweep: sellerSweep.status,
+    delete: sellerDelete.status
+  });
+  report.seller_forbidden = sellerSweep.status;
+
+  const listState = async (state) => {
+    const result = await fetchJson(`/api/admin/idempotency-keys?route=${encodeURIComponent(route)}&state=${state}`, { token: ownerToken });
+    assert(result.status === 200 && Array.isArray(result.body?.keys), `list_${state}_should_be_200`, result);
+    return result.body.keys;
+  };
+
+  const inProgress = await listState('in_progress');
+  assert(inProgress.length === 2 && inProgress.every((row) => row.state === 'in_progress'), 'in_progress_filter_should_match_two', inProgress);
+  const stuckRow = inProgress.find((row) => row.key === 'stuck');
+  const freshRow = inProgress.find((row) => row.key === 'fresh');
+  assert(stuckRow?.stuck === true && freshRow?.stuck === false, 'stuck_flag_should_follow_timeout', inProgress);
+  assert(!('response_body' in stuckRow), 'list_should_not_include_response_body', stuckRow);
+  const expired = await listState('expired');
+  assert(expired.length === 1 && expired[0].key === 'expired', 'expired_filter_should_match_one', expired);
+  const completed = await listState('completed');
+  assert(completed.length === 1 && completed[0].key === 'completed' && completed[0].stuck === false, 'completed_filter_should_match_one', completed);
+  report.list_by_state = { in_progress: inProgress.length, expired: expired.length, completed: completed.length };
+
+  const detail = await fetchJson(`/api/admin/idempotency-keys/${keyId.completed}`, { token: ownerToken });
+  assert(detail.status === 200 && detail.body?.key?.response_body?.id === 'done', 'detail_should_include_response_body', detail);
+  const missing = await fetchJson('/api/admin/idempotency-keys/00000000-0000-0000-0000-000000000000', { token: ownerToken });
+  assert(missing.status === 404, 'unknown_key_should_be_404', missing);
+  report.detail = detail.body.key.state;
+
+  const sweep = await fetchJson('/api/admin/idempotency-keys/sweep', { method: 'POST', token: ownerToken });
+  assert(sweep.status === 200, 'sweep_should_be_200', sweep);
+  assert(sweep.body?.expired_deleted >= 1 && sweep.body?.stuck_released >= 1, 'sweep_should_report_deleted_keys', sweep.body);
+  report.sweep = sweep.body;
+
+  // Only the expired key and the in-progress key past the timeout go; a completed key is kept until it expires.
+  const { data: remaining, error: remainingError } = await supabase
+    .from('idempotency_keys')
+    .select('key')
+    .eq('route', route)
+    .order('key');
+  assert(!remainingError, 'remaining_fetch_failed', remainingError?.message);
+  const remainingKeys = (remaining ?? []).map((row) => row.key);
+  assert(remainingKeys.join(',') === 'completed,fresh', 'sweep_should_keep_live_keys', remainingKeys);
+  report.remaining = remainingKeys;
+
+  const cleared = await fetchJson(`/api/admin/idempotency-keys/${keyId.fresh}`, { method: 'DELETE', token: ownerToken });
+  assert(cleared.status === 204, 'clear_should_be_204', cleared);
+  const { data: audit, error: auditError } = await supabase
+    .from('audit_logs')
+    .select('action, entity_type, actor_user_id, before_json')
+    .eq('entity_id', keyId.fresh)
+    .eq('action', 'idempotency_key_cleared');
+  assert(!auditError && audit?.length === 1, 'clear_should_write_audit_log', auditError?.message ?? audit);
+  assert(audit[0].actor_user_id === me.body.id && audit[0].before_json?.key === 'fresh', 'audit_log_should_record_actor_and_key', audit[0]);
+  report.cleared = cleared.status;
+
+  const clearAgain = await fetchJson(`/api/admin/idempotency-keys/${keyId.fresh}`, { method: 'DELETE', token: ownerToken });
+  assert(clearAgain.status === 404, 'clear_again_should_be_404', clearAgain);
+  report.clear_again = clearAgain.status;
+
+  // eslint-disable-next-line no-console
+  console.log(JSON.stringify({ ok: true, report }, null, 2));
+} finally {
+  await supabase.from('idempotency_keys').delete().eq('route', route);
+}
@@ -0,0 +1,136 @@
+import 'dotenv/config';
+import { createClient } from '@supabase/supabase-js';
+
+function fail(message, details) {
+  // eslint-disable-next-line no-console
+  console.error(JSON.stringify({ ok: false, message, details }, null, 2));
+  process.exit(1);
+}
+
+function assert(condition, message, details) {
+  if (!condition) {
+    fail(message, details);
+  }
+}
+
+const baseUrl = process.env.API_BASE_URL ?? 'http://127.0.0.1:3000';
+const supabaseUrl = process.env.SUPABASE_URL;
+const serviceRole = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+if (!supabaseUrl || !serviceRole) {
+  fail('Missing SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY');
+}
+
+const supabase = createClient(supabaseUrl, serviceRole, {
+  auth: {
+    persistSession: false,
+    autoRefreshToken: false
+  }
+});
+
+async function fetchJson(path, { method = 'GET', token, body, idempotencyKey } = {}) {
+  const response = await fetch(`${baseUrl}${path}`, {
+    method,
+    headers: {
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      ...(body ? { 'Content-Type': 'application/json' } : {}),
+      ...(idempotencyKey ? { 'Idempotency-Key': idempotencyKey } : {})
+    },
+    ...(body ? { body: JSON.stringify(body) } : {})
+  });
+
+  let json = null;
+  try {
+    json = await response.json();
+  } catch {
+    json = null;
+  }
+
+  return { status: response.status, body: json, replayed: response.headers.get('idempotent-replayed') === 'true' };
+}
+
+async function login(email, password) {
+  const result = await fetchJson('/api/auth/login', {
+    method: 'POST',
+    body: { email, password }
+  });
+
+  assert(result.status === 200, `login_failed_${email}`, result);
+  assert(Boolean(result.body?.access_token), `missing_access_token_${email}`, result);
+  return result.body.access_token;
+}
+
+const report = {
+  first: null,
+  replay: null,
+  conflict: null,
+  other_user: null,
+  without_key: null
+};
+
+const createdIds = new Set();
+
+try {
+  const ownerToken = await login('mocho@gmail.com', '123456');
+  const sellerToken = await login('bruno@gmail.com', '123456');
+  const seed = `${Date.now()}`;
+  const key = `test-idempotency-${seed}`;
+  const payload = {
+    brand: 'Apple',
+    model: `iPhone Idempotencia ${seed}`,
+    condition: 'used',
+    category: 'used_premium',
+    sale_price_ars: 1500,
+    purchase_ars: 900,
+    imei: `37${seed}`.slice(0, 15),
+    details: 'auto-test-idempotency'
+  };
+
+  const first = await fetchJson('/api/stock-items', { method: 'POST', token: ownerToken, body: payload, idempotencyKey: key });
+  assert(first.status === 201 && first.body?.id, 'first_create_should_be_201', first);
+  assert(!first.replayed, 'first_create_should_not_be_replay', first);
+  createdIds.add(first.body.id);
+  report.first = { status: first.status, id: first.body.id };
+
+  const replay = await fetchJson('/api/stock-items', { method: 'POST', token: ownerToken, body: payload, idempotencyKey: key });
+  assert(replay.status === 201 && replay.body?.id === first.body.id, 'retry_should_replay_same_item', replay);
+  assert(replay.replayed, 'retry_should_have_replay_header', replay);
+  report.replay = { status: replay.status, id: replay.body.id };
+
+  const { count, error: countError } = await supabase
+    .from('stock_items')
+    .select('id', { count: 'exact', head: true })
+    .eq('imei', payload.imei);
+  assert(!countError && count === 1, 'retry_should_not_insert_twice', { count, error: countError?.message });
+
+  const conflict = await fetchJson('/api/stock-items', {
+    method: 'POST',
+    token: ownerToken,
+    body: { ...payload, sale_price_ars: 1600 },
+    idempotencyKey: key
+  });
+  assert(conflict.status === 409 && conflict.body?.error?.code === 'idempotency_conflict', 'different_payload_should_conflict', conflict);
+  report.conflict = conflict.body.error.code;
+
+  // Keys are scoped per user, so another user reusing the string is a fresh request (here: duplicate IMEI).
+  const otherUser = await fetchJson('/api/stock-items', { method: 'POST', token: sellerToken, body: payload, idempotencyKey: key });
+  assert(!otherUser.replayed, 'other_user_should_not_replay', otherUser);
+  if (otherUser.body?.id) createdIds.add(otherUser.body.id);
+  report.other_user = otherUser.status;
+
+  const withoutKey = await fetchJson('/api/stock-items', {
+    method: 'POST',
+    token: ownerToken,
+    body: { ...payload, imei: `38${seed}`.slice(0, 15) }
+  });
+  assert(withoutKey.status === 201 && withoutKey.body?.id !== first.body.id, 'request_without_key_should_create', withoutKey);
+  createdIds.add(withoutKey.body.id);
+  report.without_key = withoutKey.status;
+
+  // eslint-disable-next-line no-console
+  console.log(JSON.stringify({ ok: true, report }, null, 2));
+} finally {
+  if (createdIds.size > 0) {
+    await supabase.from('stock_items').delete().in('id', [...createdIds]);
+  }
+}
@@ -0,0 +1,57 @@
+import { findInstallmentRule, priceWithSurcharge, roundTo2 } from '../src/modules/rules/pricing.js';
+import type { InstallmentRule } from '../src/modules/rules/pricing.js';
+
+function fail(message: string, details?: unknown): never {
+  // eslint-disable-next-line no-console
+  console.error(JSON.stringify({ ok: false, message, details }, null, 2));
+  process.exit(1);
+}
+
+function assert(condition: unknown, message: string, details?: unknown) {
+  if (!condition) {
+    fail(message, details);
+  }
+}
+
+const report: Record<string, unknown> = {};
+
+const rules: InstallmentRule[] = [
+  { card_brand: 'Visa', installments: 1, surcharge_pct: 0, channel: 'standard' },
+  { card_brand: 'Visa', installments: 3, surcharge_pct: 12.5, channel: 'standard' },
+  { card_brand: 'Visa', installments: 3, surcharge_pct: 18, channel: 'mercado_pago' },
+  { card_brand: 'Mastercard', installments: 6, surcharge_pct: 25, channel: 'standard' }
+];
+
+const visa3 = findInstallmentRule(rules, '  VISA ', 3);
+assert(visa3?.surcharge_pct === 12.5, 'lookup_should_ignore_brand_case_and_spaces', visa3);
+assert(visa3?.channel === 'standard', 'lookup_should_default_to_standard_channel', visa3);
+
+const visa3Mp = findInstallmentRule(rules, 'visa', 3, 'mercado_pago');
+assert(visa3Mp?.surcharge_pct === 18, 'lookup_should_match_channel', visa3Mp);
+
+assert(findInstallmentRule(rules, 'visa', 6) === null, 'missing_plan_should_be_null');
+assert(findInstallmentRule(rules, 'mastercard', 6, 'mercado_pago') === null, 'plan_on_other_channel_should_be_null');
+report.lookup = { visa3, visa3Mp };
+
+const priced = priceWithSurcharge(100000, visa3 as InstallmentRule);
+assert(priced.base_ars === 100000 && priced.surcharge_ars === 12500 && priced.total_ars === 112500, 'surcharge_should_apply_pct', priced);
+assert(priced.installment_amount_ars === 37500, 'installment_amount_should_split_total', priced);
+assert(priced.card_brand === 'Visa' && priced.installments === 3, 'priced_option_should_keep_rule_fields', priced);
+report.priced = priced;
+
+// 99999.99 * 25% and the six-way split both land on fractions of a cent.
+const rounded = priceWithSurcharge(99999.99, rules[3]);
+assert(rounded.surcharge_ars === 25000 && rounded.total_ars === 124999.99, 'amounts_should_round_to_cents', rounded);
+assert(rounded.installment_amount_ars === 20833.33, 'installment_amount_should_round_to_cents', rounded);
+report.rounded = rounded;
+
+const noSurcharge = priceWithSurcharge(1500, rules[0]);
+assert(noSurcharge.surcharge_ars === 0 && noSurcharge.total_ars === 1500 && noSurcharge.installment_amount_ars === 1500, 'single_payment_should_cost_base', noSurcharge);
+
+const zeroInstallments = priceWithSurcharge(1000, { card_brand: 'Visa', installments: 0, surcharge_pct: 10, channel: 'standard' });
+assert(zeroInstallments.installment_amount_ars === 1100, 'zero_installments_should_not_divide_by_zero', zeroInstallments);
+
+assert(roundTo2(0.1 + 0.2) === 0.3, 'round_to_2_should_trim_float_noise');
+
+// eslint-disable-next-line no-console
+console.log(JSON.stringify({ ok: true, report }, null, 2));
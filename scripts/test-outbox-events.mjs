@@ -0,0 +1,220 @@
+import 'dotenv/config';
+import { createClient } from '@supabase/supabase-js';
+
+function fail(message, details) {
+  // eslint-disable-next-line no-console
+  console.error(JSON.stringify({ ok: false, message, details }, null, 2));
+  process.exit(1);
+}
+
+function assert(condition, message, details) {
+  if (!condition) {
+    fail(message, details);
+  }
+}
+
+const baseUrl = process.env.API_BASE_URL ?? 'http://127.0.0.1:3000';
+const supabaseUrl = process.env.SUPABASE_URL;
+const serviceRole = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+if (!supabaseUrl || !serviceRole) {
+  fail('Missing SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY');
+}
+
+const supabase = createClient(supabaseUrl, serviceRole, {
+  auth: {
+    persistSession: false,
+    autoRefreshToken: false
+  }
+});
+
+async function fetchJson(path, { method = 'GET', token, body } = {}) {
+  const response = await fetch(`${baseUrl}${path}`, {
+    method,
+    headers: {
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      ...(body ? { 'Content-Type': 'application/json' } : {})
+    },
+    ...(body ? { body: JSON.stringify(body) } : {})
+  });
+
+  let json = null;
+  try {
+    json = await response.json();
+  } catch {
+    json = null;
+  }
+
+  return { status: response.status, body: json };
+}
+
+async function login(email, password) {
+  const result = await fetchJson('/api/auth/login', {
+    method: 'POST',
+    body: { email, password }
+  });
+
+  assert(result.status === 200, `login_failed_${email}`, result);
+  assert(Boolean(result.body?.access_token), `missing_access_token_${email}`, result);
+  return result.body.access_token;
+}
+
+async function fetchEvents(aggregateId, eventType) {
+  const { data, error } = await supabase
+    .from('outbox_events')
+    .select('id, event_type, aggregate_type, aggregate_id, payload, actor_user_id, status, created_at')
+    .eq('aggregate_id', aggregateId)
+    .eq('event_type', eventType)
+    .order('created_at', { ascending: true });
+  assert(!error, `outbox_fetch_failed_${eventType}`, error?.message);
+  return data ?? [];
+}
+
+const report = {
+  stock_created: null,
+  stock_updated: null,
+  sale_created: null,
+  status_changed: null,
+  failed_sale_no_events: null,
+  sale_cancelled: null
+};
+
+let stockItemId = null;
+let saleId = null;
+let saleCancelled = false;
+let ownerToken = null;
+
+try {
+  ownerToken = await login('mocho@gmail.com', '123456');
+  const seed = `${Date.now()}`;
+
+  const me = await fetchJson('/api/auth/me', { token: ownerToken });
+  assert(me.status === 200 && me.body?.id, 'me_should_return_owner', me);
+  const ownerId = me.body.id;
+
+  const created = await fetchJson('/api/stock-items', {
+    method: 'POST',
+    token: ownerToken,
+    body: {
+      brand: 'Apple',
+      model: `iPhone Outbox ${seed}`,
+      condition: 'used',
+      category: 'used_premium',
+      sale_price_ars: 1500,
+      purchase_ars: 900,
+      imei: `30${seed}`.slice(0, 15),
+      details: 'auto-test-outbox-events'
+    }
+  });
+  assert(created.status === 201 && created.body?.id, 'stock_create_should_be_201', created);
+  stockItemId = created.body.id;
+
+  const [createdEvent, ...extraCreated] = await fetchEvents(stockItemId, 'stock_item.created');
+  assert(createdEvent && extraCreated.length === 0, 'stock_insert_should_enqueue_one_created_event', { createdEvent, extraCreated });
+  assert(createdEvent.aggregate_type === 'stock_item', 'created_event_aggregate_type', createdEvent);
+  assert(createdEvent.actor_user_id === ownerId, 'created_event_actor_should_come_from_header', createdEvent);
+  assert(createdEvent.payload?.stock_item?.id === stockItemId, 'created_event_should_carry_row', createdEvent.payload);
+  report.stock_created = { event_id: createdEvent.id, status: createdEvent.status };
+
+  const patched = await fetchJson(`/api/stock-items/${stockItemId}`, {
+    method: 'PATCH',
+    token: ownerToken,
+    body: { sale_price_ars: 1600 }
+  });
+  assert(patched.status === 200, 'stock_patch_should_be_200', patched);
+
+  const updatedEvents = await fetchEvents(stockItemId, 'stock_item.updated');
+  assert(updatedEvents.length === 1, 'stock_patch_should_enqueue_one_updated_event', updatedEvents);
+  const [updatedEvent] = updatedEvents;
+  assert(updatedEvent.payload?.changed_fields?.includes('sale_price_ars'), 'updated_event_should_list_changed_fields', updatedEvent.payload);
+  assert(updatedEvent.payload?.previous_status === 'available', 'updated_event_should_carry_previous_status', updatedEvent.payload);
+  assert(updatedEvent.actor_user_id === ownerId, 'updated_event_actor_should_come_from_header', updatedEvent);
+  assert((await fetchEvents(stockItemId, 'stock_item.status_changed')).length === 0, 'price_edit_should_not_change_status');
+  report.stock_updated = updatedEvent.payload.changed_fields;
+
+  const saleBody = {
+    sale_date: new Date().toISOString(),
+    customer: { name: 'Cliente Outbox Test', phone: `3817${seed.slice(-6)}` },
+    payment_method: 'cash',
+    currency: 'ARS',
+    total_ars: 1600,
+    items: [{ stock_item_id: stockItemId, qty: 1, sale_price_ars: 1600 }],
+    payments: [{ method: 'cash', amount: 1600 }]
+  };
+
+  const sale = await fetchJson('/api/sales', { method: 'POST', token: ownerToken, body: saleBody });
+  assert(sale.status === 201, 'sale_should_be_201', sale);
+  saleId = sale.body?.sale_id ?? sale.body?.sale?.id ?? null;
+  assert(Boolean(saleId), 'sale_id_missing', sale.body);
+
+  // sale.created is deferred to commit, so it sees the sale items inserted after the sale row.
+  const saleEvents = await fetchEvents(saleId, 'sale.created');
+  assert(saleEvents.length === 1, 'sale_should_enqueue_one_created_event', saleEvents);
+  const [saleEvent] = saleEvents;
+  assert(saleEvent.aggregate_type === 'sale' && saleEvent.payload?.sale?.id === saleId, 'sale_event_should_carry_sale', saleEvent);
+  assert(saleEvent.payload?.items?.length === 1 && saleEvent.payload.items[0].stock_item_id === stockItemId, 'sale_event_should_carry_items', saleEvent.payload?.items);
+  assert(saleEvent.actor_user_id === ownerId, 'sale_event_actor_should_be_seller', saleEvent);
+  const paymentEvents = await fetchEvents(saleId, 'sale.payment_registered');
+  assert(paymentEvents.length === 1, 'sale_payment_should_enqueue_event', paymentEvents);
+  report.sale_created = { event_id: saleEvent.id, items: saleEvent.payload.items.length, payments: paymentEvents.length };
+
+  const statusEvents = await fetchEvents(stockItemId, 'stock_item.status_changed');
+  assert(statusEvents.length === 1, 'checkout_should_enqueue_one_status_change', statusEvents);
+  const [statusEvent] = statusEvents;
+  assert(
+    statusEvent.payload?.previous_status === 'available' && statusEvent.payload?.status === 'sold',
+    'status_change_should_be_available_to_sold',
+    statusEvent.payload
+  );
+  assert(statusEvent.payload?.sale_id === saleId, 'status_change_should_carry_sale_id', statusEvent.payload);
+  report.status_changed = `${statusEvent.payload.previous_status}->${statusEvent.payload.status}`;
+
+  // A checkout that rolls back must not leave events behind: they share the transaction with the write.
+  const { count: eventsBefore } = await supabase
+    .from('outbox_events')
+    .select('id', { count: 'exact', head: true })
+    .eq('event_type', 'sale.created')
+    .contains('payload', { items: [{ stock_item_id: stockItemId }] });
+  const failedSale = await fetchJson('/api/sales', { method: 'POST', token: ownerToken, body: saleBody });
+  assert(failedSale.status === 409, 'sale_of_sold_item_should_be_409', failedSale);
+  const { count: eventsAfter } = await supabase
+    .from('outbox_events')
+    .select('id', { count: 'exact', head: true })
+    .eq('event_type', 'sale.created')
+    .contains('payload', { items: [{ stock_item_id: stockItemId }] });
+  assert(eventsBefore === 1 && eventsAfter === 1, 'failed_sale_should_not_enqueue_events', { eventsBefore, eventsAfter });
+  assert((await fetchEvents(stockItemId, 'stock_item.status_changed')).length === 1, 'failed_sale_should_not_change_status');
+  report.failed_sale_no_events = failedSale.status;
+
+  const cancel = await fetchJson(`/api/sales/${saleId}/cancel`, {
+    method: 'POST',
+    token: ownerToken,
+    body: { reason: 'test_outbox_cancel' }
+  });
+  assert(cancel.status === 200, 'cancel_should_be_200', cancel);
+  saleCancelled = true;
+  const cancelledEvents = await fetchEvents(saleId, 'sale.cancelled');
+  assert(cancelledEvents.length === 1, 'cancel_should_enqueue_one_event', cancelledEvents);
+  assert(
+    cancelledEvents[0].payload?.status === 'cancelled' && cancelledEvents[0].payload?.reason === 'test_outbox_cancel',
+    'cancelled_event_should_carry_reason',
+    cancelledEvents[0].payload
+  );
+  const releasedEvents = await fetchEvents(stockItemId, 'stock_item.status_changed');
+  assert(releasedEvents.length === 2 && releasedEvents[1].payload?.previous_status === 'sold', 'cancel_should_release_stock_item', releasedEvents);
+  report.sale_cancelled = { event_id: cancelledEvents[0].id, stock_status: releasedEvents[1].payload.status };
+
+  // eslint-disable-next-line no-console
+  console.log(JSON.stringify({ ok: true, report }, null, 2));
+} finally {
+  if (saleId && !saleCancelled && ownerToken) {
+    await fetchJson(`/api/sales/${saleId}/cancel`, {
+      method: 'POST',
+      token: ownerToken,
+      body: { reason: 'test_cleanup' }
+    });
+  }
+  if (!saleId && stockItemId) {
+    await supabase.from('stock_items').delete().eq('id', stockItemId);
+  }
+}
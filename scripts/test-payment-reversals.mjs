@@ -0,0 +1,184 @@
+import 'dotenv/config';
+import { createClient } from '@supabase/supabase-js';
+
+function fail(message, details) {
+  // eslint-disable-next-line no-console
+  console.error(JSON.stringify({ ok: false, message, details }, null, 2));
+  process.exit(1);
+}
+
+function assert(condition, message, details) {
+  if (!condition) {
+    fail(message, details);
+  }
+}
+
+const baseUrl = process.env.API_BASE_URL ?? 'http://127.0.0.1:3000';
+const supabaseUrl = process.env.SUPABASE_URL;
+const serviceRole = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+if (!supabaseUrl || !serviceRole) {
+  fail('Missing SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY');
+}
+
+const supabase = createClient(supabaseUrl, serviceRole, {
+  auth: {
+    persistSession: false,
+    autoRefreshToken: false
+  }
+});
+
+async function fetchJson(path, { method = 'GET', token, body } = {}) {
+  const response = await fetch(`${baseUrl}${path}`, {
+    method,
+    headers: {
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      ...(body ? { 'Content-Type': 'application/json' } : {})
+    },
+    ...(body ? { body: JSON.stringify(body) } : {})
+  });
+
+  let json = null;
+  try {
+    json = await response.json();
+  } catch {
+    json = null;
+  }
+
+  return { status: response.status, body: json };
+}
+
+async function login(email, password) {
+  const result = await fetchJson('/api/auth/login', {
+    method: 'POST',
+    body: { email, password }
+  });
+
+  assert(result.status === 200, `login_failed_${email}`, result);
+  assert(Boolean(result.body?.access_token), `missing_access_token_${email}`, result);
+  return result.body.access_token;
+}
+
+const report = {
+  sale: null,
+  seller_forbidden: null,
+  void_with_amount_rejected: null,
+  partial_refund: null,
+  refund_over_remaining_rejected: null,
+  void_rest: null,
+  already_reversed: null,
+  unknown_payment: null
+};
+
+let stockItemId = null;
+let saleId = null;
+let ownerToken = null;
+
+try {
+  ownerToken = await login('mocho@gmail.com', '123456');
+  const sellerToken = await login('bruno@gmail.com', '123456');
+  const seed = `${Date.now()}`;
+
+  const { data: stock, error: stockError } = await supabase
+    .from('stock_items')
+    .insert({
+      brand: 'Apple',
+      model: `iPhone Reverso ${seed}`,
+      condition: 'used',
+      category: 'used_premium',
+      status: 'available',
+      sale_price_ars: 3000,
+      purchase_ars: 900,
+      imei: `35${seed}`.slice(0, 15),
+      details: 'auto-test-payment-reversals'
+    })
+    .select('id')
+    .single();
+  assert(!stockError && stock?.id, 'temp_stock_create_failed', stockError?.message);
+  stockItemId = stock.id;
+
+  const sale = await fetchJson('/api/sales', {
+    method: 'POST',
+    token: ownerToken,
+    body: {
+      sale_date: new Date().toISOString(),
+      customer: { name: 'Cliente Reverso Test', phone: `3819${seed.slice(-6)}` },
+      payment_method: 'cash',
+      currency: 'ARS',
+      total_ars: 3000,
+      items: [{ stock_item_id: stockItemId, qty: 1, sale_price_ars: 3000 }],
+      payments: [
+        { method: 'cash', amount: 2000 },
+        { method: 'transfer', amount: 1000 }
+      ]
+    }
+  });
+  assert(sale.status === 201, 'sale_should_be_201', sale);
+  saleId = sale.body?.sale_id ?? sale.body?.sale?.id ?? null;
+  assert(Boolean(saleId), 'sale_id_missing', sale.body);
+
+  const { data: payments, error: paymentsError } = await supabase
+    .from('sale_payments')
+    .select('id, method, amount')
+    .eq('sale_id', saleId);
+  assert(!paymentsError && payments?.length === 2, 'sale_payments_missing', paymentsError?.message ?? payments);
+  const cashPayment = payments.find((payment) => payment.method === 'cash');
+  assert(Boolean(cashPayment), 'cash_payment_missing', payments);
+  report.sale = { sale_id: saleId, cash_payment_id: cashPayment.id };
+
+  const reversePath = `/api/sales/${saleId}/payments/${cashPayment.id}/reverse`;
+
+  const sellerAttempt = await fetchJson(reversePath, { method: 'POST', token: sellerToken, body: { kind: 'void', reason: 'Cobro duplicado' } });
+  assert(sellerAttempt.status === 403, 'seller_reverse_should_be_403', sellerAttempt);
+  report.seller_forbidden = sellerAttempt.status;
+
+  const voidWithAmount = await fetchJson(reversePath, { method: 'POST', token: ownerToken, body: { kind: 'void', amount: 100, reason: 'Cobro duplicado' } });
+  assert(voidWithAmount.status === 400 && voidWithAmount.body?.error?.code === 'validation_error', 'void_with_amount_should_be_400', voidWithAmount);
+  report.void_with_amount_rejected = voidWithAmount.status;
+
+  const refund = await fetchJson(reversePath, { method: 'POST', token: ownerToken, body: { kind: 'refund', amount: 500, reason: 'Reintegro parcial' } });
+  assert(refund.status === 201 && refund.body?.kind === 'refund', 'partial_refund_should_be_201', refund);
+  assert(refund.body.amount === 500 && refund.body.remaining_amount === 1500, 'partial_refund_should_leave_remaining', refund.body);
+  assert(refund.body.paid_ars === 2500 && refund.body.balance_due_ars === 500, 'partial_refund_should_reopen_balance', refund.body);
+  assert(refund.body.receivable_status === 'partial', 'partial_refund_should_mark_partial', refund.body);
+  report.partial_refund = refund.body;
+
+  const overRemaining = await fetchJson(reversePath, { method: 'POST', token: ownerToken, body: { kind: 'refund', amount: 2000, reason: 'Reintegro excedido' } });
+  assert(overRemaining.status === 400 && overRemaining.body?.error?.code === 'validation_error', 'refund_over_remaining_should_be_400', overRemaining);
+  report.refund_over_remaining_rejected = overRemaining.status;
+
+  // A void after a partial refund only reverses what is left of the payment.
+  const voidRest = await fetchJson(reversePath, { method: 'POST', token: ownerToken, body: { kind: 'void', reason: 'Anulación del resto' } });
+  assert(voidRest.status === 201 && voidRest.body?.amount === 1500 && voidRest.body?.remaining_amount === 0, 'void_should_reverse_remaining', voidRest);
+  assert(voidRest.body.paid_ars === 1000 && voidRest.body.balance_due_ars === 2000, 'void_should_update_balance', voidRest.body);
+  report.void_rest = voidRest.body;
+
+  const { data: original } = await supabase.from('sale_payments').select('amount').eq('id', cashPayment.id).single();
+  assert(Number(original?.amount) === 2000, 'original_payment_should_be_kept', original);
+
+  const again = await fetchJson(reversePath, { method: 'POST', token: ownerToken, body: { kind: 'void', reason: 'Otra anulación' } });
+  assert(again.status === 409 && again.body?.error?.code === 'conflict', 'reversed_payment_should_be_409', again);
+  report.already_reversed = again.status;
+
+  const unknown = await fetchJson(`/api/sales/${saleId}/payments/00000000-0000-0000-0000-000000000000/reverse`, {
+    method: 'POST',
+    token: ownerToken,
+    body: { kind: 'void', reason: 'Pago inexistente' }
+  });
+  assert(unknown.status === 404, 'unknown_payment_should_be_404', unknown);
+  report.unknown_payment = unknown.status;
+
+  // eslint-disable-next-line no-console
+  console.log(JSON.stringify({ ok: true, report }, null, 2));
+} finally {
+  if (saleId && ownerToken) {
+    await fetchJson(`/api/sales/${saleId}/cancel`, {
+      method: 'POST',
+      token: ownerToken,
+      body: { reason: 'test_cleanup' }
+    });
+  }
+  if (!saleId && stockItemId) {
+    await supabase.from('stock_items').delete().eq('id', stockItemId);
+  }
+}
@@ -0,0 +1,92 @@
+import { applyPromoCode, checkPromoCodeAvailability, computePromoDiscount, normalizePromoCode } from '../src/modules/promoCodes/discount.js';
+import type { PromoCodeRow } from '../src/modules/promoCodes/discount.js';
+
+function fail(message: string, details?: unknown): never {
+  // eslint-disable-next-line no-console
+  console.error(JSON.stringify({ ok: false, message, details }, null, 2));
+  process.exit(1);
+}
+
+function assert(condition: unknown, message: string, details?: unknown) {
+  if (!condition) {
+    fail(message, details);
+  }
+}
+
+const report: Record<string, unknown> = {};
+
+const promo = (overrides: Partial<PromoCodeRow>): PromoCodeRow => ({
+  id: 'promo-1',
+  code: 'VERANO10',
+  discount_type: 'percent',
+  discount_value: 10,
+  min_total_ars: null,
+  starts_at: null,
+  ends_at: null,
+  max_uses: null,
+  uses_count: 0,
+  is_active: true,
+  ...overrides
+});
+
+assert(normalizePromoCode('  verano10 ') === 'VERANO10', 'code_should_be_trimmed_and_uppercased');
+
+const now = new Date('2026-10-19T12:00:00.000Z');
+const availability = {
+  ok: checkPromoCodeAvailability(promo({}), 1000, now),
+  inactive: checkPromoCodeAvailability(promo({ is_active: false }), 1000, now),
+  not_started: checkPromoCodeAvailability(promo({ starts_at: '2026-10-20T00:00:00.000Z' }), 1000, now),
+  expired: checkPromoCodeAvailability(promo({ ends_at: '2026-10-19T12:00:00.000Z' }), 1000, now),
+  exhausted: checkPromoCodeAvailability(promo({ max_uses: 5, uses_count: 5 }), 1000, now),
+  min_total: checkPromoCodeAvailability(promo({ min_total_ars: 5000 }), 4999.99, now),
+  min_total_reached: checkPromoCodeAvailability(promo({ min_total_ars: 5000 }), 5000, now)
+};
+assert(availability.ok === null && availability.min_total_reached === null, 'valid_code_should_apply', availability);
+assert(availability.inactive === 'promo_code_inactive', 'inactive_code_should_be_rejected', availability);
+assert(availability.not_started === 'promo_code_not_started', 'future_code_should_be_rejected', availability);
+assert(availability.expired === 'promo_code_expired', 'code_should_expire_at_ends_at', availability);
+assert(availability.exhausted === 'promo_code_exhausted', 'used_up_code_should_be_rejected', availability);
+assert(availability.min_total === 'promo_code_min_total', 'subtotal_below_min_should_be_rejected', availability);
+report.availability = availability;
+
+assert(computePromoDiscount(promo({ discount_value: 15 }), 1999.99) === 300, 'percent_discount_should_round_to_cents');
+assert(computePromoDiscount(promo({ discount_type: 'fixed', discount_value: 500 }), 3000) === 500, 'fixed_discount_should_apply_as_is');
+assert(computePromoDiscount(promo({ discount_type: 'fixed', discount_value: 5000 }), 3000) === 3000, 'fixed_discount_should_not_exceed_subtotal');
+
+// Percent: each item carries its proportional share and the stored price already has it applied.
+const percent = applyPromoCode(promo({}), [
+  { stock_item_id: 'a', qty: 1, sale_price_ars: 1000 },
+  { stock_item_id: 'b', qty: 1, sale_price_ars: 2000 }
+]);
+assert(percent.application.subtotal_before_ars === 3000 && percent.application.discount_ars === 300, 'percent_application_totals', percent.application);
+assert(percent.application.promo_code_id === 'promo-1' && percent.application.code === 'VERANO10', 'application_should_reference_code', percent.application);
+assert(percent.items[0].sale_price_ars === 900 && percent.items[1].sale_price_ars === 1800, 'percent_should_discount_item_prices', percent.items);
+assert(percent.application.items[0].promo_discount_ars === 100 && percent.application.items[1].promo_discount_ars === 200, 'percent_split_should_be_proportional', percent.application.items);
+report.percent = percent.application;
+
+// Fixed 100 over three equal items: the last item absorbs the rounding so shares add up exactly.
+const fixed = applyPromoCode(promo({ discount_type: 'fixed', discount_value: 100 }), [
+  { stock_item_id: 'a', qty: 1, sale_price_ars: 1000 },
+  { stock_item_id: 'b', qty: 1, sale_price_ars: 1000 },
+  { stock_item_id: 'c', qty: 1, sale_price_ars: 1000 }
+]);
+const shares = fixed.application.items.map((item) => item.promo_discount_ars);
+assert(shares[0] === 33.33 && shares[1] === 33.33 && shares[2] === 33.34, 'last_item_should_absorb_rounding', shares);
+assert(Math.abs(shares.reduce((sum, share) => sum + share, 0) - 100) < 0.001, 'shares_should_add_up_to_discount', shares);
+assert(fixed.items[2].sale_price_ars === 966.66, 'last_item_price_should_include_rounding', fixed.items);
+report.fixed = fixed.application;
+
+// Quantities: the line share is spread over its units.
+const withQty = applyPromoCode(promo({ discount_type: 'fixed', discount_value: 300 }), [
+  { stock_item_id: 'a', qty: 2, sale_price_ars: 1000 },
+  { stock_item_id: 'b', qty: 1, sale_price_ars: 1000 }
+]);
+assert(withQty.application.items[0].promo_discount_ars === 200 && withQty.items[0].sale_price_ars === 900, 'line_share_should_be_spread_per_unit', withQty);
+assert(withQty.items[1].sale_price_ars === 900, 'single_unit_line_should_take_its_share', withQty.items);
+
+// Extra item fields (e.g. the checkout payload's own columns) pass through untouched.
+const passthrough = applyPromoCode(promo({}), [{ stock_item_id: 'a', qty: 1, sale_price_ars: 1000, note: 'keep' }]);
+assert(passthrough.items[0].note === 'keep', 'item_fields_should_pass_through', passthrough.items);
+
+// eslint-disable-next-line no-console
+console.log(JSON.stringify({ ok: true, report }, null, 2));
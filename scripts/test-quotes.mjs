@@ -0,0 +1,207 @@
+import 'dotenv/config';
+import { createClient } from '@supabase/supabase-js';
+
+function fail(message, details) {
+  // eslint-disable-next-line no-console
+  console.error(JSON.stringify({ ok: false, message, details }, null, 2));
+  process.exit(1);
+}
+
+function assert(condition, message, details) {
+  if (!condition) {
+    fail(message, details);
+  }
+}
+
+const baseUrl = process.env.API_BASE_URL ?? 'http://127.0.0.1:3000';
+const supabaseUrl = process.env.SUPABASE_URL;
+const serviceRole = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+if (!supabaseUrl || !serviceRole) {
+  fail('Missing SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY');
+}
+
+const supabase = createClient(supabaseUrl, serviceRole, {
+  auth: {
+    persistSession: false,
+    autoRefreshToken: false
+  }
+});
+
+async function fetchJson(path, { method = 'GET', token, body, idempotencyKey } = {}) {
+  const response = await fetch(`${baseUrl}${path}`, {
+    method,
+    headers: {
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      ...(body ? { 'Content-Type': 'application/json' } : {}),
+      ...(idempotencyKey ? { 'Idempotency-Key': idempotencyKey } : {})
+    },
+    ...(body ? { body: JSON.stringify(body) } : {})
+  });
+
+  let json = null;
+  try {
+    json = await response.json();
+  } catch {
+    json = null;
+  }
+
+  return { status: response.status, body: json };
+}
+
+async function login(email, password) {
+  const result = await fetchJson('/api/auth/login', {
+    method: 'POST',
+    body: { email, password }
+  });
+
+  assert(result.status === 200, `login_failed_${email}`, result);
+  assert(Boolean(result.body?.access_token), `missing_access_token_${email}`, result);
+  return result.body.access_token;
+}
+
+const report = {
+  quote: null,
+  public_view: null,
+  converted: null,
+  retry_after_convert: null,
+  cancelled: null,
+  stock_conflict: null,
+  sold_item_quote_rejected: null
+};
+
+const stockItemIds = [];
+const quoteIds = [];
+let saleId = null;
+let ownerToken = null;
+
+try {
+  ownerToken = await login('mocho@gmail.com', '123456');
+  const seed = `${Date.now()}`;
+
+  for (const suffix of ['1', '2']) {
+    const { data: stock, error: stockError } = await supabase
+      .from('stock_items')
+      .insert({
+        brand: 'Apple',
+        model: `iPhone Presupuesto ${seed}-${suffix}`,
+        condition: 'used',
+        category: 'used_premium',
+        status: 'available',
+        sale_price_ars: 1500,
+        purchase_ars: 900,
+        imei: `39${seed}${suffix}`.slice(0, 15),
+        details: 'auto-test-quotes'
+      })
+      .select('id')
+      .single();
+    assert(!stockError && stock?.id, 'temp_stock_create_failed', stockError?.message);
+    stockItemIds.push(stock.id);
+  }
+
+  const [quotedId, cancelledId] = stockItemIds;
+  const quotePayload = (stockItemId) => ({
+    customer: { name: 'Cliente Presupuesto Test', phone: `3818${seed.slice(-6)}` },
+    currency: 'ARS',
+    items: [{ stock_item_id: stockItemId, qty: 1, sale_price_ars: 1500 }],
+    payments: [{ method: 'cash', currency: 'ARS', amount: 1500 }],
+    expires_in_days: 3
+  });
+
+  const created = await fetchJson('/api/quotes', { method: 'POST', token: ownerToken, body: quotePayload(quotedId) });
+  assert(created.status === 201 && created.body?.quote?.id, 'quote_create_should_be_201', created);
+  const quote = created.body.quote;
+  quoteIds.push(quote.id);
+  assert(quote.status === 'open' && /^[A-Z0-9]{16}$/.test(quote.share_code), 'quote_should_be_open_with_share_code', quote);
+  assert(Number(quote.total_ars) === 1500, 'quote_total_should_match_items', quote);
+  report.quote = { id: quote.id, share_code: quote.share_code, total_ars: Number(quote.total_ars) };
+
+  // A quote is only a price promise: the item stays on sale until the quote is converted.
+  const { data: stockAfterQuote } = await supabase.from('stock_items').select('status').eq('id', quotedId).single();
+  assert(stockAfterQuote?.status === 'available', 'quote_should_not_reserve_stock', stockAfterQuote);
+
+  const publicView = await fetchJson(`/api/public/quotes/${quote.share_code.toLowerCase()}`);
+  assert(publicView.status === 200 && publicView.body?.quote?.share_code === quote.share_code, 'public_view_should_be_200', publicView);
+  assert(publicView.body.quote.id === undefined && publicView.body.quote.customer_phone === undefined, 'public_view_should_hide_internal_fields', publicView.body);
+  assert(publicView.body.quote.items?.length === 1, 'public_view_should_list_items', publicView.body);
+  report.public_view = publicView.status;
+
+  // Second quote on the same item, used below once the first conversion sells it.
+  const competing = await fetchJson('/api/quotes', { method: 'POST', token: ownerToken, body: quotePayload(quotedId) });
+  assert(competing.status === 201 && competing.body?.quote?.id, 'competing_quote_create_should_be_201', competing);
+  quoteIds.push(competing.body.quote.id);
+
+  const convertKey = `test-quote-convert-${seed}`;
+  const converted = await fetchJson(`/api/quotes/${quote.id}/convert`, {
+    method: 'POST',
+    token: ownerToken,
+    body: {},
+    idempotencyKey: convertKey
+  });
+  assert(converted.status === 201 && converted.body?.quote_id === quote.id, 'convert_should_be_201', converted);
+  saleId = converted.body?.sale_id ?? converted.body?.sale?.id ?? null;
+  assert(Boolean(saleId), 'convert_sale_id_missing', converted.body);
+  report.converted = { sale_id: saleId };
+
+  const { data: stockAfterConvert } = await supabase.from('stock_items').select('status').eq('id', quotedId).single();
+  assert(stockAfterConvert?.status === 'sold', 'convert_should_sell_stock', stockAfterConvert);
+
+  const { data: quoteRow } = await supabase.from('quotes').select('status, sale_id').eq('id', quote.id).single();
+  assert(quoteRow?.status === 'converted' && quoteRow?.sale_id === saleId, 'quote_should_link_sale', quoteRow);
+
+  // A retry after the conversion went through points at the existing sale instead of selling twice.
+  const retry = await fetchJson(`/api/quotes/${quote.id}/convert`, {
+    method: 'POST',
+    token: ownerToken,
+    body: {},
+    idempotencyKey: convertKey
+  });
+  assert(retry.status === 409 && retry.body?.error?.code === 'conflict', 'retry_after_convert_should_conflict', retry);
+  assert(retry.body.error.details?.sale_id === saleId, 'retry_should_point_to_existing_sale', retry.body);
+  const { count: salesForItem } = await supabase
+    .from('sale_items')
+    .select('sale_id', { count: 'exact', head: true })
+    .eq('stock_item_id', quotedId);
+  assert(salesForItem === 1, 'retry_should_not_create_second_sale', { salesForItem });
+  report.retry_after_convert = retry.status;
+
+  const stockConflict = await fetchJson(`/api/quotes/${competing.body.quote.id}/convert`, { method: 'POST', token: ownerToken, body: {} });
+  assert(stockConflict.status === 409 && stockConflict.body?.error?.code === 'stock_conflict', 'sold_item_convert_should_be_stock_conflict', stockConflict);
+  report.stock_conflict = stockConflict.status;
+
+  const soldQuote = await fetchJson('/api/quotes', { method: 'POST', token: ownerToken, body: quotePayload(quotedId) });
+  assert(soldQuote.status === 409 && soldQuote.body?.error?.code === 'stock_conflict', 'sold_item_quote_should_be_409', soldQuote);
+  report.sold_item_quote_rejected = soldQuote.status;
+
+  const toCancel = await fetchJson('/api/quotes', { method: 'POST', token: ownerToken, body: quotePayload(cancelledId) });
+  assert(toCancel.status === 201 && toCancel.body?.quote?.id, 'second_quote_create_should_be_201', toCancel);
+  quoteIds.push(toCancel.body.quote.id);
+  const cancelled = await fetchJson(`/api/quotes/${toCancel.body.quote.id}/cancel`, { method: 'POST', token: ownerToken });
+  assert(cancelled.status === 200 && cancelled.body?.status === 'cancelled', 'cancel_should_be_200', cancelled);
+
+  const convertCancelled = await fetchJson(`/api/quotes/${toCancel.body.quote.id}/convert`, { method: 'POST', token: ownerToken, body: {} });
+  assert(convertCancelled.status === 409 && convertCancelled.body?.error?.details?.status === 'cancelled', 'cancelled_convert_should_be_409', convertCancelled);
+
+  const cancelledPublic = await fetchJson(`/api/public/quotes/${toCancel.body.quote.share_code}`);
+  assert(cancelledPublic.status === 404, 'cancelled_public_view_should_be_404', cancelledPublic);
+  report.cancelled = { convert: convertCancelled.status, public_view: cancelledPublic.status };
+
+  // eslint-disable-next-line no-console
+  console.log(JSON.stringify({ ok: true, report }, null, 2));
+} finally {
+  if (saleId && ownerToken) {
+    await fetchJson(`/api/sales/${saleId}/cancel`, {
+      method: 'POST',
+      token: ownerToken,
+      body: { reason: 'test_cleanup' }
+    });
+  }
+  if (quoteIds.length > 0) {
+    await supabase.from('quotes').delete().in('id', quoteIds);
+  }
+  // The converted item stays referenced by the cancelled sale; only never-sold items can be deleted.
+  const unsoldIds = saleId ? stockItemIds.slice(1) : stockItemIds;
+  if (unsoldIds.length > 0) {
+    await supabase.from('stock_items').delete().in('id', unsoldIds);
+  }
+}
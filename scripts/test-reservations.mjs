@@ -0,0 +1,191 @@
+import 'dotenv/config';
+import { createClient } from '@supabase/supabase-js';
+
+function fail(message, details) {
+  // eslint-disable-next-line no-console
+  console.error(JSON.stringify({ ok: false, message, details }, null, 2));
+  process.exit(1);
+}
+
+function assert(condition, message, details) {
+  if (!condition) {
+    fail(message, details);
+  }
+}
+
+const baseUrl = process.env.API_BASE_URL ?? 'http://127.0.0.1:3000';
+const supabaseUrl = process.env.SUPABASE_URL;
+const serviceRole = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+if (!supabaseUrl || !serviceRole) {
+  fail('Missing SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY');
+}
+
+const supabase = createClient(supabaseUrl, serviceRole, {
+  auth: {
+    persistSession: false,
+    autoRefreshToken: false
+  }
+});
+
+async function fetchJson(path, { method = 'GET', token, body } = {}) {
+  const response = await fetch(`${baseUrl}${path}`, {
+    method,
+    headers: {
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      ...(body ? { 'Content-Type': 'application/json' } : {})
+    },
+    ...(body ? { body: JSON.stringify(body) } : {})
+  });
+
+  let json = null;
+  try {
+    json = await response.json();
+  } catch {
+    json = null;
+  }
+
+  return { status: response.status, body: json };
+}
+
+async function login(email, password) {
+  const result = await fetchJson('/api/auth/login', {
+    method: 'POST',
+    body: { email, password }
+  });
+
+  assert(result.status === 200, `login_failed_${email}`, result);
+  assert(Boolean(result.body?.access_token), `missing_access_token_${email}`, result);
+  return result.body.access_token;
+}
+
+async function stockStatus(stockItemId) {
+  const { data, error } = await supabase
+    .from('stock_items')
+    .select('status')
+    .eq('id', stockItemId)
+    .single();
+  assert(!error, 'stock_status_query_failed', error?.message);
+  return data?.status;
+}
+
+const report = {
+  reserved: null,
+  double_reservation_blocked: null,
+  released: null,
+  expired: null,
+  converted: null
+};
+
+let stockItemId = null;
+let saleId = null;
+let ownerToken = null;
+
+try {
+  ownerToken = await login('mocho@gmail.com', '123456');
+  const sellerToken = await login('bruno@gmail.com', '123456');
+  const seed = `${Date.now()}`;
+
+  const { data: stock, error: stockError } = await supabase
+    .from('stock_items')
+    .insert({
+      brand: 'Apple',
+      model: `iPhone Reserva ${seed}`,
+      condition: 'used',
+      category: 'used_premium',
+      status: 'available',
+      sale_price_ars: 1500,
+      purchase_ars: 900,
+      imei: `35${seed}`.slice(0, 15),
+      details: 'auto-test-reservations'
+    })
+    .select('id')
+    .single();
+  assert(!stockError && stock?.id, 'temp_stock_create_failed', stockError?.message);
+  stockItemId = stock.id;
+
+  const customer = { name: 'Cliente Reserva Test', phone: `+54933${seed.slice(-8)}` };
+
+  const created = await fetchJson('/api/reservations', {
+    method: 'POST',
+    token: sellerToken,
+    body: {
+      stock_item_id: stockItemId,
+      customer,
+      deposit: { method: 'cash', amount: 500 },
+      expires_in_days: 3
+    }
+  });
+  assert(created.status === 201, 'create_reservation_should_be_201', created);
+  assert(await stockStatus(stockItemId) === 'reserved', 'stock_should_be_reserved');
+  report.reserved = { status: created.status, id: created.body?.reservation?.id };
+
+  const duplicate = await fetchJson('/api/reservations', {
+    method: 'POST',
+    token: sellerToken,
+    body: { stock_item_id: stockItemId, customer, deposit: { method: 'cash', amount: 100 } }
+  });
+  assert(duplicate.status === 409, 'second_reservation_should_be_409', duplicate);
+  report.double_reservation_blocked = { status: duplicate.status, code: duplicate.body?.error?.code ?? null };
+
+  const released = await fetchJson(`/api/reservations/${created.body.reservation.id}/release`, {
+    method: 'POST',
+    token: sellerToken,
+    body: { reason: 'Cliente desistió' }
+  });
+  assert(released.status === 200 && released.body?.stock_released === true, 'release_should_free_stock', released);
+  assert(await stockStatus(stockItemId) === 'available', 'stock_should_be_available_after_release');
+  report.released = { status: released.status };
+
+  const toExpire = await fetchJson('/api/reservations', {
+    method: 'POST',
+    token: sellerToken,
+    body: { stock_item_id: stockItemId, customer, deposit: { method: 'transfer', amount: 300 } }
+  });
+  assert(toExpire.status === 201, 'second_cycle_reservation_should_be_201', toExpire);
+  await supabase
+    .from('reservations')
+    .update({ expires_at: new Date(Date.now() - 60_000).toISOString() })
+    .eq('id', toExpire.body.reservation.id);
+  const { data: expiredData, error: expiredError } = await supabase.rpc('rpc_expire_reservations_v1', { p_limit: 100 });
+  assert(!expiredError, 'expire_rpc_failed', expiredError?.message);
+  assert((expiredData?.reservation_ids ?? []).includes(toExpire.body.reservation.id), 'reservation_should_expire', expiredData);
+  assert(await stockStatus(stockItemId) === 'available', 'stock_should_be_available_after_expiry');
+  report.expired = { expired_count: expiredData?.expired_count ?? null };
+
+  const toConvert = await fetchJson('/api/reservations', {
+    method: 'POST',
+    token: sellerToken,
+    body: { stock_item_id: stockItemId, customer, deposit: { method: 'cash', amount: 500 }, sale_price_ars: 1400 }
+  });
+  assert(toConvert.status === 201, 'third_cycle_reservation_should_be_201', toConvert);
+
+  const converted = await fetchJson(`/api/reservations/${toConvert.body.reservation.id}/convert`, {
+    method: 'POST',
+    token: sellerToken,
+    body: { payments: [{ method: 'transfer', amount: 600 }] }
+  });
+  assert(converted.status === 201, 'convert_should_be_201', converted);
+  saleId = converted.body?.sale_id ?? null;
+  assert(Boolean(saleId), 'convert_should_return_sale_id', converted.body);
+  assert(converted.body?.paid_ars === 1100 && converted.body?.balance_due_ars === 300, 'deposit_should_be_applied', converted.body);
+  assert(await stockStatus(stockItemId) === 'sold', 'stock_should_be_sold_after_convert');
+  report.converted = { status: converted.status, sale_id: saleId, paid_ars: converted.body.paid_ars };
+
+  // eslint-disable-next-line no-console
+  console.log(JSON.stringify({ ok: true, report }, null, 2));
+} finally {
+  if (saleId && ownerToken) {
+    await fetchJson(`/api/sales/${saleId}/cancel`, {
+      method: 'POST',
+      token: ownerToken,
+      body: { reason: 'test_cleanup' }
+    });
+  }
+  if (stockItemId) {
+    await supabase.from('reservations').delete().eq('stock_item_id', stockItemId);
+    if (!saleId) {
+      await supabase.from('stock_items').delete().eq('id', stockItemId);
+    }
+  }
+}
@@ -0,0 +1,184 @@
+import 'dotenv/config';
+import { createClient } from '@supabase/supabase-js';
+
+function fail(message, details) {
+  // eslint-disable-next-line no-console
+  console.error(JSON.stringify({ ok: false, message, details }, null, 2));
+  process.exit(1);
+}
+
+function assert(condition, message, details) {
+  if (!condition) {
+    fail(message, details);
+  }
+}
+
+const baseUrl = process.env.API_BASE_URL ?? 'http://127.0.0.1:3000';
+const supabaseUrl = process.env.SUPABASE_URL;
+const serviceRole = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+if (!supabaseUrl || !serviceRole) {
+  fail('Missing SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY');
+}
+
+const supabase = createClient(supabaseUrl, serviceRole, {
+  auth: {
+    persistSession: false,
+    autoRefreshToken: false
+  }
+});
+
+async function fetchJson(path, { method = 'GET', token, body } = {}) {
+  const response = await fetch(`${baseUrl}${path}`, {
+    method,
+    headers: {
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      ...(body ? { 'Content-Type': 'application/json' } : {})
+    },
+    ...(body ? { body: JSON.stringify(body) } : {})
+  });
+
+  let json = null;
+  try {
+    json = await response.json();
+  } catch {
+    json = null;
+  }
+
+  return { status: response.status, body: json };
+}
+
+async function login(email, password) {
+  const result = await fetchJson('/api/auth/login', {
+    method: 'POST',
+    body: { email, password }
+  });
+
+  assert(result.status === 200, `login_failed_${email}`, result);
+  assert(Boolean(result.body?.access_token), `missing_access_token_${email}`, result);
+  return result.body.access_token;
+}
+
+const report = {
+  sale: null,
+  seller_forbidden: null,
+  returned: null,
+  refund_over_paid_rejected: null,
+  not_in_sale_rejected: null,
+  last_item_requires_cancel: null
+};
+
+const stockItemIds = [];
+let saleId = null;
+let ownerToken = null;
+
+try {
+  ownerToken = await login('mocho@gmail.com', '123456');
+  const sellerToken = await login('bruno@gmail.com', '123456');
+  const seed = `${Date.now()}`;
+
+  for (const suffix of ['1', '2']) {
+    const { data: stock, error: stockError } = await supabase
+      .from('stock_items')
+      .insert({
+        brand: 'Apple',
+        model: `iPhone Devolucion ${seed}-${suffix}`,
+        condition: 'used',
+        category: 'used_premium',
+        status: 'available',
+        sale_price_ars: 1500,
+        purchase_ars: 900,
+        imei: `36${seed}${suffix}`.slice(0, 15),
+        details: 'auto-test-sale-returns'
+      })
+      .select('id')
+      .single();
+    assert(!stockError && stock?.id, 'temp_stock_create_failed', stockError?.message);
+    stockItemIds.push(stock.id);
+  }
+
+  const sale = await fetchJson('/api/sales', {
+    method: 'POST',
+    token: ownerToken,
+    body: {
+      sale_date: new Date().toISOString(),
+      customer: { name: 'Cliente Devolucion Test', phone: `3817${seed.slice(-6)}` },
+      payment_method: 'cash',
+      currency: 'ARS',
+      total_ars: 3000,
+      items: stockItemIds.map((id) => ({ stock_item_id: id, qty: 1, sale_price_ars: 1500 })),
+      payments: [{ method: 'cash', amount: 2000 }]
+    }
+  });
+  assert(sale.status === 201, 'sale_should_be_201', sale);
+  saleId = sale.body?.sale_id ?? sale.body?.sale?.id ?? null;
+  assert(Boolean(saleId), 'sale_id_missing', sale.body);
+  report.sale = { sale_id: saleId };
+
+  const [returnedId, keptId] = stockItemIds;
+  const returnPayload = {
+    stock_item_ids: [returnedId],
+    reason: 'Cliente devuelve un equipo',
+    restock_state: 'used_premium',
+    refund: { amount: 500, currency: 'ARS', method: 'cash' }
+  };
+
+  const sellerAttempt = await fetchJson(`/api/sales/${saleId}/returns`, { method: 'POST', token: sellerToken, body: returnPayload });
+  assert(sellerAttempt.status === 403, 'seller_return_should_be_403', sellerAttempt);
+  report.seller_forbidden = sellerAttempt.status;
+
+  const tooMuch = await fetchJson(`/api/sales/${saleId}/returns`, {
+    method: 'POST',
+    token: ownerToken,
+    body: { ...returnPayload, refund: { amount: 5000, currency: 'ARS', method: 'cash' } }
+  });
+  assert(tooMuch.status === 400 && tooMuch.body?.error?.code === 'validation_error', 'refund_over_paid_should_be_400', tooMuch);
+  report.refund_over_paid_rejected = tooMuch.status;
+
+  const returned = await fetchJson(`/api/sales/${saleId}/returns`, { method: 'POST', token: ownerToken, body: returnPayload });
+  assert(returned.status === 201, 'return_should_be_201', returned);
+  assert((returned.body?.returned_stock_item_ids ?? []).includes(returnedId), 'return_should_list_item', returned.body);
+  assert(Number(returned.body?.total_ars) === 1500, 'sale_total_should_drop_by_returned_item', returned.body);
+  assert(Number(returned.body?.refund_ars) === 500 && Number(returned.body?.paid_ars) === 1500, 'refund_should_reduce_paid', returned.body);
+  assert(Number(returned.body?.balance_due_ars) === 0, 'balance_should_follow_new_total', returned.body);
+
+  const { data: returnedStock } = await supabase
+    .from('stock_items')
+    .select('status, category')
+    .eq('id', returnedId)
+    .single();
+  assert(returnedStock?.status === 'available' && returnedStock?.category === 'used_premium', 'returned_item_should_be_restocked', returnedStock);
+
+  const { data: saleItems } = await supabase
+    .from('sale_items')
+    .select('stock_item_id')
+    .eq('sale_id', saleId);
+  assert((saleItems ?? []).length === 1 && saleItems[0].stock_item_id === keptId, 'only_kept_item_should_remain', saleItems);
+  report.returned = { return_id: returned.body.return_id, total_ars: returned.body.total_ars, refund_ars: returned.body.refund_ars };
+
+  const again = await fetchJson(`/api/sales/${saleId}/returns`, { method: 'POST', token: ownerToken, body: { ...returnPayload, refund: { amount: 0 } } });
+  assert(again.status === 400, 'returning_item_twice_should_be_400', again);
+  report.not_in_sale_rejected = again.status;
+
+  const lastItem = await fetchJson(`/api/sales/${saleId}/returns`, {
+    method: 'POST',
+    token: ownerToken,
+    body: { stock_item_ids: [keptId], reason: 'Devuelve el otro', refund: { amount: 0 } }
+  });
+  assert(lastItem.status === 409, 'returning_last_item_should_require_cancel', lastItem);
+  report.last_item_requires_cancel = lastItem.status;
+
+  // eslint-disable-next-line no-console
+  console.log(JSON.stringify({ ok: true, report }, null, 2));
+} finally {
+  if (saleId && ownerToken) {
+    await fetchJson(`/api/sales/${saleId}/cancel`, {
+      method: 'POST',
+      token: ownerToken,
+      body: { reason: 'test_cleanup' }
+    });
+  }
+  if (!saleId && stockItemIds.length > 0) {
+    await supabase.from('stock_items').delete().in('id', stockItemIds);
+  }
+}
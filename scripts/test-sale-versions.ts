@@ -0,0 +1,146 @@
+import { diffSaleSnapshots, isEmptySaleDiff } from '../src/modules/sales/versions.js';
+import type { SaleSnapshot, SaleSnapshotItem } from '../src/modules/sales/versions.js';
+
+function fail(message: string, details?: unknown): never {
+  // eslint-disable-next-line no-console
+  console.error(JSON.stringify({ ok: false, message, details }, null, 2));
+  process.exit(1);
+}
+
+function assert(condition: unknown, message: string, details?: unknown) {
+  if (!condition) {
+    fail(message, details);
+  }
+}
+
+function item(stockItemId: string, salePrice: number | string | null, overrides: Partial<SaleSnapshotItem> = {}): SaleSnapshotItem {
+  return {
+    stock_item_id: stockItemId,
+    qty: 1,
+    sale_price_ars: salePrice as number | null,
+    subtotal_ars: salePrice as number | null,
+    brand: 'Apple',
+    model: `iPhone ${stockItemId}`,
+    imei: `35${stockItemId}`,
+    ...overrides
+  };
+}
+
+const report: Record<string, unknown> = {};
+
+// Shape of sale_version_snapshot(): the sale row plus customer and items. Numerics show up both as numbers and as strings.
+const before: SaleSnapshot = {
+  id: 'sale-1',
+  created_at: '2026-10-01T14:30:00.000Z',
+  created_by: 'user-1',
+  sale_date: '2026-10-01T14:30:00.000Z',
+  status: 'completed',
+  currency: 'ARS',
+  total_ars: '3000.00',
+  notes: null,
+  customer_id: 'customer-1',
+  customer: { id: 'customer-1', name: 'Juan Pérez', phone: '3815550001' },
+  payment_method: 'cash',
+  card_brand: null,
+  installments: null,
+  surcharge_pct: null,
+  items: [item('a', '1500.00'), item('b', '1500.00')]
+};
+
+const unchanged = diffSaleSnapshots(before, {
+  ...before,
+  total_ars: 3000,
+  items: [item('b', 1500), item('a', 1500)]
+});
+assert(isEmptySaleDiff(unchanged), 'numeric_strings_and_item_order_should_not_count_as_changes', unchanged);
+report.unchanged = isEmptySaleDiff(unchanged);
+
+const itemsDiff = diffSaleSnapshots(before, {
+  ...before,
+  total_ars: 3700,
+  items: [item('a', '1700.00'), item('c', 2000, { brand: null, model: null })]
+});
+assert(
+  itemsDiff.items_added.length === 1 && itemsDiff.items_added[0].stock_item_id === 'c' && itemsDiff.items_added[0].sale_price_ars === 2000,
+  'new_item_should_be_added',
+  itemsDiff.items_added
+);
+assert(itemsDiff.items_added[0].label === 'Equipo', 'item_without_brand_or_model_should_use_fallback_label', itemsDiff.items_added);
+assert(
+  itemsDiff.items_removed.length === 1 && itemsDiff.items_removed[0].stock_item_id === 'b' && itemsDiff.items_removed[0].label === 'Apple iPhone b',
+  'missing_item_should_be_removed',
+  itemsDiff.items_removed
+);
+assert(
+  itemsDiff.price_changes.length === 1 && itemsDiff.price_changes[0].before === 1500 && itemsDiff.price_changes[0].after === 1700,
+  'kept_item_price_change_should_be_numeric',
+  itemsDiff.price_changes
+);
+assert(
+  itemsDiff.fields.length === 1 && itemsDiff.fields[0].field === 'total_ars' && itemsDiff.fields[0].after === 3700,
+  'total_should_be_the_only_field_change',
+  itemsDiff.fields
+);
+assert(!itemsDiff.customer_change && !itemsDiff.payment_method_change, 'items_edit_should_not_touch_customer_or_payment', itemsDiff);
+assert(!isEmptySaleDiff(itemsDiff), 'items_diff_should_not_be_empty');
+report.items = {
+  added: itemsDiff.items_added.length,
+  removed: itemsDiff.items_removed.length,
+  price_changes: itemsDiff.price_changes.length
+};
+
+// A price change below half a cent is rounding noise, not an edit.
+const rounding = diffSaleSnapshots(before, { ...before, items: [item('a', 1500.004), item('b', '1500.00')] });
+assert(rounding.price_changes.length === 0, 'sub_cent_difference_should_be_ignored', rounding.price_changes);
+
+const customerSwap = diffSaleSnapshots(before, {
+  ...before,
+  customer_id: 'customer-2',
+  customer: { id: 'customer-2', name: 'Ana Gómez', phone: '3815550002' }
+});
+assert(customerSwap.customer_change?.after?.name === 'Ana Gómez', 'customer_swap_should_be_reported', customerSwap.customer_change);
+assert(customerSwap.fields.length === 0, 'customer_id_should_not_repeat_in_fields', customerSwap.fields);
+
+const customerRename = diffSaleSnapshots(before, {
+  ...before,
+  customer: { id: 'customer-1', name: 'Juan Pérez', phone: '3815559999' }
+});
+assert(customerRename.customer_change?.before?.phone === '3815550001', 'same_customer_new_phone_should_be_reported', customerRename.customer_change);
+report.customer = { swap: Boolean(customerSwap.customer_change), phone_change: Boolean(customerRename.customer_change) };
+
+const paymentFields = ['payment_method', 'card_brand', 'installments', 'surcharge_pct'] as const;
+const paymentChanges: Record<string, unknown> = {
+  payment_method: 'card',
+  card_brand: 'visa',
+  installments: 6,
+  surcharge_pct: 12.5
+};
+for (const field of paymentFields) {
+  const diff = diffSaleSnapshots(before, { ...before, [field]: paymentChanges[field] });
+  assert(diff.payment_method_change?.after[field] === paymentChanges[field], `${field}_should_be_a_payment_method_change`, diff.payment_method_change);
+  assert(Object.keys(diff.payment_method_change!.before).length === paymentFields.length, `${field}_change_should_carry_all_payment_fields`, diff.payment_method_change);
+  assert(diff.fields.length === 0, `${field}_should_not_repeat_in_fields`, diff.fields);
+}
+report.payment_fields = paymentFields.length;
+
+const otherFields = diffSaleSnapshots(before, {
+  ...before,
+  id: 'sale-2',
+  created_at: '2026-10-02T10:00:00.000Z',
+  created_by: 'user-2',
+  notes: 'Entrega en sucursal',
+  status: 'cancelled'
+});
+assert(
+  otherFields.fields.map((entry) => entry.field).join(',') === 'notes,status',
+  'other_fields_should_be_sorted_and_skip_ignored_ones',
+  otherFields.fields
+);
+assert(otherFields.fields[0].before === null && otherFields.fields[0].after === 'Entrega en sucursal', 'field_change_should_keep_values', otherFields.fields);
+
+const addedField = diffSaleSnapshots(before, { ...before, branch_id: 'branch-1' });
+assert(addedField.fields.length === 1 && addedField.fields[0].field === 'branch_id' && addedField.fields[0].before === null, 'field_missing_before_should_diff_from_null', addedField.fields);
+report.fields = otherFields.fields.map((entry) => entry.field);
+
+// eslint-disable-next-line no-console
+console.log(JSON.stringify({ ok: true, report }, null, 2));
@@ -0,0 +1,111 @@
+import { PassThrough, Readable } from 'node:stream';
+import ExcelJS from 'exceljs';
+import { createSalesExportWriter, flattenSalePaymentRows } from '../src/modules/sales/export.js';
+import type { SalesExportFormat, SalesExportMode } from '../src/modules/sales/export.js';
+
+function fail(message: string, details?: unknown): never {
+  // eslint-disable-next-line no-console
+  console.error(JSON.stringify({ ok: false, message, details }, null, 2));
+  process.exit(1);
+}
+
+function assert(condition: unknown, message: string, details?: unknown) {
+  if (!condition) {
+    fail(message, details);
+  }
+}
+
+async function exportToBuffer(format: SalesExportFormat, mode: SalesExportMode, rows: Array<Record<string, unknown>>, notice?: string) {
+  const output = new PassThrough();
+  const chunks: Buffer[] = [];
+  output.on('data', (chunk: Buffer) => chunks.push(chunk));
+  const finished = new Promise<void>((resolve) => output.on('end', () => resolve()));
+
+  const writer = createSalesExportWriter(format, mode, output);
+  for (const row of rows) {
+    writer.writeRow(row);
+  }
+  if (notice) {
+    writer.writeNotice(notice);
+  }
+  await writer.end();
+  await finished;
+  return Buffer.concat(chunks);
+}
+
+const report: Record<string, unknown> = {};
+
+// Shape of a sales list row with embedded payments, as the export query returns it.
+const sale = {
+  id: '3f2a9c1e-7b44-4d1a-9a51-0c6e2f7d8b90',
+  sale_date: '2026-10-01T14:30:00.000Z',
+  status: 'completed',
+  customer_name: 'Pérez; Juan "Juancho"',
+  customer_phone: '+5491112345678',
+  seller_name: 'Bruno',
+  currency: 'USD',
+  fx_rate_used: 1000,
+  total_ars: 1_500_000,
+  paid_ars: 1_200_000,
+  balance_due_ars: 300_000,
+  receivable_status: 'partial',
+  sale_payments: [
+    { id: 'pay-ars', created_at: '2026-10-01T14:35:00.000Z', method: 'cash', currency: 'ARS', amount: 500_000, note: null },
+    { id: 'pay-usd', created_at: '2026-10-01T14:40:00.000Z', method: 'transfer', currency: 'usd', amount: 800, note: 'Seña' }
+  ]
+};
+
+const reversed = new Map<string, number>([['pay-ars', 100_000]]);
+const rows = flattenSalePaymentRows(sale, reversed);
+assert(rows.length === 2, 'one_row_per_payment', rows);
+const [arsRow, usdRow] = rows;
+assert(arsRow.payment_amount === 500_000 && arsRow.payment_reversed_amount === 100_000, 'ars_row_should_keep_gross_and_reversed', arsRow);
+assert(arsRow.payment_amount_ars === 400_000, 'ars_row_should_net_reversals', arsRow);
+assert(usdRow.payment_currency === 'USD' && usdRow.payment_reversed_amount === 0, 'usd_row_should_normalize_currency', usdRow);
+assert(usdRow.payment_amount_ars === 800_000, 'usd_row_should_convert_with_sale_fx', usdRow);
+assert(arsRow.total_ars === 1_500_000 && usdRow.customer_name === sale.customer_name, 'rows_should_carry_sale_fields', rows);
+report.payment_rows = rows.map((row) => ({ method: row.payment_method_item, amount_ars: row.payment_amount_ars }));
+
+const withoutPayments = flattenSalePaymentRows({ ...sale, sale_payments: [] }, new Map());
+assert(withoutPayments.length === 1 && withoutPayments[0].payment_method_item === null, 'sale_without_payments_should_keep_one_row', withoutPayments);
+
+const csv = (await exportToBuffer('csv', 'payments', rows, 'Exportación truncada; hay más filas')).toString('utf8');
+assert(csv.startsWith('\uFEFF'), 'csv_should_start_with_bom');
+const lines = csv.slice(1).split('\r\n');
+assert(lines.length === 5 && lines[4] === '', 'csv_should_have_header_rows_notice_and_crlf', lines);
+const header = lines[0].split(';');
+assert(header[0] === 'Fecha' && header.includes('Revertido') && header.includes('Monto ARS'), 'csv_header_should_list_payment_columns', header);
+
+// The customer name holds the separator and quotes, so it is quoted and its quotes doubled.
+const quotedName = '"Pérez; Juan ""Juancho"""';
+assert(lines[1].includes(quotedName), 'csv_should_quote_separator_and_quotes', lines[1]);
+const cells = lines[1].replace(quotedName, 'customer').split(';');
+const cell = (name: string) => cells[header.indexOf(name)];
+assert(cells.length === header.length, 'csv_row_should_match_header_width', cells);
+assert(cell('Fecha') === '01/10/2026', 'csv_date_should_be_dd_mm_yyyy', cells);
+assert(cell('Nro venta') === '3F2A9C1E', 'csv_should_use_sale_number', cells);
+assert(cell('Medio de pago') === 'Efectivo' && cell('Estado cobro') === 'Parcial', 'csv_should_translate_labels', cells);
+assert(cell('Monto') === '500.000,00' && cell('Monto ARS') === '400.000,00', 'csv_money_should_use_ar_decimals', cells);
+assert(cell('Cotización') === '1.000,00' && cell('Nota') === '', 'csv_empty_cells_should_stay_empty', cells);
+assert(lines[3] === '"Exportación truncada; hay más filas"', 'csv_notice_should_be_one_quoted_cell', lines[3]);
+report.csv_lines = lines.length - 1;
+
+const itemsCsv = (await exportToBuffer('csv', 'items', [{ ...sale, stock_model: 'iPhone 13', qty: 1, sale_price_ars_item: 1_500_000 }])).toString('utf8');
+const itemsHeader = itemsCsv.slice(1).split('\r\n')[0].split(';');
+assert(itemsHeader.includes('Modelo') && !itemsHeader.includes('Medio de pago'), 'items_mode_should_use_item_columns', itemsHeader);
+
+const xlsx = await exportToBuffer('xlsx', 'payments', rows, 'Exportación truncada');
+const workbook = new ExcelJS.Workbook();
+await workbook.xlsx.read(Readable.from(xlsx));
+const sheet = workbook.getWorksheet('Pagos');
+assert(Boolean(sheet), 'xlsx_should_have_payments_sheet', workbook.worksheets.map((ws) => ws.name));
+const xlsxHeader = (sheet!.getRow(1).values as unknown[]).slice(1);
+const amountArsCol = xlsxHeader.indexOf('Monto ARS') + 1;
+assert(amountArsCol > 0, 'xlsx_header_should_match_csv', xlsxHeader);
+assert(sheet!.getRow(2).getCell(amountArsCol).value === 400_000, 'xlsx_money_should_stay_numeric', sheet!.getRow(2).values);
+assert(sheet!.getRow(3).getCell(amountArsCol).value === 800_000, 'xlsx_usd_row_should_be_converted', sheet!.getRow(3).values);
+assert(sheet!.getRow(4).getCell(1).value === 'Exportación truncada', 'xlsx_notice_should_be_first_cell', sheet!.getRow(4).values);
+report.xlsx_rows = sheet!.rowCount;
+
+// eslint-disable-next-line no-console
+console.log(JSON.stringify({ ok: true, report }, null, 2));
@@ -52,6 +52,23 @@ assert(Array.isArray(sales.body?.sales), 'sales_list_should_return_sales_array',
 const salesBodyText = JSON.stringify(sales.body ?? {}).toLowerCase();
 assert(!salesBodyText.includes('could not embed because more than one relationship was found'), 'sales_list_embed_ambiguity_regression', sales.body);
 
+const totalRows = Number(sales.body?.total ?? NaN);
+assert(Number.isFinite(totalRows), 'sales_list_should_return_numeric_total', sales.body);
+assert(typeof sales.body?.total_ars === 'number' && typeof sales.body?.pending_ars === 'number', 'sales_list_should_return_aggregates', sales.body);
+
+const firstPage = await fetchJson('/api/sales?page=1&page_size=1', { token });
+assert(firstPage.status === 200, 'sales_list_page_should_be_200', firstPage);
+assert(firstPage.body?.sales?.length === Math.min(1, totalRows), 'sales_list_page_size_should_be_applied', firstPage.body);
+assert(Number(firstPage.body?.total) === totalRows, 'sales_list_total_should_ignore_pagination', firstPage.body);
+
+const noMatch = await fetchJson(`/api/sales?query=${encodeURIComponent(`no-match-${Date.now()}`)}`, { token });
+assert(noMatch.status === 200, 'sales_list_query_should_be_200', noMatch);
+assert(Number(noMatch.body?.total) === 0 && noMatch.body?.sales?.length === 0, 'sales_list_query_should_filter_rows', noMatch.body);
+assert(Number(noMatch.body?.total_ars) === 0, 'sales_list_query_should_filter_aggregates', noMatch.body);
+
+const futureRange = await fetchJson('/api/sales?from=2099-01-01&to=2099-01-02', { token });
+assert(futureRange.status === 200 && Number(futureRange.body?.total) === 0, 'sales_list_date_range_should_filter_rows', futureRange.body);
+
 const finance = await fetchJson(`/api/finance/summary?from=${today}&to=${today}`, { token });
 assert(finance.status === 200, 'finance_summary_should_stay_200', finance);
 
@@ -64,6 +81,7 @@ console.log(JSON.stringify({
   checks: {
     sales_status: sales.status,
     sales_count: sales.body?.sales?.length ?? null,
+    sales_total_rows: totalRows,
     finance_status: finance.status,
     finance_sales_count: finance.body?.sales_count ?? null
   }
@@ -0,0 +1,85 @@
+import { PassThrough } from 'node:stream';
+import { buildSaleReceipt, formatSaleNumber, renderSaleReceiptHtml, writeSaleReceiptPdf } from '../src/modules/sales/receipt.js';
+
+function fail(message: string, details?: unknown): never {
+  // eslint-disable-next-line no-console
+  console.error(JSON.stringify({ ok: false, message, details }, null, 2));
+  process.exit(1);
+}
+
+function assert(condition: unknown, message: string, details?: unknown) {
+  if (!condition) {
+    fail(message, details);
+  }
+}
+
+const report: Record<string, unknown> = {};
+
+// Shape returned by the receipt query: embeds may come back as objects or single-item arrays.
+const sale = {
+  id: '3f2a9c1e-7b44-4d1a-9a51-0c6e2f7d8b90',
+  sale_date: '2026-10-01T14:30:00.000Z',
+  status: 'completed',
+  currency: 'ARS',
+  fx_rate_used: null,
+  total_ars: 1_200_000,
+  total_usd: null,
+  paid_ars: 900_000,
+  balance_due_ars: 100_000,
+  notes: 'Entrega con <caja> & cargador',
+  customers: [{ name: 'Juan Pérez', phone: '+5491112345678', dni: '30111222' }],
+  sale_items: [
+    {
+      qty: 1,
+      sale_price_ars: 1_200_000,
+      subtotal_ars: 1_200_000,
+      stock_items: { brand: 'Apple', model: 'iPhone 13', storage_gb: 128, color: 'Azul', imei: '356789012345678', warranty_days: 90 }
+    }
+  ],
+  sale_payments: [
+    { method: 'card', currency: 'ARS', amount: 400_000, card_brand: 'visa', installments: 3, surcharge_pct: 10, created_at: '2026-10-01T14:31:00Z' },
+    { method: 'cash', currency: 'ARS', amount: 500_000, created_at: '2026-10-01T14:30:30Z' }
+  ],
+  trade_ins: [
+    { trade_value_usd: 200, fx_rate_used: 1000, device: { brand: 'Samsung', model: 'A54', imei: '351111111111111' } }
+  ]
+};
+
+const receipt = buildSaleReceipt(sale);
+assert(receipt.number === '3F2A9C1E' && formatSaleNumber(sale.id) === receipt.number, 'number_should_be_short_uppercase_id', receipt.number);
+assert(receipt.customer.name === 'Juan Pérez' && receipt.customer.dni === '30111222', 'customer_embed_array_should_be_read', receipt.customer);
+assert(receipt.items[0]?.description === 'Apple iPhone 13 128 GB Azul', 'item_description_should_join_device_fields', receipt.items[0]);
+assert(receipt.items[0]?.warranty_until?.startsWith('2026-12-30'), 'warranty_should_run_from_sale_date', receipt.items[0]);
+assert(receipt.payments.map((payment) => payment.method).join(',') === 'cash,card', 'payments_should_be_in_chronological_order', receipt.payments);
+assert(receipt.payments[1]?.method_label === 'Tarjeta', 'payment_method_should_have_label', receipt.payments[1]);
+assert(receipt.trade_in_credit_ars === 200_000, 'trade_in_credit_should_be_usd_times_fx', receipt.trade_ins);
+report.receipt = { number: receipt.number, items: receipt.items.length, payments: receipt.payments.length };
+
+const html = renderSaleReceiptHtml(receipt);
+assert(html.includes('Comprobante N° 3F2A9C1E'), 'html_should_show_number');
+assert(html.includes('Entrega con &lt;caja&gt; &amp; cargador') && !html.includes('<caja>'), 'html_should_escape_notes');
+assert(html.includes('Tarjeta · VISA · 3 cuotas · recargo 10%'), 'html_should_describe_card_payment');
+assert(html.includes('Crédito por canje'), 'html_should_show_trade_in_credit');
+assert(!html.includes('VENTA ANULADA'), 'completed_sale_should_not_be_marked_cancelled');
+
+const cancelledHtml = renderSaleReceiptHtml(buildSaleReceipt({ ...sale, status: 'cancelled', sale_payments: [], trade_ins: [] }));
+assert(cancelledHtml.includes('VENTA ANULADA'), 'cancelled_sale_should_be_marked');
+assert(cancelledHtml.includes('Sin pagos registrados') && !cancelledHtml.includes('Crédito por canje'), 'empty_sections_should_fall_back', cancelledHtml.length);
+report.html_length = html.length;
+
+const sparse = buildSaleReceipt({ id: 'abc', created_at: '2026-10-02T10:00:00Z', sale_items: [{ sale_price_ars: '1500', stock_items: null }] });
+assert(sparse.sale_date === '2026-10-02T10:00:00Z' && sparse.customer.name === null, 'missing_fields_should_fall_back', sparse);
+assert(sparse.items[0]?.description === 'Equipo' && sparse.items[0]?.subtotal_ars === 1500 && sparse.items[0]?.warranty_until === null, 'item_without_stock_should_fall_back', sparse.items[0]);
+
+const output = new PassThrough();
+const chunks: Buffer[] = [];
+output.on('data', (chunk: Buffer) => chunks.push(chunk));
+const finished = new Promise<void>((resolve) => output.on('end', () => resolve()));
+writeSaleReceiptPdf(receipt, output);
+await finished;
+const pdf = Buffer.concat(chunks);
+assert(pdf.subarray(0, 5).toString() === '%PDF-', 'pdf_should_start_with_header', pdf.subarray(0, 16).toString());
+report.pdf_bytes = pdf.length;
+
+// eslint-disable-next-line no-console
+console.log(JSON.stringify({ ok: true, report }, null, 2));
@@ -0,0 +1,207 @@
+import 'dotenv/config';
+import { createClient } from '@supabase/supabase-js';
+
+function fail(message, details) {
+  // eslint-disable-next-line no-console
+  console.error(JSON.stringify({ ok: false, message, details }, null, 2));
+  process.exit(1);
+}
+
+function assert(condition, message, details) {
+  if (!condition) {
+    fail(message, details);
+  }
+}
+
+const baseUrl = process.env.API_BASE_URL ?? 'http://127.0.0.1:3000';
+const supabaseUrl = process.env.SUPABASE_URL;
+const serviceRole = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+if (!supabaseUrl || !serviceRole) {
+  fail('Missing SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY');
+}
+
+const supabase = createClient(supabaseUrl, serviceRole, {
+  auth: {
+    persistSession: false,
+    autoRefreshToken: false
+  }
+});
+
+async function fetchJson(path, { method = 'GET', token, body } = {}) {
+  const response = await fetch(`${baseUrl}${path}`, {
+    method,
+    headers: {
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      ...(body ? { 'Content-Type': 'application/json' } : {})
+    },
+    ...(body ? { body: JSON.stringify(body) } : {})
+  });
+
+  let json = null;
+  try {
+    json = await response.json();
+  } catch {
+    json = null;
+  }
+
+  return { status: response.status, body: json };
+}
+
+async function login(email, password) {
+  const result = await fetchJson('/api/auth/login', {
+    method: 'POST',
+    body: { email, password }
+  });
+
+  assert(result.status === 200, `login_failed_${email}`, result);
+  assert(Boolean(result.body?.access_token), `missing_access_token_${email}`, result);
+  return result.body.access_token;
+}
+
+const report = {
+  branches: null,
+  seller_forbidden: null,
+  same_branch_rejected: null,
+  transfer: null,
+  in_transit_not_sellable: null,
+  already_in_transit: null,
+  partial_receive: null,
+  unknown_imei_rejected: null,
+  full_receive: null,
+  history: null
+};
+
+const branchIds = [];
+const stockItemIds = [];
+let transferId = null;
+
+try {
+  const ownerToken = await login('mocho@gmail.com', '123456');
+  const sellerToken = await login('bruno@gmail.com', '123456');
+  const seed = `${Date.now()}`;
+
+  for (const suffix of ['O', 'D']) {
+    const { data: branch, error: branchError } = await supabase
+      .from('branches')
+      .insert({ name: `Sucursal Test ${suffix} ${seed}`, code: `T${suffix}${seed.slice(-6)}` })
+      .select('id')
+      .single();
+    assert(!branchError && branch?.id, 'temp_branch_create_failed', branchError?.message);
+    branchIds.push(branch.id);
+  }
+  const [originId, destinationId] = branchIds;
+  report.branches = { origin: originId, destination: destinationId };
+
+  const imeis = [];
+  for (const suffix of ['1', '2']) {
+    const imei = `34${seed}${suffix}`.slice(0, 15);
+    const { data: stock, error: stockError } = await supabase
+      .from('stock_items')
+      .insert({
+        brand: 'Apple',
+        model: `iPhone Transferencia ${seed}-${suffix}`,
+        condition: 'used',
+        category: 'used_premium',
+        status: 'available',
+        sale_price_ars: 1500,
+        purchase_ars: 900,
+        imei,
+        branch_id: originId,
+        details: 'auto-test-stock-transfers'
+      })
+      .select('id')
+      .single();
+    assert(!stockError && stock?.id, 'temp_stock_create_failed', stockError?.message);
+    stockItemIds.push(stock.id);
+    imeis.push(imei);
+  }
+
+  const transferPayload = {
+    origin_branch_id: originId,
+    destination_branch_id: destinationId,
+    stock_item_ids: stockItemIds,
+    notes: 'auto-test-stock-transfers'
+  };
+
+  const sellerAttempt = await fetchJson('/api/stock-transfers', { method: 'POST', token: sellerToken, body: transferPayload });
+  assert(sellerAttempt.status === 403, 'seller_create_should_be_403', sellerAttempt);
+  report.seller_forbidden = sellerAttempt.status;
+
+  const sameBranch = await fetchJson('/api/stock-transfers', {
+    method: 'POST',
+    token: ownerToken,
+    body: { ...transferPayload, destination_branch_id: originId }
+  });
+  assert(sameBranch.status === 400 && sameBranch.body?.error?.code === 'validation_error', 'same_branch_should_be_400', sameBranch);
+  report.same_branch_rejected = sameBranch.status;
+
+  const created = await fetchJson('/api/stock-transfers', { method: 'POST', token: ownerToken, body: transferPayload });
+  assert(created.status === 201 && created.body?.transfer?.id, 'create_should_be_201', created);
+  transferId = created.body.transfer.id;
+  assert(created.body.transfer.status === 'in_transit', 'new_transfer_should_be_in_transit', created.body.transfer);
+  assert(created.body.transfer.stock_transfer_items?.length === 2, 'transfer_should_list_items', created.body.transfer);
+  report.transfer = { id: transferId, status: created.body.transfer.status };
+
+  const { data: inTransit } = await supabase.from('stock_items').select('id, status, branch_id').in('id', stockItemIds);
+  assert((inTransit ?? []).every((item) => item.status === 'in_transit' && item.branch_id === originId), 'items_should_be_in_transit_at_origin', inTransit);
+
+  const sale = await fetchJson('/api/sales', {
+    method: 'POST',
+    token: ownerToken,
+    body: {
+      sale_date: new Date().toISOString(),
+      customer: { name: 'Cliente Transferencia Test', phone: `3816${seed.slice(-6)}` },
+      payment_method: 'cash',
+      currency: 'ARS',
+      total_ars: 1500,
+      items: [{ stock_item_id: stockItemIds[0], qty: 1, sale_price_ars: 1500 }]
+    }
+  });
+  assert(sale.status === 409, 'in_transit_item_should_not_be_sellable', sale);
+  report.in_transit_not_sellable = sale.status;
+
+  const again = await fetchJson('/api/stock-transfers', { method: 'POST', token: ownerToken, body: transferPayload });
+  assert(again.status === 409 && again.body?.error?.code === 'stock_conflict', 'item_in_transit_should_not_transfer_twice', again);
+  report.already_in_transit = again.status;
+
+  const partial = await fetchJson(`/api/stock-transfers/${transferId}/receive`, { method: 'POST', token: ownerToken, body: { imeis: [imeis[0]] } });
+  assert(partial.status === 200 && partial.body?.status === 'in_transit', 'partial_receive_should_keep_transfer_open', partial);
+  assert(partial.body.received_count === 1 && partial.body.pending_count === 1, 'partial_receive_counts', partial.body);
+  const { data: firstItem } = await supabase.from('stock_items').select('status, branch_id').eq('id', stockItemIds[0]).single();
+  assert(firstItem?.status === 'available' && firstItem?.branch_id === destinationId, 'received_item_should_move_to_destination', firstItem);
+  report.partial_receive = { received: partial.body.received_count, pending: partial.body.pending_count };
+
+  const unknown = await fetchJson(`/api/stock-transfers/${transferId}/receive`, { method: 'POST', token: ownerToken, body: { imeis: ['000000000000000'] } });
+  assert(unknown.status === 400 && unknown.body?.error?.code === 'validation_error', 'unknown_imei_should_be_400', unknown);
+  report.unknown_imei_rejected = unknown.status;
+
+  // Re-scanning an already received IMEI alongside the missing one is harmless.
+  const full = await fetchJson(`/api/stock-transfers/${transferId}/receive`, { method: 'POST', token: ownerToken, body: { imeis } });
+  assert(full.status === 200 && full.body?.status === 'received', 'full_receive_should_close_transfer', full);
+  assert(full.body.received_count === 2 && full.body.pending_count === 0, 'full_receive_counts', full.body);
+  report.full_receive = { status: full.body.status };
+
+  const closed = await fetchJson(`/api/stock-transfers/${transferId}/receive`, { method: 'POST', token: ownerToken, body: { imeis } });
+  assert(closed.status === 409, 'received_transfer_should_be_409', closed);
+
+  const listed = await fetchJson(`/api/stock-transfers?branch_id=${destinationId}&status=received`, { token: ownerToken });
+  assert(listed.status === 200 && (listed.body?.transfers ?? []).some((transfer) => transfer.id === transferId), 'list_should_filter_by_branch', listed);
+
+  const history = await fetchJson(`/api/stock-items/imei/${imeis[1]}/history`, { token: ownerToken });
+  assert(history.status === 200 && (history.body?.transfers ?? []).length > 0, 'imei_history_should_include_transfer', history);
+  report.history = history.body.transfers.length;
+
+  // eslint-disable-next-line no-console
+  console.log(JSON.stringify({ ok: true, report }, null, 2));
+} finally {
+  if (transferId) {
+    await supabase.from('stock_transfers').delete().eq('id', transferId);
+  }
+  if (stockItemIds.length > 0) {
+    await supabase.from('stock_items').delete().in('id', stockItemIds);
+  }
+  if (branchIds.length > 0) {
+    await supabase.from('branches').delete().in('id', branchIds);
+  }
+}
@@ -0,0 +1,220 @@
+import 'dotenv/config';
+import { createClient } from '@supabase/supabase-js';
+
+function fail(message, details) {
+  // eslint-disable-next-line no-console
+  console.error(JSON.stringify({ ok: false, message, details }, null, 2));
+  process.exit(1);
+}
+
+function assert(condition, message, details) {
+  if (!condition) {
+    fail(message, details);
+  }
+}
+
+const baseUrl = process.env.API_BASE_URL ?? 'http://127.0.0.1:3000';
+const supabaseUrl = process.env.SUPABASE_URL;
+const serviceRole = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+if (!supabaseUrl || !serviceRole) {
+  fail('Missing SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY');
+}
+
+const supabase = createClient(supabaseUrl, serviceRole, {
+  auth: {
+    persistSession: false,
+    autoRefreshToken: false
+  }
+});
+
+async function fetchJson(path, { method = 'GET', token, body } = {}) {
+  const response = await fetch(`${baseUrl}${path}`, {
+    method,
+    headers: {
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      ...(body ? { 'Content-Type': 'application/json' } : {})
+    },
+    ...(body ? { body: JSON.stringify(body) } : {})
+  });
+
+  let json = null;
+  try {
+    json = await response.json();
+  } catch {
+    json = null;
+  }
+
+  return { status: response.status, body: json };
+}
+
+async function login(email, password) {
+  const result = await fetchJson('/api/auth/login', {
+    method: 'POST',
+    body: { email, password }
+  });
+
+  assert(result.status === 200, `login_failed_${email}`, result);
+  assert(Boolean(result.body?.access_token), `missing_access_token_${email}`, result);
+  return result.body.access_token;
+}
+
+const report = {
+  coverage: null,
+  claim_opened: null,
+  duplicate_claim_blocked: null,
+  seller_replace_forbidden: null,
+  replaced: null,
+  original_after_replacement: null,
+  replacement_coverage: null
+};
+
+const stockItemIds = [];
+let saleId = null;
+let ownerToken = null;
+
+async function createStockItem(seed, suffix) {
+  const { data, error } = await supabase
+    .from('stock_items')
+    .insert({
+      brand: 'Apple',
+      model: `iPhone Garantia ${seed}-${suffix}`,
+      condition: 'used',
+      category: 'used_premium',
+      status: 'available',
+      sale_price_ars: 1500,
+      purchase_ars: 900,
+      warranty_days: 90,
+      imei: `34${seed}${suffix}`.slice(0, 15),
+      details: 'auto-test-warranty-claims'
+    })
+    .select('id, imei')
+    .single();
+  assert(!error && data?.id, 'temp_stock_create_failed', error?.message);
+  stockItemIds.push(data.id);
+  return data;
+}
+
+try {
+  ownerToken = await login('mocho@gmail.com', '123456');
+  const sellerToken = await login('bruno@gmail.com', '123456');
+  const seed = `${Date.now()}`;
+
+  const original = await createStockItem(seed, '1');
+  const replacement = await createStockItem(seed, '2');
+
+  const sale = await fetchJson('/api/sales', {
+    method: 'POST',
+    token: ownerToken,
+    body: {
+      sale_date: new Date().toISOString(),
+      customer: { name: 'Cliente Garantia Test', phone: `3818${seed.slice(-6)}` },
+      payment_method: 'cash',
+      currency: 'ARS',
+      total_ars: 1500,
+      items: [{ stock_item_id: original.id, qty: 1, sale_price_ars: 1500 }]
+    }
+  });
+  assert(sale.status === 201, 'sale_should_be_201', sale);
+  saleId = sale.body?.sale_id ?? sale.body?.sale?.id ?? null;
+  assert(Boolean(saleId), 'sale_id_missing', sale.body);
+
+  const coverage = await fetchJson(`/api/warranties/check?imei=${original.imei}`, { token: sellerToken });
+  assert(coverage.status === 200 && coverage.body?.warranty?.in_warranty === true, 'sold_item_should_be_in_warranty', coverage);
+  assert(coverage.body.warranty.sale_id === saleId && Number(coverage.body.warranty.warranty_days) === 90, 'coverage_should_come_from_sale', coverage.body);
+  report.coverage = { warranty_until: coverage.body.warranty.warranty_until };
+
+  const opened = await fetchJson('/api/warranties/claims', {
+    method: 'POST',
+    token: sellerToken,
+    body: { imei: original.imei, issue_description: 'No carga' }
+  });
+  assert(opened.status === 201 && opened.body?.status === 'received' && opened.body?.in_warranty === true, 'claim_should_open', opened);
+  const claimId = opened.body.claim_id;
+  report.claim_opened = { claim_id: claimId };
+
+  const duplicate = await fetchJson('/api/warranties/claims', {
+    method: 'POST',
+    token: sellerToken,
+    body: { imei: original.imei, issue_description: 'Sigue sin cargar' }
+  });
+  assert(duplicate.status === 409, 'second_open_claim_should_be_409', duplicate);
+  report.duplicate_claim_blocked = duplicate.status;
+
+  const sentToTech = await fetchJson(`/api/warranties/claims/${claimId}/status`, {
+    method: 'POST',
+    token: sellerToken,
+    body: { status: 'sent_to_tech', note: 'Enviado al técnico' }
+  });
+  assert(sentToTech.status === 200 && sentToTech.body?.previous_status === 'received', 'seller_should_move_to_tech', sentToTech);
+
+  const sellerReplace = await fetchJson(`/api/warranties/claims/${claimId}/status`, {
+    method: 'POST',
+    token: sellerToken,
+    body: { status: 'replaced', replacement_stock_item_id: replacement.id }
+  });
+  assert(sellerReplace.status === 403, 'seller_replace_should_be_403', sellerReplace);
+  report.seller_replace_forbidden = sellerReplace.status;
+
+  const replaced = await fetchJson(`/api/warranties/claims/${claimId}/status`, {
+    method: 'POST',
+    token: ownerToken,
+    body: { status: 'replaced', replacement_stock_item_id: replacement.id, note: 'Placa dañada' }
+  });
+  assert(replaced.status === 200 && replaced.body?.replacement_stock_item_id === replacement.id, 'owner_should_replace', replaced);
+
+  const { data: units } = await supabase
+    .from('stock_items')
+    .select('id, status, sale_id')
+    .in('id', [original.id, replacement.id]);
+  const unitById = new Map((units ?? []).map((unit) => [unit.id, unit]));
+  assert(unitById.get(replacement.id)?.status === 'sold' && unitById.get(replacement.id)?.sale_id === saleId, 'replacement_should_be_sold_on_same_sale', units);
+  assert(unitById.get(original.id)?.status === 'service_tech', 'original_should_go_to_service', units);
+  report.replaced = { status: replaced.status };
+
+  const originalCheck = await fetchJson(`/api/warranties/check?imei=${original.imei}`, { token: sellerToken });
+  assert(originalCheck.body?.warranty?.replaced === true && originalCheck.body?.warranty?.in_warranty === false, 'original_should_lose_coverage', originalCheck);
+  assert(originalCheck.body.warranty.replacement_stock_item_id === replacement.id, 'original_should_point_to_replacement', originalCheck.body);
+
+  const reopen = await fetchJson('/api/warranties/claims', {
+    method: 'POST',
+    token: sellerToken,
+    body: { imei: original.imei, issue_description: 'Reclamo sobre equipo reemplazado' }
+  });
+  assert(reopen.status === 409, 'claim_on_replaced_unit_should_be_409', reopen);
+  report.original_after_replacement = { replaced: true, reopen_status: reopen.status };
+
+  const replacementCheck = await fetchJson(`/api/warranties/check?imei=${replacement.imei}`, { token: sellerToken });
+  assert(replacementCheck.status === 200 && replacementCheck.body?.warranty?.is_replacement === true, 'replacement_should_be_covered', replacementCheck);
+  assert(replacementCheck.body.warranty.in_warranty === true, 'replacement_should_be_in_warranty', replacementCheck.body);
+  assert(
+    String(replacementCheck.body.warranty.warranty_until).slice(0, 10) === String(coverage.body.warranty.warranty_until).slice(0, 10),
+    'replacement_should_keep_original_expiry',
+    { original: coverage.body.warranty.warranty_until, replacement: replacementCheck.body.warranty.warranty_until }
+  );
+  report.replacement_coverage = { warranty_until: replacementCheck.body.warranty.warranty_until };
+
+  const closedAgain = await fetchJson(`/api/warranties/claims/${claimId}/status`, {
+    method: 'POST',
+    token: ownerToken,
+    body: { status: 'rejected' }
+  });
+  assert(closedAgain.status === 409, 'closed_claim_should_not_change', closedAgain);
+
+  // eslint-disable-next-line no-console
+  console.log(JSON.stringify({ ok: true, report }, null, 2));
+} finally {
+  if (stockItemIds.length > 0) {
+    await supabase.from('warranty_claims').delete().in('stock_item_id', stockItemIds);
+  }
+  if (saleId && ownerToken) {
+    await fetchJson(`/api/sales/${saleId}/cancel`, {
+      method: 'POST',
+      token: ownerToken,
+      body: { reason: 'test_cleanup' }
+    });
+  }
+  if (!saleId && stockItemIds.length > 0) {
+    await supabase.from('stock_items').delete().in('id', stockItemIds);
+  }
+}
@@ -0,0 +1,220 @@
+import 'dotenv/config';
+import { createHmac } from 'node:crypto';
+import { createServer } from 'node:http';
+import { createClient } from '@supabase/supabase-js';
+
+function fail(message, details) {
+  // eslint-disable-next-line no-console
+  console.error(JSON.stringify({ ok: false, message, details }, null, 2));
+  process.exit(1);
+}
+
+function assert(condition, message, details) {
+  if (!condition) {
+    fail(message, details);
+  }
+}
+
+const baseUrl = process.env.API_BASE_URL ?? 'http://127.0.0.1:3000';
+const supabaseUrl = process.env.SUPABASE_URL;
+const serviceRole = process.env.SUPABASE_SERVICE_ROLE_KEY;
+// The API has to reach this receiver, so it must run on the same host unless WEBHOOK_RECEIVER_HOST says otherwise.
+const receiverHost = process.env.WEBHOOK_RECEIVER_HOST ?? '127.0.0.1';
+// The outbox dispatcher polls every OUTBOX_DISPATCH_INTERVAL_SEC, so real events need some patience.
+const eventWaitMs = Number(process.env.WEBHOOK_TEST_WAIT_MS ?? 45000);
+
+if (!supabaseUrl || !serviceRole) {
+  fail('Missing SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY');
+}
+
+const supabase = createClient(supabaseUrl, serviceRole, {
+  auth: {
+    persistSession: false,
+    autoRefreshToken: false
+  }
+});
+
+async function fetchJson(path, { method = 'GET', token, body } = {}) {
+  const response = await fetch(`${baseUrl}${path}`, {
+    method,
+    headers: {
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      ...(body ? { 'Content-Type': 'application/json' } : {})
+    },
+    ...(body ? { body: JSON.stringify(body) } : {})
+  });
+
+  let json = null;
+  try {
+    json = await response.json();
+  } catch {
+    json = null;
+  }
+
+  return { status: response.status, body: json };
+}
+
+async function login(email, password) {
+  const result = await fetchJson('/api/auth/login', {
+    method: 'POST',
+    body: { email, password }
+  });
+
+  assert(result.status === 200, `login_failed_${email}`, result);
+  assert(Boolean(result.body?.access_token), `missing_access_token_${email}`, result);
+  return result.body.access_token;
+}
+
+const received = [];
+let receiverStatus = 200;
+
+const receiver = createServer((request, response) => {
+  const chunks = [];
+  request.on('data', (chunk) => chunks.push(chunk));
+  request.on('end', () => {
+    received.push({ headers: request.headers, body: Buffer.concat(chunks).toString('utf8') });
+    response.writeHead(receiverStatus, { 'Content-Type': 'text/plain' });
+    response.end(receiverStatus === 200 ? 'ok' : 'receiver_error');
+  });
+});
+
+await new Promise((resolve) => receiver.listen(0, '0.0.0.0', resolve));
+const receiverUrl = `http://${receiverHost}:${receiver.address().port}/hook`;
+
+function verifySignature(request, secret) {
+  const timestamp = request.headers['x-webhook-timestamp'];
+  const expected = `sha256=${createHmac('sha256', secret).update(`${timestamp}.${request.body}`).digest('hex')}`;
+  return request.headers['x-webhook-signature'] === expected;
+}
+
+async function waitFor(predicate, timeoutMs) {
+  const deadline = Date.now() + timeoutMs;
+  while (Date.now() < deadline) {
+    const value = await predicate();
+    if (value) return value;
+    await new Promise((resolve) => setTimeout(resolve, 1000));
+  }
+  return null;
+}
+
+const report = {
+  seller_forbidden: null,
+  invalid_event_type: null,
+  ping_signed: null,
+  stock_status_changed: null,
+  replay: null
+};
+
+let endpointId = null;
+let stockItemId = null;
+
+try {
+  const ownerToken = await login('mocho@gmail.com', '123456');
+  const sellerToken = await login('bruno@gmail.com', '123456');
+  const seed = `${Date.now()}`;
+
+  const sellerCreate = await fetchJson('/api/webhooks', {
+    method: 'POST',
+    token: sellerToken,
+    body: { url: receiverUrl, event_types: ['sale.created'] }
+  });
+  assert(sellerCreate.status === 403, 'seller_should_not_manage_webhooks', sellerCreate);
+  report.seller_forbidden = sellerCreate.status;
+
+  const invalid = await fetchJson('/api/webhooks', {
+    method: 'POST',
+    token: ownerToken,
+    body: { url: receiverUrl, event_types: ['sale.exploded'] }
+  });
+  assert(invalid.status === 400 && invalid.body?.error?.code === 'validation_error', 'unknown_event_type_should_be_400', invalid);
+  report.invalid_event_type = invalid.status;
+
+  const created = await fetchJson('/api/webhooks', {
+    method: 'POST',
+    token: ownerToken,
+    body: { url: receiverUrl, description: `auto-test-webhooks ${seed}`, event_types: ['stock_item.status_changed'] }
+  });
+  assert(created.status === 201, 'create_webhook_should_be_201', created);
+  assert(typeof created.body?.secret === 'string' && created.body.secret.startsWith('whsec_'), 'create_should_return_secret', created.body);
+  assert(created.body?.endpoint?.secret === undefined, 'endpoint_should_not_expose_secret', created.body);
+  endpointId = created.body.endpoint.id;
+  const secret = created.body.secret;
+
+  const ping = await fetchJson(`/api/webhooks/${endpointId}/ping`, { method: 'POST', token: ownerToken });
+  assert(ping.status === 201 && ping.body?.delivery?.status === 'delivered', 'ping_should_be_delivered', ping);
+  const pingRequest = received.find((request) => request.headers['x-webhook-id'] === ping.body.delivery.id);
+  assert(Boolean(pingRequest), 'receiver_should_get_ping', received.map((request) => request.headers));
+  assert(verifySignature(pingRequest, secret), 'ping_signature_should_verify', pingRequest.headers);
+  assert(!verifySignature(pingRequest, 'whsec_wrong'), 'signature_should_fail_with_other_secret');
+  report.ping_signed = { delivery_id: ping.body.delivery.id, event: pingRequest.headers['x-webhook-event'] };
+
+  const { data: stock, error: stockError } = await supabase
+    .from('stock_items')
+    .insert({
+      brand: 'Apple',
+      model: `iPhone Webhook ${seed}`,
+      condition: 'used',
+      category: 'used_premium',
+      status: 'available',
+      sale_price_ars: 1500,
+      purchase_ars: 900,
+      imei: `36${seed}`.slice(0, 15),
+      details: 'auto-test-webhooks'
+    })
+    .select('id')
+    .single();
+  assert(!stockError && stock?.id, 'temp_stock_create_failed', stockError?.message);
+  stockItemId = stock.id;
+
+  const patched = await fetchJson(`/api/stock-items/${stockItemId}`, {
+    method: 'PATCH',
+    token: ownerToken,
+    body: { status: 'service_tech' }
+  });
+  assert(patched.status === 200, 'stock_patch_should_be_200', patched);
+
+  const statusRequest = await waitFor(() => received.find((request) => {
+    if (request.headers['x-webhook-event'] !== 'stock_item.status_changed') return false;
+    const body = JSON.parse(request.body);
+    return body.data?.stock_items?.some((item) => item.stock_item_id === stockItemId);
+  }), eventWaitMs);
+  assert(Boolean(statusRequest), 'receiver_should_get_status_change', { waited_ms: eventWaitMs });
+  assert(verifySignature(statusRequest, secret), 'status_change_signature_should_verify', statusRequest.headers);
+  const statusBody = JSON.parse(statusRequest.body);
+  const changedItem = statusBody.data.stock_items.find((item) => item.stock_item_id === stockItemId);
+  assert(changedItem.previous_status === 'available' && changedItem.status === 'service_tech', 'status_change_should_include_both_statuses', statusBody);
+  report.stock_status_changed = { delivery_id: statusRequest.headers['x-webhook-id'], ...changedItem };
+
+  receiverStatus = 500;
+  const failedPing = await fetchJson(`/api/webhooks/${endpointId}/ping`, { method: 'POST', token: ownerToken });
+  assert(failedPing.status === 201, 'failed_ping_should_still_be_logged', failedPing);
+  assert(failedPing.body?.delivery?.status === 'failed' && failedPing.body?.delivery?.response_status === 500, 'ping_to_500_should_fail', failedPing.body);
+  const failedId = failedPing.body.delivery.id;
+
+  const failedLog = await fetchJson(`/api/webhooks/deliveries?endpoint_id=${endpointId}&status=failed`, { token: ownerToken });
+  assert(failedLog.status === 200, 'delivery_log_should_be_200', failedLog);
+  assert(failedLog.body?.deliveries?.some((delivery) => delivery.id === failedId), 'delivery_log_should_list_failed', failedLog.body);
+
+  receiverStatus = 200;
+  const receivedBeforeReplay = received.length;
+  const replay = await fetchJson(`/api/webhooks/deliveries/${failedId}/replay`, { method: 'POST', token: ownerToken });
+  assert(replay.status === 200 && replay.body?.delivery?.status === 'delivered', 'replay_should_deliver', replay);
+  assert(replay.body.delivery.attempts === 2, 'replay_should_count_attempt', replay.body);
+  const replayed = received.slice(receivedBeforeReplay).find((request) => request.headers['x-webhook-id'] === failedId);
+  assert(Boolean(replayed) && verifySignature(replayed, secret), 'replay_should_be_signed_with_same_id', replayed?.headers);
+
+  const replayAgain = await fetchJson('/api/webhooks/deliveries/00000000-0000-0000-0000-000000000000/replay', { method: 'POST', token: ownerToken });
+  assert(replayAgain.status === 404, 'replay_unknown_delivery_should_be_404', replayAgain);
+  report.replay = { delivery_id: failedId, attempts: replay.body.delivery.attempts };
+
+  // eslint-disable-next-line no-console
+  console.log(JSON.stringify({ ok: true, report }, null, 2));
+} finally {
+  if (endpointId) {
+    await supabase.from('webhook_endpoints').delete().eq('id', endpointId);
+  }
+  if (stockItemId) {
+    await supabase.from('stock_items').delete().eq('id', stockItemId);
+  }
+  receiver.close();
+}
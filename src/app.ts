@@ -14,8 +14,22 @@ import { financeRouter } from './modules/finance/index.js';
 import { adminUsersRouter } from './modules/adminUsers/index.js';
 import { adminSeedUsersRouter } from './modules/adminSeedUsers/index.js';
 import { adminAuditRouter } from './modules/adminAudit/index.js';
+import { adminIdempotencyRouter } from './modules/adminIdempotency/index.js';
 import { stockItemsRouter } from './modules/stockItems/index.js';
 import { planCanjeValuesRouter } from './modules/planCanjeValues/index.js';
+import { customersRouter } from './modules/customers/index.js';
+import { reservationsRouter } from './modules/reservations/index.js';
+import { warrantiesRouter } from './modules/warranties/index.js';
+import { publicQuotesRouter, quotesRouter } from './modules/quotes/index.js';
+import { promoCodesRouter } from './modules/promoCodes/index.js';
+import { commissionRulesRouter } from './modules/commissions/index.js';
+import { branchesRouter } from './modules/branches/index.js';
+import { stockTransfersRouter } from './modules/stockTransfers/index.js';
+import { cashSessionsRouter } from './modules/cashSessions/index.js';
+import { expensesRouter } from './modules/expenses/index.js';
+import { fxRatesRouter } from './modules/fxRates/index.js';
+import { collectionRemindersRouter } from './modules/collections/index.js';
+import { webhooksRouter } from './modules/webhooks/index.js';
 
 export const app = express();
 
@@ -68,6 +82,7 @@ const rateLimitWindowMin = parsePositiveInt(process.env.RATE_LIMIT_WINDOW_MIN, 1
 const rateLimitWindowMs = rateLimitWindowMin * 60 * 1000;
 const globalRateLimitMax = parsePositiveInt(process.env.RATE_LIMIT_MAX, 300);
 const adminRateLimitMax = parsePositiveInt(process.env.RATE_LIMIT_ADMIN_MAX, 60);
+const publicRateLimitMax = parsePositiveInt(process.env.RATE_LIMIT_PUBLIC_MAX, 30);
 
 const globalRateLimit = rateLimit({
   windowMs: rateLimitWindowMs,
@@ -95,6 +110,20 @@ const adminUsersRateLimit = rateLimit({
   }
 });
 
+// Public links answer without a token, so guessing share codes is throttled well below the global limit.
+const publicQuotesRateLimit = rateLimit({
+  windowMs: rateLimitWindowMs,
+  max: publicRateLimitMax,
+  standardHeaders: true,
+  legacyHeaders: false,
+  message: {
+    error: {
+      code: 'rate_limited',
+      message: 'Too many requests, please try again later.'
+    }
+  }
+});
+
 const packagePath = resolve(dirname(fileURLToPath(import.meta.url)), '..', 'package.json');
 const appVersion = (() => {
   try {
@@ -125,6 +154,7 @@ app.get('/health', (_req, res) => res.json({
 }));
 
 app.use('/api/auth', authRouter);
+app.use('/api/public/quotes', publicQuotesRateLimit, publicQuotesRouter);
 app.use('/api', authMiddleware);
 
 app.use('/api/sales', salesRouter);
@@ -133,9 +163,23 @@ app.use('/api/installment-rules', installmentRulesRouter);
 app.use('/api/finance', financeRouter);
 app.use('/api/admin/users', adminUsersRateLimit, adminUsersRouter);
 app.use('/api/admin/audit-logs', adminUsersRateLimit, adminAuditRouter);
+app.use('/api/admin/idempotency-keys', adminUsersRateLimit, adminIdempotencyRouter);
 app.use('/api/admin/seed-users', adminUsersRateLimit, adminSeedUsersRouter);
 app.use('/api/stock-items', stockItemsRouter);
 app.use('/api/plan-canje-values', planCanjeValuesRouter);
+app.use('/api/customers', customersRouter);
+app.use('/api/reservations', reservationsRouter);
+app.use('/api/warranties', warrantiesRouter);
+app.use('/api/quotes', quotesRouter);
+app.use('/api/promo-codes', promoCodesRouter);
+app.use('/api/commission-rules', commissionRulesRouter);
+app.use('/api/branches', branchesRouter);
+app.use('/api/stock-transfers', stockTransfersRouter);
+app.use('/api/cash-sessions', cashSessionsRouter);
+app.use('/api/expenses', expensesRouter);
+app.use('/api/fx-rates', fxRatesRouter);
+app.use('/api/collection-reminders', collectionRemindersRouter);
+app.use('/api/webhooks', webhooksRouter);
 
 app.use((req, res) => {
   res.status(404).json({ error: { code: 'not_found', message: `Route not found: ${req.method} ${req.path}` } });
@@ -0,0 +1,59 @@
+import { supabaseAdmin } from '../lib/supabaseAdmin.js';
+
+const DEFAULT_INTERVAL_MIN = 15;
+const DEFAULT_IN_PROGRESS_TIMEOUT_SEC = 300;
+
+function parsePositive(rawValue: string | undefined, fallback: number): number {
+  const parsed = Number(rawValue);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+export function resolveInProgressTimeoutSec(): number {
+  return parsePositive(process.env.IDEMPOTENCY_IN_PROGRESS_TIMEOUT_SEC, DEFAULT_IN_PROGRESS_TIMEOUT_SEC);
+}
+
+export async function sweepIdempotencyKeys(): Promise<{ expired_deleted: number; stuck_released: number }> {
+  const { data, error } = await supabaseAdmin.rpc('rpc_sweep_idempotency_keys_v1', {
+    p_in_progress_timeout_sec: resolveInProgressTimeoutSec(),
+    p_limit: 1000
+  });
+
+  if (error) {
+    // eslint-disable-next-line no-console
+    console.error(JSON.stringify({
+      level: 'error',
+      event: 'idempotency_sweep_failed',
+      details: error.message,
+      timestamp: new Date().toISOString()
+    }));
+    return { expired_deleted: 0, stuck_released: 0 };
+  }
+
+  const result = {
+    expired_deleted: Number(data?.expired_deleted ?? 0),
+    stuck_released: Number(data?.stuck_released ?? 0)
+  };
+
+  if (result.expired_deleted > 0 || result.stuck_released > 0) {
+    // eslint-disable-next-line no-console
+    console.log(JSON.stringify({
+      level: result.stuck_released > 0 ? 'warn' : 'info',
+      event: 'idempotency_keys_swept',
+      ...result,
+      timestamp: new Date().toISOString()
+    }));
+  }
+
+  return result;
+}
+
+/** Purges expired idempotency keys and frees stuck in-progress ones on a fixed interval. */
+export function startIdempotencySweeperJob(): NodeJS.Timeout {
+  const intervalMs = parsePositive(process.env.IDEMPOTENCY_SWEEP_INTERVAL_MIN, DEFAULT_INTERVAL_MIN) * 60 * 1000;
+  void sweepIdempotencyKeys();
+  const timer = setInterval(() => {
+    void sweepIdempotencyKeys();
+  }, intervalMs);
+  timer.unref();
+  return timer;
+}
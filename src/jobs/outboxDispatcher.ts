@@ -0,0 +1,113 @@
+import { supabaseAdmin } from '../lib/supabaseAdmin.js';
+import { listOutboxSubscribers, type OutboxEvent } from '../lib/outbox.js';
+
+const DEFAULT_INTERVAL_SEC = 10;
+const DEFAULT_MAX_ATTEMPTS = 8;
+const BATCH_SIZE = 50;
+const BASE_RETRY_DELAY_MS = 30 * 1000;
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+
+function parsePositive(rawValue: string | undefined, fallback: number): number {
+  const parsed = Number(rawValue);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+function logDispatcherError(event: string, details: unknown, extra?: Record<string, unknown>): void {
+  // eslint-disable-next-line no-console
+  console.error(JSON.stringify({
+    level: 'error',
+    event,
+    ...extra,
+    details,
+    timestamp: new Date().toISOString()
+  }));
+}
+
+/** 30s, 1m, 2m, 4m... capped at one hour. */
+export function computeRetryDelayMs(attempts: number): number {
+  return Math.min(BASE_RETRY_DELAY_MS * 2 ** Math.max(attempts - 1, 0), MAX_RETRY_DELAY_MS);
+}
+
+async function deliverEvent(event: OutboxEvent, maxAttempts: number): Promise<'delivered' | 'retry' | 'failed'> {
+  const deliveredTo = new Set(event.delivered_to ?? []);
+  const errors: string[] = [];
+
+  for (const subscriber of listOutboxSubscribers(event.event_type)) {
+    if (deliveredTo.has(subscriber.name)) continue;
+    try {
+      await subscriber.handle(event);
+      deliveredTo.add(subscriber.name);
+    } catch (error) {
+      errors.push(`${subscriber.name}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  const outcome = errors.length === 0 ? 'delivered' : event.attempts >= maxAttempts ? 'failed' : 'retry';
+  const update = {
+    delivered_to: [...deliveredTo],
+    locked_at: null,
+    last_error: errors.length > 0 ? errors.join(' | ').slice(0, 2000) : null,
+    ...(outcome === 'delivered' ? { status: 'delivered', delivered_at: new Date().toISOString() } : {}),
+    ...(outcome === 'failed' ? { status: 'failed' } : {}),
+    ...(outcome === 'retry'
+      ? { status: 'pending', next_attempt_at: new Date(Date.now() + computeRetryDelayMs(event.attempts)).toISOString() }
+      : {})
+  };
+
+  const { error } = await supabaseAdmin
+    .from('outbox_events')
+    .update(update)
+    .eq('id', event.id);
+
+  if (error) {
+    logDispatcherError('outbox_event_update_failed', error.message, { event_id: event.id });
+  }
+  if (outcome === 'failed') {
+    logDispatcherError('outbox_event_failed', update.last_error, { event_id: event.id, event_type: event.event_type, attempts: event.attempts });
+  }
+
+  return outcome;
+}
+
+/** Claims a batch of due events and runs their subscribers. Returns how many were fully delivered. */
+export async function dispatchOutboxEvents(): Promise<number> {
+  const maxAttempts = parsePositive(process.env.OUTBOX_MAX_ATTEMPTS, DEFAULT_MAX_ATTEMPTS);
+  const { data, error } = await supabaseAdmin.rpc('rpc_claim_outbox_events_v1', { p_limit: BATCH_SIZE });
+
+  if (error) {
+    logDispatcherError('outbox_claim_failed', error.message);
+    return 0;
+  }
+
+  let delivered = 0;
+  for (const event of (data ?? []) as OutboxEvent[]) {
+    if (await deliverEvent(event, maxAttempts) === 'delivered') {
+      delivered += 1;
+    }
+  }
+
+  return delivered;
+}
+
+/** Polls the outbox on a fixed interval; overlapping runs are skipped instead of queued. */
+export function startOutboxDispatcherJob(): NodeJS.Timeout {
+  const intervalMs = parsePositive(process.env.OUTBOX_DISPATCH_INTERVAL_SEC, DEFAULT_INTERVAL_SEC) * 1000;
+  let running = false;
+
+  const tick = async () => {
+    if (running) return;
+    running = true;
+    try {
+      await dispatchOutboxEvents();
+    } finally {
+      running = false;
+    }
+  };
+
+  void tick();
+  const timer = setInterval(() => {
+    void tick();
+  }, intervalMs);
+  timer.unref();
+  return timer;
+}
@@ -0,0 +1,49 @@
+import { supabaseAdmin } from '../lib/supabaseAdmin.js';
+
+const DEFAULT_INTERVAL_MIN = 5;
+
+function parseIntervalMs(rawValue: string | undefined): number {
+  const parsed = Number(rawValue);
+  const minutes = Number.isFinite(parsed) && parsed > 0 ? parsed : DEFAULT_INTERVAL_MIN;
+  return minutes * 60 * 1000;
+}
+
+export async function expireReservations(): Promise<number> {
+  const { data, error } = await supabaseAdmin.rpc('rpc_expire_reservations_v1', { p_limit: 100 });
+
+  if (error) {
+    // eslint-disable-next-line no-console
+    console.error(JSON.stringify({
+      level: 'error',
+      event: 'reservation_expiry_failed',
+      details: error.message,
+      timestamp: new Date().toISOString()
+    }));
+    return 0;
+  }
+
+  const expiredCount = Number(data?.expired_count ?? 0);
+  if (expiredCount > 0) {
+    // eslint-disable-next-line no-console
+    console.log(JSON.stringify({
+      level: 'info',
+      event: 'reservations_expired',
+      expired_count: expiredCount,
+      reservation_ids: data?.reservation_ids ?? [],
+      timestamp: new Date().toISOString()
+    }));
+  }
+
+  return expiredCount;
+}
+
+/** Releases expired reservations back to available stock on a fixed interval. */
+export function startReservationExpiryJob(): NodeJS.Timeout {
+  const intervalMs = parseIntervalMs(process.env.RESERVATION_EXPIRY_INTERVAL_MIN);
+  void expireReservations();
+  const timer = setInterval(() => {
+    void expireReservations();
+  }, intervalMs);
+  timer.unref();
+  return timer;
+}
@@ -0,0 +1,35 @@
+import { sendDueWebhookDeliveries } from '../modules/webhooks/delivery.js';
+
+const DEFAULT_INTERVAL_SEC = 5;
+
+function parseIntervalMs(rawValue: string | undefined): number {
+  const parsed = Number(rawValue);
+  const seconds = Number.isFinite(parsed) && parsed > 0 ? parsed : DEFAULT_INTERVAL_SEC;
+  return seconds * 1000;
+}
+
+/**
+ * Sends pending webhook deliveries, both first attempts queued by the outbox subscriber and retries whose
+ * backoff elapsed. Overlapping runs are skipped instead of queued.
+ */
+export function startWebhookDeliveryJob(): NodeJS.Timeout {
+  const intervalMs = parseIntervalMs(process.env.WEBHOOK_DELIVERY_INTERVAL_SEC);
+  let running = false;
+
+  const tick = async () => {
+    if (running) return;
+    running = true;
+    try {
+      await sendDueWebhookDeliveries();
+    } finally {
+      running = false;
+    }
+  };
+
+  void tick();
+  const timer = setInterval(() => {
+    void tick();
+  }, intervalMs);
+  timer.unref();
+  return timer;
+}
@@ -0,0 +1,103 @@
+const AR_TIME_ZONE = process.env.STORE_TIME_ZONE?.trim() || 'America/Argentina/Tucuman';
+
+const arsFormatter = new Intl.NumberFormat('es-AR', {
+  style: 'currency',
+  currency: 'ARS',
+  minimumFractionDigits: 2,
+  maximumFractionDigits: 2
+});
+
+const usdFormatter = new Intl.NumberFormat('es-AR', {
+  style: 'currency',
+  currency: 'USD',
+  minimumFractionDigits: 2,
+  maximumFractionDigits: 2
+});
+
+const decimalFormatter = new Intl.NumberFormat('es-AR', {
+  minimumFractionDigits: 2,
+  maximumFractionDigits: 2,
+  useGrouping: true
+});
+
+const dateFormatter = new Intl.DateTimeFormat('es-AR', {
+  timeZone: AR_TIME_ZONE,
+  day: '2-digit',
+  month: '2-digit',
+  year: 'numeric'
+});
+
+const dateTimeFormatter = new Intl.DateTimeFormat('es-AR', {
+  timeZone: AR_TIME_ZONE,
+  day: '2-digit',
+  month: '2-digit',
+  year: 'numeric',
+  hour: '2-digit',
+  minute: '2-digit',
+  hour12: false
+});
+
+// en-CA formats as YYYY-MM-DD, which is what date columns expect.
+const isoDateFormatter = new Intl.DateTimeFormat('en-CA', {
+  timeZone: AR_TIME_ZONE,
+  year: 'numeric',
+  month: '2-digit',
+  day: '2-digit'
+});
+
+function toFiniteNumber(value: unknown): number {
+  const parsed = Number(value ?? 0);
+  return Number.isFinite(parsed) ? parsed : 0;
+}
+
+function toDate(value: unknown): Date | null {
+  if (value instanceof Date) {
+    return Number.isNaN(value.getTime()) ? null : value;
+  }
+  if (typeof value !== 'string' || !value.trim()) {
+    return null;
+  }
+  // Plain dates (YYYY-MM-DD) are calendar days, not instants: pin them to noon UTC
+  // so the store time zone never shifts them to the previous day.
+  const normalized = /^\d{4}-\d{2}-\d{2}$/.test(value) ? `${value}T12:00:00Z` : value;
+  const parsed = new Date(normalized);
+  return Number.isNaN(parsed.getTime()) ? null : parsed;
+}
+
+export function formatArs(value: unknown): string {
+  return arsFormatter.format(toFiniteNumber(value));
+}
+
+export function formatUsd(value: unknown): string {
+  return usdFormatter.format(toFiniteNumber(value));
+}
+
+export function formatMoney(value: unknown, currency: string | null | undefined): string {
+  return String(currency ?? 'ARS').toUpperCase() === 'USD' ? formatUsd(value) : formatArs(value);
+}
+
+/** Plain number with Argentine separators (1.234,56), for spreadsheets. */
+export function formatDecimalAr(value: unknown): string {
+  return decimalFormatter.format(toFiniteNumber(value));
+}
+
+export function formatDateAr(value: unknown): string {
+  const date = toDate(value);
+  return date ? dateFormatter.format(date) : '';
+}
+
+export function formatDateTimeAr(value: unknown): string {
+  const date = toDate(value);
+  return date ? dateTimeFormatter.format(date) : '';
+}
+
+export function addDays(value: unknown, days: number): Date | null {
+  const date = toDate(value);
+  if (!date) return null;
+  return new Date(date.getTime() + days * 24 * 60 * 60 * 1000);
+}
+
+export function toStoreIsoDate(value: unknown = new Date()): string {
+  const date = toDate(value);
+  return date ? isoDateFormatter.format(date) : '';
+}
@@ -0,0 +1,26 @@
+import type { Request } from 'express';
+
+export type BranchScope =
+  | { ok: true; branchId: string | null }
+  | { ok: false; status: 403; error: { code: string; message: string; details?: unknown } };
+
+/**
+ * Sellers only see their own branch (when they have one); admins and owners see every branch
+ * unless they ask for a specific one. `branchId: null` means "no branch filter".
+ */
+export function resolveBranchScope(req: Request, requestedBranchId?: string | null): BranchScope {
+  const user = req.user;
+  if (!user || user.role !== 'seller' || !user.branch_id) {
+    return { ok: true, branchId: requestedBranchId ?? null };
+  }
+
+  if (requestedBranchId && requestedBranchId !== user.branch_id) {
+    return {
+      ok: false,
+      status: 403,
+      error: { code: 'forbidden', message: 'Branch not allowed for this user', details: 'branch_scope_restricted' }
+    };
+  }
+
+  return { ok: true, branchId: user.branch_id };
+}
@@ -0,0 +1,60 @@
+/** Written by the capture triggers in migrations/2026_10_19_outbox_events.sql and the module migrations. */
+export type DomainEventType =
+  | 'sale.created'
+  | 'sale.updated'
+  | 'sale.payment_registered'
+  | 'sale.payment_reversed'
+  | 'sale.settled'
+  | 'sale.cancelled'
+  | 'sale.items_returned'
+  | 'stock_item.created'
+  | 'stock_item.updated'
+  | 'stock_item.status_changed'
+  | 'trade_in.created'
+  | 'trade_in.updated'
+  | 'trade_in.converted'
+  | 'reservation.created'
+  | 'reservation.status_changed'
+  | 'stock_transfer.created'
+  | 'stock_transfer.status_changed'
+  | 'warranty_claim.created'
+  | 'warranty_claim.status_changed';
+
+/**
+ * Header read by the capture triggers to attribute direct table writes, whose rows have no actor column.
+ * Set it with `.setHeader(OUTBOX_ACTOR_HEADER, userId)` on the write.
+ */
+export const OUTBOX_ACTOR_HEADER = 'x-actor-user-id';
+
+export type OutboxEvent = {
+  id: string;
+  event_type: DomainEventType;
+  aggregate_type: string;
+  aggregate_id: string | null;
+  payload: Record<string, unknown>;
+  actor_user_id: string | null;
+  attempts: number;
+  delivered_to: string[];
+  created_at: string;
+};
+
+export type OutboxSubscriber = {
+  name: string;
+  /** Event types to receive; '*' receives every event. */
+  events: Array<DomainEventType | '*'>;
+  handle: (event: OutboxEvent) => Promise<void>;
+};
+
+const subscribers: OutboxSubscriber[] = [];
+
+/** Subscribers register at import time; names must be stable because retries are tracked by name. */
+export function registerOutboxSubscriber(subscriber: OutboxSubscriber): void {
+  if (subscribers.some((entry) => entry.name === subscriber.name)) {
+    throw new Error(`Outbox subscriber already registered: ${subscriber.name}`);
+  }
+  subscribers.push(subscriber);
+}
+
+export function listOutboxSubscribers(eventType: DomainEventType): OutboxSubscriber[] {
+  return subscribers.filter((entry) => entry.events.includes('*') || entry.events.includes(eventType));
+}
@@ -12,6 +12,7 @@ export type ResolvedAuthUser = {
   email: string | null;
   role: AppRole;
   full_name: string | null;
+  branch_id: string | null;
 };
 
 export type ResolveBearerResult =
@@ -50,11 +51,11 @@ function pickBearerToken(authorization: string | undefined | null): string | nul
 
 async function fetchProfileById(
   userId: string
-): Promise<{ ok: true; role: AppRole; full_name: string | null } | { ok: false; status: 403; error: ResolveError }> {
+): Promise<{ ok: true; role: AppRole; full_name: string | null; branch_id: string | null } | { ok: false; status: 403; error: ResolveError }> {
   const supabase = createServiceClient();
   const { data: profile, error: profileError } = await supabase
     .from('profiles')
-    .select('role, full_name')
+    .select('role, full_name, branch_id')
     .eq('id', userId)
     .single();
 
@@ -85,7 +86,8 @@ async function fetchProfileById(
   return {
     ok: true,
     role,
-    full_name: typeof profile.full_name === 'string' && profile.full_name.trim() ? profile.full_name.trim() : null
+    full_name: typeof profile.full_name === 'string' && profile.full_name.trim() ? profile.full_name.trim() : null,
+    branch_id: typeof profile.branch_id === 'string' ? profile.branch_id : null
   };
 }
 
@@ -115,7 +117,8 @@ export async function resolveBearerUser(authorization: string | undefined | null
         id: appToken.sub,
         email: appToken.email ?? null,
         role: profile.role,
-        full_name: profile.full_name
+        full_name: profile.full_name,
+        branch_id: profile.branch_id
       }
     };
   } catch {
@@ -147,7 +150,8 @@ export async function resolveBearerUser(authorization: string | undefined | null
       id: userData.user.id,
       email: userData.user.email ?? null,
       role: profile.role,
-      full_name: profile.full_name
+      full_name: profile.full_name,
+      branch_id: profile.branch_id
     }
   };
 }
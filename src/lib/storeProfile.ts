@@ -0,0 +1,20 @@
+export type StoreProfile = {
+  name: string;
+  address: string | null;
+  phone: string | null;
+  tax_id: string | null;
+  footer: string;
+};
+
+function readOptional(name: string): string | null {
+  const value = process.env[name]?.trim();
+  return value ? value : null;
+}
+
+export const STORE_PROFILE: StoreProfile = {
+  name: readOptional('STORE_NAME') ?? 'MyPhone',
+  address: readOptional('STORE_ADDRESS'),
+  phone: readOptional('STORE_PHONE'),
+  tax_id: readOptional('STORE_TAX_ID'),
+  footer: readOptional('STORE_RECEIPT_FOOTER') ?? 'Documento no válido como factura.'
+};
@@ -15,7 +15,8 @@ export async function authMiddleware(req: Request, res: Response, next: NextFunc
     req.user = {
       id: authResult.user.id,
       email: authResult.user.email,
-      role: authResult.user.role
+      role: authResult.user.role,
+      branch_id: authResult.user.branch_id
     };
 
     return next();
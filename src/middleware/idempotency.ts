@@ -0,0 +1,199 @@
+import { createHash } from 'node:crypto';
+import type { Request, Response, NextFunction } from 'express';
+import { supabaseAdmin } from '../lib/supabaseAdmin.js';
+
+const IDEMPOTENCY_TTL_MS = 24 * 60 * 60 * 1000;
+
+export type IdempotencyReservation =
+  | { kind: 'reserved'; id: string | null }
+  | { kind: 'replay'; status: number; body: unknown }
+  | { kind: 'rejected'; status: number; body: unknown };
+
+function makeError(code: string, message: string, details?: unknown) {
+  return { error: { code, message, details } };
+}
+
+function stableStringify(value: unknown): string {
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value);
+  }
+
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => stableStringify(item)).join(',')}]`;
+  }
+
+  const entries = Object.entries(value as Record<string, unknown>).sort(([a], [b]) => a.localeCompare(b));
+  return `{${entries.map(([key, entryValue]) => `${JSON.stringify(key)}:${stableStringify(entryValue)}`).join(',')}}`;
+}
+
+export function hashPayload(value: unknown): string {
+  return createHash('sha256').update(stableStringify(value)).digest('hex');
+}
+
+export function resolveIdempotencyKey(req: { header: (name: string) => string | undefined }, bodyKey?: string | null): string | null {
+  const fromHeader = req.header('idempotency-key')?.trim() || req.header('x-idempotency-key')?.trim();
+  const candidate = fromHeader || bodyKey?.trim() || '';
+  if (!candidate) {
+    return null;
+  }
+  return candidate.slice(0, 255);
+}
+
+/**
+ * Looks up (user, route, key) and either reserves it for this request or tells the caller what to answer:
+ * the stored response for a finished request with the same payload, 409 for a different payload or a
+ * request still in flight.
+ */
+export async function reserveIdempotencyKey(input: {
+  userId: string;
+  route: string;
+  key: string;
+  requestHash: string;
+}): Promise<IdempotencyReservation> {
+  const findExisting = async () => supabaseAdmin
+    .from('idempotency_keys')
+    .select('id, request_hash, response_status, response_body, expires_at')
+    .eq('user_id', input.userId)
+    .eq('route', input.route)
+    .eq('key', input.key)
+    .maybeSingle();
+
+  const resolveExisting = (existing: { request_hash: string; response_status: number | null; response_body: unknown }): IdempotencyReservation => {
+    if (existing.request_hash !== input.requestHash) {
+      return { kind: 'rejected', status: 409, body: makeError('idempotency_conflict', 'Same idempotency key used with different payload') };
+    }
+    if (existing.response_status) {
+      return { kind: 'replay', status: existing.response_status, body: existing.response_body };
+    }
+    return { kind: 'rejected', status: 409, body: makeError('idempotency_in_progress', 'Request with this idempotency key is in progress') };
+  };
+
+  const { data: existing, error: existingError } = await findExisting();
+  if (existingError) {
+    return { kind: 'rejected', status: 400, body: makeError('idempotency_lookup_failed', 'Failed to lookup idempotency key', existingError.message) };
+  }
+  if (existing && new Date(existing.expires_at).getTime() > Date.now()) {
+    return resolveExisting(existing);
+  }
+  if (existing) {
+    // Expired but not swept yet: the key is free again.
+    await supabaseAdmin.from('idempotency_keys').delete().eq('id', existing.id);
+  }
+
+  const { data: inserted, error: insertError } = await supabaseAdmin
+    .from('idempotency_keys')
+    .insert({
+      user_id: input.userId,
+      route: input.route,
+      key: input.key,
+      request_hash: input.requestHash,
+      expires_at: new Date(Date.now() + IDEMPOTENCY_TTL_MS).toISOString()
+    })
+    .select('id')
+    .single();
+
+  if (insertError) {
+    // Two requests with the same key raced past the lookup; the loser answers from the winner's row.
+    if (insertError.code === '23505') {
+      const { data: raced, error: racedError } = await findExisting();
+      if (racedError) {
+        return { kind: 'rejected', status: 400, body: makeError('idempotency_lookup_failed', 'Failed to lookup idempotency key', racedError.message) };
+      }
+      if (raced) {
+        return resolveExisting(raced);
+      }
+    }
+
+    return { kind: 'rejected', status: 400, body: makeError('idempotency_reserve_failed', 'Failed to reserve idempotency key', insertError.message) };
+  }
+
+  return { kind: 'reserved', id: inserted?.id ?? null };
+}
+
+export async function persistIdempotencyResult(idempotencyId: string | null, status: number, body: unknown): Promise<void> {
+  if (!idempotencyId) return;
+
+  await supabaseAdmin
+    .from('idempotency_keys')
+    .update({
+      response_status: status,
+      response_body: body ?? null
+    })
+    .eq('id', idempotencyId);
+}
+
+/** Frees a reservation whose request never produced a response worth replaying, so the client can retry. */
+export async function releaseIdempotencyKey(idempotencyId: string | null): Promise<void> {
+  if (!idempotencyId) return;
+
+  await supabaseAdmin
+    .from('idempotency_keys')
+    .delete()
+    .eq('id', idempotencyId)
+    .is('response_status', null);
+}
+
+/**
+ * Makes a mutating route safe to retry with an `Idempotency-Key` (or `X-Idempotency-Key`) header. Requests
+ * without the header pass through untouched. The request hash covers the route params and the body, and the
+ * JSON response is stored before it is sent, so a retry gets exactly the same status and body. 5xx responses
+ * release the key instead of being stored. Must run after auth.
+ */
+export function idempotent(route: string) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const userId = req.user?.id;
+    const key = resolveIdempotencyKey(req);
+    if (!userId || !key) {
+      return next();
+    }
+
+    const reservation = await reserveIdempotencyKey({
+      userId,
+      route,
+      key,
+      requestHash: hashPayload({ params: req.params, body: req.body ?? null })
+    });
+
+    if (reservation.kind === 'rejected') {
+      return res.status(reservation.status).json(reservation.body);
+    }
+    if (reservation.kind === 'replay') {
+      res.setHeader('Idempotent-Replayed', 'true');
+      return res.status(reservation.status).json(reservation.body);
+    }
+
+    let settled = false;
+    const originalJson = res.json.bind(res);
+
+    res.json = ((body: unknown) => {
+      settled = true;
+      const store = res.statusCode >= 500
+        ? releaseIdempotencyKey(reservation.id)
+        : persistIdempotencyResult(reservation.id, res.statusCode, body);
+      // A failed write must not cost the client its response: log it and free the key so a retry runs again.
+      void store
+        .catch((error: unknown) => {
+          // eslint-disable-next-line no-console
+          console.error(JSON.stringify({
+            level: 'error',
+            event: 'idempotency_store_failed',
+            route,
+            details: error instanceof Error ? error.message : String(error),
+            timestamp: new Date().toISOString()
+          }));
+          return releaseIdempotencyKey(reservation.id).catch(() => undefined);
+        })
+        .then(() => originalJson(body));
+      return res;
+    }) as Response['json'];
+
+    // Handlers that crash or end the response without JSON must not leave the key stuck "in progress".
+    res.on('close', () => {
+      if (!settled) {
+        void releaseIdempotencyKey(reservation.id);
+      }
+    });
+
+    return next();
+  };
+}
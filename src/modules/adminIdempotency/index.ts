@@ -0,0 +1,149 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { supabaseAdmin } from '../../lib/supabaseAdmin.js';
+import { requireRole } from '../../middleware/rbac.js';
+import { resolveInProgressTimeoutSec, sweepIdempotencyKeys } from '../../jobs/idempotencySweeper.js';
+
+const router = Router();
+const KEY_COLUMNS = 'id, user_id, route, key, request_hash, response_status, created_at, expires_at';
+
+const querySchema = z.object({
+  key: z.string().trim().min(1).max(255).optional(),
+  user_id: z.string().uuid().optional(),
+  route: z.string().trim().min(1).optional(),
+  state: z.enum(['in_progress', 'completed', 'expired']).optional(),
+  page: z.coerce.number().int().positive().optional().default(1),
+  page_size: z.coerce.number().int().positive().max(100).optional().default(30)
+});
+
+type IdempotencyKeyRow = {
+  id: string;
+  user_id: string;
+  route: string;
+  key: string;
+  request_hash: string;
+  response_status: number | null;
+  response_body?: unknown;
+  created_at: string;
+  expires_at: string;
+};
+
+/** `stuck` marks in-progress keys the sweeper will release on its next run. */
+function describeKey(row: IdempotencyKeyRow, nowMs: number, timeoutSec: number) {
+  const ageSec = Math.max(Math.floor((nowMs - new Date(row.created_at).getTime()) / 1000), 0);
+  const expired = new Date(row.expires_at).getTime() <= nowMs;
+  const state = expired ? 'expired' : row.response_status == null ? 'in_progress' : 'completed';
+  return {
+    ...row,
+    state,
+    age_sec: ageSec,
+    stuck: state === 'in_progress' && ageSec > timeoutSec
+  };
+}
+
+router.get('/', requireRole('admin'), async (req, res) => {
+  const parsed = querySchema.safeParse(req.query);
+  if (!parsed.success) {
+    return res.status(400).json({
+      error: {
+        code: 'validation_error',
+        message: 'Invalid idempotency keys query',
+        details: parsed.error.flatten()
+      }
+    });
+  }
+
+  const filters = parsed.data;
+  const from = (filters.page - 1) * filters.page_size;
+  const to = from + filters.page_size - 1;
+  const nowIso = new Date().toISOString();
+
+  let query = supabaseAdmin
+    .from('idempotency_keys')
+    .select(KEY_COLUMNS, { count: 'exact' });
+
+  if (filters.key) query = query.eq('key', filters.key);
+  if (filters.user_id) query = query.eq('user_id', filters.user_id);
+  if (filters.route) query = query.eq('route', filters.route);
+  if (filters.state === 'expired') query = query.lte('expires_at', nowIso);
+  if (filters.state === 'in_progress') query = query.gt('expires_at', nowIso).is('response_status', null);
+  if (filters.state === 'completed') query = query.gt('expires_at', nowIso).not('response_status', 'is', null);
+
+  const { data, error, count } = await query
+    .order('created_at', { ascending: false })
+    .range(from, to);
+
+  if (error) {
+    return res.status(400).json({ error: { code: 'idempotency_keys_fetch_failed', message: 'Fetch failed', details: error.message } });
+  }
+
+  const nowMs = Date.now();
+  const timeoutSec = resolveInProgressTimeoutSec();
+
+  return res.json({
+    keys: ((data ?? []) as IdempotencyKeyRow[]).map((row) => describeKey(row, nowMs, timeoutSec)),
+    total: count ?? 0,
+    page: filters.page,
+    page_size: filters.page_size,
+    in_progress_timeout_sec: timeoutSec
+  });
+});
+
+router.post('/sweep', requireRole('admin'), async (_req, res) => {
+  const result = await sweepIdempotencyKeys();
+  return res.json(result);
+});
+
+router.get('/:id', requireRole('admin'), async (req, res) => {
+  const { data, error } = await supabaseAdmin
+    .from('idempotency_keys')
+    .select(`${KEY_COLUMNS}, response_body`)
+    .eq('id', req.params.id)
+    .maybeSingle();
+
+  if (error) {
+    return res.status(400).json({ error: { code: 'idempotency_keys_fetch_failed', message: 'Fetch failed', details: error.message } });
+  }
+  if (!data) {
+    return res.status(404).json({ error: { code: 'not_found', message: 'Idempotency key not found' } });
+  }
+
+  return res.json({ key: describeKey(data as IdempotencyKeyRow, Date.now(), resolveInProgressTimeoutSec()) });
+});
+
+/** Clearing a key lets the client retry with it; a completed key will then run the operation again. */
+router.delete('/:id', requireRole('admin'), async (req, res) => {
+  const { data, error } = await supabaseAdmin
+    .from('idempotency_keys')
+    .delete()
+    .eq('id', req.params.id)
+    .select('id, user_id, route, key, response_status')
+    .maybeSingle();
+
+  if (error) {
+    return res.status(400).json({ error: { code: 'idempotency_key_delete_failed', message: 'Delete failed', details: error.message } });
+  }
+  if (!data) {
+    return res.status(404).json({ error: { code: 'not_found', message: 'Idempotency key not found' } });
+  }
+
+  await supabaseAdmin
+    .from('audit_logs')
+    .insert({
+      actor_user_id: req.user?.id ?? null,
+      action: 'idempotency_key_cleared',
+      entity_type: 'idempotency_key',
+      entity_id: data.id,
+      before_json: {
+        key: data.key,
+        route: data.route,
+        user_id: data.user_id,
+        response_status: data.response_status
+      },
+      meta_json: { source: 'admin_idempotency' }
+    });
+
+  return res.status(204).send();
+});
+
+export const adminIdempotencyRouter = router;
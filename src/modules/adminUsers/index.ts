@@ -40,12 +40,14 @@ const createSchema = z.object({
   email: z.string().email(),
   password: z.string().min(6),
   full_name: z.string().min(1),
-  role: z.enum(['seller', 'admin'])
+  role: z.enum(['seller', 'admin']),
+  branch_id: z.string().uuid().nullable().optional()
 });
 
 const patchSchema = z.object({
   full_name: z.string().min(1).optional(),
-  role: z.enum(['seller', 'admin']).optional()
+  role: z.enum(['seller', 'admin']).optional(),
+  branch_id: z.string().uuid().nullable().optional()
 });
 
 type AuthUserLike = {
@@ -58,6 +60,7 @@ type ProfileLike = {
   id: string;
   full_name: string | null;
   role: string | null;
+  branch_id: string | null;
 };
 
 function isEnabledAuthUser(user: AuthUserLike): boolean {
@@ -106,7 +109,7 @@ router.get('/', requireRole('admin'), async (_req, res) => {
     const profileIds = authUsers.map((user) => user.id);
     const { data: profiles, error: profilesError } = await supabaseService
       .from('profiles')
-      .select('id, full_name, role')
+      .select('id, full_name, role, branch_id')
       .in('id', profileIds);
 
     if (profilesError) {
@@ -135,10 +138,11 @@ router.get('/', requireRole('admin'), async (_req, res) => {
           email: user.email ?? null,
           full_name: profile.full_name ?? user.email ?? '',
           role: profile.role,
+          branch_id: profile.branch_id ?? null,
           is_enabled: isEnabledAuthUser(user)
         };
       })
-      .filter((value): value is { id: string; email: string | null; full_name: string; role: 'seller' | 'admin' | 'owner'; is_enabled: boolean } => Boolean(value))
+      .filter((value): value is { id: string; email: string | null; full_name: string; role: 'seller' | 'admin' | 'owner'; branch_id: string | null; is_enabled: boolean } => Boolean(value))
       .sort((a, b) => a.full_name.localeCompare(b.full_name));
 
     return res.json({ users });
@@ -160,6 +164,7 @@ router.post('/', requireRole('admin'), async (req, res) => {
   }
 
   const { email, password, full_name, role } = parsed.data;
+  const branchId = parsed.data.branch_id ?? null;
   const actorRole = req.user?.role ?? null;
   if (role === 'admin' && actorRole !== 'owner') {
     return res.status(403).json({ error: { code: 'forbidden_role_change', message: 'Only owner can promote users to admin' } });
@@ -200,7 +205,7 @@ router.post('/', requireRole('admin'), async (req, res) => {
 
     const { error: profileError } = await supabaseService
       .from('profiles')
-      .update({ full_name, role })
+      .update({ full_name, role, branch_id: branchId })
       .eq('id', userData.user.id)
       .select('id');
 
@@ -226,7 +231,7 @@ router.post('/', requireRole('admin'), async (req, res) => {
       entity_type: 'profile',
       entity_id: userData.user.id,
       before_json: null,
-      after_json: { role, full_name, email },
+      after_json: { role, full_name, email, branch_id: branchId },
       meta_json: { source: 'admin_users_create' }
     });
 
@@ -237,6 +242,7 @@ router.post('/', requireRole('admin'), async (req, res) => {
       email,
       full_name,
       role,
+      branch_id: branchId,
       is_enabled: true
     }
   });
@@ -250,7 +256,7 @@ router.patch('/:id', requireRole('admin'), async (req, res) => {
 
   const { data: beforeProfile } = await supabaseService
     .from('profiles')
-    .select('role, full_name')
+    .select('role, full_name, branch_id')
     .eq('id', req.params.id)
     .maybeSingle();
 
@@ -281,7 +287,7 @@ router.patch('/:id', requireRole('admin'), async (req, res) => {
     .from('profiles')
     .update(parsed.data)
     .eq('id', req.params.id)
-    .select('id, role, full_name')
+    .select('id, role, full_name, branch_id')
     .single();
 
   if (error || !data) {
@@ -296,7 +302,7 @@ router.patch('/:id', requireRole('admin'), async (req, res) => {
       entity_type: 'profile',
       entity_id: data.id,
       before_json: beforeProfile ?? null,
-      after_json: { role: data.role, full_name: data.full_name },
+      after_json: { role: data.role, full_name: data.full_name, branch_id: data.branch_id },
       meta_json: { source: 'admin_users_patch' }
     });
 
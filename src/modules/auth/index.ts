@@ -278,7 +278,8 @@ router.get('/me', async (req, res) => {
     id: authResult.user.id,
     email: authResult.user.email,
     full_name: authResult.user.full_name ?? authResult.user.email ?? 'User',
-    role: authResult.user.role
+    role: authResult.user.role,
+    branch_id: authResult.user.branch_id
   });
 });
 
@@ -0,0 +1,92 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { supabaseAdmin } from '../../lib/supabaseAdmin.js';
+import { requireRole } from '../../middleware/rbac.js';
+
+const router = Router();
+
+function logValidationError(details: unknown): void {
+  // eslint-disable-next-line no-console
+  console.error(JSON.stringify({
+    level: 'warn',
+    event: 'validation_error',
+    scope: 'branches',
+    details,
+    timestamp: new Date().toISOString()
+  }));
+}
+
+const branchSchema = z.object({
+  name: z.string().trim().min(1).max(120),
+  code: z.string().trim().min(2).max(20).regex(/^[A-Za-z0-9_-]+$/).transform((value) => value.toUpperCase()),
+  address: z.string().trim().max(300).nullable().optional(),
+  phone: z.string().trim().max(40).nullable().optional(),
+  is_active: z.boolean().default(true)
+});
+
+const BRANCH_COLUMNS = 'id, name, code, address, phone, is_active, created_at, updated_at';
+
+router.get('/', requireRole('seller'), async (_req, res) => {
+  const { data, error } = await supabaseAdmin
+    .from('branches')
+    .select(BRANCH_COLUMNS)
+    .order('name', { ascending: true });
+
+  if (error) {
+    return res.status(400).json({ error: { code: 'branches_fetch_failed', message: 'Fetch failed', details: error.message } });
+  }
+
+  return res.json({ branches: data ?? [] });
+});
+
+router.post('/', requireRole('admin'), async (req, res) => {
+  const parsed = branchSchema.safeParse(req.body);
+  if (!parsed.success) {
+    logValidationError(parsed.error.flatten());
+    return res.status(400).json({ error: { code: 'validation_error', message: 'Invalid branch payload', details: parsed.error.flatten() } });
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('branches')
+    .insert(parsed.data)
+    .select(BRANCH_COLUMNS)
+    .single();
+
+  if (error || !data) {
+    if (error?.code === '23505') {
+      return res.status(409).json({ error: { code: 'conflict', message: 'Branch code already exists', details: error.message } });
+    }
+    return res.status(400).json({ error: { code: 'branch_create_failed', message: 'Insert failed', details: error?.message } });
+  }
+
+  return res.status(201).json({ branch: data });
+});
+
+router.patch('/:id', requireRole('admin'), async (req, res) => {
+  const parsed = branchSchema.partial().safeParse(req.body);
+  if (!parsed.success) {
+    logValidationError(parsed.error.flatten());
+    return res.status(400).json({ error: { code: 'validation_error', message: 'Invalid branch patch', details: parsed.error.flatten() } });
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('branches')
+    .update(parsed.data)
+    .eq('id', req.params.id)
+    .select(BRANCH_COLUMNS)
+    .maybeSingle();
+
+  if (error) {
+    if (error.code === '23505') {
+      return res.status(409).json({ error: { code: 'conflict', message: 'Branch code already exists', details: error.message } });
+    }
+    return res.status(400).json({ error: { code: 'branch_update_failed', message: 'Update failed', details: error.message } });
+  }
+  if (!data) {
+    return res.status(404).json({ error: { code: 'not_found', message: 'Branch not found' } });
+  }
+
+  return res.json({ branch: data });
+});
+
+export const branchesRouter = router;
@@ -0,0 +1,353 @@
+import { Router, type Request } from 'express';
+import { z } from 'zod';
+import { supabaseAdmin } from '../../lib/supabaseAdmin.js';
+import { resolveBranchScope } from '../../lib/branchScope.js';
+import { requireRole } from '../../middleware/rbac.js';
+
+const router = Router();
+const SESSION_COLUMNS = 'id, branch_id, status, opening_ars, opening_usd, expected_ars, expected_usd, counted_ars, counted_usd, difference_ars, difference_usd, summary, notes, close_notes, opened_by, opened_at, closed_by, closed_at';
+
+type RestError = {
+  code?: string;
+  message?: string;
+  details?: string;
+  hint?: string;
+};
+
+const MOVEMENT_DEFAULT_DIRECTION = {
+  withdrawal: 'out',
+  expense: 'out',
+  deposit: 'in',
+  change: 'in'
+} as const;
+
+const listSchema = z.object({
+  status: z.enum(['open', 'closed']).optional(),
+  branch_id: z.string().uuid().optional(),
+  page: z.coerce.number().int().positive().optional().default(1),
+  page_size: z.coerce.number().int().positive().max(100).optional().default(30)
+});
+
+const openSchema = z.object({
+  branch_id: z.string().uuid().optional(),
+  opening_ars: z.coerce.number().min(0).default(0),
+  opening_usd: z.coerce.number().min(0).default(0),
+  notes: z.string().trim().max(2000).nullable().optional()
+});
+
+const movementSchema = z.object({
+  kind: z.enum(['withdrawal', 'expense', 'change', 'deposit']),
+  direction: z.enum(['in', 'out']).optional(),
+  currency: z.enum(['ARS', 'USD']).default('ARS'),
+  amount: z.coerce.number().positive(),
+  reason: z.string().trim().min(3).max(500)
+});
+
+const closeSchema = z.object({
+  counted_ars: z.coerce.number().min(0),
+  counted_usd: z.coerce.number().min(0).default(0),
+  notes: z.string().trim().max(2000).nullable().optional()
+});
+
+function logValidationError(scope: string, details: unknown): void {
+  // eslint-disable-next-line no-console
+  console.error(JSON.stringify({
+    level: 'warn',
+    event: 'validation_error',
+    scope,
+    details,
+    timestamp: new Date().toISOString()
+  }));
+}
+
+function mapCashSessionError(error: RestError, fallbackCode: string, fallbackMessage: string) {
+  const message = `${error.message ?? ''} ${error.details ?? ''}`.toLowerCase();
+  if (error.code === '23505' && message.includes('uq_cash_sessions_open_branch')) {
+    return { status: 409, code: 'conflict', message: 'There is already an open cash session for this branch', details: error.details ?? error.message };
+  }
+
+  if (error.code === 'PGRST116' || message.includes('not_found')) {
+    return { status: 404, code: 'not_found', message: 'Cash session not found', details: error.details ?? error.message };
+  }
+
+  if (message.includes('conflict')) {
+    return { status: 409, code: 'conflict', message: 'Cash session is closed', details: error.details ?? error.message };
+  }
+
+  if (message.includes('validation_error')) {
+    return { status: 400, code: 'validation_error', message: 'Validation failed', details: error.details ?? error.message };
+  }
+
+  return { status: 400, code: fallbackCode, message: fallbackMessage, details: error.details ?? error.message };
+}
+
+type SessionAccess =
+  | { ok: true }
+  | { ok: false; status: number; error: { code: string; message: string; details?: unknown } };
+
+/** Same branch rule as the list: a seller tied to a branch only reaches that branch's drawer. */
+async function checkSessionAccess(req: Request, id: string): Promise<SessionAccess> {
+  const { data: session, error } = await supabaseAdmin
+    .from('cash_sessions')
+    .select('id, branch_id')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error || !session) {
+    const mapped = mapCashSessionError(error ?? { code: 'PGRST116' }, 'cash_session_fetch_failed', 'Could not fetch cash session');
+    return { ok: false, status: mapped.status, error: { code: mapped.code, message: mapped.message, details: mapped.details } };
+  }
+
+  const branchScope = resolveBranchScope(req, session.branch_id);
+  if (!branchScope.ok) {
+    return branchScope;
+  }
+  if (branchScope.branchId && branchScope.branchId !== session.branch_id) {
+    return { ok: false, status: 403, error: { code: 'forbidden', message: 'Branch not allowed for this user', details: 'branch_scope_restricted' } };
+  }
+
+  return { ok: true };
+}
+
+async function loadSessionDetail(id: string) {
+  const { data: session, error } = await supabaseAdmin
+    .from('cash_sessions')
+    .select(SESSION_COLUMNS)
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error || !session) {
+    return { data: null, error };
+  }
+
+  const { data: movements, error: movementsError } = await supabaseAdmin
+    .from('cash_movements')
+    .select('id, kind, direction, currency, amount, reason, created_by, created_at')
+    .eq('session_id', id)
+    .order('created_at', { ascending: true });
+
+  if (movementsError) {
+    return { data: null, error: movementsError };
+  }
+
+  // Closed sessions keep the snapshot taken at close; open ones are computed live.
+  let summary = session.summary;
+  if (session.status === 'open') {
+    const { data: liveSummary, error: summaryError } = await supabaseAdmin.rpc('rpc_cash_session_summary_v1', {
+      p_session_id: id
+    });
+    if (summaryError) {
+      return { data: null, error: summaryError };
+    }
+    summary = liveSummary;
+  }
+
+  return { data: { ...session, summary, movements: movements ?? [] }, error: null };
+}
+
+router.get('/', requireRole('seller'), async (req, res) => {
+  const parsed = listSchema.safeParse(req.query);
+  if (!parsed.success) {
+    logValidationError('cash-sessions.list', parsed.error.flatten());
+    return res.status(400).json({ error: { code: 'validation_error', message: 'Invalid query params', details: parsed.error.flatten() } });
+  }
+
+  const { status, page, page_size } = parsed.data;
+  const branchScope = resolveBranchScope(req, parsed.data.branch_id);
+  if (!branchScope.ok) {
+    return res.status(branchScope.status).json({ error: branchScope.error });
+  }
+
+  const from = (page - 1) * page_size;
+  const to = from + page_size - 1;
+
+  let query = supabaseAdmin
+    .from('cash_sessions')
+    .select(SESSION_COLUMNS, { count: 'exact' });
+
+  if (status) query = query.eq('status', status);
+  if (branchScope.branchId) query = query.eq('branch_id', branchScope.branchId);
+
+  const { data, error, count } = await query
+    .order('opened_at', { ascending: false })
+    .range(from, to);
+
+  if (error) {
+    return res.status(400).json({ error: { code: 'cash_sessions_list_failed', message: 'Could not list cash sessions', details: error.message } });
+  }
+
+  return res.json({
+    sessions: data ?? [],
+    total: count ?? 0,
+    page,
+    page_size
+  });
+});
+
+router.get('/current', requireRole('seller'), async (req, res) => {
+  const parsed = z.object({ branch_id: z.string().uuid().optional() }).safeParse(req.query);
+  if (!parsed.success) {
+    logValidationError('cash-sessions.current', parsed.error.flatten());
+    return res.status(400).json({ error: { code: 'validation_error', message: 'Invalid query params', details: parsed.error.flatten() } });
+  }
+
+  const branchScope = resolveBranchScope(req, parsed.data.branch_id ?? req.user?.branch_id);
+  if (!branchScope.ok) {
+    return res.status(branchScope.status).json({ error: branchScope.error });
+  }
+
+  let query = supabaseAdmin
+    .from('cash_sessions')
+    .select('id')
+    .eq('status', 'open');
+
+  query = branchScope.branchId ? query.eq('branch_id', branchScope.branchId) : query.is('branch_id', null);
+
+  const { data: current, error } = await query.maybeSingle();
+  if (error) {
+    const mapped = mapCashSessionError(error, 'cash_session_fetch_failed', 'Could not fetch cash session');
+    return res.status(mapped.status).json({ error: { code: mapped.code, message: mapped.message, details: mapped.details } });
+  }
+
+  if (!current) {
+    return res.json({ session: null });
+  }
+
+  const { data, error: detailError } = await loadSessionDetail(current.id);
+  if (detailError || !data) {
+    const mapped = mapCashSessionError(detailError ?? {}, 'cash_session_fetch_failed', 'Could not fetch cash session');
+    return res.status(mapped.status).json({ error: { code: mapped.code, message: mapped.message, details: mapped.details } });
+  }
+
+  return res.json({ session: data });
+});
+
+router.get('/:id', requireRole('seller'), async (req, res) => {
+  const access = await checkSessionAccess(req, req.params.id);
+  if (!access.ok) {
+    return res.status(access.status).json({ error: access.error });
+  }
+
+  const { data, error } = await loadSessionDetail(req.params.id);
+  if (error || !data) {
+    const mapped = mapCashSessionError(error ?? { code: 'PGRST116' }, 'cash_session_fetch_failed', 'Could not fetch cash session');
+    return res.status(mapped.status).json({ error: { code: mapped.code, message: mapped.message, details: mapped.details } });
+  }
+
+  return res.json({ session: data });
+});
+
+router.post('/', requireRole('seller'), async (req, res) => {
+  const userId = req.user?.id;
+  if (!userId) {
+    return res.status(401).json({ error: { code: 'unauthorized', message: 'Missing authenticated user' } });
+  }
+
+  const parsed = openSchema.safeParse(req.body);
+  if (!parsed.success) {
+    logValidationError('cash-sessions.open', parsed.error.flatten());
+    return res.status(400).json({ error: { code: 'validation_error', message: 'Invalid cash session payload', details: parsed.error.flatten() } });
+  }
+
+  const branchScope = resolveBranchScope(req, parsed.data.branch_id ?? req.user?.branch_id);
+  if (!branchScope.ok) {
+    return res.status(branchScope.status).json({ error: branchScope.error });
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('cash_sessions')
+    .insert({
+      branch_id: branchScope.branchId,
+      opening_ars: parsed.data.opening_ars,
+      opening_usd: parsed.data.opening_usd,
+      notes: parsed.data.notes ?? null,
+      opened_by: userId
+    })
+    .select(SESSION_COLUMNS)
+    .single();
+
+  if (error || !data) {
+    const mapped = mapCashSessionError(error ?? {}, 'cash_session_open_failed', 'Could not open cash session');
+    return res.status(mapped.status).json({ error: { code: mapped.code, message: mapped.message, details: mapped.details } });
+  }
+
+  await supabaseAdmin
+    .from('audit_logs')
+    .insert({
+      actor_user_id: userId,
+      action: 'cash_session_opened',
+      entity_type: 'cash_session',
+      entity_id: data.id,
+      after_json: { opening_ars: data.opening_ars, opening_usd: data.opening_usd, branch_id: data.branch_id }
+    });
+
+  return res.status(201).json({ session: data });
+});
+
+router.post('/:id/movements', requireRole('seller'), async (req, res) => {
+  const userId = req.user?.id;
+  if (!userId) {
+    return res.status(401).json({ error: { code: 'unauthorized', message: 'Missing authenticated user' } });
+  }
+
+  const parsed = movementSchema.safeParse(req.body);
+  if (!parsed.success) {
+    logValidationError('cash-sessions.movement', parsed.error.flatten());
+    return res.status(400).json({ error: { code: 'validation_error', message: 'Invalid cash movement payload', details: parsed.error.flatten() } });
+  }
+
+  const access = await checkSessionAccess(req, req.params.id);
+  if (!access.ok) {
+    return res.status(access.status).json({ error: access.error });
+  }
+
+  const { data, error } = await supabaseAdmin.rpc('rpc_add_cash_movement_v1', {
+    p_session_id: req.params.id,
+    p_payload: {
+      ...parsed.data,
+      direction: parsed.data.direction ?? MOVEMENT_DEFAULT_DIRECTION[parsed.data.kind]
+    },
+    p_user_id: userId
+  });
+
+  if (error) {
+    const mapped = mapCashSessionError(error, 'cash_movement_create_failed', 'Could not record cash movement');
+    return res.status(mapped.status).json({ error: { code: mapped.code, message: mapped.message, details: mapped.details } });
+  }
+
+  return res.status(201).json({ movement_id: data?.movement_id ?? null, session_id: req.params.id });
+});
+
+router.post('/:id/close', requireRole('seller'), async (req, res) => {
+  const userId = req.user?.id;
+  if (!userId) {
+    return res.status(401).json({ error: { code: 'unauthorized', message: 'Missing authenticated user' } });
+  }
+
+  const parsed = closeSchema.safeParse(req.body);
+  if (!parsed.success) {
+    logValidationError('cash-sessions.close', parsed.error.flatten());
+    return res.status(400).json({ error: { code: 'validation_error', message: 'Invalid cash session close payload', details: parsed.error.flatten() } });
+  }
+
+  const access = await checkSessionAccess(req, req.params.id);
+  if (!access.ok) {
+    return res.status(access.status).json({ error: access.error });
+  }
+
+  const { error } = await supabaseAdmin.rpc('rpc_close_cash_session_v1', {
+    p_session_id: req.params.id,
+    p_payload: parsed.data,
+    p_user_id: userId
+  });
+
+  if (error) {
+    const mapped = mapCashSessionError(error, 'cash_session_close_failed', 'Could not close cash session');
+    return res.status(mapped.status).json({ error: { code: mapped.code, message: mapped.message, details: mapped.details } });
+  }
+
+  const { data: session } = await loadSessionDetail(req.params.id);
+  return res.json({ session });
+});
+
+export const cashSessionsRouter = router;
@@ -0,0 +1,387 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { supabaseAdmin } from '../../lib/supabaseAdmin.js';
+import { requireRole } from '../../middleware/rbac.js';
+import { buildWhatsAppLink, DEFAULT_REMINDER_TEMPLATE, renderReminderMessage, type ReminderSale } from './reminderMessage.js';
+
+const router = Router();
+const TEMPLATE_COLUMNS = 'id, name, body, is_default, is_active, created_at, updated_at';
+const REMINDER_COLUMNS = 'id, sale_id, customer_id, template_id, channel, phone, balance_due_ars, message, sent_by, sent_at';
+const REMINDER_THROTTLE_MS = 24 * 60 * 60 * 1000;
+
+type ReminderFailure = {
+  status: number;
+  code: string;
+  message: string;
+  details?: unknown;
+};
+
+function logValidationError(scope: string, details: unknown): void {
+  // eslint-disable-next-line no-console
+  console.error(JSON.stringify({
+    level: 'warn',
+    event: 'validation_error',
+    scope,
+    details,
+    timestamp: new Date().toISOString()
+  }));
+}
+
+const templateSchema = z.object({
+  name: z.string().trim().min(1).max(120),
+  body: z.string().trim().min(10).max(2000),
+  is_default: z.boolean().default(false),
+  is_active: z.boolean().default(true)
+});
+
+const listSchema = z.object({
+  customer_id: z.string().uuid().optional(),
+  sale_id: z.string().uuid().optional(),
+  page: z.coerce.number().int().positive().optional().default(1),
+  page_size: z.coerce.number().int().positive().max(100).optional().default(50)
+});
+
+const previewSchema = z.object({
+  template_id: z.string().uuid().optional()
+});
+
+const sendSchema = z.object({
+  template_id: z.string().uuid().optional(),
+  // Staff may tweak the generated text before opening WhatsApp; the logged message is what was sent.
+  message: z.string().trim().min(1).max(4000).optional(),
+  sale_ids: z.array(z.string().uuid()).min(1).optional()
+});
+
+async function resolveTemplate(templateId?: string) {
+  let query = supabaseAdmin
+    .from('reminder_templates')
+    .select('id, body')
+    .eq('is_active', true);
+
+  query = templateId ? query.eq('id', templateId) : query.eq('is_default', true);
+
+  const { data, error } = await query.maybeSingle();
+  if (error) {
+    return { data: null, error: { status: 400, code: 'reminder_template_fetch_failed', message: 'Could not fetch reminder template', details: error.message } as ReminderFailure };
+  }
+  if (!data && templateId) {
+    return { data: null, error: { status: 404, code: 'not_found', message: 'Reminder template not found' } as ReminderFailure };
+  }
+
+  return { data: { id: data?.id ?? null, body: data?.body ?? DEFAULT_REMINDER_TEMPLATE }, error: null };
+}
+
+/** Open receivables for the customer with a short description of what was bought in each sale. */
+async function loadCustomerDebts(customerId: string, saleIds?: string[]) {
+  const { data: customer, error: customerError } = await supabaseAdmin
+    .from('customers')
+    .select('id, name, phone')
+    .eq('id', customerId)
+    .maybeSingle();
+
+  if (customerError) {
+    return { data: null, error: { status: 400, code: 'customer_fetch_failed', message: 'Could not fetch customer', details: customerError.message } as ReminderFailure };
+  }
+  if (!customer) {
+    return { data: null, error: { status: 404, code: 'not_found', message: 'Customer not found' } as ReminderFailure };
+  }
+
+  let salesQuery = supabaseAdmin
+    .from('sales')
+    .select('id, sale_date, balance_due_ars')
+    .eq('customer_id', customerId)
+    .eq('status', 'completed')
+    .gt('balance_due_ars', 0)
+    .order('sale_date', { ascending: true });
+
+  if (saleIds) {
+    salesQuery = salesQuery.in('id', saleIds);
+  }
+
+  const { data: sales, error: salesError } = await salesQuery;
+  if (salesError) {
+    return { data: null, error: { status: 400, code: 'reminder_sales_fetch_failed', message: 'Could not fetch receivables', details: salesError.message } as ReminderFailure };
+  }
+
+  const openSales = sales ?? [];
+  const itemsBySale = new Map<string, string[]>();
+  if (openSales.length > 0) {
+    const { data: saleItems, error: itemsError } = await supabaseAdmin
+      .from('sale_items')
+      .select('sale_id, qty, stock_item_id')
+      .in('sale_id', openSales.map((sale) => sale.id));
+
+    if (itemsError) {
+      return { data: null, error: { status: 400, code: 'reminder_sales_fetch_failed', message: 'Could not fetch sale items', details: itemsError.message } as ReminderFailure };
+    }
+
+    const stockIds = [...new Set((saleItems ?? []).map((item) => item.stock_item_id).filter(Boolean))];
+    const { data: stockItems, error: stockError } = stockIds.length > 0
+      ? await supabaseAdmin.from('stock_items').select('id, brand, model, storage_gb').in('id', stockIds)
+      : { data: [], error: null };
+
+    if (stockError) {
+      return { data: null, error: { status: 400, code: 'reminder_sales_fetch_failed', message: 'Could not fetch stock items', details: stockError.message } as ReminderFailure };
+    }
+
+    const stockById = new Map((stockItems ?? []).map((stock) => [stock.id, stock]));
+    for (const item of saleItems ?? []) {
+      const stock = stockById.get(item.stock_item_id);
+      const name = [stock?.brand, stock?.model, stock?.storage_gb ? `${stock.storage_gb}GB` : null].filter(Boolean).join(' ') || 'Equipo';
+      const qty = Number(item.qty ?? 1);
+      const list = itemsBySale.get(item.sale_id) ?? [];
+      list.push(qty > 1 ? `${qty} × ${name}` : name);
+      itemsBySale.set(item.sale_id, list);
+    }
+  }
+
+  const reminderSales: ReminderSale[] = openSales.map((sale) => ({
+    sale_id: sale.id,
+    sale_date: sale.sale_date,
+    balance_due_ars: Number(sale.balance_due_ars ?? 0),
+    items: itemsBySale.get(sale.id) ?? []
+  }));
+
+  return { data: { customer, sales: reminderSales }, error: null };
+}
+
+async function fetchLastReminder(customerId: string) {
+  return supabaseAdmin
+    .from('collection_reminders')
+    .select('sent_at, sent_by')
+    .eq('customer_id', customerId)
+    .order('sent_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+}
+
+function isThrottled(lastSentAt: string | null | undefined): boolean {
+  if (!lastSentAt) return false;
+  return Date.now() - new Date(lastSentAt).getTime() < REMINDER_THROTTLE_MS;
+}
+
+function throttledError(lastReminder: { sent_at?: string | null; sent_by?: string | null } | null) {
+  return {
+    error: {
+      code: 'reminder_throttled',
+      message: 'A reminder was already sent to this customer in the last 24 hours',
+      details: { last_sent_at: lastReminder?.sent_at ?? null, sent_by: lastReminder?.sent_by ?? null }
+    }
+  };
+}
+
+/** rpc_log_collection_reminder_v1 sends the winning reminder as JSON in the error detail. */
+function parseThrottleDetail(details: string | undefined) {
+  try {
+    return JSON.parse(details ?? '') as { last_sent_at?: string | null; sent_by?: string | null };
+  } catch {
+    return null;
+  }
+}
+
+router.get('/templates', requireRole('admin'), async (_req, res) => {
+  const { data, error } = await supabaseAdmin
+    .from('reminder_templates')
+    .select(TEMPLATE_COLUMNS)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    return res.status(400).json({ error: { code: 'reminder_templates_fetch_failed', message: 'Fetch failed', details: error.message } });
+  }
+
+  return res.json({ templates: data ?? [], fallback_body: DEFAULT_REMINDER_TEMPLATE });
+});
+
+router.post('/templates', requireRole('admin'), async (req, res) => {
+  const parsed = templateSchema.safeParse(req.body);
+  if (!parsed.success) {
+    logValidationError('collection-reminders.templates.create', parsed.error.flatten());
+    return res.status(400).json({ error: { code: 'validation_error', message: 'Invalid template payload', details: parsed.error.flatten() } });
+  }
+
+  if (parsed.data.is_default) {
+    await supabaseAdmin.from('reminder_templates').update({ is_default: false }).eq('is_default', true);
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('reminder_templates')
+    .insert({ ...parsed.data, created_by: req.user?.id ?? null })
+    .select(TEMPLATE_COLUMNS)
+    .single();
+
+  if (error || !data) {
+    return res.status(400).json({ error: { code: 'reminder_template_create_failed', message: 'Insert failed', details: error?.message } });
+  }
+
+  return res.status(201).json({ template: data });
+});
+
+router.patch('/templates/:id', requireRole('admin'), async (req, res) => {
+  const parsed = templateSchema.partial().safeParse(req.body);
+  if (!parsed.success) {
+    logValidationError('collection-reminders.templates.patch', parsed.error.flatten());
+    return res.status(400).json({ error: { code: 'validation_error', message: 'Invalid template patch', details: parsed.error.flatten() } });
+  }
+
+  if (parsed.data.is_default) {
+    await supabaseAdmin.from('reminder_templates').update({ is_default: false }).eq('is_default', true).neq('id', req.params.id);
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('reminder_templates')
+    .update(parsed.data)
+    .eq('id', req.params.id)
+    .select(TEMPLATE_COLUMNS)
+    .maybeSingle();
+
+  if (error) {
+    return res.status(400).json({ error: { code: 'reminder_template_update_failed', message: 'Update failed', details: error.message } });
+  }
+  if (!data) {
+    return res.status(404).json({ error: { code: 'not_found', message: 'Reminder template not found' } });
+  }
+
+  return res.json({ template: data });
+});
+
+router.get('/', requireRole('admin'), async (req, res) => {
+  const parsed = listSchema.safeParse(req.query);
+  if (!parsed.success) {
+    logValidationError('collection-reminders.list', parsed.error.flatten());
+    return res.status(400).json({ error: { code: 'validation_error', message: 'Invalid query params', details: parsed.error.flatten() } });
+  }
+
+  const { customer_id: customerId, sale_id: saleId, page, page_size } = parsed.data;
+  const from = (page - 1) * page_size;
+  const to = from + page_size - 1;
+
+  let query = supabaseAdmin
+    .from('collection_reminders')
+    .select(REMINDER_COLUMNS, { count: 'exact' });
+
+  if (customerId) query = query.eq('customer_id', customerId);
+  if (saleId) query = query.eq('sale_id', saleId);
+
+  const { data, error, count } = await query
+    .order('sent_at', { ascending: false })
+    .range(from, to);
+
+  if (error) {
+    return res.status(400).json({ error: { code: 'collection_reminders_fetch_failed', message: 'Fetch failed', details: error.message } });
+  }
+
+  return res.json({
+    reminders: data ?? [],
+    total: count ?? 0,
+    page,
+    page_size
+  });
+});
+
+router.get('/customers/:customerId/preview', requireRole('admin'), async (req, res) => {
+  const parsed = previewSchema.safeParse(req.query);
+  if (!parsed.success) {
+    logValidationError('collection-reminders.preview', parsed.error.flatten());
+    return res.status(400).json({ error: { code: 'validation_error', message: 'Invalid query params', details: parsed.error.flatten() } });
+  }
+
+  const template = await resolveTemplate(parsed.data.template_id);
+  if (template.error) {
+    return res.status(template.error.status).json({ error: { code: template.error.code, message: template.error.message, details: template.error.details } });
+  }
+
+  const debts = await loadCustomerDebts(req.params.customerId);
+  if (debts.error) {
+    return res.status(debts.error.status).json({ error: { code: debts.error.code, message: debts.error.message, details: debts.error.details } });
+  }
+
+  const { data: lastReminder, error: lastError } = await fetchLastReminder(req.params.customerId);
+  if (lastError) {
+    return res.status(400).json({ error: { code: 'collection_reminders_fetch_failed', message: 'Fetch failed', details: lastError.message } });
+  }
+
+  const message = renderReminderMessage(template.data.body, debts.data.customer.name, debts.data.sales);
+
+  return res.json({
+    customer: debts.data.customer,
+    sales: debts.data.sales,
+    amount_due_ars: debts.data.sales.reduce((sum, sale) => sum + sale.balance_due_ars, 0),
+    template_id: template.data.id,
+    message,
+    whatsapp_url: buildWhatsAppLink(debts.data.customer.phone, message),
+    last_sent_at: lastReminder?.sent_at ?? null,
+    can_send: debts.data.sales.length > 0 && !isThrottled(lastReminder?.sent_at)
+  });
+});
+
+router.post('/customers/:customerId', requireRole('admin'), async (req, res) => {
+  const userId = req.user?.id;
+  if (!userId) {
+    return res.status(401).json({ error: { code: 'unauthorized', message: 'Missing authenticated user' } });
+  }
+
+  const parsed = sendSchema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    logValidationError('collection-reminders.send', parsed.error.flatten());
+    return res.status(400).json({ error: { code: 'validation_error', message: 'Invalid reminder payload', details: parsed.error.flatten() } });
+  }
+
+  const { data: lastReminder, error: lastError } = await fetchLastReminder(req.params.customerId);
+  if (lastError) {
+    return res.status(400).json({ error: { code: 'collection_reminders_fetch_failed', message: 'Fetch failed', details: lastError.message } });
+  }
+  // Cheap early answer; the RPC below re-checks under a lock, which is what actually stops concurrent sends.
+  if (isThrottled(lastReminder?.sent_at)) {
+    return res.status(409).json(throttledError(lastReminder));
+  }
+
+  const template = await resolveTemplate(parsed.data.template_id);
+  if (template.error) {
+    return res.status(template.error.status).json({ error: { code: template.error.code, message: template.error.message, details: template.error.details } });
+  }
+
+  const debts = await loadCustomerDebts(req.params.customerId, parsed.data.sale_ids);
+  if (debts.error) {
+    return res.status(debts.error.status).json({ error: { code: debts.error.code, message: debts.error.message, details: debts.error.details } });
+  }
+  if (debts.data.sales.length === 0) {
+    return res.status(409).json({ error: { code: 'conflict', message: 'Customer has no outstanding balance', details: 'no_open_receivables' } });
+  }
+
+  const { customer, sales } = debts.data;
+  const message = parsed.data.message ?? renderReminderMessage(template.data.body, customer.name, sales);
+  const whatsappUrl = buildWhatsAppLink(customer.phone, message);
+  if (!whatsappUrl) {
+    return res.status(422).json({ error: { code: 'validation_error', message: 'Customer phone is not valid for WhatsApp', details: 'invalid_customer_phone' } });
+  }
+
+  const { data: logged, error: insertError } = await supabaseAdmin.rpc('rpc_log_collection_reminder_v1', {
+    p_customer_id: customer.id,
+    p_payload: {
+      template_id: parsed.data.message ? null : template.data.id,
+      channel: 'whatsapp',
+      phone: customer.phone,
+      message,
+      sales: sales.map((sale) => ({ sale_id: sale.sale_id, balance_due_ars: sale.balance_due_ars }))
+    },
+    p_user_id: userId,
+    p_throttle_sec: REMINDER_THROTTLE_MS / 1000
+  });
+
+  if (insertError) {
+    if (insertError.message?.includes('reminder_throttled')) {
+      const winner = parseThrottleDetail(insertError.details);
+      return res.status(409).json(throttledError(winner ? { sent_at: winner.last_sent_at, sent_by: winner.sent_by } : null));
+    }
+    return res.status(400).json({ error: { code: 'collection_reminder_create_failed', message: 'Insert failed', details: insertError.details ?? insertError.message } });
+  }
+
+  return res.status(201).json({
+    customer_id: customer.id,
+    message,
+    whatsapp_url: whatsappUrl,
+    reminders: logged?.reminders ?? []
+  });
+});
+
+export const collectionRemindersRouter = router;
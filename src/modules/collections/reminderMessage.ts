@@ -0,0 +1,83 @@
+import { formatArs, formatDateAr } from '../../lib/arFormat.js';
+import { STORE_PROFILE } from '../../lib/storeProfile.js';
+
+export const DEFAULT_REMINDER_TEMPLATE = [
+  'Hola {{customer_name}}, te escribimos de {{store_name}}.',
+  'Te recordamos que tenés un saldo pendiente de {{amount_due}} por tu compra del {{sale_date}}:',
+  '{{items}}',
+  '¿Cuándo podrías pasar a regularizarlo? ¡Gracias!'
+].join('\n');
+
+export type ReminderSale = {
+  sale_id: string;
+  sale_date: string;
+  balance_due_ars: number;
+  items: string[];
+};
+
+const PLACEHOLDER_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+/**
+ * Fills the template for one customer. With several open sales the amount is the total owed,
+ * the date is the oldest sale and the items are listed per sale.
+ */
+export function renderReminderMessage(template: string, customerName: string | null, sales: ReminderSale[]): string {
+  const ordered = [...sales].sort((a, b) => a.sale_date.localeCompare(b.sale_date));
+  const amountDue = ordered.reduce((sum, sale) => sum + sale.balance_due_ars, 0);
+  const items = ordered.length === 1
+    ? ordered[0].items.map((item) => `• ${item}`).join('\n')
+    : ordered
+      .map((sale) => `• ${formatDateAr(sale.sale_date)}: ${sale.items.join(', ') || 'compra'} (saldo ${formatArs(sale.balance_due_ars)})`)
+      .join('\n');
+
+  const values: Record<string, string> = {
+    customer_name: customerName?.trim() || 'cliente',
+    amount_due: formatArs(amountDue),
+    sale_date: ordered[0] ? formatDateAr(ordered[0].sale_date) : '',
+    items,
+    store_name: STORE_PROFILE.name
+  };
+
+  // Unknown placeholders are left as typed so a typo in the template is visible in the preview.
+  return template.replace(PLACEHOLDER_PATTERN, (match, key: string) => values[key] ?? match).trim();
+}
+
+/**
+ * Argentine mobiles on WhatsApp are 549 + area code + subscriber (10 digits together). Accepts the usual
+ * ways numbers get typed: with or without +54, with or without the 9, with the trunk 0 and the local 15.
+ */
+export function toWhatsAppNumber(phone: string | null | undefined): string | null {
+  let digits = String(phone ?? '').replace(/\D/g, '');
+  if (!digits) return null;
+  if (digits.startsWith('00')) digits = digits.slice(2);
+
+  let national: string;
+  if (digits.startsWith('54') && digits.length >= 12) {
+    national = digits.slice(2);
+    if (national.startsWith('9')) national = national.slice(1);
+  } else {
+    national = digits.startsWith('0') ? digits.slice(1) : digits;
+  }
+
+  if (national.length === 12) {
+    national = stripLocalMobilePrefix(national);
+  }
+
+  return national.length === 10 ? `549${national}` : null;
+}
+
+/** "11 15 1234-5678" → "11 1234-5678"; the area code is 2 (AMBA), 3 or 4 digits long. */
+function stripLocalMobilePrefix(national: string): string {
+  const areaLengths = national.startsWith('11') ? [2] : [3, 4];
+  for (const areaLength of areaLengths) {
+    if (national.slice(areaLength, areaLength + 2) === '15') {
+      return national.slice(0, areaLength) + national.slice(areaLength + 2);
+    }
+  }
+  return national;
+}
+
+export function buildWhatsAppLink(phone: string | null | undefined, message: string): string | null {
+  const number = toWhatsAppNumber(phone);
+  return number ? `https://wa.me/${number}?text=${encodeURIComponent(message)}` : null;
+}
@@ -0,0 +1,67 @@
+import { roundTo2 } from '../rules/pricing.js';
+
+export type CommissionBasis = 'sale_pct' | 'margin_pct' | 'fixed_per_item';
+
+export type CommissionRule = {
+  id: string;
+  seller_id: string | null;
+  role: string | null;
+  category: string | null;
+  basis: CommissionBasis;
+  rate: number;
+};
+
+export type CommissionItem = {
+  category: string | null;
+  qty: number;
+  subtotal_ars: number;
+  unit_cost_ars: number;
+};
+
+function ruleScore(rule: CommissionRule, sellerId: string | null, role: string | null, category: string | null): number {
+  if (rule.seller_id && rule.seller_id !== sellerId) return -1;
+  if (rule.role && rule.role !== role) return -1;
+  if (rule.category && rule.category !== category) return -1;
+
+  const targetScore = rule.seller_id ? 4 : rule.role ? 2 : 0;
+  return targetScore + (rule.category ? 1 : 0);
+}
+
+/** Seller-specific beats role beats global; within each, a category rule beats a catch-all. */
+export function resolveCommissionRule(
+  rules: CommissionRule[],
+  sellerId: string | null,
+  role: string | null,
+  category: string | null
+): CommissionRule | null {
+  let best: CommissionRule | null = null;
+  let bestScore = -1;
+
+  for (const rule of rules) {
+    const score = ruleScore(rule, sellerId, role, category);
+    if (score > bestScore) {
+      best = rule;
+      bestScore = score;
+    }
+  }
+
+  return best;
+}
+
+export function computeItemCommission(rule: CommissionRule | null, item: CommissionItem): number {
+  if (!rule) return 0;
+
+  switch (rule.basis) {
+    case 'sale_pct':
+      return roundTo2(item.subtotal_ars * rule.rate / 100);
+    case 'margin_pct': {
+      // Negative margins never produce a negative commission.
+      const margin = item.subtotal_ars - (item.unit_cost_ars * item.qty);
+      return roundTo2(Math.max(margin, 0) * rule.rate / 100);
+    }
+    case 'fixed_per_item':
+      return roundTo2(rule.rate * item.qty);
+    default:
+      return 0;
+  }
+}
@@ -0,0 +1,132 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { supabaseAdmin } from '../../lib/supabaseAdmin.js';
+import { requireRole } from '../../middleware/rbac.js';
+import type { CommissionBasis, CommissionRule } from './calculator.js';
+
+const router = Router();
+
+function logValidationError(details: unknown): void {
+  // eslint-disable-next-line no-console
+  console.error(JSON.stringify({
+    level: 'warn',
+    event: 'validation_error',
+    scope: 'commission-rules',
+    details,
+    timestamp: new Date().toISOString()
+  }));
+}
+
+// Kept out of calculator.ts so the commission math stays free of database access.
+export async function fetchActiveCommissionRules() {
+  const { data, error } = await supabaseAdmin
+    .from('commission_rules')
+    .select('id, seller_id, role, category, basis, rate')
+    .eq('is_active', true);
+
+  if (error) {
+    return { data: null as CommissionRule[] | null, error };
+  }
+
+  const rules = (data ?? []).map((row) => ({
+    id: String(row.id),
+    seller_id: row.seller_id ?? null,
+    role: row.role ?? null,
+    category: row.category ?? null,
+    basis: row.basis as CommissionBasis,
+    rate: Number(row.rate ?? 0)
+  }));
+
+  return { data: rules, error: null };
+}
+
+const ruleBaseSchema = z.object({
+  seller_id: z.string().uuid().nullable().optional(),
+  role: z.enum(['seller', 'admin', 'owner']).nullable().optional(),
+  category: z.enum(['new', 'used_premium', 'outlet']).nullable().optional(),
+  basis: z.enum(['sale_pct', 'margin_pct', 'fixed_per_item']),
+  rate: z.number().min(0),
+  is_active: z.boolean().default(true),
+  notes: z.string().trim().max(500).nullable().optional()
+});
+
+function refineRule(value: Partial<z.infer<typeof ruleBaseSchema>>, ctx: z.RefinementCtx) {
+  if (value.seller_id && value.role) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'seller_id_and_role_are_exclusive', path: ['role'] });
+  }
+  if (value.basis && value.basis !== 'fixed_per_item' && value.rate !== undefined && value.rate > 100) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'pct_rate_must_be_lte_100', path: ['rate'] });
+  }
+}
+
+const ruleSchema = ruleBaseSchema.superRefine(refineRule);
+const rulePatchSchema = ruleBaseSchema.partial().superRefine(refineRule);
+
+router.get('/', requireRole('admin'), async (_req, res) => {
+  const { data, error } = await supabaseAdmin
+    .from('commission_rules')
+    .select('*')
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    return res.status(400).json({ error: { code: 'commission_rules_fetch_failed', message: 'Fetch failed', details: error.message } });
+  }
+
+  return res.json({ rules: data });
+});
+
+router.post('/', requireRole('admin'), async (req, res) => {
+  const parsed = ruleSchema.safeParse(req.body);
+  if (!parsed.success) {
+    logValidationError(parsed.error.flatten());
+    return res.status(400).json({ error: { code: 'validation_error', message: 'Invalid commission rule payload', details: parsed.error.flatten() } });
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('commission_rules')
+    .insert({ ...parsed.data, created_by: req.user?.id ?? null })
+    .select('id')
+    .single();
+
+  if (error || !data) {
+    return res.status(400).json({ error: { code: 'commission_rule_create_failed', message: 'Insert failed', details: error?.message } });
+  }
+
+  return res.status(201).json({ rule_id: data.id });
+});
+
+router.patch('/:id', requireRole('admin'), async (req, res) => {
+  const parsed = rulePatchSchema.safeParse(req.body);
+  if (!parsed.success) {
+    logValidationError(parsed.error.flatten());
+    return res.status(400).json({ error: { code: 'validation_error', message: 'Invalid commission rule patch', details: parsed.error.flatten() } });
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('commission_rules')
+    .update(parsed.data)
+    .eq('id', req.params.id)
+    .select('id')
+    .single();
+
+  if (error || !data) {
+    return res.status(400).json({ error: { code: 'commission_rule_update_failed', message: 'Update failed', details: error?.message } });
+  }
+
+  return res.json({ rule_id: data.id });
+});
+
+router.delete('/:id', requireRole('admin'), async (req, res) => {
+  const { error } = await supabaseAdmin
+    .from('commission_rules')
+    .delete()
+    .eq('id', req.params.id);
+
+  if (error) {
+    return res.status(400).json({ error: { code: 'commission_rule_delete_failed', message: 'Delete failed', details: error.message } });
+  }
+
+  return res.status(204).send();
+});
+
+export const commissionRulesRouter = router;
@@ -0,0 +1,438 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { supabaseAdmin } from '../../lib/supabaseAdmin.js';
+import { requireRole } from '../../middleware/rbac.js';
+
+const router = Router();
+const SALES_TO_SALE_ITEMS_FK_CANDIDATES = [
+  'sale_items_sale_id_fk',
+  'sale_items_sale_id_fkey'
+] as const;
+const SALE_ITEMS_TO_STOCK_ITEMS_FK_CANDIDATES = [
+  'sale_items_stock_item_id_fk',
+  'sale_items_stock_item_id_fkey'
+] as const;
+const CUSTOMER_COLUMNS = 'id, name, phone, dni, email, notes, merged_into_id, created_at, updated_at';
+
+type RestError = {
+  code?: string;
+  message?: string;
+  details?: string;
+  hint?: string;
+};
+
+type CustomerSaleRow = {
+  id: string;
+  sale_date: string | null;
+  status: string | null;
+  total_ars: number | null;
+  paid_ars: number | null;
+  balance_due_ars: number | null;
+  receivable_status: string | null;
+  sale_payments?: Array<Record<string, unknown>> | null;
+  [key: string]: unknown;
+};
+
+const listSchema = z.object({
+  query: z.string().trim().min(1).optional(),
+  phone: z.string().trim().min(1).optional(),
+  dni: z.string().trim().min(1).optional(),
+  page: z.coerce.number().int().positive().optional().default(1),
+  page_size: z.coerce.number().int().positive().max(100).optional().default(30)
+});
+
+const createSchema = z.object({
+  name: z.string().trim().min(1),
+  phone: z.string().trim().min(6),
+  dni: z.string().trim().min(6).max(32).nullable().optional(),
+  email: z.string().trim().email().nullable().optional(),
+  notes: z.string().trim().max(2000).nullable().optional()
+});
+
+const patchSchema = createSchema.partial().superRefine((value, ctx) => {
+  if (Object.keys(value).length === 0) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'empty_patch_payload',
+      path: []
+    });
+  }
+});
+
+const mergeSchema = z.object({
+  source_ids: z.array(z.string().uuid()).min(1).max(20)
+});
+
+function logValidationError(scope: string, details: unknown): void {
+  // eslint-disable-next-line no-console
+  console.error(JSON.stringify({
+    level: 'warn',
+    event: 'validation_error',
+    scope,
+    details,
+    timestamp: new Date().toISOString()
+  }));
+}
+
+function normalizeLikeValue(raw: string): string {
+  return raw.trim().replaceAll(',', ' ').replaceAll('%', '').replaceAll('*', '').replaceAll('_', '');
+}
+
+function mapCustomerError(error: RestError, fallbackCode: string, fallbackMessage: string) {
+  const message = `${error.message ?? ''} ${error.details ?? ''}`.toLowerCase();
+  if (error.code === '23505' && message.includes('dni')) {
+    return { status: 409, code: 'dni_conflict', message: 'DNI already belongs to another customer', details: error.details ?? error.message };
+  }
+
+  // A malformed id never reaches a row: it is the caller's input that is wrong, not a missing customer.
+  if (error.code === '22P02') {
+    return { status: 400, code: 'validation_error', message: 'Validation failed', details: error.details ?? error.message };
+  }
+
+  if (error.code === 'PGRST116' || message.includes('not_found')) {
+    return { status: 404, code: 'not_found', message: 'Customer not found', details: error.details ?? error.message };
+  }
+
+  if (message.includes('conflict')) {
+    return { status: 409, code: 'conflict', message: 'Customer conflict', details: error.details ?? error.message };
+  }
+
+  if (message.includes('validation_error')) {
+    return { status: 400, code: 'validation_error', message: 'Validation failed', details: error.details ?? error.message };
+  }
+
+  return { status: 400, code: fallbackCode, message: fallbackMessage, details: error.details ?? error.message };
+}
+
+async function fetchCustomerSales(customerId: string) {
+  let lastError: RestError | null = null;
+
+  for (const saleItemsFkName of SALES_TO_SALE_ITEMS_FK_CANDIDATES) {
+    for (const stockItemsFkName of SALE_ITEMS_TO_STOCK_ITEMS_FK_CANDIDATES) {
+      const { data, error } = await supabaseAdmin
+        .from('sales')
+        .select(`id, sale_date, created_at, status, seller_id, currency, total_ars, total_usd, paid_ars, balance_due_ars, receivable_status, payment_method, sale_items!${saleItemsFkName}(stock_item_id, qty, sale_price_ars, subtotal_ars, stock_items!${stockItemsFkName}(brand, model, imei)), sale_payments(id, method, currency, amount, card_brand, installments, surcharge_pct, note, created_at)`)
+        .eq('customer_id', customerId)
+        .order('sale_date', { ascending: false });
+
+      if (!error) {
+        return { data: (data ?? []) as CustomerSaleRow[], error: null as RestError | null };
+      }
+
+      lastError = error;
+      const relationMissing = error.code === 'PGRST200' || error.code === 'PGRST201';
+      if (!relationMissing) {
+        break;
+      }
+    }
+  }
+
+  return { data: null as CustomerSaleRow[] | null, error: lastError };
+}
+
+/** Merged-away records keep their phone, so only surviving customers count as taken. */
+function findActiveCustomerByPhone(phone: string, excludeId?: string) {
+  let query = supabaseAdmin
+    .from('customers')
+    .select('id')
+    .eq('phone', phone)
+    .is('merged_into_id', null);
+
+  if (excludeId) query = query.neq('id', excludeId);
+
+  return query.limit(1).maybeSingle();
+}
+
+function phoneConflictError(customerId: string) {
+  return {
+    error: {
+      code: 'customer_conflict',
+      message: 'A customer with this phone already exists',
+      details: { customer_id: customerId }
+    }
+  };
+}
+
+router.get('/', requireRole('seller'), async (req, res) => {
+  const parsed = listSchema.safeParse(req.query);
+  if (!parsed.success) {
+    return res.status(400).json({ error: { code: 'validation_error', message: 'Invalid customers query', details: parsed.error.flatten() } });
+  }
+
+  const filters = parsed.data;
+  const page = filters.page ?? 1;
+  const pageSize = filters.page_size ?? 30;
+  const from = (page - 1) * pageSize;
+  const to = from + pageSize - 1;
+
+  let query = supabaseAdmin
+    .from('customers')
+    .select(CUSTOMER_COLUMNS, { count: 'exact' })
+    .is('merged_into_id', null);
+
+  if (filters.phone) query = query.ilike('phone', `%${normalizeLikeValue(filters.phone)}%`);
+  if (filters.dni) query = query.ilike('dni', `%${normalizeLikeValue(filters.dni)}%`);
+  if (filters.query) {
+    const search = normalizeLikeValue(filters.query);
+    if (search) {
+      query = query.or(`name.ilike.%${search}%,phone.ilike.%${search}%,dni.ilike.%${search}%`);
+    }
+  }
+
+  const { data, error, count } = await query
+    .order('name', { ascending: true })
+    .range(from, to);
+
+  if (error) {
+    const mapped = mapCustomerError(error, 'customers_fetch_failed', 'Fetch failed');
+    return res.status(mapped.status).json({ error: { code: mapped.code, message: mapped.message, details: mapped.details } });
+  }
+
+  return res.json({
+    customers: data ?? [],
+    total: Number(count ?? (data?.length ?? 0)),
+    page,
+    page_size: pageSize
+  });
+});
+
+router.get('/:id', requireRole('seller'), async (req, res) => {
+  const { data, error } = await supabaseAdmin
+    .from('customers')
+    .select(CUSTOMER_COLUMNS)
+    .eq('id', req.params.id)
+    .single();
+
+  if (error || !data) {
+    const mapped = mapCustomerError(error ?? {}, 'not_found', 'Customer not found');
+    return res.status(mapped.status).json({ error: { code: mapped.code, message: mapped.message, details: mapped.details } });
+  }
+
+  return res.json({ customer: data });
+});
+
+router.get('/:id/detail', requireRole('seller'), async (req, res) => {
+  const { data: customer, error: customerError } = await supabaseAdmin
+    .from('customers')
+    .select(CUSTOMER_COLUMNS)
+    .eq('id', req.params.id)
+    .single();
+
+  if (customerError || !customer) {
+    const mapped = mapCustomerError(customerError ?? {}, 'not_found', 'Customer not found');
+    return res.status(mapped.status).json({ error: { code: mapped.code, message: mapped.message, details: mapped.details } });
+  }
+
+  const { data: sales, error: salesError } = await fetchCustomerSales(customer.id);
+  if (salesError) {
+    return res.status(400).json({
+      error: {
+        code: 'customer_detail_fetch_failed',
+        message: 'Could not fetch customer sales',
+        details: [salesError.code, salesError.message, salesError.hint].filter(Boolean).join(' | ')
+      }
+    });
+  }
+
+  const saleIds = (sales ?? []).map((sale) => sale.id);
+  const tradeInsById = new Map<string, Record<string, unknown>>();
+
+  if (saleIds.length > 0) {
+    const { data: saleTradeIns, error: saleTradeInsError } = await supabaseAdmin
+      .from('trade_ins')
+      .select('*')
+      .in('sale_id', saleIds);
+
+    if (saleTradeInsError) {
+      return res.status(400).json({ error: { code: 'customer_detail_fetch_failed', message: 'Could not fetch customer trade-ins', details: saleTradeInsError.message } });
+    }
+
+    for (const tradeIn of saleTradeIns ?? []) tradeInsById.set(tradeIn.id, tradeIn);
+  }
+
+  if (customer.phone) {
+    const { data: phoneTradeIns, error: phoneTradeInsError } = await supabaseAdmin
+      .from('trade_ins')
+      .select('*')
+      .eq('customer_phone', customer.phone);
+
+    if (phoneTradeInsError) {
+      return res.status(400).json({ error: { code: 'customer_detail_fetch_failed', message: 'Could not fetch customer trade-ins', details: phoneTradeInsError.message } });
+    }
+
+    for (const tradeIn of phoneTradeIns ?? []) tradeInsById.set(tradeIn.id, tradeIn);
+  }
+
+  const completedSales = (sales ?? []).filter((sale) => sale.status === 'completed');
+  const payments = (sales ?? []).flatMap((sale) => (sale.sale_payments ?? []).map((payment) => ({
+    ...payment,
+    sale_id: sale.id
+  })));
+
+  return res.json({
+    customer,
+    sales: sales ?? [],
+    payments,
+    trade_ins: [...tradeInsById.values()],
+    summary: {
+      sales_count: completedSales.length,
+      total_ars: completedSales.reduce((sum, sale) => sum + Number(sale.total_ars ?? 0), 0),
+      paid_ars: completedSales.reduce((sum, sale) => sum + Number(sale.paid_ars ?? 0), 0),
+      balance_due_ars: completedSales.reduce((sum, sale) => sum + Number(sale.balance_due_ars ?? 0), 0),
+      open_receivables_count: completedSales.filter((sale) => Number(sale.balance_due_ars ?? 0) > 0).length,
+      last_sale_date: completedSales[0]?.sale_date ?? null
+    }
+  });
+});
+
+router.post('/', requireRole('seller'), async (req, res) => {
+  const parsed = createSchema.safeParse(req.body);
+  if (!parsed.success) {
+    logValidationError('customers.create', parsed.error.flatten());
+    return res.status(400).json({ error: { code: 'validation_error', message: 'Invalid customer payload', details: parsed.error.flatten() } });
+  }
+
+  const { data: existing, error: existingError } = await findActiveCustomerByPhone(parsed.data.phone);
+
+  if (existingError) {
+    return res.status(400).json({ error: { code: 'customer_create_failed', message: 'Phone lookup failed', details: existingError.message } });
+  }
+
+  if (existing) {
+    return res.status(409).json(phoneConflictError(existing.id));
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('customers')
+    .insert({
+      name: parsed.data.name,
+      phone: parsed.data.phone,
+      dni: parsed.data.dni ?? null,
+      email: parsed.data.email ?? null,
+      notes: parsed.data.notes ?? null
+    })
+    .select(CUSTOMER_COLUMNS)
+    .single();
+
+  if (error || !data) {
+    const mapped = mapCustomerError(error ?? {}, 'customer_create_failed', 'Insert failed');
+    return res.status(mapped.status).json({ error: { code: mapped.code, message: mapped.message, details: mapped.details } });
+  }
+
+  await supabaseAdmin
+    .from('audit_logs')
+    .insert({
+      actor_user_id: req.user?.id ?? null,
+      action: 'customer_created',
+      entity_type: 'customer',
+      entity_id: data.id,
+      before_json: null,
+      after_json: data,
+      meta_json: { source: 'customers_create' }
+    });
+
+  return res.status(201).json({ customer: data });
+});
+
+router.patch('/:id', requireRole('seller'), async (req, res) => {
+  const parsed = patchSchema.safeParse(req.body);
+  if (!parsed.success) {
+    logValidationError('customers.patch', parsed.error.flatten());
+    return res.status(400).json({ error: { code: 'validation_error', message: 'Invalid customer patch', details: parsed.error.flatten() } });
+  }
+
+  const { data: before, error: beforeError } = await supabaseAdmin
+    .from('customers')
+    .select(CUSTOMER_COLUMNS)
+    .eq('id', req.params.id)
+    .single();
+
+  if (beforeError || !before) {
+    const mapped = mapCustomerError(beforeError ?? {}, 'not_found', 'Customer not found');
+    return res.status(mapped.status).json({ error: { code: mapped.code, message: mapped.message, details: mapped.details } });
+  }
+
+  if (before.merged_into_id) {
+    return res.status(409).json({
+      error: {
+        code: 'customer_merged',
+        message: 'Customer was merged into another record',
+        details: { merged_into_id: before.merged_into_id }
+      }
+    });
+  }
+
+  if (parsed.data.phone && parsed.data.phone !== before.phone) {
+    const { data: existing, error: existingError } = await findActiveCustomerByPhone(parsed.data.phone, before.id);
+
+    if (existingError) {
+      return res.status(400).json({ error: { code: 'customer_update_failed', message: 'Phone lookup failed', details: existingError.message } });
+    }
+
+    if (existing) {
+      return res.status(409).json(phoneConflictError(existing.id));
+    }
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('customers')
+    .update(parsed.data)
+    .eq('id', req.params.id)
+    .select(CUSTOMER_COLUMNS)
+    .single();
+
+  if (error || !data) {
+    const mapped = mapCustomerError(error ?? {}, 'customer_update_failed', 'Update failed');
+    return res.status(mapped.status).json({ error: { code: mapped.code, message: mapped.message, details: mapped.details } });
+  }
+
+  await supabaseAdmin
+    .from('audit_logs')
+    .insert({
+      actor_user_id: req.user?.id ?? null,
+      action: 'customer_updated',
+      entity_type: 'customer',
+      entity_id: data.id,
+      before_json: before,
+      after_json: data,
+      meta_json: { source: 'customers_patch' }
+    });
+
+  return res.json({ customer: data });
+});
+
+router.post('/:id/merge', requireRole('admin'), async (req, res) => {
+  const userId = req.user?.id;
+  if (!userId) {
+    return res.status(401).json({ error: { code: 'unauthorized', message: 'Missing authenticated user' } });
+  }
+
+  const parsed = mergeSchema.safeParse(req.body);
+  if (!parsed.success) {
+    logValidationError('customers.merge', parsed.error.flatten());
+    return res.status(400).json({ error: { code: 'validation_error', message: 'Invalid merge payload', details: parsed.error.flatten() } });
+  }
+
+  const { data, error } = await supabaseAdmin.rpc('rpc_merge_customers_v1', {
+    p_target_id: req.params.id,
+    p_source_ids: parsed.data.source_ids,
+    p_user_id: userId
+  });
+
+  if (error) {
+    const mapped = mapCustomerError(error, 'customer_merge_failed', 'Merge failed');
+    return res.status(mapped.status).json({ error: { code: mapped.code, message: mapped.message, details: mapped.details } });
+  }
+
+  return res.json({
+    customer_id: data?.customer_id ?? req.params.id,
+    merged_ids: data?.merged_ids ?? [],
+    sales_moved: Number(data?.sales_moved ?? 0),
+    warranties_moved: Number(data?.warranties_moved ?? 0),
+    trade_ins_moved: Number(data?.trade_ins_moved ?? 0),
+    reservations_moved: Number(data?.reservations_moved ?? 0),
+    quotes_moved: Number(data?.quotes_moved ?? 0)
+  });
+});
+
+export const customersRouter = router;
@@ -0,0 +1,156 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { supabaseAdmin } from '../../lib/supabaseAdmin.js';
+import { requireRole } from '../../middleware/rbac.js';
+
+const router = Router();
+const EXPENSE_COLUMNS = 'id, expense_date, category, description, currency, amount, fx_rate, amount_ars, branch_id, notes, created_by, created_at, updated_at';
+
+function logValidationError(details: unknown): void {
+  // eslint-disable-next-line no-console
+  console.error(JSON.stringify({
+    level: 'warn',
+    event: 'validation_error',
+    scope: 'expenses',
+    details,
+    timestamp: new Date().toISOString()
+  }));
+}
+
+const categoryEnum = z.enum(['rent', 'salaries', 'shipping', 'repairs', 'utilities', 'taxes', 'marketing', 'other']);
+
+const listSchema = z.object({
+  from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  category: categoryEnum.optional(),
+  branch_id: z.string().uuid().optional(),
+  page: z.coerce.number().int().positive().optional().default(1),
+  page_size: z.coerce.number().int().positive().max(100).optional().default(50)
+});
+
+const expenseBaseSchema = z.object({
+  expense_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  category: categoryEnum,
+  description: z.string().trim().min(1).max(300),
+  currency: z.enum(['ARS', 'USD']).default('ARS'),
+  amount: z.number().positive(),
+  fx_rate: z.number().positive().nullable().optional(),
+  branch_id: z.string().uuid().nullable().optional(),
+  notes: z.string().trim().max(2000).nullable().optional()
+});
+
+const expenseSchema = expenseBaseSchema.superRefine((value, ctx) => {
+  if (value.currency === 'USD' && Number(value.fx_rate ?? 0) <= 0) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'fx_rate_required_for_usd', path: ['fx_rate'] });
+  }
+});
+
+const expensePatchSchema = expenseBaseSchema.partial().superRefine((value, ctx) => {
+  if (value.currency === 'USD' && value.fx_rate !== undefined && Number(value.fx_rate ?? 0) <= 0) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'fx_rate_required_for_usd', path: ['fx_rate'] });
+  }
+});
+
+router.get('/', requireRole('admin'), async (req, res) => {
+  const parsed = listSchema.safeParse(req.query);
+  if (!parsed.success) {
+    logValidationError(parsed.error.flatten());
+    return res.status(400).json({ error: { code: 'validation_error', message: 'Invalid query params', details: parsed.error.flatten() } });
+  }
+
+  const { from, to, category, branch_id: branchId, page, page_size } = parsed.data;
+  const rangeFrom = (page - 1) * page_size;
+  const rangeTo = rangeFrom + page_size - 1;
+
+  let query = supabaseAdmin
+    .from('expenses')
+    .select(EXPENSE_COLUMNS, { count: 'exact' });
+
+  if (from) query = query.gte('expense_date', from);
+  if (to) query = query.lte('expense_date', to);
+  if (category) query = query.eq('category', category);
+  if (branchId) query = query.eq('branch_id', branchId);
+
+  const { data, error, count } = await query
+    .order('expense_date', { ascending: false })
+    .order('created_at', { ascending: false })
+    .range(rangeFrom, rangeTo);
+
+  if (error) {
+    return res.status(400).json({ error: { code: 'expenses_fetch_failed', message: 'Fetch failed', details: error.message } });
+  }
+
+  return res.json({
+    expenses: data ?? [],
+    total: count ?? 0,
+    page,
+    page_size
+  });
+});
+
+router.post('/', requireRole('admin'), async (req, res) => {
+  const parsed = expenseSchema.safeParse(req.body);
+  if (!parsed.success) {
+    logValidationError(parsed.error.flatten());
+    return res.status(400).json({ error: { code: 'validation_error', message: 'Invalid expense payload', details: parsed.error.flatten() } });
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('expenses')
+    .insert({
+      ...parsed.data,
+      fx_rate: parsed.data.currency === 'USD' ? parsed.data.fx_rate : null,
+      created_by: req.user?.id ?? null
+    })
+    .select(EXPENSE_COLUMNS)
+    .single();
+
+  if (error || !data) {
+    return res.status(400).json({ error: { code: 'expense_create_failed', message: 'Insert failed', details: error?.message } });
+  }
+
+  return res.status(201).json({ expense: data });
+});
+
+router.patch('/:id', requireRole('admin'), async (req, res) => {
+  const parsed = expensePatchSchema.safeParse(req.body);
+  if (!parsed.success) {
+    logValidationError(parsed.error.flatten());
+    return res.status(400).json({ error: { code: 'validation_error', message: 'Invalid expense patch', details: parsed.error.flatten() } });
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('expenses')
+    .update(parsed.data)
+    .eq('id', req.params.id)
+    .select(EXPENSE_COLUMNS)
+    .maybeSingle();
+
+  if (error) {
+    // expenses_usd_fx_check fires when switching to USD without a rate.
+    if (error.code === '23514') {
+      return res.status(400).json({ error: { code: 'validation_error', message: 'Invalid expense patch', details: error.message } });
+    }
+    return res.status(400).json({ error: { code: 'expense_update_failed', message: 'Update failed', details: error.message } });
+  }
+  if (!data) {
+    return res.status(404).json({ error: { code: 'not_found', message: 'Expense not found' } });
+  }
+
+  return res.json({ expense: data });
+});
+
+router.delete('/:id', requireRole('admin'), async (req, res) => {
+  const { error } = await supabaseAdmin
+    .from('expenses')
+    .delete()
+    .eq('id', req.params.id);
+
+  if (error) {
+    return res.status(400).json({ error: { code: 'expense_delete_failed', message: 'Delete failed', details: error.message } });
+  }
+
+  return res.status(204).send();
+});
+
+export const expensesRouter = router;
@@ -0,0 +1,49 @@
+/** A payment in, or money given back (reversal, return refund), in the movement's own currency. */
+export type CollectionMovement = {
+  method: string | null;
+  currency: string | null;
+  amount: number | null;
+};
+
+export type PaymentMixCurrencyRow = {
+  method: string;
+  currency: string;
+  total: number;
+};
+
+function roundTo2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Net collected per currency and per method/currency: payments minus the reversals and refunds recorded in
+ * the same period. ARS and USD are never added together.
+ */
+export function summarizeCollections(payments: CollectionMovement[], outflows: CollectionMovement[]) {
+  const currencyMixMap = new Map<string, PaymentMixCurrencyRow>();
+  const collected = { ARS: 0, USD: 0 };
+
+  const apply = (movement: CollectionMovement, sign: 1 | -1) => {
+    const method = movement.method || 'unknown';
+    const currency = movement.currency === 'USD' ? 'USD' : 'ARS';
+    const amount = Number(movement.amount ?? 0) * sign;
+    const key = `${method}|${currency}`;
+    const row = currencyMixMap.get(key) ?? { method, currency, total: 0 };
+    row.total += amount;
+    currencyMixMap.set(key, row);
+    collected[currency] += amount;
+  };
+
+  for (const payment of payments) apply(payment, 1);
+  for (const outflow of outflows) apply(outflow, -1);
+
+  const payment_mix_by_currency = [...currencyMixMap.values()]
+    .map((row) => ({ ...row, total: roundTo2(row.total) }))
+    .sort((a, b) => a.currency.localeCompare(b.currency) || b.total - a.total);
+
+  return {
+    collected_ars: roundTo2(collected.ARS),
+    collected_usd: roundTo2(collected.USD),
+    payment_mix_by_currency
+  };
+}
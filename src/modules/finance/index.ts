@@ -2,6 +2,19 @@ import { Router } from 'express';
 import { z } from 'zod';
 import { supabaseAdmin } from '../../lib/supabaseAdmin.js';
 import { requireRole } from '../../middleware/rbac.js';
+import { computeItemCommission, resolveCommissionRule } from '../commissions/calculator.js';
+import { fetchActiveCommissionRules } from '../commissions/index.js';
+import { roundTo2 } from '../rules/pricing.js';
+import { resolveCurrentFxRate, type StoredFxRate } from '../fxRates/index.js';
+import { summarizeCollections, type CollectionMovement } from './collections.js';
+import {
+  buildCustomerStatement,
+  writeCustomerStatementPdf,
+  type StatementPayment,
+  type StatementReturn,
+  type StatementReversal,
+  type StatementSale
+} from './statement.js';
 
 const router = Router();
 
@@ -10,6 +23,10 @@ const querySchema = z.object({
   to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/)
 });
 
+const summaryQuerySchema = querySchema.extend({
+  branch_id: z.string().uuid().optional()
+});
+
 const accountsReceivableQuerySchema = z.object({
   from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
   to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
@@ -17,17 +34,122 @@ const accountsReceivableQuerySchema = z.object({
   status: z.enum(['pending', 'partial', 'paid']).optional()
 });
 
+const statementQuerySchema = z.object({
+  format: z.enum(['json', 'pdf']).optional().default('json')
+});
+
+const AGING_BUCKETS = [
+  { key: '0-30', maxDays: 30 },
+  { key: '31-60', maxDays: 60 },
+  { key: '61-90', maxDays: 90 },
+  { key: '90+', maxDays: Number.POSITIVE_INFINITY }
+] as const;
+
+type AgingBucketKey = typeof AGING_BUCKETS[number]['key'];
+
+type ReceivableCustomerRow = {
+  customer_id: string | null;
+  customer_name: string | null;
+  customer_phone: string | null;
+  sales_count: number;
+  balance_due_ars: number;
+  oldest_days: number;
+  buckets: Record<AgingBucketKey, number>;
+};
+
+function resolveAgingBucket(daysSinceSale: number): AgingBucketKey {
+  return (AGING_BUCKETS.find((bucket) => daysSinceSale <= bucket.maxDays) ?? AGING_BUCKETS[AGING_BUCKETS.length - 1]).key;
+}
+
 type PaymentMixRow = {
   method: string;
   total: number;
 };
 
+type SummaryStockRef = { purchase_ars: number | null; purchase_usd?: number | null };
+type SummarySaleRef = { fx_rate_used?: number | null };
+
 type SummarySaleItemRow = {
   qty: number | null;
   sale_price_ars: number | null;
   subtotal_ars: number | null;
   unit_cost_ars: number | null;
-  stock_items?: { purchase_ars: number | null } | Array<{ purchase_ars: number | null }> | null;
+  stock_items?: SummaryStockRef | SummaryStockRef[] | null;
+  sales?: SummarySaleRef | SummarySaleRef[] | null;
+};
+
+type SummarySaleRow = {
+  id: string;
+  total_ars: number | null;
+  total_usd: number | null;
+  currency: string | null;
+  fx_rate_used: number | null;
+  payment_method: string | null;
+};
+
+type SummaryReversalRow = {
+  currency: string | null;
+  amount: number | null;
+  sale_payments?: { method: string | null } | Array<{ method: string | null }> | null;
+};
+
+type SummaryRefundRow = {
+  refund_method: string | null;
+  refund_currency: string | null;
+  refund_amount: number | null;
+};
+
+type ExpenseRow = {
+  category: string;
+  amount_ars: number | null;
+};
+
+type DiscountSaleItemRow = {
+  qty: number | null;
+  sale_price_ars: number | null;
+  subtotal_ars: number | null;
+  list_price_ars: number | null;
+  discount_ars: number | null;
+  promo_discount_ars: number | null;
+  sales?: { id: string; seller_id: string | null } | Array<{ id: string; seller_id: string | null }> | null;
+};
+
+type SellerDiscountRow = {
+  seller_id: string | null;
+  seller_name: string | null;
+  sales_count: number;
+  items_count: number;
+  list_total_ars: number;
+  sold_total_ars: number;
+  discount_total_ars: number;
+  manual_discount_ars: number;
+  promo_discount_ars: number;
+  discount_pct: number;
+};
+
+type CommissionSaleItemRow = {
+  qty: number | null;
+  sale_price_ars: number | null;
+  subtotal_ars: number | null;
+  unit_cost_ars: number | null;
+  stock_items?: { purchase_ars: number | null; category: string | null } | Array<{ purchase_ars: number | null; category: string | null }> | null;
+  sales?: { id: string; seller_id: string | null } | Array<{ id: string; seller_id: string | null }> | null;
+};
+
+type CommissionReturnItemRow = CommissionSaleItemRow;
+
+type SellerCommissionRow = {
+  seller_id: string | null;
+  seller_name: string | null;
+  role: string | null;
+  sales_count: number;
+  items_count: number;
+  sales_total_ars: number;
+  margin_total_ars: number;
+  commission_ars: number;
+  clawback_items_count: number;
+  clawback_ars: number;
+  net_commission_ars: number;
 };
 
 const SALE_ITEMS_TO_SALES_FK_CANDIDATES = [
@@ -56,18 +178,24 @@ function formatFinanceErrorDetails(error: FinanceErrorLike): string {
   return parts.join(' | ') || 'unknown_error';
 }
 
-async function fetchSaleItemsForSummary(from: string, to: string) {
+async function fetchSaleItemsForSummary(from: string, to: string, branchId?: string) {
   let lastError: FinanceErrorLike | null = null;
 
   for (const salesFkName of SALE_ITEMS_TO_SALES_FK_CANDIDATES) {
     for (const stockFkName of SALE_ITEMS_TO_STOCK_ITEMS_FK_CANDIDATES) {
-      const { data, error } = await supabaseAdmin
+      let query = supabaseAdmin
         .from('sale_items')
-        .select(`qty, sale_price_ars, subtotal_ars, unit_cost_ars, stock_items!${stockFkName}(purchase_ars), sales!${salesFkName}!inner(sale_date, status)`)
+        .select(`qty, sale_price_ars, subtotal_ars, unit_cost_ars, stock_items!${stockFkName}(purchase_ars, purchase_usd), sales!${salesFkName}!inner(sale_date, status, branch_id, fx_rate_used)`)
         .gte('sales.sale_date', `${from}T00:00:00Z`)
         .lte('sales.sale_date', `${to}T23:59:59Z`)
         .eq('sales.status', 'completed');
 
+      if (branchId) {
+        query = query.eq('sales.branch_id', branchId);
+      }
+
+      const { data, error } = await query;
+
       if (!error) {
         return {
           data: (data ?? []) as SummarySaleItemRow[],
@@ -87,26 +215,253 @@ async function fetchSaleItemsForSummary(from: string, to: string) {
   return { data: null as SummarySaleItemRow[] | null, fkName: null as string | null, error: lastError };
 }
 
+function summarizeItemMargins(items: SummarySaleItemRow[]) {
+  let revenue = 0;
+  let cost = 0;
+  let itemsSold = 0;
+
+  for (const item of items) {
+    const qty = Number(item.qty ?? 1);
+    const salePrice = Number(item.sale_price_ars ?? 0);
+    const subtotal = Number(item.subtotal_ars ?? (salePrice * qty));
+    const stockItem = Array.isArray(item.stock_items) ? item.stock_items[0] : item.stock_items;
+    const unitCost = Number(item.unit_cost_ars ?? stockItem?.purchase_ars ?? 0);
+
+    itemsSold += qty;
+    revenue += subtotal;
+    cost += unitCost * qty;
+  }
+
+  return { revenue, cost, margin: revenue - cost, itemsSold };
+}
+
+function positiveOrNull(value: unknown): number | null {
+  const parsed = Number(value ?? 0);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+}
+
+/**
+ * USD-equivalent revenue and margin per item. Revenue uses the sale's own fx_rate_used; cost uses the
+ * unit's purchase_usd when it was bought in dollars. ARS sales without a rate fall back to `fallbackRate`.
+ */
+function summarizeUsdItemMargins(items: SummarySaleItemRow[], fallbackRate: number | null) {
+  let revenue = 0;
+  let cost = 0;
+  let unconverted = 0;
+
+  for (const item of items) {
+    const qty = Number(item.qty ?? 1);
+    const subtotal = Number(item.subtotal_ars ?? (Number(item.sale_price_ars ?? 0) * qty));
+    const stockItem = Array.isArray(item.stock_items) ? item.stock_items[0] : item.stock_items;
+    const sale = Array.isArray(item.sales) ? item.sales[0] : item.sales;
+    const fxRate = positiveOrNull(sale?.fx_rate_used) ?? fallbackRate;
+    if (!fxRate) {
+      unconverted += 1;
+      continue;
+    }
+
+    const purchaseUsd = positiveOrNull(stockItem?.purchase_usd);
+    const unitCostArs = Number(item.unit_cost_ars ?? stockItem?.purchase_ars ?? 0);
+
+    revenue += subtotal / fxRate;
+    cost += (purchaseUsd ?? unitCostArs / fxRate) * qty;
+  }
+
+  return { revenue, cost, margin: revenue - cost, unconverted };
+}
+
+async function fetchSalePaymentsForSummary(from: string, to: string, branchId?: string) {
+  let query = supabaseAdmin
+    .from('sale_payments')
+    .select('method, currency, amount, sales!inner(sale_date, status, branch_id)')
+    .gte('sales.sale_date', `${from}T00:00:00Z`)
+    .lte('sales.sale_date', `${to}T23:59:59Z`)
+    .eq('sales.status', 'completed');
+
+  if (branchId) {
+    query = query.eq('sales.branch_id', branchId);
+  }
+
+  const { data, error } = await query;
+  return { data: (data ?? []) as CollectionMovement[], error };
+}
+
+// Money given back inside the range (payment reversals and return refunds), by the day it went out.
+async function fetchPaymentOutflowsForSummary(from: string, to: string, branchId?: string) {
+  let reversalsQuery = supabaseAdmin
+    .from('sale_payment_reversals')
+    .select('currency, amount, sale_payments(method), sales!inner(status, branch_id)')
+    .gte('created_at', `${from}T00:00:00Z`)
+    .lte('created_at', `${to}T23:59:59Z`)
+    .eq('sales.status', 'completed');
+
+  let refundsQuery = supabaseAdmin
+    .from('sale_returns')
+    .select('refund_method, refund_currency, refund_amount, sales!inner(status, branch_id)')
+    .gte('created_at', `${from}T00:00:00Z`)
+    .lte('created_at', `${to}T23:59:59Z`)
+    .gt('refund_amount', 0)
+    .eq('sales.status', 'completed');
+
+  if (branchId) {
+    reversalsQuery = reversalsQuery.eq('sales.branch_id', branchId);
+    refundsQuery = refundsQuery.eq('sales.branch_id', branchId);
+  }
+
+  const [reversals, refunds] = await Promise.all([reversalsQuery, refundsQuery]);
+  const error = reversals.error ?? refunds.error;
+  if (error) {
+    return { data: null, error };
+  }
+
+  const outflows: CollectionMovement[] = [
+    ...((reversals.data ?? []) as SummaryReversalRow[]).map((row) => {
+      const payment = Array.isArray(row.sale_payments) ? row.sale_payments[0] : row.sale_payments;
+      return { method: payment?.method ?? null, currency: row.currency, amount: row.amount };
+    }),
+    ...((refunds.data ?? []) as SummaryRefundRow[]).map((row) => ({
+      method: row.refund_method,
+      currency: row.refund_currency,
+      amount: row.refund_amount
+    }))
+  ];
+  return { data: outflows, error: null };
+}
+
+async function fetchSaleItemsForDiscounts(from: string, to: string) {
+  let lastError: FinanceErrorLike | null = null;
+
+  for (const salesFkName of SALE_ITEMS_TO_SALES_FK_CANDIDATES) {
+    const { data, error } = await supabaseAdmin
+      .from('sale_items')
+      .select(`qty, sale_price_ars, subtotal_ars, list_price_ars, discount_ars, promo_discount_ars, sales!${salesFkName}!inner(id, seller_id, sale_date, status)`)
+      .gte('sales.sale_date', `${from}T00:00:00Z`)
+      .lte('sales.sale_date', `${to}T23:59:59Z`)
+      .eq('sales.status', 'completed');
+
+    if (!error) {
+      return { data: (data ?? []) as DiscountSaleItemRow[], error: null as FinanceErrorLike | null };
+    }
+
+    lastError = error;
+    if (error.code !== 'PGRST200' && error.code !== 'PGRST201') {
+      break;
+    }
+  }
+
+  return { data: null as DiscountSaleItemRow[] | null, error: lastError };
+}
+
+// A sale cancelled after the range still earned its commission in the range; the period it was cancelled
+// in claws it back (fetchCancelledItemsForClawback), so closed periods do not change after the fact.
+async function fetchSaleItemsForCommissions(from: string, to: string) {
+  let lastError: FinanceErrorLike | null = null;
+
+  for (const salesFkName of SALE_ITEMS_TO_SALES_FK_CANDIDATES) {
+    for (const stockFkName of SALE_ITEMS_TO_STOCK_ITEMS_FK_CANDIDATES) {
+      const { data, error } = await supabaseAdmin
+        .from('sale_items')
+        .select(`qty, sale_price_ars, subtotal_ars, unit_cost_ars, stock_items!${stockFkName}(purchase_ars, category), sales!${salesFkName}!inner(id, seller_id, sale_date, status)`)
+        .gte('sales.sale_date', `${from}T00:00:00Z`)
+        .lte('sales.sale_date', `${to}T23:59:59Z`)
+        .or(`status.eq.completed,and(status.eq.cancelled,cancelled_at.gt."${to}T23:59:59Z")`, { referencedTable: 'sales' });
+
+      if (!error) {
+        return { data: (data ?? []) as CommissionSaleItemRow[], error: null as FinanceErrorLike | null };
+      }
+
+      lastError = error;
+      if (error.code !== 'PGRST200' && error.code !== 'PGRST201') {
+        break;
+      }
+    }
+  }
+
+  return { data: null as CommissionSaleItemRow[] | null, error: lastError };
+}
+
+// Items returned inside the range from sales made before it: their commission was already paid out.
+// Returns on sales inside the range need no clawback because the item is gone from sale_items. A sale
+// cancelled after the return still owes the returned item: the cancellation only claws back what was left.
+async function fetchReturnedItemsForClawback(from: string, to: string) {
+  const { data, error } = await supabaseAdmin
+    .from('sale_return_items')
+    .select('qty, sale_price_ars, subtotal_ars, unit_cost_ars, stock_items(purchase_ars, category), sale_returns!inner(created_at), sales!inner(id, seller_id, sale_date, status)')
+    .gte('sale_returns.created_at', `${from}T00:00:00Z`)
+    .lte('sale_returns.created_at', `${to}T23:59:59Z`)
+    .lt('sales.sale_date', `${from}T00:00:00Z`)
+    .in('sales.status', ['completed', 'cancelled']);
+
+  return { data: (data ?? null) as CommissionReturnItemRow[] | null, error: error as FinanceErrorLike | null };
+}
+
+// Sales made before the range and cancelled inside it, counted by cancellation date. Sales made and
+// cancelled inside the range never earned anything, so they are neither paid nor clawed back.
+async function fetchCancelledItemsForClawback(from: string, to: string) {
+  let lastError: FinanceErrorLike | null = null;
+
+  for (const salesFkName of SALE_ITEMS_TO_SALES_FK_CANDIDATES) {
+    for (const stockFkName of SALE_ITEMS_TO_STOCK_ITEMS_FK_CANDIDATES) {
+      const { data, error } = await supabaseAdmin
+        .from('sale_items')
+        .select(`qty, sale_price_ars, subtotal_ars, unit_cost_ars, stock_items!${stockFkName}(purchase_ars, category), sales!${salesFkName}!inner(id, seller_id, sale_date, status, cancelled_at)`)
+        .eq('sales.status', 'cancelled')
+        .gte('sales.cancelled_at', `${from}T00:00:00Z`)
+        .lte('sales.cancelled_at', `${to}T23:59:59Z`)
+        .lt('sales.sale_date', `${from}T00:00:00Z`);
+
+      if (!error) {
+        return { data: (data ?? []) as CommissionSaleItemRow[], error: null as FinanceErrorLike | null };
+      }
+
+      lastError = error;
+      if (error.code !== 'PGRST200' && error.code !== 'PGRST201') {
+        break;
+      }
+    }
+  }
+
+  return { data: null as CommissionSaleItemRow[] | null, error: lastError };
+}
+
+function toCommissionItem(item: CommissionSaleItemRow) {
+  const qty = Number(item.qty ?? 1);
+  const stockItem = Array.isArray(item.stock_items) ? item.stock_items[0] : item.stock_items;
+  return {
+    category: stockItem?.category ?? null,
+    qty,
+    subtotal_ars: Number(item.subtotal_ars ?? (Number(item.sale_price_ars ?? 0) * qty)),
+    unit_cost_ars: Number(item.unit_cost_ars ?? stockItem?.purchase_ars ?? 0)
+  };
+}
+
 router.get('/summary', requireRole('admin'), async (req, res) => {
-  const parsed = querySchema.safeParse(req.query);
+  const parsed = summaryQuerySchema.safeParse(req.query);
   if (!parsed.success) {
     return res.status(400).json({ error: { code: 'validation_error', message: 'Invalid date range', details: parsed.error.flatten() } });
   }
 
-  const { from, to } = parsed.data;
+  const { from, to, branch_id: branchId } = parsed.data;
 
-  const { data: sales, error: salesError } = await supabaseAdmin
+  let salesQuery = supabaseAdmin
     .from('sales')
-    .select('id, sale_date, total_ars, payment_method, status')
+    .select('id, sale_date, total_ars, total_usd, currency, fx_rate_used, payment_method, status')
     .gte('sale_date', `${from}T00:00:00Z`)
     .lte('sale_date', `${to}T23:59:59Z`)
     .eq('status', 'completed');
 
+  if (branchId) {
+    salesQuery = salesQuery.eq('branch_id', branchId);
+  }
+
+  const { data: salesData, error: salesError } = await salesQuery;
+  const sales = (salesData ?? []) as SummarySaleRow[];
+
   if (salesError) {
     return res.status(400).json({ error: { code: 'finance_fetch_failed', message: 'Sales query failed', details: salesError.message } });
   }
 
-  const { data: saleItems, error: itemsError } = await fetchSaleItemsForSummary(from, to);
+  const { data: saleItems, error: itemsError } = await fetchSaleItemsForSummary(from, to, branchId);
 
   if (itemsError) {
     return res.status(400).json({
@@ -118,26 +473,52 @@ router.get('/summary', requireRole('admin'), async (req, res) => {
     });
   }
 
-  const sales_total = (sales ?? []).reduce((sum, sale) => sum + Number(sale.total_ars ?? 0), 0);
-  const sales_count = (sales ?? []).length;
-  const ticket_avg = sales_count > 0 ? sales_total / sales_count : 0;
+  const { data: payments, error: paymentsError } = await fetchSalePaymentsForSummary(from, to, branchId);
 
-  let margin_total = 0;
-  let total_items_sold = 0;
+  if (paymentsError) {
+    return res.status(400).json({ error: { code: 'finance_fetch_failed', message: 'Sale payments query failed', details: paymentsError.message } });
+  }
 
-  for (const item of saleItems ?? []) {
-    const qty = Number(item.qty ?? 1);
-    const salePrice = Number(item.sale_price_ars ?? 0);
-    const subtotal = Number(item.subtotal_ars ?? (salePrice * qty));
-    const stockItem = Array.isArray(item.stock_items) ? item.stock_items[0] : item.stock_items;
-    const unitCost = Number(item.unit_cost_ars ?? stockItem?.purchase_ars ?? 0);
+  const { data: outflows, error: outflowsError } = await fetchPaymentOutflowsForSummary(from, to, branchId);
 
-    total_items_sold += qty;
-    margin_total += subtotal - (unitCost * qty);
+  if (outflowsError || !outflows) {
+    return res.status(400).json({ error: { code: 'finance_fetch_failed', message: 'Reversals and refunds query failed', details: outflowsError?.message } });
   }
 
+  // Only look up the stored rate when some sale in range was recorded without one.
+  let fallbackFx: StoredFxRate | null = null;
+  if (sales.some((sale) => !positiveOrNull(sale.fx_rate_used))) {
+    const { data: storedRate, error: fxError } = await resolveCurrentFxRate();
+    if (fxError) {
+      return res.status(400).json({ error: { code: 'finance_fetch_failed', message: 'Fx rate query failed', details: fxError.message } });
+    }
+    fallbackFx = storedRate;
+  }
+  const fallbackRate = fallbackFx?.rate ?? null;
+
+  const sales_total = sales.reduce((sum, sale) => sum + Number(sale.total_ars ?? 0), 0);
+  const sales_count = sales.length;
+  const ticket_avg = sales_count > 0 ? sales_total / sales_count : 0;
+
+  let salesTotalUsd = 0;
+  let salesUnconverted = 0;
+  for (const sale of sales) {
+    const totalUsd = positiveOrNull(sale.total_usd);
+    const fxRate = positiveOrNull(sale.fx_rate_used) ?? fallbackRate;
+    if (sale.currency === 'USD' && totalUsd) {
+      salesTotalUsd += totalUsd;
+    } else if (fxRate) {
+      salesTotalUsd += Number(sale.total_ars ?? 0) / fxRate;
+    } else {
+      salesUnconverted += 1;
+    }
+  }
+
+  const { margin: margin_total, itemsSold: total_items_sold } = summarizeItemMargins(saleItems ?? []);
+  const usdMargins = summarizeUsdItemMargins(saleItems ?? [], fallbackRate);
+
   const paymentMixMap: Record<string, number> = {};
-  for (const sale of sales ?? []) {
+  for (const sale of sales) {
     const method = sale.payment_method || 'unknown';
     paymentMixMap[method] = (paymentMixMap[method] || 0) + Number(sale.total_ars ?? 0);
   }
@@ -146,11 +527,19 @@ router.get('/summary', requireRole('admin'), async (req, res) => {
     .map(([method, total]) => ({ method, total }))
     .sort((a, b) => b.total - a.total);
 
-  const { count: openTradeinsCount, error: tradeinsError } = await supabaseAdmin
+  const { collected_ars, collected_usd, payment_mix_by_currency } = summarizeCollections(payments, outflows);
+
+  let tradeinsQuery = supabaseAdmin
     .from('trade_ins')
     .select('id', { count: 'exact', head: true })
     .in('status', ['pending', 'valued']);
 
+  if (branchId) {
+    tradeinsQuery = tradeinsQuery.eq('branch_id', branchId);
+  }
+
+  const { count: openTradeinsCount, error: tradeinsError } = await tradeinsQuery;
+
   if (tradeinsError) {
     return res.status(400).json({ error: { code: 'finance_fetch_failed', message: 'Trade-ins query failed', details: tradeinsError.message } });
   }
@@ -164,6 +553,14 @@ router.get('/summary', requireRole('admin'), async (req, res) => {
     ticket_avg,
     payment_mix,
     open_tradeins,
+    sales_total_usd: roundTo2(salesTotalUsd),
+    margin_total_usd: roundTo2(usdMargins.margin),
+    collected_ars,
+    collected_usd,
+    payment_mix_by_currency,
+    fx_fallback: fallbackFx ? { rate: fallbackFx.rate, rate_type: fallbackFx.rate_type, rate_date: fallbackFx.rate_date } : null,
+    usd_unconverted_sales: salesUnconverted,
+    usd_unconverted_items: usdMargins.unconverted,
 
     // Legacy aliases for current frontend compatibility
     total_sales_ars: sales_total,
@@ -172,11 +569,79 @@ router.get('/summary', requireRole('admin'), async (req, res) => {
     payment_mix_map: paymentMixMap,
     open_tradeins_count: open_tradeins,
     sales_month: sales_total,
-    sales_month_usd: 0,
+    sales_month_usd: roundTo2(salesTotalUsd),
     margin_month: margin_total
   });
 });
 
+// Net profit = item margin of completed sales minus operating expenses (in ARS at their load-time rate).
+// With branch_id, only expenses assigned to that branch are subtracted; company-wide ones stay out.
+router.get('/pnl', requireRole('admin'), async (req, res) => {
+  const parsed = summaryQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    return res.status(400).json({ error: { code: 'validation_error', message: 'Invalid date range', details: parsed.error.flatten() } });
+  }
+
+  const { from, to, branch_id: branchId } = parsed.data;
+
+  const { data: saleItems, error: itemsError } = await fetchSaleItemsForSummary(from, to, branchId);
+  if (itemsError) {
+    return res.status(400).json({
+      error: {
+        code: 'finance_fetch_failed',
+        message: 'Sale items query failed',
+        details: formatFinanceErrorDetails(itemsError)
+      }
+    });
+  }
+
+  let expensesQuery = supabaseAdmin
+    .from('expenses')
+    .select('category, amount_ars')
+    .gte('expense_date', from)
+    .lte('expense_date', to);
+
+  if (branchId) {
+    expensesQuery = expensesQuery.eq('branch_id', branchId);
+  }
+
+  const { data: expenses, error: expensesError } = await expensesQuery;
+  if (expensesError) {
+    return res.status(400).json({ error: { code: 'finance_fetch_failed', message: 'Expenses query failed', details: expensesError.message } });
+  }
+
+  const { revenue, cost, margin, itemsSold } = summarizeItemMargins(saleItems ?? []);
+
+  const byCategory = new Map<string, { category: string; count: number; total_ars: number }>();
+  let expensesTotal = 0;
+  for (const expense of (expenses ?? []) as ExpenseRow[]) {
+    const amount = Number(expense.amount_ars ?? 0);
+    const row = byCategory.get(expense.category) ?? { category: expense.category, count: 0, total_ars: 0 };
+    row.count += 1;
+    row.total_ars += amount;
+    byCategory.set(expense.category, row);
+    expensesTotal += amount;
+  }
+
+  const netProfit = margin - expensesTotal;
+
+  return res.json({
+    from,
+    to,
+    branch_id: branchId ?? null,
+    revenue_ars: roundTo2(revenue),
+    cost_of_goods_ars: roundTo2(cost),
+    gross_margin_ars: roundTo2(margin),
+    items_sold: itemsSold,
+    expenses_total_ars: roundTo2(expensesTotal),
+    expenses_by_category: [...byCategory.values()]
+      .map((row) => ({ ...row, total_ars: roundTo2(row.total_ars) }))
+      .sort((a, b) => b.total_ars - a.total_ars),
+    net_profit_ars: roundTo2(netProfit),
+    net_margin_pct: revenue > 0 ? roundTo2((netProfit / revenue) * 100) : 0
+  });
+});
+
 router.get('/accounts-receivable', requireRole('admin'), async (req, res) => {
   const parsed = accountsReceivableQuerySchema.safeParse(req.query);
   if (!parsed.success) {
@@ -193,7 +658,7 @@ router.get('/accounts-receivable', requireRole('admin'), async (req, res) => {
 
   let salesQuery = supabaseAdmin
     .from('sales')
-    .select('id, sale_date, seller_id, total_ars, paid_ars, balance_due_ars, receivable_status, customers(name, phone)')
+    .select('id, sale_date, seller_id, customer_id, total_ars, paid_ars, balance_due_ars, receivable_status, customers(name, phone)')
     .gte('sale_date', `${from}T00:00:00Z`)
     .lte('sale_date', `${to}T23:59:59Z`)
     .eq('status', 'completed')
@@ -228,6 +693,7 @@ router.get('/accounts-receivable', requireRole('admin'), async (req, res) => {
 
     return {
       sale_id: sale.id,
+      customer_id: sale.customer_id ?? null,
       customer_name: customer?.name ?? null,
       customer_phone: customer?.phone ?? null,
       sale_date: sale.sale_date,
@@ -236,11 +702,355 @@ router.get('/accounts-receivable', requireRole('admin'), async (req, res) => {
       balance_due_ars: Number(sale.balance_due_ars ?? 0),
       status: sale.receivable_status ?? 'pending',
       days_since_sale: daysSinceSale,
+      aging_bucket: resolveAgingBucket(daysSinceSale),
       seller_id: sale.seller_id ?? null
     };
   });
 
-  return res.json({ receivables });
+  // Aging only counts money still owed; fully paid sales stay in the list but not in the buckets.
+  const emptyBuckets = () => Object.fromEntries(AGING_BUCKETS.map((bucket) => [bucket.key, 0])) as Record<AgingBucketKey, number>;
+  const aging = AGING_BUCKETS.map((bucket) => ({ bucket: bucket.key, sales_count: 0, balance_due_ars: 0 }));
+  const customersMap = new Map<string, ReceivableCustomerRow>();
+
+  for (const receivable of receivables) {
+    if (receivable.balance_due_ars <= 0) continue;
+
+    const bucketRow = aging.find((row) => row.bucket === receivable.aging_bucket);
+    if (bucketRow) {
+      bucketRow.sales_count += 1;
+      bucketRow.balance_due_ars += receivable.balance_due_ars;
+    }
+
+    const key = receivable.customer_id ?? 'unknown';
+    const customerRow = customersMap.get(key) ?? {
+      customer_id: receivable.customer_id,
+      customer_name: receivable.customer_name,
+      customer_phone: receivable.customer_phone,
+      sales_count: 0,
+      balance_due_ars: 0,
+      oldest_days: 0,
+      buckets: emptyBuckets()
+    };
+    customerRow.sales_count += 1;
+    customerRow.balance_due_ars += receivable.balance_due_ars;
+    customerRow.oldest_days = Math.max(customerRow.oldest_days, receivable.days_since_sale);
+    customerRow.buckets[receivable.aging_bucket] += receivable.balance_due_ars;
+    customersMap.set(key, customerRow);
+  }
+
+  const customers = [...customersMap.values()]
+    .map((row) => ({
+      ...row,
+      balance_due_ars: roundTo2(row.balance_due_ars),
+      buckets: Object.fromEntries(Object.entries(row.buckets).map(([bucket, amount]) => [bucket, roundTo2(amount)]))
+    }))
+    .sort((a, b) => b.balance_due_ars - a.balance_due_ars);
+
+  return res.json({
+    receivables,
+    aging: aging.map((row) => ({ ...row, balance_due_ars: roundTo2(row.balance_due_ars) })),
+    total_balance_due_ars: roundTo2(aging.reduce((sum, row) => sum + row.balance_due_ars, 0)),
+    customers
+  });
+});
+
+router.get('/accounts-receivable/customers/:customerId/statement', requireRole('admin'), async (req, res) => {
+  const parsed = statementQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    return res.status(400).json({ error: { code: 'validation_error', message: 'Invalid statement query', details: parsed.error.flatten() } });
+  }
+
+  const { data: customer, error: customerError } = await supabaseAdmin
+    .from('customers')
+    .select('id, name, phone, dni')
+    .eq('id', req.params.customerId)
+    .maybeSingle();
+
+  if (customerError) {
+    return res.status(400).json({ error: { code: 'finance_fetch_failed', message: 'Customer query failed', details: customerError.message } });
+  }
+  if (!customer) {
+    return res.status(404).json({ error: { code: 'not_found', message: 'Customer not found' } });
+  }
+
+  const { data: sales, error: salesError } = await supabaseAdmin
+    .from('sales')
+    .select('id, sale_date, total_ars, balance_due_ars, fx_rate_used')
+    .eq('customer_id', customer.id)
+    .eq('status', 'completed')
+    .order('sale_date', { ascending: true });
+
+  if (salesError) {
+    return res.status(400).json({ error: { code: 'finance_fetch_failed', message: 'Sales query failed', details: salesError.message } });
+  }
+
+  const saleIds = (sales ?? []).map((sale) => sale.id);
+  let payments: StatementPayment[] = [];
+  let reversals: StatementReversal[] = [];
+  let returns: StatementReturn[] = [];
+
+  if (saleIds.length > 0) {
+    const [paymentsResult, reversalsResult, returnsResult] = await Promise.all([
+      supabaseAdmin.from('sale_payments').select('sale_id, method, currency, amount, created_at').in('sale_id', saleIds),
+      supabaseAdmin.from('sale_payment_reversals').select('sale_id, kind, currency, amount, created_at').in('sale_id', saleIds),
+      supabaseAdmin.from('sale_returns').select('sale_id, total_before_ars, total_after_ars, refund_ars, created_at').in('sale_id', saleIds)
+    ]);
+
+    const failed = paymentsResult.error ?? reversalsResult.error ?? returnsResult.error;
+    if (failed) {
+      return res.status(400).json({ error: { code: 'finance_fetch_failed', message: 'Statement query failed', details: failed.message } });
+    }
+
+    payments = (paymentsResult.data ?? []) as StatementPayment[];
+    reversals = (reversalsResult.data ?? []) as StatementReversal[];
+    returns = (returnsResult.data ?? []) as StatementReturn[];
+  }
+
+  const statement = buildCustomerStatement({
+    customer,
+    sales: (sales ?? []) as StatementSale[],
+    payments,
+    reversals,
+    returns
+  });
+
+  if (parsed.data.format === 'json') {
+    return res.json({ statement });
+  }
+
+  const fileDate = statement.generated_at.slice(0, 10);
+  res.setHeader('Content-Type', 'application/pdf');
+  res.setHeader('Content-Disposition', `attachment; filename="estado-de-cuenta-${customer.id.slice(0, 8)}-${fileDate}.pdf"`);
+  writeCustomerStatementPdf(statement, res);
+});
+
+// Discount = list price (stock_items.sale_price_ars at sale time) minus the price actually charged.
+router.get('/discounts', requireRole('admin'), async (req, res) => {
+  const parsed = querySchema.safeParse(req.query);
+  if (!parsed.success) {
+    return res.status(400).json({ error: { code: 'validation_error', message: 'Invalid date range', details: parsed.error.flatten() } });
+  }
+
+  const { from, to } = parsed.data;
+  const { data: saleItems, error } = await fetchSaleItemsForDiscounts(from, to);
+  if (error) {
+    return res.status(400).json({
+      error: {
+        code: 'finance_fetch_failed',
+        message: 'Sale items query failed',
+        details: formatFinanceErrorDetails(error)
+      }
+    });
+  }
+
+  const bySeller = new Map<string, SellerDiscountRow & { sale_ids: Set<string> }>();
+  for (const item of saleItems ?? []) {
+    const sale = Array.isArray(item.sales) ? item.sales[0] : item.sales;
+    const sellerKey = sale?.seller_id ?? 'unknown';
+    const qty = Number(item.qty ?? 1);
+    const subtotal = Number(item.subtotal_ars ?? Number(item.sale_price_ars ?? 0) * qty);
+    const discount = Number(item.discount_ars ?? 0);
+    const promoDiscount = Number(item.promo_discount_ars ?? 0);
+    const listTotal = item.list_price_ars === null ? subtotal : Number(item.list_price_ars) * qty;
+
+    const row = bySeller.get(sellerKey) ?? {
+      seller_id: sale?.seller_id ?? null,
+      seller_name: null,
+      sales_count: 0,
+      items_count: 0,
+      list_total_ars: 0,
+      sold_total_ars: 0,
+      discount_total_ars: 0,
+      manual_discount_ars: 0,
+      promo_discount_ars: 0,
+      discount_pct: 0,
+      sale_ids: new Set<string>()
+    };
+
+    if (sale?.id) row.sale_ids.add(sale.id);
+    row.items_count += qty;
+    row.list_total_ars += listTotal;
+    row.sold_total_ars += subtotal;
+    row.discount_total_ars += discount;
+    row.promo_discount_ars += Math.min(promoDiscount, discount);
+    bySeller.set(sellerKey, row);
+  }
+
+  const sellerIds = [...bySeller.values()]
+    .map((row) => row.seller_id)
+    .filter((id): id is string => Boolean(id));
+  const sellerNames = new Map<string, string | null>();
+  if (sellerIds.length > 0) {
+    const { data: profiles, error: profilesError } = await supabaseAdmin
+      .from('profiles')
+      .select('id, full_name')
+      .in('id', sellerIds);
+
+    if (profilesError) {
+      return res.status(400).json({ error: { code: 'finance_fetch_failed', message: 'Profiles query failed', details: profilesError.message } });
+    }
+    for (const profile of profiles ?? []) {
+      sellerNames.set(profile.id, profile.full_name ?? null);
+    }
+  }
+
+  const sellers: SellerDiscountRow[] = [...bySeller.values()]
+    .map(({ sale_ids: saleIds, ...row }) => ({
+      ...row,
+      seller_name: row.seller_id ? sellerNames.get(row.seller_id) ?? null : null,
+      sales_count: saleIds.size,
+      manual_discount_ars: row.discount_total_ars - row.promo_discount_ars,
+      discount_pct: row.list_total_ars > 0 ? Math.round((row.discount_total_ars / row.list_total_ars) * 10000) / 100 : 0
+    }))
+    .sort((a, b) => b.discount_total_ars - a.discount_total_ars);
+
+  const totals = sellers.reduce((acc, row) => ({
+    list_total_ars: acc.list_total_ars + row.list_total_ars,
+    sold_total_ars: acc.sold_total_ars + row.sold_total_ars,
+    discount_total_ars: acc.discount_total_ars + row.discount_total_ars,
+    manual_discount_ars: acc.manual_discount_ars + row.manual_discount_ars,
+    promo_discount_ars: acc.promo_discount_ars + row.promo_discount_ars
+  }), { list_total_ars: 0, sold_total_ars: 0, discount_total_ars: 0, manual_discount_ars: 0, promo_discount_ars: 0 });
+
+  return res.json({ from, to, totals, sellers });
+});
+
+router.get('/commissions', requireRole('admin'), async (req, res) => {
+  const parsed = querySchema.safeParse(req.query);
+  if (!parsed.success) {
+    return res.status(400).json({ error: { code: 'validation_error', message: 'Invalid date range', details: parsed.error.flatten() } });
+  }
+
+  const { from, to } = parsed.data;
+
+  const { data: rules, error: rulesError } = await fetchActiveCommissionRules();
+  if (rulesError || !rules) {
+    return res.status(400).json({ error: { code: 'finance_fetch_failed', message: 'Commission rules query failed', details: rulesError?.message } });
+  }
+
+  const { data: saleItems, error: itemsError } = await fetchSaleItemsForCommissions(from, to);
+  if (itemsError) {
+    return res.status(400).json({
+      error: {
+        code: 'finance_fetch_failed',
+        message: 'Sale items query failed',
+        details: formatFinanceErrorDetails(itemsError)
+      }
+    });
+  }
+
+  const { data: returnedItems, error: returnsError } = await fetchReturnedItemsForClawback(from, to);
+  if (returnsError) {
+    return res.status(400).json({
+      error: {
+        code: 'finance_fetch_failed',
+        message: 'Returned items query failed',
+        details: formatFinanceErrorDetails(returnsError)
+      }
+    });
+  }
+
+  const { data: cancelledItems, error: cancelledError } = await fetchCancelledItemsForClawback(from, to);
+  if (cancelledError) {
+    return res.status(400).json({
+      error: {
+        code: 'finance_fetch_failed',
+        message: 'Cancelled sale items query failed',
+        details: formatFinanceErrorDetails(cancelledError)
+      }
+    });
+  }
+
+  const clawbackItems = [...(returnedItems ?? []), ...(cancelledItems ?? [])];
+
+  const sellerIds = new Set<string>();
+  for (const item of [...(saleItems ?? []), ...clawbackItems]) {
+    const sale = Array.isArray(item.sales) ? item.sales[0] : item.sales;
+    if (sale?.seller_id) sellerIds.add(sale.seller_id);
+  }
+
+  const profilesById = new Map<string, { full_name: string | null; role: string | null }>();
+  if (sellerIds.size > 0) {
+    const { data: profiles, error: profilesError } = await supabaseAdmin
+      .from('profiles')
+      .select('id, full_name, role')
+      .in('id', [...sellerIds]);
+
+    if (profilesError) {
+      return res.status(400).json({ error: { code: 'finance_fetch_failed', message: 'Profiles query failed', details: profilesError.message } });
+    }
+    for (const profile of profiles ?? []) {
+      profilesById.set(profile.id, { full_name: profile.full_name ?? null, role: profile.role ?? null });
+    }
+  }
+
+  const bySeller = new Map<string, SellerCommissionRow & { sale_ids: Set<string> }>();
+  const rowFor = (sellerId: string | null) => {
+    const key = sellerId ?? 'unknown';
+    const existing = bySeller.get(key);
+    if (existing) return existing;
+
+    const profile = sellerId ? profilesById.get(sellerId) : undefined;
+    const created = {
+      seller_id: sellerId,
+      seller_name: profile?.full_name ?? null,
+      role: profile?.role ?? null,
+      sales_count: 0,
+      items_count: 0,
+      sales_total_ars: 0,
+      margin_total_ars: 0,
+      commission_ars: 0,
+      clawback_items_count: 0,
+      clawback_ars: 0,
+      net_commission_ars: 0,
+      sale_ids: new Set<string>()
+    };
+    bySeller.set(key, created);
+    return created;
+  };
+
+  for (const item of saleItems ?? []) {
+    const sale = Array.isArray(item.sales) ? item.sales[0] : item.sales;
+    const row = rowFor(sale?.seller_id ?? null);
+    const commissionItem = toCommissionItem(item);
+    const rule = resolveCommissionRule(rules, row.seller_id, row.role, commissionItem.category);
+
+    if (sale?.id) row.sale_ids.add(sale.id);
+    row.items_count += commissionItem.qty;
+    row.sales_total_ars += commissionItem.subtotal_ars;
+    row.margin_total_ars += commissionItem.subtotal_ars - (commissionItem.unit_cost_ars * commissionItem.qty);
+    row.commission_ars += computeItemCommission(rule, commissionItem);
+  }
+
+  for (const item of clawbackItems) {
+    const sale = Array.isArray(item.sales) ? item.sales[0] : item.sales;
+    const row = rowFor(sale?.seller_id ?? null);
+    const commissionItem = toCommissionItem(item);
+    const rule = resolveCommissionRule(rules, row.seller_id, row.role, commissionItem.category);
+
+    row.clawback_items_count += commissionItem.qty;
+    row.clawback_ars += computeItemCommission(rule, commissionItem);
+  }
+
+  const sellers: SellerCommissionRow[] = [...bySeller.values()]
+    .map(({ sale_ids: saleIds, ...row }) => ({
+      ...row,
+      sales_count: saleIds.size,
+      sales_total_ars: roundTo2(row.sales_total_ars),
+      margin_total_ars: roundTo2(row.margin_total_ars),
+      commission_ars: roundTo2(row.commission_ars),
+      clawback_ars: roundTo2(row.clawback_ars),
+      net_commission_ars: roundTo2(row.commission_ars - row.clawback_ars)
+    }))
+    .sort((a, b) => b.net_commission_ars - a.net_commission_ars);
+
+  const totals = sellers.reduce((acc, row) => ({
+    commission_ars: roundTo2(acc.commission_ars + row.commission_ars),
+    clawback_ars: roundTo2(acc.clawback_ars + row.clawback_ars),
+    net_commission_ars: roundTo2(acc.net_commission_ars + row.net_commission_ars)
+  }), { commission_ars: 0, clawback_ars: 0, net_commission_ars: 0 });
+
+  return res.json({ from, to, totals, sellers });
 });
 
 export const financeRouter = router;
@@ -0,0 +1,288 @@
+import PDFDocument from 'pdfkit';
+import { formatArs, formatDateAr, formatDateTimeAr, formatMoney } from '../../lib/arFormat.js';
+import { STORE_PROFILE, type StoreProfile } from '../../lib/storeProfile.js';
+import { formatSaleNumber, PAYMENT_METHOD_LABELS } from '../sales/receipt.js';
+
+export type StatementSale = {
+  id: string;
+  sale_date: string;
+  total_ars: number | null;
+  balance_due_ars: number | null;
+  fx_rate_used: number | null;
+};
+
+export type StatementPayment = {
+  sale_id: string;
+  method: string | null;
+  currency: string | null;
+  amount: number | null;
+  created_at: string;
+};
+
+export type StatementReversal = {
+  sale_id: string;
+  kind: string | null;
+  currency: string | null;
+  amount: number | null;
+  created_at: string;
+};
+
+export type StatementReturn = {
+  sale_id: string;
+  total_before_ars: number | null;
+  total_after_ars: number | null;
+  refund_ars: number | null;
+  created_at: string;
+};
+
+export type StatementEntry = {
+  date: string;
+  type: 'sale' | 'payment' | 'reversal' | 'return' | 'refund';
+  sale_id: string;
+  sale_number: string;
+  description: string;
+  currency: string;
+  amount: number;
+  debit_ars: number;
+  credit_ars: number;
+  balance_ars: number;
+};
+
+export type CustomerStatement = {
+  store: StoreProfile;
+  generated_at: string;
+  customer: { id: string; name: string | null; phone: string | null; dni: string | null };
+  entries: StatementEntry[];
+  totals: { debit_ars: number; credit_ars: number; balance_ars: number; balance_due_ars: number };
+};
+
+// Same-timestamp entries keep the sale first so the running balance never dips below zero artificially.
+const ENTRY_ORDER: Record<StatementEntry['type'], number> = {
+  sale: 0,
+  payment: 1,
+  reversal: 2,
+  return: 3,
+  refund: 4
+};
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function toArs(amount: number, currency: string, fxRate: number | null): number {
+  return currency === 'USD' ? amount * Number(fxRate ?? 0) : amount;
+}
+
+/**
+ * Ledger of every completed sale for the customer: sales and reintegros are debits, payments and returned
+ * items are credits. USD movements are converted with the sale's own fx_rate_used, as the receivable RPCs do.
+ */
+export function buildCustomerStatement(input: {
+  customer: CustomerStatement['customer'];
+  sales: StatementSale[];
+  payments: StatementPayment[];
+  reversals: StatementReversal[];
+  returns: StatementReturn[];
+}): CustomerStatement {
+  const salesById = new Map(input.sales.map((sale) => [sale.id, sale]));
+  const returnedBySale = new Map<string, number>();
+  for (const saleReturn of input.returns) {
+    const returned = Number(saleReturn.total_before_ars ?? 0) - Number(saleReturn.total_after_ars ?? 0);
+    returnedBySale.set(saleReturn.sale_id, (returnedBySale.get(saleReturn.sale_id) ?? 0) + returned);
+  }
+
+  const entries: Omit<StatementEntry, 'balance_ars'>[] = [];
+
+  for (const sale of input.sales) {
+    // total_ars is already net of returns; the original amount is restored so the return shows as its own line.
+    const originalTotal = Number(sale.total_ars ?? 0) + (returnedBySale.get(sale.id) ?? 0);
+    entries.push({
+      date: sale.sale_date,
+      type: 'sale',
+      sale_id: sale.id,
+      sale_number: formatSaleNumber(sale.id),
+      description: `Venta N° ${formatSaleNumber(sale.id)}`,
+      currency: 'ARS',
+      amount: round2(originalTotal),
+      debit_ars: round2(originalTotal),
+      credit_ars: 0
+    });
+  }
+
+  for (const payment of input.payments) {
+    const sale = salesById.get(payment.sale_id);
+    if (!sale) continue;
+    const currency = String(payment.currency ?? 'ARS').toUpperCase();
+    const amount = Number(payment.amount ?? 0);
+    const method = String(payment.method ?? 'unknown');
+    entries.push({
+      date: payment.created_at,
+      type: 'payment',
+      sale_id: sale.id,
+      sale_number: formatSaleNumber(sale.id),
+      description: `Pago ${PAYMENT_METHOD_LABELS[method] ?? method}`,
+      currency,
+      amount,
+      debit_ars: 0,
+      credit_ars: round2(toArs(amount, currency, sale.fx_rate_used))
+    });
+  }
+
+  for (const reversal of input.reversals) {
+    const sale = salesById.get(reversal.sale_id);
+    if (!sale) continue;
+    const currency = String(reversal.currency ?? 'ARS').toUpperCase();
+    const amount = Number(reversal.amount ?? 0);
+    entries.push({
+      date: reversal.created_at,
+      type: 'reversal',
+      sale_id: sale.id,
+      sale_number: formatSaleNumber(sale.id),
+      description: reversal.kind === 'refund' ? 'Devolución de pago' : 'Anulación de pago',
+      currency,
+      amount,
+      debit_ars: round2(toArs(amount, currency, sale.fx_rate_used)),
+      credit_ars: 0
+    });
+  }
+
+  for (const saleReturn of input.returns) {
+    if (!salesById.has(saleReturn.sale_id)) continue;
+    const returned = Number(saleReturn.total_before_ars ?? 0) - Number(saleReturn.total_after_ars ?? 0);
+    const refunded = Number(saleReturn.refund_ars ?? 0);
+    const saleNumber = formatSaleNumber(saleReturn.sale_id);
+    if (returned > 0) {
+      entries.push({
+        date: saleReturn.created_at,
+        type: 'return',
+        sale_id: saleReturn.sale_id,
+        sale_number: saleNumber,
+        description: 'Devolución de equipos',
+        currency: 'ARS',
+        amount: round2(returned),
+        debit_ars: 0,
+        credit_ars: round2(returned)
+      });
+    }
+    if (refunded > 0) {
+      entries.push({
+        date: saleReturn.created_at,
+        type: 'refund',
+        sale_id: saleReturn.sale_id,
+        sale_number: saleNumber,
+        description: 'Reintegro al cliente',
+        currency: 'ARS',
+        amount: round2(refunded),
+        debit_ars: round2(refunded),
+        credit_ars: 0
+      });
+    }
+  }
+
+  entries.sort((a, b) => a.date.localeCompare(b.date) || ENTRY_ORDER[a.type] - ENTRY_ORDER[b.type]);
+
+  let balance = 0;
+  let debitTotal = 0;
+  let creditTotal = 0;
+  const withBalance = entries.map((entry) => {
+    debitTotal += entry.debit_ars;
+    creditTotal += entry.credit_ars;
+    balance += entry.debit_ars - entry.credit_ars;
+    return { ...entry, balance_ars: round2(balance) };
+  });
+
+  return {
+    store: STORE_PROFILE,
+    generated_at: new Date().toISOString(),
+    customer: input.customer,
+    entries: withBalance,
+    totals: {
+      debit_ars: round2(debitTotal),
+      credit_ars: round2(creditTotal),
+      balance_ars: round2(balance),
+      balance_due_ars: round2(input.sales.reduce((sum, sale) => sum + Number(sale.balance_due_ars ?? 0), 0))
+    }
+  };
+}
+
+export function writeCustomerStatementPdf(statement: CustomerStatement, output: NodeJS.WritableStream): void {
+  const doc = new PDFDocument({ size: 'A4', margin: 40 });
+  doc.pipe(output);
+
+  const left = doc.page.margins.left;
+  const width = doc.page.width - doc.page.margins.left - doc.page.margins.right;
+  const columns = [
+    { label: 'Fecha', width: 0.14, align: 'left' as const },
+    { label: 'Concepto', width: 0.36, align: 'left' as const },
+    { label: 'Debe', width: 0.16, align: 'right' as const },
+    { label: 'Haber', width: 0.16, align: 'right' as const },
+    { label: 'Saldo', width: 0.18, align: 'right' as const }
+  ];
+
+  const line = () => {
+    doc.moveDown(0.3);
+    doc.moveTo(left, doc.y).lineTo(left + width, doc.y).strokeColor('#cccccc').stroke();
+    doc.moveDown(0.3);
+  };
+
+  const tableRow = (values: string[], options: { bold?: boolean; size?: number } = {}) => {
+    if (doc.y > doc.page.height - doc.page.margins.bottom - 30) {
+      doc.addPage();
+    }
+    const y = doc.y;
+    let x = left;
+    let bottom = y;
+    doc.font(options.bold ? 'Helvetica-Bold' : 'Helvetica').fontSize(options.size ?? 9);
+    values.forEach((value, index) => {
+      const column = columns[index];
+      const columnWidth = width * column.width;
+      doc.text(value, x, y, { width: columnWidth - 4, align: column.align });
+      bottom = Math.max(bottom, doc.y);
+      x += columnWidth;
+    });
+    doc.y = bottom + 2;
+  };
+
+  doc.font('Helvetica-Bold').fontSize(18).fillColor('#111111').text(statement.store.name, left);
+  doc.font('Helvetica').fontSize(9).fillColor('#444444');
+  for (const headerLine of [statement.store.address, statement.store.phone, statement.store.tax_id ? `CUIT ${statement.store.tax_id}` : null]) {
+    if (headerLine) doc.text(headerLine, left);
+  }
+  doc.fillColor('#111111').moveDown(0.5);
+  doc.font('Helvetica-Bold').fontSize(13).text('Estado de cuenta', left);
+  doc.font('Helvetica').fontSize(9).fillColor('#555555').text(`Emitido ${formatDateTimeAr(statement.generated_at)}`, left);
+  doc.fillColor('#111111').fontSize(10).moveDown(0.5);
+  doc.text(statement.customer.name ?? '-', left);
+  if (statement.customer.phone) doc.text(`Tel. ${statement.customer.phone}`, left);
+  if (statement.customer.dni) doc.text(`DNI ${statement.customer.dni}`, left);
+
+  doc.moveDown(0.8);
+  tableRow(columns.map((column) => column.label), { bold: true });
+  line();
+
+  if (statement.entries.length === 0) {
+    doc.font('Helvetica').fontSize(10).text('Sin movimientos registrados', left);
+  }
+
+  for (const entry of statement.entries) {
+    const concept = entry.currency === 'USD'
+      ? `${entry.description} (${formatMoney(entry.amount, 'USD')}) · N° ${entry.sale_number}`
+      : `${entry.description} · N° ${entry.sale_number}`;
+    tableRow([
+      formatDateAr(entry.date),
+      concept,
+      entry.debit_ars ? formatArs(entry.debit_ars) : '',
+      entry.credit_ars ? formatArs(entry.credit_ars) : '',
+      formatArs(entry.balance_ars)
+    ]);
+  }
+
+  line();
+  tableRow(['', 'Totales', formatArs(statement.totals.debit_ars), formatArs(statement.totals.credit_ars), formatArs(statement.totals.balance_ars)], { bold: true });
+  doc.moveDown(0.5);
+  doc.font('Helvetica-Bold').fontSize(11).text(`Saldo pendiente: ${formatArs(statement.totals.balance_due_ars)}`, left, doc.y, { width, align: 'right' });
+
+  doc.moveDown(2);
+  doc.font('Helvetica').fontSize(8).fillColor('#666666').text(statement.store.footer, left, doc.y, { width, align: 'center' });
+  doc.end();
+}
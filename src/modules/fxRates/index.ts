@@ -0,0 +1,187 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { supabaseAdmin } from '../../lib/supabaseAdmin.js';
+import { toStoreIsoDate } from '../../lib/arFormat.js';
+import { requireRole } from '../../middleware/rbac.js';
+
+const router = Router();
+const FX_RATE_COLUMNS = 'id, rate_date, rate_type, rate, source, notes, created_by, created_at, updated_at';
+
+const rateTypeEnum = z.enum(['blue', 'oficial', 'card', 'mep']);
+export type FxRateType = z.infer<typeof rateTypeEnum>;
+
+const parsedDefaultType = rateTypeEnum.safeParse(process.env.FX_DEFAULT_RATE_TYPE?.trim());
+export const DEFAULT_FX_RATE_TYPE: FxRateType = parsedDefaultType.success ? parsedDefaultType.data : 'blue';
+
+export type StoredFxRate = {
+  id: string;
+  rate_date: string;
+  rate_type: FxRateType;
+  rate: number;
+};
+
+function logValidationError(details: unknown): void {
+  // eslint-disable-next-line no-console
+  console.error(JSON.stringify({
+    level: 'warn',
+    event: 'validation_error',
+    scope: 'fx-rates',
+    details,
+    timestamp: new Date().toISOString()
+  }));
+}
+
+const listSchema = z.object({
+  from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  rate_type: rateTypeEnum.optional()
+});
+
+const currentSchema = z.object({
+  rate_type: rateTypeEnum.optional()
+});
+
+const fxRateSchema = z.object({
+  rate_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  rate_type: rateTypeEnum,
+  rate: z.number().positive(),
+  source: z.string().trim().max(120).nullable().optional(),
+  notes: z.string().trim().max(500).nullable().optional()
+});
+
+/**
+ * Latest stored quote of the given type dated on or before today (store time zone).
+ * `data: null` without error means no rate was ever loaded for that type.
+ */
+export async function resolveCurrentFxRate(rateType: FxRateType = DEFAULT_FX_RATE_TYPE) {
+  const { data, error } = await supabaseAdmin
+    .from('fx_rates')
+    .select('id, rate_date, rate_type, rate')
+    .eq('rate_type', rateType)
+    .lte('rate_date', toStoreIsoDate())
+    .order('rate_date', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error || !data) {
+    return { data: null, error };
+  }
+
+  return { data: { ...data, rate: Number(data.rate) } as StoredFxRate, error: null };
+}
+
+router.get('/', requireRole('seller'), async (req, res) => {
+  const parsed = listSchema.safeParse(req.query);
+  if (!parsed.success) {
+    logValidationError(parsed.error.flatten());
+    return res.status(400).json({ error: { code: 'validation_error', message: 'Invalid query params', details: parsed.error.flatten() } });
+  }
+
+  const { from, to, rate_type: rateType } = parsed.data;
+  let query = supabaseAdmin
+    .from('fx_rates')
+    .select(FX_RATE_COLUMNS);
+
+  if (from) query = query.gte('rate_date', from);
+  if (to) query = query.lte('rate_date', to);
+  if (rateType) query = query.eq('rate_type', rateType);
+
+  const { data, error } = await query
+    .order('rate_date', { ascending: false })
+    .order('rate_type', { ascending: true })
+    .limit(500);
+
+  if (error) {
+    return res.status(400).json({ error: { code: 'fx_rates_fetch_failed', message: 'Fetch failed', details: error.message } });
+  }
+
+  return res.json({ rates: data ?? [] });
+});
+
+router.get('/current', requireRole('seller'), async (req, res) => {
+  const parsed = currentSchema.safeParse(req.query);
+  if (!parsed.success) {
+    logValidationError(parsed.error.flatten());
+    return res.status(400).json({ error: { code: 'validation_error', message: 'Invalid query params', details: parsed.error.flatten() } });
+  }
+
+  const rateType = parsed.data.rate_type ?? DEFAULT_FX_RATE_TYPE;
+  const { data, error } = await resolveCurrentFxRate(rateType);
+  if (error) {
+    return res.status(400).json({ error: { code: 'fx_rates_fetch_failed', message: 'Fetch failed', details: error.message } });
+  }
+  if (!data) {
+    return res.status(404).json({ error: { code: 'not_found', message: 'No stored fx rate', details: rateType } });
+  }
+
+  return res.json({ rate: data });
+});
+
+router.post('/', requireRole('admin'), async (req, res) => {
+  const parsed = fxRateSchema.safeParse(req.body);
+  if (!parsed.success) {
+    logValidationError(parsed.error.flatten());
+    return res.status(400).json({ error: { code: 'validation_error', message: 'Invalid fx rate payload', details: parsed.error.flatten() } });
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('fx_rates')
+    .insert({
+      ...parsed.data,
+      rate_date: parsed.data.rate_date ?? toStoreIsoDate(),
+      created_by: req.user?.id ?? null
+    })
+    .select(FX_RATE_COLUMNS)
+    .single();
+
+  if (error || !data) {
+    if (error?.code === '23505') {
+      return res.status(409).json({ error: { code: 'conflict', message: 'A rate for that date and type already exists', details: error.message } });
+    }
+    return res.status(400).json({ error: { code: 'fx_rate_create_failed', message: 'Insert failed', details: error?.message } });
+  }
+
+  return res.status(201).json({ rate: data });
+});
+
+router.patch('/:id', requireRole('admin'), async (req, res) => {
+  const parsed = fxRateSchema.partial().safeParse(req.body);
+  if (!parsed.success) {
+    logValidationError(parsed.error.flatten());
+    return res.status(400).json({ error: { code: 'validation_error', message: 'Invalid fx rate patch', details: parsed.error.flatten() } });
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('fx_rates')
+    .update(parsed.data)
+    .eq('id', req.params.id)
+    .select(FX_RATE_COLUMNS)
+    .maybeSingle();
+
+  if (error) {
+    if (error.code === '23505') {
+      return res.status(409).json({ error: { code: 'conflict', message: 'A rate for that date and type already exists', details: error.message } });
+    }
+    return res.status(400).json({ error: { code: 'fx_rate_update_failed', message: 'Update failed', details: error.message } });
+  }
+  if (!data) {
+    return res.status(404).json({ error: { code: 'not_found', message: 'Fx rate not found' } });
+  }
+
+  return res.json({ rate: data });
+});
+
+router.delete('/:id', requireRole('admin'), async (req, res) => {
+  const { error } = await supabaseAdmin
+    .from('fx_rates')
+    .delete()
+    .eq('id', req.params.id);
+
+  if (error) {
+    return res.status(400).json({ error: { code: 'fx_rate_delete_failed', message: 'Delete failed', details: error.message } });
+  }
+
+  return res.status(204).send();
+});
+
+export const fxRatesRouter = router;
@@ -0,0 +1,82 @@
+import { roundTo2 } from '../rules/pricing.js';
+
+export type PromoCodeRow = {
+  id: string;
+  code: string;
+  discount_type: 'percent' | 'fixed';
+  discount_value: number;
+  min_total_ars: number | null;
+  starts_at: string | null;
+  ends_at: string | null;
+  max_uses: number | null;
+  uses_count: number;
+  is_active: boolean;
+};
+
+export type PromoApplication = {
+  promo_code_id: string;
+  code: string;
+  subtotal_before_ars: number;
+  discount_ars: number;
+  items: Array<{ stock_item_id: string; promo_discount_ars: number }>;
+};
+
+type PromoItem = {
+  stock_item_id: string;
+  qty: number;
+  sale_price_ars: number;
+};
+
+export function normalizePromoCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+/** Returns the reason a code cannot be used right now, or null when it applies. */
+export function checkPromoCodeAvailability(promo: PromoCodeRow, subtotalArs: number, now = new Date()): string | null {
+  if (!promo.is_active) return 'promo_code_inactive';
+  if (promo.starts_at && new Date(promo.starts_at) > now) return 'promo_code_not_started';
+  if (promo.ends_at && new Date(promo.ends_at) <= now) return 'promo_code_expired';
+  if (promo.max_uses !== null && promo.uses_count >= promo.max_uses) return 'promo_code_exhausted';
+  if (promo.min_total_ars !== null && subtotalArs < Number(promo.min_total_ars)) return 'promo_code_min_total';
+  return null;
+}
+
+export function computePromoDiscount(promo: PromoCodeRow, subtotalArs: number): number {
+  if (promo.discount_type === 'percent') {
+    return roundTo2(subtotalArs * Number(promo.discount_value) / 100);
+  }
+  return Math.min(Number(promo.discount_value), subtotalArs);
+}
+
+/**
+ * Splits the discount across items proportionally to their subtotal; the last item absorbs rounding.
+ * Returns item prices with the discount already applied, which is what gets stored as sale_price_ars.
+ */
+export function applyPromoCode<T extends PromoItem>(promo: PromoCodeRow, items: T[]): { items: T[]; application: PromoApplication } {
+  const subtotal = roundTo2(items.reduce((sum, item) => sum + (item.qty * item.sale_price_ars), 0));
+  const discount = computePromoDiscount(promo, subtotal);
+  let remaining = discount;
+
+  const split = items.map((item, index) => {
+    const lineTotal = item.qty * item.sale_price_ars;
+    const share = index === items.length - 1
+      ? roundTo2(remaining)
+      : roundTo2(subtotal > 0 ? discount * lineTotal / subtotal : 0);
+    remaining -= share;
+    return { item, share };
+  });
+
+  return {
+    items: split.map(({ item, share }) => ({
+      ...item,
+      sale_price_ars: roundTo2(item.sale_price_ars - (share / item.qty))
+    })),
+    application: {
+      promo_code_id: promo.id,
+      code: promo.code,
+      subtotal_before_ars: subtotal,
+      discount_ars: discount,
+      items: split.map(({ item, share }) => ({ stock_item_id: item.stock_item_id, promo_discount_ars: share }))
+    }
+  };
+}
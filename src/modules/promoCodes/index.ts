@@ -0,0 +1,218 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { supabaseAdmin } from '../../lib/supabaseAdmin.js';
+import { requireRole } from '../../middleware/rbac.js';
+import { roundTo2 } from '../rules/pricing.js';
+import { checkPromoCodeAvailability, computePromoDiscount, normalizePromoCode } from './discount.js';
+import type { PromoCodeRow } from './discount.js';
+
+const router = Router();
+
+type RestError = {
+  code?: string;
+  message?: string;
+  details?: string;
+};
+
+const PROMO_CODE_COLUMNS = 'id, code, description, discount_type, discount_value, min_total_ars, starts_at, ends_at, max_uses, uses_count, is_active, created_at, updated_at';
+
+function logValidationError(details: unknown): void {
+  // eslint-disable-next-line no-console
+  console.error(JSON.stringify({
+    level: 'warn',
+    event: 'validation_error',
+    scope: 'promo-codes',
+    details,
+    timestamp: new Date().toISOString()
+  }));
+}
+
+function mapPromoCodeError(error: RestError, fallbackCode: string, fallbackMessage: string) {
+  if (error.code === '23505') {
+    return { status: 409, body: { error: { code: 'conflict', message: 'Promo code already exists', details: error.message } } };
+  }
+  if (error.code === '23514') {
+    return { status: 400, body: { error: { code: 'validation_error', message: 'Invalid promo code', details: error.message } } };
+  }
+  return { status: 400, body: { error: { code: fallbackCode, message: fallbackMessage, details: error.message } } };
+}
+
+const promoCodeBaseSchema = z.object({
+  code: z.string().trim().min(3).max(40).regex(/^[A-Za-z0-9_-]+$/).transform((value) => value.toUpperCase()),
+  description: z.string().trim().max(500).nullable().optional(),
+  discount_type: z.enum(['percent', 'fixed']),
+  discount_value: z.coerce.number().positive(),
+  min_total_ars: z.coerce.number().positive().nullable().optional(),
+  starts_at: z.string().datetime().nullable().optional(),
+  ends_at: z.string().datetime().nullable().optional(),
+  max_uses: z.coerce.number().int().positive().nullable().optional(),
+  is_active: z.boolean().default(true)
+});
+
+function refinePromoCode(value: Partial<z.infer<typeof promoCodeBaseSchema>>, ctx: z.RefinementCtx) {
+  if (value.discount_type === 'percent' && value.discount_value !== undefined && value.discount_value > 100) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'percent_must_be_lte_100', path: ['discount_value'] });
+  }
+  if (value.starts_at && value.ends_at && new Date(value.ends_at) <= new Date(value.starts_at)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'ends_at_must_be_after_starts_at', path: ['ends_at'] });
+  }
+}
+
+const promoCodeCreateSchema = promoCodeBaseSchema.superRefine(refinePromoCode);
+const promoCodePatchSchema = promoCodeBaseSchema.partial().superRefine(refinePromoCode);
+
+const promoCodeListQuerySchema = z.object({
+  active: z.enum(['true', 'false']).optional()
+});
+
+export async function findPromoCode(code: string) {
+  const { data, error } = await supabaseAdmin
+    .from('promo_codes')
+    .select(PROMO_CODE_COLUMNS)
+    .eq('code', normalizePromoCode(code))
+    .maybeSingle();
+
+  return { data: data as PromoCodeRow | null, error };
+}
+
+router.get('/', requireRole('admin'), async (req, res) => {
+  const parsedQuery = promoCodeListQuerySchema.safeParse(req.query);
+  if (!parsedQuery.success) {
+    logValidationError(parsedQuery.error.flatten());
+    return res.status(400).json({ error: { code: 'validation_error', message: 'Invalid promo codes query', details: parsedQuery.error.flatten() } });
+  }
+
+  let query = supabaseAdmin
+    .from('promo_codes')
+    .select(PROMO_CODE_COLUMNS)
+    .order('created_at', { ascending: false });
+
+  if (parsedQuery.data.active) {
+    query = query.eq('is_active', parsedQuery.data.active === 'true');
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    const mapped = mapPromoCodeError(error, 'promo_codes_fetch_failed', 'Fetch failed');
+    return res.status(mapped.status).json(mapped.body);
+  }
+
+  return res.json({ promo_codes: data ?? [] });
+});
+
+// Sellers validate a code at the counter before checkout; the sale itself re-checks under lock.
+router.get('/validate', requireRole('seller'), async (req, res) => {
+  const parsedQuery = z.object({
+    code: z.string().trim().min(1),
+    subtotal_ars: z.coerce.number().positive()
+  }).safeParse(req.query);
+  if (!parsedQuery.success) {
+    logValidationError(parsedQuery.error.flatten());
+    return res.status(400).json({ error: { code: 'validation_error', message: 'Invalid promo code query', details: parsedQuery.error.flatten() } });
+  }
+
+  const { code, subtotal_ars: subtotalArs } = parsedQuery.data;
+  const { data: promo, error } = await findPromoCode(code);
+  if (error) {
+    const mapped = mapPromoCodeError(error, 'promo_codes_fetch_failed', 'Fetch failed');
+    return res.status(mapped.status).json(mapped.body);
+  }
+  if (!promo) {
+    return res.status(404).json({ error: { code: 'not_found', message: 'Promo code not found' } });
+  }
+
+  const reason = checkPromoCodeAvailability(promo, subtotalArs);
+  const discountArs = reason ? 0 : computePromoDiscount(promo, subtotalArs);
+
+  return res.json({
+    code: promo.code,
+    valid: reason === null,
+    reason,
+    discount_type: promo.discount_type,
+    discount_value: Number(promo.discount_value),
+    discount_ars: discountArs,
+    total_ars: roundTo2(subtotalArs - discountArs)
+  });
+});
+
+router.get('/:id', requireRole('admin'), async (req, res) => {
+  const { data, error } = await supabaseAdmin
+    .from('promo_codes')
+    .select(PROMO_CODE_COLUMNS)
+    .eq('id', req.params.id)
+    .maybeSingle();
+
+  if (error) {
+    const mapped = mapPromoCodeError(error, 'promo_codes_fetch_failed', 'Fetch failed');
+    return res.status(mapped.status).json(mapped.body);
+  }
+  if (!data) {
+    return res.status(404).json({ error: { code: 'not_found', message: 'Promo code not found' } });
+  }
+
+  const { data: redemptions, error: redemptionsError } = await supabaseAdmin
+    .from('promo_code_redemptions')
+    .select('id, sale_id, customer_id, subtotal_before_ars, discount_ars, redeemed_by, created_at')
+    .eq('promo_code_id', req.params.id)
+    .order('created_at', { ascending: false })
+    .limit(100);
+
+  if (redemptionsError) {
+    const mapped = mapPromoCodeError(redemptionsError, 'promo_codes_fetch_failed', 'Fetch failed');
+    return res.status(mapped.status).json(mapped.body);
+  }
+
+  return res.json({ promo_code: data, redemptions: redemptions ?? [] });
+});
+
+router.post('/', requireRole('admin'), async (req, res) => {
+  const parsed = promoCodeCreateSchema.safeParse(req.body);
+  if (!parsed.success) {
+    logValidationError(parsed.error.flatten());
+    return res.status(400).json({ error: { code: 'validation_error', message: 'Invalid promo code payload', details: parsed.error.flatten() } });
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('promo_codes')
+    .insert({ ...parsed.data, created_by: req.user?.id ?? null })
+    .select(PROMO_CODE_COLUMNS)
+    .single();
+
+  if (error || !data) {
+    const mapped = mapPromoCodeError(error ?? {}, 'promo_code_create_failed', 'Insert failed');
+    return res.status(mapped.status).json(mapped.body);
+  }
+
+  return res.status(201).json({ promo_code: data });
+});
+
+router.patch('/:id', requireRole('admin'), async (req, res) => {
+  const parsed = promoCodePatchSchema.safeParse(req.body);
+  if (!parsed.success) {
+    logValidationError(parsed.error.flatten());
+    return res.status(400).json({ error: { code: 'validation_error', message: 'Invalid promo code patch', details: parsed.error.flatten() } });
+  }
+
+  if (Object.keys(parsed.data).length === 0) {
+    return res.status(400).json({ error: { code: 'validation_error', message: 'Invalid promo code patch', details: 'empty_patch_payload' } });
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('promo_codes')
+    .update(parsed.data)
+    .eq('id', req.params.id)
+    .select(PROMO_CODE_COLUMNS)
+    .maybeSingle();
+
+  if (error) {
+    const mapped = mapPromoCodeError(error, 'promo_code_update_failed', 'Update failed');
+    return res.status(mapped.status).json(mapped.body);
+  }
+  if (!data) {
+    return res.status(404).json({ error: { code: 'not_found', message: 'Promo code not found' } });
+  }
+
+  return res.json({ promo_code: data });
+});
+
+export const promoCodesRouter = router;
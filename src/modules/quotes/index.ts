@@ -0,0 +1,628 @@
+import { randomInt } from 'node:crypto';
+import { Router } from 'express';
+import { z } from 'zod';
+import { supabaseAdmin } from '../../lib/supabaseAdmin.js';
+import { STORE_PROFILE } from '../../lib/storeProfile.js';
+import { requireRole } from '../../middleware/rbac.js';
+import { hashPayload, resolveIdempotencyKey } from '../../middleware/idempotency.js';
+import { findInstallmentRule, roundTo2 } from '../rules/pricing.js';
+import type { InstallmentRule } from '../rules/pricing.js';
+import { fetchActiveInstallmentRules } from '../rules/index.js';
+import {
+  currencySchema,
+  customerSchema,
+  paymentEntrySchema,
+  runCheckoutSale,
+  saleItemSchema,
+  tradeInSchema
+} from '../sales/index.js';
+
+const router = Router();
+const publicRouter = Router();
+const QUOTE_COLUMNS = 'id, share_code, status, customer_id, customer_name, customer_phone, seller_id, currency, fx_rate_used, subtotal_ars, trade_in_credit_ars, surcharge_ars, total_ars, payload, pricing, notes, expires_at, sale_id, converted_at, created_by, created_at, updated_at';
+const SHARE_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+// 16 characters from a 32-letter alphabet is 80 random bits, out of reach for guessing the public link.
+const SHARE_CODE_LENGTH = 16;
+const DEFAULT_EXPIRY_DAYS = (() => {
+  const parsed = Number(process.env.QUOTE_DEFAULT_DAYS);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : 3;
+})();
+
+type RestError = {
+  code?: string;
+  message?: string;
+  details?: string;
+  hint?: string;
+};
+
+type QuoteRow = {
+  id: string;
+  share_code: string;
+  status: string;
+  customer_id: string | null;
+  customer_name: string | null;
+  customer_phone: string | null;
+  seller_id: string | null;
+  currency: string;
+  fx_rate_used: number | null;
+  subtotal_ars: number;
+  trade_in_credit_ars: number;
+  surcharge_ars: number;
+  total_ars: number;
+  payload: QuoteInput;
+  pricing: QuotePricing;
+  notes: string | null;
+  expires_at: string;
+  sale_id: string | null;
+  [key: string]: unknown;
+};
+
+type StockSnapshot = {
+  id: string;
+  brand: string | null;
+  model: string | null;
+  storage_gb: number | null;
+  color: string | null;
+  condition: string | null;
+  imei: string | null;
+  status: string | null;
+};
+
+const quotePaymentSchema = paymentEntrySchema.extend({
+  channel: z.enum(['standard', 'mercado_pago']).optional()
+});
+
+const quoteCreateSchema = z.object({
+  customer: customerSchema.optional(),
+  customer_id: z.string().uuid().optional(),
+  seller_id: z.string().uuid().optional(),
+  currency: currencySchema.optional(),
+  fx_rate_used: z.coerce.number().positive().nullable().optional(),
+  items: z.array(saleItemSchema).min(1),
+  payments: z.array(quotePaymentSchema).optional(),
+  trade_in: tradeInSchema.optional(),
+  notes: z.string().trim().max(2000).nullable().optional(),
+  expires_at: z.string().datetime({ offset: true }).optional(),
+  expires_in_days: z.coerce.number().int().positive().max(30).optional()
+}).superRefine((value, ctx) => {
+  const seen = new Set<string>();
+  for (const item of value.items) {
+    if (seen.has(item.stock_item_id)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'duplicate_stock_item_id',
+        path: ['items']
+      });
+      break;
+    }
+    seen.add(item.stock_item_id);
+  }
+
+  const usesUsd = (value.currency ?? 'ARS') === 'USD' || (value.payments ?? []).some((entry) => entry.currency === 'USD');
+  if (usesUsd && Number(value.fx_rate_used ?? 0) <= 0) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'fx_rate_used_required_for_usd',
+      path: ['fx_rate_used']
+    });
+  }
+});
+
+type QuoteInput = z.infer<typeof quoteCreateSchema>;
+
+const listSchema = z.object({
+  status: z.enum(['open', 'converted', 'cancelled', 'expired']).optional(),
+  query: z.string().trim().min(1).optional(),
+  page: z.coerce.number().int().positive().optional().default(1),
+  page_size: z.coerce.number().int().positive().max(100).optional().default(30)
+});
+
+const convertSchema = z.object({
+  sale_date: z.string().datetime().optional(),
+  customer: customerSchema.optional(),
+  customer_id: z.string().uuid().optional(),
+  payments: z.array(paymentEntrySchema).min(1).optional(),
+  details: z.string().trim().max(2000).nullable().optional()
+});
+
+type QuotePricing = ReturnType<typeof priceQuote>;
+
+function logValidationError(scope: string, details: unknown): void {
+  // eslint-disable-next-line no-console
+  console.error(JSON.stringify({
+    level: 'warn',
+    event: 'validation_error',
+    scope,
+    details,
+    timestamp: new Date().toISOString()
+  }));
+}
+
+function normalizeLikeValue(raw: string): string {
+  return raw.trim().replaceAll(',', ' ').replaceAll('%', '').replaceAll('*', '').replaceAll('_', '');
+}
+
+function generateShareCode(): string {
+  let code = '';
+  for (let idx = 0; idx < SHARE_CODE_LENGTH; idx += 1) {
+    code += SHARE_CODE_ALPHABET[randomInt(SHARE_CODE_ALPHABET.length)];
+  }
+  return code;
+}
+
+function resolveExpiresAt(input: { expires_at?: string; expires_in_days?: number }): string {
+  if (input.expires_at) {
+    return input.expires_at;
+  }
+  const days = input.expires_in_days ?? DEFAULT_EXPIRY_DAYS;
+  return new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString();
+}
+
+/** Open quotes past their expiry are reported as expired without a background job. */
+function effectiveStatus(quote: Pick<QuoteRow, 'status' | 'expires_at'>): string {
+  if (quote.status === 'open' && new Date(quote.expires_at).getTime() <= Date.now()) {
+    return 'expired';
+  }
+  return quote.status;
+}
+
+function priceQuote(input: QuoteInput, stockById: Map<string, StockSnapshot>, rules: InstallmentRule[]) {
+  const fxRate = Number(input.fx_rate_used ?? 0);
+  const items = input.items.map((item) => {
+    const stock = stockById.get(item.stock_item_id);
+    return {
+      stock_item_id: item.stock_item_id,
+      brand: stock?.brand ?? null,
+      model: stock?.model ?? null,
+      storage_gb: stock?.storage_gb ?? null,
+      color: stock?.color ?? null,
+      condition: stock?.condition ?? null,
+      imei: stock?.imei ?? null,
+      qty: item.qty,
+      sale_price_ars: item.sale_price_ars,
+      subtotal_ars: roundTo2(item.qty * item.sale_price_ars)
+    };
+  });
+
+  const subtotalArs = roundTo2(items.reduce((sum, item) => sum + item.subtotal_ars, 0));
+  const tradeInCreditArs = input.trade_in?.enabled
+    ? roundTo2(input.trade_in.trade_value_usd * input.trade_in.fx_rate_used)
+    : 0;
+  const netArs = roundTo2(Math.max(subtotalArs - tradeInCreditArs, 0));
+
+  const payments = (input.payments ?? []).map((entry) => {
+    const amountArs = roundTo2(entry.currency === 'USD' ? entry.amount * fxRate : entry.amount);
+    const installments = entry.installments ?? 1;
+    const rule = entry.method === 'card' && entry.card_brand
+      ? findInstallmentRule(rules, entry.card_brand, installments, entry.channel ?? 'standard')
+      : null;
+    const surchargePct = entry.surcharge_pct ?? rule?.surcharge_pct ?? 0;
+    const surchargeArs = roundTo2(amountArs * (surchargePct / 100));
+    const totalArs = roundTo2(amountArs + surchargeArs);
+
+    return {
+      method: entry.method,
+      currency: entry.currency,
+      amount: entry.amount,
+      amount_ars: amountArs,
+      card_brand: entry.card_brand ?? null,
+      installments,
+      channel: entry.channel ?? 'standard',
+      surcharge_pct: surchargePct,
+      rule_applied: Boolean(rule) && entry.surcharge_pct == null,
+      surcharge_ars: surchargeArs,
+      total_ars: totalArs,
+      installment_amount_ars: roundTo2(totalArs / Math.max(installments, 1))
+    };
+  });
+
+  const assignedArs = roundTo2(payments.reduce((sum, entry) => sum + entry.amount_ars, 0));
+  const surchargeArs = roundTo2(payments.reduce((sum, entry) => sum + entry.surcharge_ars, 0));
+
+  return {
+    items,
+    payments,
+    subtotal_ars: subtotalArs,
+    trade_in_credit_ars: tradeInCreditArs,
+    net_ars: netArs,
+    surcharge_ars: surchargeArs,
+    total_ars: roundTo2(netArs + surchargeArs),
+    total_usd: fxRate > 0 ? roundTo2((netArs + surchargeArs) / fxRate) : null,
+    unassigned_ars: roundTo2(Math.max(netArs - assignedArs, 0))
+  };
+}
+
+async function fetchStockSnapshots(stockItemIds: string[]) {
+  const { data, error } = await supabaseAdmin
+    .from('stock_items')
+    .select('id, brand, model, storage_gb, color, condition, imei, status')
+    .in('id', stockItemIds);
+
+  if (error) {
+    return { data: null as Map<string, StockSnapshot> | null, error };
+  }
+
+  const byId = new Map<string, StockSnapshot>();
+  for (const row of (data ?? []) as StockSnapshot[]) {
+    byId.set(row.id, row);
+  }
+  return { data: byId, error: null as RestError | null };
+}
+
+function toPublicQuote(quote: QuoteRow) {
+  return {
+    share_code: quote.share_code,
+    status: effectiveStatus(quote),
+    store: {
+      name: STORE_PROFILE.name,
+      address: STORE_PROFILE.address,
+      phone: STORE_PROFILE.phone
+    },
+    customer_name: quote.customer_name,
+    currency: quote.currency,
+    fx_rate_used: quote.fx_rate_used,
+    items: quote.pricing.items.map((item) => ({
+      brand: item.brand,
+      model: item.model,
+      storage_gb: item.storage_gb,
+      color: item.color,
+      condition: item.condition,
+      qty: item.qty,
+      sale_price_ars: item.sale_price_ars,
+      subtotal_ars: item.subtotal_ars
+    })),
+    payments: quote.pricing.payments,
+    subtotal_ars: quote.subtotal_ars,
+    trade_in_credit_ars: quote.trade_in_credit_ars,
+    surcharge_ars: quote.surcharge_ars,
+    total_ars: quote.total_ars,
+    expires_at: quote.expires_at,
+    notes: quote.notes
+  };
+}
+
+function buildSalePayload(quote: QuoteRow, overrides: z.infer<typeof convertSchema>) {
+  const input = quote.payload;
+  const payments: Array<z.infer<typeof paymentEntrySchema>> = overrides.payments
+    ?? (input.payments ?? []).map(({ channel: _channel, ...entry }, idx) => ({
+      ...entry,
+      surcharge_pct: quote.pricing.payments[idx]?.surcharge_pct ?? entry.surcharge_pct ?? null
+    }));
+
+  // The trade-in credit only reduces the balance if it is registered as a payment.
+  if (quote.trade_in_credit_ars > 0 && !payments.some((entry) => entry.method === 'trade_in')) {
+    payments.unshift({
+      method: 'trade_in',
+      currency: 'ARS',
+      amount: quote.trade_in_credit_ars,
+      note: `Canje presupuesto ${quote.share_code}`
+    });
+  }
+
+  const customerId = overrides.customer_id ?? (overrides.customer ? undefined : quote.customer_id ?? undefined);
+  const customer = overrides.customer
+    ?? (!customerId && quote.customer_name && quote.customer_phone
+      ? { name: quote.customer_name, phone: quote.customer_phone }
+      : undefined);
+
+  return {
+    sale_date: overrides.sale_date ?? new Date().toISOString(),
+    ...(customerId ? { customer_id: customerId } : {}),
+    ...(customer ? { customer } : {}),
+    ...(quote.seller_id ? { seller_id: quote.seller_id } : {}),
+    currency: input.currency ?? 'ARS',
+    fx_rate_used: input.fx_rate_used ?? null,
+    payment_method: payments[0]?.method ?? 'cash',
+    items: input.items,
+    ...(payments.length > 0 ? { payments } : {}),
+    ...(input.trade_in ? { trade_in: input.trade_in } : {}),
+    notes: [`Presupuesto ${quote.share_code}`, input.notes].filter(Boolean).join(' - '),
+    details: overrides.details ?? null
+  };
+}
+
+router.get('/', requireRole('seller'), async (req, res) => {
+  const parsed = listSchema.safeParse(req.query);
+  if (!parsed.success) {
+    logValidationError('quotes.list', parsed.error.flatten());
+    return res.status(400).json({ error: { code: 'validation_error', message: 'Invalid query params', details: parsed.error.flatten() } });
+  }
+
+  const { status, query: rawQuery, page, page_size } = parsed.data;
+  const from = (page - 1) * page_size;
+  const to = from + page_size - 1;
+  const nowIso = new Date().toISOString();
+
+  let query = supabaseAdmin
+    .from('quotes')
+    .select(QUOTE_COLUMNS, { count: 'exact' });
+
+  if (status === 'expired') {
+    query = query.eq('status', 'open').lte('expires_at', nowIso);
+  } else if (status === 'open') {
+    query = query.eq('status', 'open').gt('expires_at', nowIso);
+  } else if (status) {
+    query = query.eq('status', status);
+  }
+
+  if (rawQuery) {
+    const search = normalizeLikeValue(rawQuery);
+    if (search) {
+      query = query.or(`share_code.ilike.%${search}%,customer_name.ilike.%${search}%,customer_phone.ilike.%${search}%`);
+    }
+  }
+
+  const { data, error, count } = await query
+    .order('created_at', { ascending: false })
+    .range(from, to);
+
+  if (error) {
+    return res.status(400).json({ error: { code: 'quotes_list_failed', message: 'Could not list quotes', details: error.message } });
+  }
+
+  return res.json({
+    quotes: ((data ?? []) as QuoteRow[]).map((quote) => ({ ...quote, status: effectiveStatus(quote) })),
+    total: count ?? 0,
+    page,
+    page_size
+  });
+});
+
+router.get('/:id', requireRole('seller'), async (req, res) => {
+  const { data, error } = await supabaseAdmin
+    .from('quotes')
+    .select(QUOTE_COLUMNS)
+    .eq('id', req.params.id)
+    .single();
+
+  if (error || !data) {
+    return res.status(404).json({ error: { code: 'not_found', message: 'Quote not found', details: error?.message } });
+  }
+
+  const quote = data as QuoteRow;
+  const { data: stockById } = await fetchStockSnapshots(quote.payload.items.map((item) => item.stock_item_id));
+  const availability = quote.payload.items.map((item) => ({
+    stock_item_id: item.stock_item_id,
+    status: stockById?.get(item.stock_item_id)?.status ?? null,
+    available: stockById?.get(item.stock_item_id)?.status === 'available'
+  }));
+
+  return res.json({ quote: { ...quote, status: effectiveStatus(quote), availability } });
+});
+
+router.post('/', requireRole('seller'), async (req, res) => {
+  const userId = req.user?.id;
+  if (!userId) {
+    return res.status(401).json({ error: { code: 'unauthorized', message: 'Missing authenticated user' } });
+  }
+
+  const parsed = quoteCreateSchema.safeParse(req.body);
+  if (!parsed.success) {
+    logValidationError('quotes.create', parsed.error.flatten());
+    return res.status(400).json({ error: { code: 'validation_error', message: 'Invalid quote payload', details: parsed.error.flatten() } });
+  }
+
+  const input = parsed.data;
+  const stockIds = input.items.map((item) => item.stock_item_id);
+  const { data: stockById, error: stockError } = await fetchStockSnapshots(stockIds);
+  if (stockError || !stockById) {
+    return res.status(400).json({ error: { code: 'quote_create_failed', message: 'Could not load stock items', details: stockError?.message } });
+  }
+
+  const missing = stockIds.filter((id) => !stockById.has(id));
+  if (missing.length > 0) {
+    return res.status(404).json({ error: { code: 'not_found', message: 'Stock item not found', details: { stock_item_ids: missing } } });
+  }
+
+  const sold = stockIds.filter((id) => stockById.get(id)?.status === 'sold');
+  if (sold.length > 0) {
+    return res.status(409).json({ error: { code: 'stock_conflict', message: 'Stock item already sold', details: { stock_item_ids: sold } } });
+  }
+
+  const { data: rules, error: rulesError } = await fetchActiveInstallmentRules();
+  if (rulesError || !rules) {
+    return res.status(400).json({ error: { code: 'quote_create_failed', message: 'Could not load installment rules', details: rulesError?.message } });
+  }
+
+  let customerName = input.customer?.name ?? null;
+  let customerPhone = input.customer?.phone ?? null;
+  if (input.customer_id) {
+    const { data: customer, error: customerError } = await supabaseAdmin
+      .from('customers')
+      .select('name, phone, merged_into_id')
+      .eq('id', input.customer_id)
+      .single();
+    if (customerError || !customer) {
+      return res.status(404).json({ error: { code: 'not_found', message: 'Customer not found', details: customerError?.message } });
+    }
+    if (customer.merged_into_id) {
+      return res.status(409).json({ error: { code: 'customer_merged', message: 'Customer was merged into another record', details: { merged_into_id: customer.merged_into_id } } });
+    }
+    customerName = customer.name ?? null;
+    customerPhone = customer.phone ?? null;
+  }
+
+  const pricing = priceQuote(input, stockById, rules);
+  const insertPayload = {
+    status: 'open',
+    customer_id: input.customer_id ?? null,
+    customer_name: customerName,
+    customer_phone: customerPhone,
+    seller_id: input.seller_id ?? userId,
+    currency: input.currency ?? 'ARS',
+    fx_rate_used: input.fx_rate_used ?? null,
+    subtotal_ars: pricing.subtotal_ars,
+    trade_in_credit_ars: pricing.trade_in_credit_ars,
+    surcharge_ars: pricing.surcharge_ars,
+    total_ars: pricing.total_ars,
+    payload: input,
+    pricing,
+    notes: input.notes ?? null,
+    expires_at: resolveExpiresAt(input),
+    created_by: userId
+  };
+
+  let created: QuoteRow | null = null;
+  let insertError: RestError | null = null;
+  for (let attempt = 0; attempt < 3 && !created; attempt += 1) {
+    const result = await supabaseAdmin
+      .from('quotes')
+      .insert({ ...insertPayload, share_code: generateShareCode() })
+      .select(QUOTE_COLUMNS)
+      .single();
+    created = (result.data as QuoteRow | null) ?? null;
+    insertError = result.error;
+    if (insertError && insertError.code !== '23505') {
+      break;
+    }
+  }
+
+  if (!created) {
+    return res.status(400).json({ error: { code: 'quote_create_failed', message: 'Could not create quote', details: insertError?.message } });
+  }
+
+  await supabaseAdmin
+    .from('audit_logs')
+    .insert({
+      actor_user_id: userId,
+      action: 'quote_created',
+      entity_type: 'quote',
+      entity_id: created.id,
+      after_json: { share_code: created.share_code, total_ars: created.total_ars, expires_at: created.expires_at },
+      meta_json: { items_count: input.items.length }
+    });
+
+  return res.status(201).json({ quote: created });
+});
+
+router.post('/:id/cancel', requireRole('seller'), async (req, res) => {
+  const userId = req.user?.id;
+  if (!userId) {
+    return res.status(401).json({ error: { code: 'unauthorized', message: 'Missing authenticated user' } });
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('quotes')
+    .update({ status: 'cancelled' })
+    .eq('id', req.params.id)
+    .eq('status', 'open')
+    .select('id, status')
+    .maybeSingle();
+
+  if (error) {
+    return res.status(400).json({ error: { code: 'quote_cancel_failed', message: 'Could not cancel quote', details: error.message } });
+  }
+
+  if (!data) {
+    return res.status(409).json({ error: { code: 'conflict', message: 'Quote is not open' } });
+  }
+
+  await supabaseAdmin
+    .from('audit_logs')
+    .insert({
+      actor_user_id: userId,
+      action: 'quote_cancelled',
+      entity_type: 'quote',
+      entity_id: req.params.id,
+      meta_json: { source: 'quotes_cancel' }
+    });
+
+  return res.json({ quote_id: data.id, status: data.status });
+});
+
+router.post('/:id/convert', requireRole('seller'), async (req, res) => {
+  const userId = req.user?.id;
+  if (!userId) {
+    return res.status(401).json({ error: { code: 'unauthorized', message: 'Missing authenticated user' } });
+  }
+
+  const parsed = convertSchema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    logValidationError('quotes.convert', parsed.error.flatten());
+    return res.status(400).json({ error: { code: 'validation_error', message: 'Invalid convert payload', details: parsed.error.flatten() } });
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('quotes')
+    .select(QUOTE_COLUMNS)
+    .eq('id', req.params.id)
+    .single();
+
+  if (error || !data) {
+    return res.status(404).json({ error: { code: 'not_found', message: 'Quote not found', details: error?.message } });
+  }
+
+  const quote = data as QuoteRow;
+  const status = effectiveStatus(quote);
+  if (status !== 'open') {
+    return res.status(409).json({ error: { code: 'conflict', message: `Quote is ${status}`, details: { status, sale_id: quote.sale_id } } });
+  }
+
+  const stockIds = quote.payload.items.map((item) => item.stock_item_id);
+  const { data: stockById, error: stockError } = await fetchStockSnapshots(stockIds);
+  if (stockError || !stockById) {
+    return res.status(400).json({ error: { code: 'quote_convert_failed', message: 'Could not load stock items', details: stockError?.message } });
+  }
+
+  const unavailable = stockIds
+    .filter((id) => stockById.get(id)?.status !== 'available')
+    .map((id) => ({ stock_item_id: id, status: stockById.get(id)?.status ?? null }));
+  if (unavailable.length > 0) {
+    return res.status(409).json({ error: { code: 'stock_conflict', message: 'Stock item is no longer available for sale', details: { items: unavailable } } });
+  }
+
+  // The built payload defaults sale_date to now, so retries are keyed and hashed on what the client sent.
+  // Without a client key each attempt stands alone; the open-status check above stops double conversions.
+  const clientKey = resolveIdempotencyKey(req);
+  const checkout = await runCheckoutSale(req, buildSalePayload(quote, parsed.data), {
+    idempotencyKey: clientKey ? `quote:${quote.id}:${clientKey}`.slice(0, 255) : null,
+    requestHash: hashPayload({ quote_id: quote.id, overrides: parsed.data }),
+    releaseOnFailure: true
+  });
+  if (checkout.status !== 201) {
+    return res.status(checkout.status).json(checkout.body);
+  }
+
+  const saleId = (checkout.body as { sale_id?: string | null }).sale_id ?? null;
+  await supabaseAdmin
+    .from('quotes')
+    .update({ status: 'converted', sale_id: saleId, converted_at: new Date().toISOString() })
+    .eq('id', quote.id)
+    .eq('status', 'open');
+
+  await supabaseAdmin
+    .from('audit_logs')
+    .insert({
+      actor_user_id: userId,
+      action: 'quote_converted',
+      entity_type: 'quote',
+      entity_id: quote.id,
+      after_json: { status: 'converted', sale_id: saleId },
+      meta_json: { share_code: quote.share_code }
+    });
+
+  return res.status(201).json({ quote_id: quote.id, ...(checkout.body as Record<string, unknown>) });
+});
+
+publicRouter.get('/:code', async (req, res) => {
+  const code = String(req.params.code ?? '').trim().toUpperCase();
+  // Quotes shared before the longer codes keep their 8-character links.
+  if (!/^(?:[A-Z0-9]{8}|[A-Z0-9]{16})$/.test(code)) {
+    return res.status(404).json({ error: { code: 'not_found', message: 'Quote not found' } });
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('quotes')
+    .select(QUOTE_COLUMNS)
+    .eq('share_code', code)
+    .maybeSingle();
+
+  if (error || !data || data.status === 'cancelled') {
+    return res.status(404).json({ error: { code: 'not_found', message: 'Quote not found' } });
+  }
+
+  return res.json({ quote: toPublicQuote(data as QuoteRow) });
+});
+
+export const quotesRouter = router;
+export const publicQuotesRouter = publicRouter;
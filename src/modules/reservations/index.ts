@@ -0,0 +1,303 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { supabaseAdmin } from '../../lib/supabaseAdmin.js';
+import { requireRole } from '../../middleware/rbac.js';
+
+const router = Router();
+const RESERVATION_COLUMNS = 'id, stock_item_id, customer_id, seller_id, status, sale_price_ars, deposit_method, deposit_currency, deposit_amount, deposit_ars, fx_rate_used, expires_at, notes, sale_id, closed_at, closed_by, close_reason, created_by, created_at, updated_at, customers(name, phone), stock_items(brand, model, imei, status), reservation_deposit_movements(id, kind, method, currency, amount, amount_ars, sale_payment_id, created_by, created_at)';
+const DEFAULT_EXPIRY_DAYS = (() => {
+  const parsed = Number(process.env.RESERVATION_DEFAULT_DAYS);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : 7;
+})();
+
+type RestError = {
+  code?: string;
+  message?: string;
+  details?: string;
+  hint?: string;
+};
+
+const statusSchema = z.enum(['active', 'converted', 'released', 'expired']);
+const currencySchema = z.enum(['ARS', 'USD']);
+
+const listSchema = z.object({
+  status: statusSchema.optional(),
+  stock_item_id: z.string().uuid().optional(),
+  customer_id: z.string().uuid().optional(),
+  expiring_before: z.string().datetime({ offset: true }).optional(),
+  page: z.coerce.number().int().positive().optional().default(1),
+  page_size: z.coerce.number().int().positive().max(100).optional().default(30)
+});
+
+const createSchema = z.object({
+  stock_item_id: z.string().uuid(),
+  customer_id: z.string().uuid().optional(),
+  customer: z.object({
+    name: z.string().trim().min(1),
+    phone: z.string().trim().min(6)
+  }).optional(),
+  seller_id: z.string().uuid().optional(),
+  sale_price_ars: z.coerce.number().positive().optional(),
+  deposit: z.object({
+    method: z.enum(['cash', 'transfer', 'card']),
+    currency: currencySchema.default('ARS'),
+    amount: z.coerce.number().positive()
+  }),
+  fx_rate_used: z.coerce.number().positive().optional(),
+  expires_at: z.string().datetime({ offset: true }).optional(),
+  expires_in_days: z.coerce.number().int().positive().max(60).optional(),
+  notes: z.string().trim().max(2000).nullable().optional()
+}).superRefine((value, ctx) => {
+  if (!value.customer_id && !value.customer) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'customer_or_customer_id_required',
+      path: ['customer']
+    });
+  }
+
+  if (value.expires_at && value.expires_in_days) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'use_expires_at_or_expires_in_days',
+      path: ['expires_at']
+    });
+  }
+
+  if (value.deposit.currency === 'USD' && !value.fx_rate_used) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'fx_rate_used_required_for_usd',
+      path: ['fx_rate_used']
+    });
+  }
+});
+
+const releaseSchema = z.object({
+  reason: z.string().trim().min(3).max(500),
+  deposit_action: z.enum(['refund', 'forfeit']).optional().default('refund')
+});
+
+const convertSchema = z.object({
+  sale_date: z.string().datetime({ offset: true }).optional(),
+  sale_price_ars: z.coerce.number().positive().optional(),
+  seller_id: z.string().uuid().optional(),
+  currency: currencySchema.optional(),
+  fx_rate_used: z.coerce.number().positive().optional(),
+  payments: z.array(z.object({
+    method: z.enum(['cash', 'transfer', 'card', 'mixed', 'trade_in']),
+    currency: currencySchema.optional(),
+    amount: z.coerce.number().positive(),
+    card_brand: z.string().trim().max(80).nullable().optional(),
+    installments: z.coerce.number().int().positive().nullable().optional(),
+    surcharge_pct: z.coerce.number().min(0).nullable().optional(),
+    note: z.string().trim().max(500).nullable().optional()
+  })).optional(),
+  notes: z.string().trim().max(2000).nullable().optional(),
+  details: z.string().trim().max(2000).nullable().optional(),
+  includes_cube_20w: z.boolean().optional()
+});
+
+function logValidationError(scope: string, details: unknown): void {
+  // eslint-disable-next-line no-console
+  console.error(JSON.stringify({
+    level: 'warn',
+    event: 'validation_error',
+    scope,
+    details,
+    timestamp: new Date().toISOString()
+  }));
+}
+
+function mapReservationError(error: RestError, fallbackCode: string, fallbackMessage: string) {
+  const message = `${error.message ?? ''} ${error.details ?? ''}`.toLowerCase();
+  if (error.code === '23505' && message.includes('uq_reservations_active_stock_item')) {
+    return { status: 409, code: 'stock_conflict', message: 'Stock item already has an active reservation', details: error.details ?? error.message };
+  }
+
+  if (message.includes('stock_unavailable') || message.includes('stock_conflict')) {
+    return { status: 409, code: 'stock_conflict', message: 'Stock item is not available for reservation', details: error.details ?? error.message };
+  }
+
+  if (error.code === 'PGRST116' || message.includes('not_found')) {
+    return { status: 404, code: 'not_found', message: 'Reservation not found', details: error.details ?? error.message };
+  }
+
+  if (message.includes('conflict')) {
+    return { status: 409, code: 'conflict', message: 'Reservation is no longer active', details: error.details ?? error.message };
+  }
+
+  if (message.includes('validation_error') || message.includes('total_mismatch')) {
+    return { status: 400, code: 'validation_error', message: 'Validation failed', details: error.details ?? error.message };
+  }
+
+  return { status: 400, code: fallbackCode, message: fallbackMessage, details: error.details ?? error.message };
+}
+
+function resolveExpiresAt(input: { expires_at?: string; expires_in_days?: number }): string {
+  if (input.expires_at) {
+    return input.expires_at;
+  }
+  const days = input.expires_in_days ?? DEFAULT_EXPIRY_DAYS;
+  return new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString();
+}
+
+async function fetchReservation(id: string) {
+  return supabaseAdmin
+    .from('reservations')
+    .select(RESERVATION_COLUMNS)
+    .eq('id', id)
+    .single();
+}
+
+router.get('/', requireRole('seller'), async (req, res) => {
+  const parsed = listSchema.safeParse(req.query);
+  if (!parsed.success) {
+    logValidationError('reservations.list', parsed.error.flatten());
+    return res.status(400).json({ error: { code: 'validation_error', message: 'Invalid query params', details: parsed.error.flatten() } });
+  }
+
+  const { status, stock_item_id, customer_id, expiring_before, page, page_size } = parsed.data;
+  const from = (page - 1) * page_size;
+  const to = from + page_size - 1;
+
+  let query = supabaseAdmin
+    .from('reservations')
+    .select(RESERVATION_COLUMNS, { count: 'exact' });
+
+  if (status) query = query.eq('status', status);
+  if (stock_item_id) query = query.eq('stock_item_id', stock_item_id);
+  if (customer_id) query = query.eq('customer_id', customer_id);
+  if (expiring_before) query = query.lte('expires_at', expiring_before);
+
+  const { data, error, count } = await query
+    .order(status === 'active' ? 'expires_at' : 'created_at', { ascending: status === 'active' })
+    .range(from, to);
+
+  if (error) {
+    return res.status(400).json({ error: { code: 'reservations_list_failed', message: 'Could not list reservations', details: error.message } });
+  }
+
+  return res.json({
+    reservations: data ?? [],
+    total: count ?? 0,
+    page,
+    page_size
+  });
+});
+
+router.get('/:id', requireRole('seller'), async (req, res) => {
+  const { data, error } = await fetchReservation(req.params.id);
+  if (error || !data) {
+    return res.status(404).json({ error: { code: 'not_found', message: 'Reservation not found', details: error?.message } });
+  }
+
+  return res.json({ reservation: data });
+});
+
+router.post('/', requireRole('seller'), async (req, res) => {
+  const userId = req.user?.id;
+  if (!userId) {
+    return res.status(401).json({ error: { code: 'unauthorized', message: 'Missing authenticated user' } });
+  }
+
+  const parsed = createSchema.safeParse(req.body);
+  if (!parsed.success) {
+    logValidationError('reservations.create', parsed.error.flatten());
+    return res.status(400).json({ error: { code: 'validation_error', message: 'Invalid reservation payload', details: parsed.error.flatten() } });
+  }
+
+  const input = parsed.data;
+  const { data: rpcData, error: rpcError } = await supabaseAdmin.rpc('rpc_create_reservation_v1', {
+    p_payload: {
+      stock_item_id: input.stock_item_id,
+      customer_id: input.customer_id ?? null,
+      customer: input.customer ?? null,
+      seller_id: input.seller_id ?? null,
+      sale_price_ars: input.sale_price_ars ?? null,
+      deposit: input.deposit,
+      fx_rate_used: input.fx_rate_used ?? null,
+      expires_at: resolveExpiresAt(input),
+      notes: input.notes ?? null
+    },
+    p_user_id: userId
+  });
+
+  if (rpcError) {
+    const mapped = mapReservationError(rpcError, 'reservation_create_failed', 'Could not create reservation');
+    return res.status(mapped.status).json({ error: { code: mapped.code, message: mapped.message, details: mapped.details } });
+  }
+
+  const { data: reservation } = await fetchReservation(String(rpcData?.reservation_id));
+  return res.status(201).json({ reservation: reservation ?? rpcData });
+});
+
+router.post('/:id/release', requireRole('seller'), async (req, res) => {
+  const userId = req.user?.id;
+  if (!userId) {
+    return res.status(401).json({ error: { code: 'unauthorized', message: 'Missing authenticated user' } });
+  }
+
+  const parsed = releaseSchema.safeParse(req.body);
+  if (!parsed.success) {
+    logValidationError('reservations.release', parsed.error.flatten());
+    return res.status(400).json({ error: { code: 'validation_error', message: 'Invalid release payload', details: parsed.error.flatten() } });
+  }
+
+  const { data, error } = await supabaseAdmin.rpc('rpc_release_reservation_v1', {
+    p_reservation_id: req.params.id,
+    p_reason: parsed.data.reason,
+    p_user_id: userId,
+    p_deposit_action: parsed.data.deposit_action
+  });
+
+  if (error) {
+    const mapped = mapReservationError(error, 'reservation_release_failed', 'Could not release reservation');
+    return res.status(mapped.status).json({ error: { code: mapped.code, message: mapped.message, details: mapped.details } });
+  }
+
+  return res.json({
+    reservation_id: data?.reservation_id ?? req.params.id,
+    status: data?.status ?? 'released',
+    stock_item_id: data?.stock_item_id ?? null,
+    stock_released: Boolean(data?.stock_released),
+    deposit_action: data?.deposit_action ?? parsed.data.deposit_action,
+    deposit_ars: Number(data?.deposit_ars ?? 0)
+  });
+});
+
+router.post('/:id/convert', requireRole('seller'), async (req, res) => {
+  const userId = req.user?.id;
+  if (!userId) {
+    return res.status(401).json({ error: { code: 'unauthorized', message: 'Missing authenticated user' } });
+  }
+
+  const parsed = convertSchema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    logValidationError('reservations.convert', parsed.error.flatten());
+    return res.status(400).json({ error: { code: 'validation_error', message: 'Invalid convert payload', details: parsed.error.flatten() } });
+  }
+
+  const { data, error } = await supabaseAdmin.rpc('rpc_convert_reservation_v1', {
+    p_reservation_id: req.params.id,
+    p_payload: parsed.data,
+    p_user_id: userId
+  });
+
+  if (error) {
+    const mapped = mapReservationError(error, 'reservation_convert_failed', 'Could not convert reservation');
+    return res.status(mapped.status).json({ error: { code: mapped.code, message: mapped.message, details: mapped.details } });
+  }
+
+  return res.status(201).json({
+    reservation_id: data?.reservation_id ?? req.params.id,
+    sale_id: data?.sale_id ?? null,
+    total_ars: Number(data?.total_ars ?? 0),
+    deposit_ars: Number(data?.deposit_ars ?? 0),
+    paid_ars: Number(data?.paid_ars ?? 0),
+    balance_due_ars: Number(data?.balance_due_ars ?? 0),
+    receivable_status: data?.receivable_status ?? null
+  });
+});
+
+export const reservationsRouter = router;
@@ -2,6 +2,8 @@ import { Router } from 'express';
 import { z } from 'zod';
 import { supabaseAdmin } from '../../lib/supabaseAdmin.js';
 import { requireRole } from '../../middleware/rbac.js';
+import { priceWithSurcharge, roundTo2 } from './pricing.js';
+import type { InstallmentChannel, InstallmentRule } from './pricing.js';
 
 const router = Router();
 
@@ -16,6 +18,34 @@ function logValidationError(details: unknown): void {
   }));
 }
 
+// Lives here rather than in pricing.ts so the pricing math stays free of database access.
+export async function fetchActiveInstallmentRules(channel?: InstallmentChannel) {
+  let query = supabaseAdmin
+    .from('installment_rules')
+    .select('card_brand, installments, surcharge_pct, channel')
+    .eq('is_active', true);
+
+  if (channel) query = query.eq('channel', channel);
+
+  const { data, error } = await query
+    .order('channel', { ascending: true })
+    .order('card_brand', { ascending: true })
+    .order('installments', { ascending: true });
+
+  if (error) {
+    return { data: null as InstallmentRule[] | null, error };
+  }
+
+  const rules = (data ?? []).map((row) => ({
+    card_brand: String(row.card_brand),
+    installments: Number(row.installments),
+    surcharge_pct: Number(row.surcharge_pct ?? 0),
+    channel: (row.channel === 'mercado_pago' ? 'mercado_pago' : 'standard') as InstallmentChannel
+  }));
+
+  return { data: rules, error: null };
+}
+
 const ruleSchema = z.object({
   card_brand: z.string().min(1),
   installments: z.number().int().positive(),
@@ -24,6 +54,52 @@ const ruleSchema = z.object({
   is_active: z.boolean().default(true)
 });
 
+const calculatorSchema = z.object({
+  price: z.coerce.number().positive(),
+  currency: z.enum(['ARS', 'USD']).default('ARS'),
+  fx_rate: z.coerce.number().positive().optional(),
+  card_brand: z.string().trim().min(1).optional(),
+  channel: z.enum(['standard', 'mercado_pago']).optional()
+}).superRefine((value, ctx) => {
+  if (value.currency === 'USD' && !value.fx_rate) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'fx_rate_required_for_usd',
+      path: ['fx_rate']
+    });
+  }
+});
+
+// Read-only for sellers: prices a cash amount against every active rule.
+router.get('/calculator', requireRole('seller'), async (req, res) => {
+  const parsed = calculatorSchema.safeParse(req.query);
+  if (!parsed.success) {
+    logValidationError(parsed.error.flatten());
+    return res.status(400).json({ error: { code: 'validation_error', message: 'Invalid calculator query', details: parsed.error.flatten() } });
+  }
+
+  const { price, currency, fx_rate: fxRate, card_brand: cardBrand, channel } = parsed.data;
+  const baseArs = roundTo2(currency === 'USD' ? price * Number(fxRate) : price);
+
+  const { data: rules, error } = await fetchActiveInstallmentRules(channel);
+  if (error || !rules) {
+    return res.status(400).json({ error: { code: 'rules_fetch_failed', message: 'Fetch failed', details: error?.message } });
+  }
+
+  const brand = cardBrand?.toLowerCase();
+  const options = rules
+    .filter((rule) => !brand || rule.card_brand.toLowerCase() === brand)
+    .map((rule) => priceWithSurcharge(baseArs, rule));
+
+  return res.json({
+    price,
+    currency,
+    fx_rate: currency === 'USD' ? fxRate : null,
+    base_ars: baseArs,
+    options
+  });
+});
+
 router.get('/', requireRole('admin'), async (_req, res) => {
   const { data, error } = await supabaseAdmin
     .from('installment_rules')
@@ -0,0 +1,45 @@
+export type InstallmentChannel = 'standard' | 'mercado_pago';
+
+export type InstallmentRule = {
+  card_brand: string;
+  installments: number;
+  surcharge_pct: number;
+  channel: InstallmentChannel;
+};
+
+export type InstallmentOption = InstallmentRule & {
+  base_ars: number;
+  surcharge_ars: number;
+  total_ars: number;
+  installment_amount_ars: number;
+};
+
+export function roundTo2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export function findInstallmentRule(
+  rules: InstallmentRule[],
+  cardBrand: string,
+  installments: number,
+  channel: InstallmentChannel = 'standard'
+): InstallmentRule | null {
+  const brand = cardBrand.trim().toLowerCase();
+  return rules.find((rule) => (
+    rule.card_brand.toLowerCase() === brand
+    && rule.installments === installments
+    && rule.channel === channel
+  )) ?? null;
+}
+
+export function priceWithSurcharge(baseArs: number, rule: InstallmentRule): InstallmentOption {
+  const surchargeArs = roundTo2(baseArs * (rule.surcharge_pct / 100));
+  const totalArs = roundTo2(baseArs + surchargeArs);
+  return {
+    ...rule,
+    base_ars: roundTo2(baseArs),
+    surcharge_ars: surchargeArs,
+    total_ars: totalArs,
+    installment_amount_ars: roundTo2(totalArs / Math.max(rule.installments, 1))
+  };
+}
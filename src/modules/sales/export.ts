@@ -0,0 +1,202 @@
+import type { Writable } from 'node:stream';
+import ExcelJS from 'exceljs';
+import { formatDateAr, formatDecimalAr } from '../../lib/arFormat.js';
+import { PAYMENT_METHOD_LABELS, formatSaleNumber } from './receipt.js';
+
+type Row = Record<string, unknown>;
+
+export type SalesExportFormat = 'csv' | 'xlsx';
+export type SalesExportMode = 'items' | 'payments';
+
+type ColumnKind = 'text' | 'money' | 'integer' | 'date';
+
+type ExportColumn = {
+  header: string;
+  kind: ColumnKind;
+  width: number;
+  value: (row: Row) => unknown;
+};
+
+export type SalesExportWriter = {
+  writeRow: (row: Row) => void;
+  /** A free-text line in the first column, e.g. to mark a truncated export. */
+  writeNotice: (message: string) => void;
+  end: () => Promise<void>;
+};
+
+const RECEIVABLE_STATUS_LABELS: Record<string, string> = {
+  pending: 'Pendiente',
+  partial: 'Parcial',
+  paid: 'Pagado'
+};
+
+const SALE_STATUS_LABELS: Record<string, string> = {
+  completed: 'Completada',
+  cancelled: 'Anulada'
+};
+
+function asText(value: unknown): string | null {
+  return value === null || value === undefined || value === '' ? null : String(value);
+}
+
+function asNumber(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function saleDate(row: Row): unknown {
+  return row.sale_date ?? row.created_at;
+}
+
+const SALE_COLUMNS: ExportColumn[] = [
+  { header: 'Fecha', kind: 'date', width: 12, value: saleDate },
+  { header: 'Nro venta', kind: 'text', width: 12, value: (row) => formatSaleNumber(String(row.id ?? '')) },
+  { header: 'Estado', kind: 'text', width: 12, value: (row) => SALE_STATUS_LABELS[String(row.status)] ?? row.status },
+  { header: 'Cliente', kind: 'text', width: 24, value: (row) => row.customer_name },
+  { header: 'Teléfono', kind: 'text', width: 16, value: (row) => row.customer_phone },
+  { header: 'Vendedor', kind: 'text', width: 20, value: (row) => row.seller_name }
+];
+
+const SALE_TOTAL_COLUMNS: ExportColumn[] = [
+  { header: 'Moneda', kind: 'text', width: 8, value: (row) => row.currency ?? 'ARS' },
+  { header: 'Cotización', kind: 'money', width: 12, value: (row) => row.fx_rate_used },
+  { header: 'Total venta ARS', kind: 'money', width: 16, value: (row) => row.total_ars },
+  { header: 'Pagado ARS', kind: 'money', width: 16, value: (row) => row.paid_ars },
+  { header: 'Saldo ARS', kind: 'money', width: 16, value: (row) => row.balance_due_ars },
+  { header: 'Estado cobro', kind: 'text', width: 12, value: (row) => RECEIVABLE_STATUS_LABELS[String(row.receivable_status)] ?? row.receivable_status }
+];
+
+const ITEM_EXPORT_COLUMNS: ExportColumn[] = [
+  ...SALE_COLUMNS,
+  { header: 'Modelo', kind: 'text', width: 24, value: (row) => row.stock_model },
+  { header: 'IMEI', kind: 'text', width: 18, value: (row) => row.stock_imei },
+  { header: 'Cantidad', kind: 'integer', width: 9, value: (row) => row.qty },
+  { header: 'Precio unitario ARS', kind: 'money', width: 18, value: (row) => row.sale_price_ars_item },
+  { header: 'Subtotal ARS', kind: 'money', width: 16, value: (row) => row.subtotal_ars_item },
+  ...SALE_TOTAL_COLUMNS
+];
+
+const PAYMENT_EXPORT_COLUMNS: ExportColumn[] = [
+  ...SALE_COLUMNS,
+  { header: 'Fecha pago', kind: 'date', width: 12, value: (row) => row.payment_created_at },
+  { header: 'Medio de pago', kind: 'text', width: 14, value: (row) => PAYMENT_METHOD_LABELS[String(row.payment_method_item)] ?? row.payment_method_item },
+  { header: 'Tarjeta', kind: 'text', width: 12, value: (row) => row.payment_card_brand },
+  { header: 'Cuotas', kind: 'integer', width: 8, value: (row) => row.payment_installments },
+  { header: 'Recargo %', kind: 'money', width: 10, value: (row) => row.payment_surcharge_pct },
+  { header: 'Moneda pago', kind: 'text', width: 8, value: (row) => row.payment_currency },
+  { header: 'Monto', kind: 'money', width: 14, value: (row) => row.payment_amount },
+  { header: 'Revertido', kind: 'money', width: 14, value: (row) => row.payment_reversed_amount },
+  { header: 'Monto ARS', kind: 'money', width: 16, value: (row) => row.payment_amount_ars },
+  { header: 'Nota', kind: 'text', width: 24, value: (row) => row.payment_note },
+  ...SALE_TOTAL_COLUMNS
+];
+
+/** One row per payment; sales without payments still get a row so totals reconcile. */
+export function flattenSalePaymentRows(sale: Row, reversedByPaymentId: Map<string, number>): Row[] {
+  const payments = Array.isArray(sale.sale_payments) ? (sale.sale_payments as Row[]) : [];
+  const fxRate = asNumber(sale.fx_rate_used) ?? 0;
+
+  if (payments.length === 0) {
+    return [{ ...sale, payment_method_item: null }];
+  }
+
+  return payments.map((payment) => {
+    const currency = String(payment.currency ?? 'ARS').toUpperCase();
+    const amount = asNumber(payment.amount) ?? 0;
+    const reversed = reversedByPaymentId.get(String(payment.id)) ?? 0;
+    const netAmount = amount - reversed;
+    return {
+      ...sale,
+      payment_created_at: payment.created_at ?? null,
+      payment_method_item: payment.method ?? null,
+      payment_card_brand: payment.card_brand ?? null,
+      payment_installments: payment.installments ?? null,
+      payment_surcharge_pct: payment.surcharge_pct ?? null,
+      payment_currency: currency,
+      payment_amount: amount,
+      payment_reversed_amount: reversed,
+      payment_amount_ars: currency === 'USD' ? netAmount * fxRate : netAmount,
+      payment_note: payment.note ?? null
+    };
+  });
+}
+
+function csvCell(column: ExportColumn, row: Row): string {
+  const raw = column.value(row);
+  let text: string;
+  if (column.kind === 'money') {
+    text = asNumber(raw) === null ? '' : formatDecimalAr(raw);
+  } else if (column.kind === 'date') {
+    text = formatDateAr(raw);
+  } else {
+    text = asText(raw) ?? '';
+  }
+
+  return csvText(text);
+}
+
+function csvText(text: string): string {
+  return /[";\n\r]/.test(text) ? `"${text.replaceAll('"', '""')}"` : text;
+}
+
+function xlsxCell(column: ExportColumn, row: Row): unknown {
+  const raw = column.value(row);
+  if (column.kind === 'money' || column.kind === 'integer') {
+    return asNumber(raw);
+  }
+  if (column.kind === 'date') {
+    return formatDateAr(raw) || null;
+  }
+  return asText(raw);
+}
+
+/**
+ * CSV uses `;` as separator and a UTF-8 BOM so Excel in es-AR opens it with decimal commas.
+ * XLSX keeps amounts numeric with a thousands format so they can still be summed.
+ */
+export function createSalesExportWriter(
+  format: SalesExportFormat,
+  mode: SalesExportMode,
+  output: Writable
+): SalesExportWriter {
+  const columns = mode === 'payments' ? PAYMENT_EXPORT_COLUMNS : ITEM_EXPORT_COLUMNS;
+
+  if (format === 'csv') {
+    output.write(`\uFEFF${columns.map((column) => column.header).join(';')}\r\n`);
+    return {
+      writeRow(row) {
+        output.write(`${columns.map((column) => csvCell(column, row)).join(';')}\r\n`);
+      },
+      writeNotice(message) {
+        output.write(`${csvText(message)}\r\n`);
+      },
+      async end() {
+        output.end();
+      }
+    };
+  }
+
+  const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: output, useStyles: true });
+  const worksheet = workbook.addWorksheet(mode === 'payments' ? 'Pagos' : 'Ventas');
+  worksheet.columns = columns.map((column) => ({
+    header: column.header,
+    width: column.width,
+    style: column.kind === 'money'
+      ? { numFmt: '#,##0.00' }
+      : column.kind === 'integer' ? { numFmt: '0' } : {}
+  }));
+
+  return {
+    writeRow(row) {
+      worksheet.addRow(columns.map((column) => xlsxCell(column, row))).commit();
+    },
+    writeNotice(message) {
+      worksheet.addRow([message]).commit();
+    },
+    async end() {
+      worksheet.commit();
+      await workbook.commit();
+    }
+  };
+}
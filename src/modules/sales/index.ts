@@ -1,12 +1,28 @@
-import { createHash } from 'node:crypto';
 import { Router } from 'express';
 import type { Request, Response } from 'express';
 import { z } from 'zod';
 import { supabaseAdmin } from '../../lib/supabaseAdmin.js';
 import { requireRole } from '../../middleware/rbac.js';
+import {
+  hashPayload,
+  idempotent,
+  persistIdempotencyResult,
+  releaseIdempotencyKey,
+  reserveIdempotencyKey,
+  resolveIdempotencyKey
+} from '../../middleware/idempotency.js';
+import { resolveBranchScope } from '../../lib/branchScope.js';
+import { buildSaleReceipt, renderSaleReceiptHtml, writeSaleReceiptPdf } from './receipt.js';
+import { diffSaleSnapshots, isEmptySaleDiff, type SaleVersionRow } from './versions.js';
+import { createSalesExportWriter, flattenSalePaymentRows } from './export.js';
+import { resolveCurrentFxRate } from '../fxRates/index.js';
+import { applyPromoCode, checkPromoCodeAvailability, normalizePromoCode, type PromoApplication } from '../promoCodes/discount.js';
+import { findPromoCode } from '../promoCodes/index.js';
 
 const router = Router();
 const IDEMPOTENCY_ROUTE = 'sales_checkout_v1';
+const EXPORT_PAGE_SIZE = 200;
+const EXPORT_MAX_PAGES = 250;
 const SALES_TO_SALE_ITEMS_FK_CANDIDATES = [
   'sale_items_sale_id_fk',
   'sale_items_sale_id_fkey'
@@ -17,9 +33,9 @@ const SALE_ITEMS_TO_STOCK_ITEMS_FK_CANDIDATES = [
 ] as const;
 
 const paymentMethodSchema = z.enum(['cash', 'transfer', 'card', 'mixed', 'trade_in']);
-const currencySchema = z.enum(['ARS', 'USD']);
+export const currencySchema = z.enum(['ARS', 'USD']);
 
-const customerSchema = z.object({
+export const customerSchema = z.object({
   name: z.string().min(1),
   phone: z.string().min(6),
   dni: z.string().trim().min(6).max(32).optional()
@@ -34,7 +50,7 @@ const paymentLegacySchema = z.object({
   total_ars: z.coerce.number().positive().optional()
 });
 
-const paymentEntrySchema = z.object({
+export const paymentEntrySchema = z.object({
   method: paymentMethodSchema,
   currency: currencySchema.default('ARS'),
   amount: z.coerce.number().positive(),
@@ -44,13 +60,13 @@ const paymentEntrySchema = z.object({
   note: z.string().trim().max(500).nullable().optional()
 });
 
-const saleItemSchema = z.object({
+export const saleItemSchema = z.object({
   stock_item_id: z.string().uuid(),
   qty: z.coerce.number().int().min(1).default(1),
   sale_price_ars: z.coerce.number().positive()
 });
 
-const tradeInSchema = z.object({
+export const tradeInSchema = z.object({
   enabled: z.boolean(),
   device: z.object({
     brand: z.string().min(1),
@@ -64,6 +80,11 @@ const tradeInSchema = z.object({
   fx_rate_used: z.coerce.number().min(0)
 });
 
+// Checkout accepts a trade-in without fx_rate_used; the stored rate is applied before normalizing.
+const checkoutTradeInSchema = tradeInSchema.extend({
+  fx_rate_used: z.coerce.number().positive().optional()
+});
+
 const saleCreateSchema = z.object({
   idempotency_key: z.string().trim().min(1).max(255).optional(),
   idempotencyKey: z.string().trim().min(1).max(255).optional(),
@@ -87,7 +108,8 @@ const saleCreateSchema = z.object({
   payments: z.array(paymentEntrySchema).min(1).optional(),
   items: z.array(saleItemSchema).min(1),
   payment: paymentLegacySchema.optional(),
-  trade_in: tradeInSchema.optional()
+  trade_in: checkoutTradeInSchema.optional(),
+  promo_code: z.string().trim().min(1).max(40).optional()
 }).superRefine((value, ctx) => {
   if (!value.customer_id && !value.customer) {
     ctx.addIssue({
@@ -109,14 +131,6 @@ const saleCreateSchema = z.object({
     }
     seen.add(item.stock_item_id);
   }
-
-  if ((value.currency ?? 'ARS') === 'USD' && Number(value.fx_rate_used ?? 0) <= 0) {
-    ctx.addIssue({
-      code: z.ZodIssueCode.custom,
-      message: 'fx_rate_used_required_for_usd',
-      path: ['fx_rate_used']
-    });
-  }
 });
 
 const salePatchSchema = z.object({
@@ -175,6 +189,25 @@ const cancelSchema = z.object({
   restock_state: z.enum(['outlet', 'used_premium', 'reserved', 'deposit', 'new', 'drawer', 'service_tech']).optional()
 });
 
+const returnItemsSchema = z.object({
+  stock_item_ids: z.array(z.string().uuid()).min(1),
+  reason: z.string().trim().min(3).max(500),
+  restock_state: cancelSchema.shape.restock_state,
+  refund: z.object({
+    amount: z.coerce.number().min(0),
+    currency: currencySchema.default('ARS'),
+    method: z.enum(['cash', 'transfer', 'card']).optional()
+  }).superRefine((value, ctx) => {
+    if (value.amount > 0 && !value.method) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'refund_method_required',
+        path: ['method']
+      });
+    }
+  }).optional()
+});
+
 const registerPaymentSchema = z.object({
   method: paymentMethodSchema,
   currency: currencySchema.default('ARS'),
@@ -185,21 +218,51 @@ const registerPaymentSchema = z.object({
   note: z.string().trim().max(500).nullable().optional()
 });
 
+const reversePaymentSchema = z.object({
+  kind: z.enum(['void', 'refund']).default('void'),
+  amount: z.coerce.number().positive().optional(),
+  reason: z.string().trim().min(3).max(500)
+}).superRefine((value, ctx) => {
+  if (value.kind === 'void' && value.amount !== undefined) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'void_reverses_full_amount',
+      path: ['amount']
+    });
+  }
+});
+
 const settleSchema = z.object({
   method: paymentMethodSchema.optional(),
   currency: currencySchema.optional(),
   note: z.string().trim().max(500).nullable().optional()
 });
 
+const receiptQuerySchema = z.object({
+  format: z.enum(['pdf', 'html']).optional().default('pdf')
+});
+
+const versionsQuerySchema = z.object({
+  include_snapshots: z.enum(['true', 'false']).optional().default('false').transform((value) => value === 'true')
+});
+
 const salesListQuerySchema = z.object({
   from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
   to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
   seller_id: z.string().uuid().optional(),
+  branch_id: z.string().uuid().optional(),
   query: z.string().trim().min(1).optional(),
   page: z.coerce.number().int().positive().optional().default(1),
   page_size: z.coerce.number().int().positive().max(200).optional().default(30)
 });
 
+const salesExportQuerySchema = salesListQuerySchema
+  .omit({ page: true, page_size: true })
+  .extend({
+    format: z.enum(['csv', 'xlsx']).optional().default('csv'),
+    rows: z.enum(['items', 'payments']).optional().default('items')
+  });
+
 type SaleItemInput = {
   stock_item_id: string;
   qty: number;
@@ -208,7 +271,7 @@ type SaleItemInput = {
 
 type NormalizedCreatePayload = {
   sale_date: string;
-  customer?: { name: string; phone: string };
+  customer?: { name: string; phone: string; dni?: string };
   customer_id?: string;
   payment_method: z.infer<typeof paymentMethodSchema>;
   card_brand: string | null;
@@ -229,12 +292,13 @@ type NormalizedCreatePayload = {
   items: SaleItemInput[];
   idempotency_key: string | null;
   payment?: z.infer<typeof paymentLegacySchema>;
-  trade_in?: z.infer<typeof tradeInSchema>;
+  trade_in?: z.infer<typeof checkoutTradeInSchema>;
+  promo_code?: string;
 };
 
 type NormalizedPatchPayload = {
   sale_date?: string;
-  customer?: { name: string; phone: string };
+  customer?: { name: string; phone: string; dni?: string };
   customer_id?: string;
   payment_method?: z.infer<typeof paymentMethodSchema>;
   card_brand?: string | null;
@@ -252,6 +316,26 @@ type NormalizedPatchPayload = {
   items?: SaleItemInput[];
 };
 
+type SalesListItemRow = {
+  stock_item_id: string;
+  qty: number | null;
+  sale_price_ars: number | null;
+  subtotal_ars: number | null;
+  stock_items?: { model: string | null; imei: string | null } | Array<{ model: string | null; imei: string | null }> | null;
+};
+
+type SalesListSaleRow = {
+  id: string;
+  customers?: { name: string | null; phone: string | null } | Array<{ name: string | null; phone: string | null }> | null;
+  sale_items?: SalesListItemRow[] | null;
+  [key: string]: unknown;
+};
+
+type SalesListPageRef = {
+  sale_id: string;
+  stock_item_id: string | null;
+};
+
 type RpcLikeError = {
   message?: string;
   details?: string;
@@ -259,23 +343,6 @@ type RpcLikeError = {
   hint?: string;
 };
 
-function stableStringify(value: unknown): string {
-  if (value === null || typeof value !== 'object') {
-    return JSON.stringify(value);
-  }
-
-  if (Array.isArray(value)) {
-    return `[${value.map((item) => stableStringify(item)).join(',')}]`;
-  }
-
-  const entries = Object.entries(value as Record<string, unknown>).sort(([a], [b]) => a.localeCompare(b));
-  return `{${entries.map(([key, entryValue]) => `${JSON.stringify(key)}:${stableStringify(entryValue)}`).join(',')}}`;
-}
-
-function hashPayload(value: unknown): string {
-  return createHash('sha256').update(stableStringify(value)).digest('hex');
-}
-
 function buildItems(items: z.infer<typeof saleItemSchema>[]): SaleItemInput[] {
   return items.map((item) => ({
     stock_item_id: item.stock_item_id,
@@ -305,7 +372,38 @@ function logValidationError(scope: string, details: unknown, extra?: Record<stri
   }));
 }
 
-function normalizeCreatePayload(input: z.infer<typeof saleCreateSchema>): NormalizedCreatePayload {
+type SaleCreateInput = z.infer<typeof saleCreateSchema>;
+
+/**
+ * Fills the sale and trade-in fx_rate_used from the stored rate when the client omitted them.
+ * ARS sales without a trade-in never hit the fx_rates table.
+ */
+async function applyStoredFxRate(input: SaleCreateInput): Promise<{ data: SaleCreateInput; error: string | null }> {
+  const needsSaleRate = (input.currency ?? 'ARS') === 'USD' && input.fx_rate_used == null;
+  const needsTradeInRate = Boolean(input.trade_in?.enabled) && input.trade_in?.fx_rate_used == null;
+  if (!needsSaleRate && !needsTradeInRate) {
+    return { data: input, error: null };
+  }
+
+  const { data: storedRate, error } = await resolveCurrentFxRate();
+  if (error) {
+    return { data: input, error: error.message };
+  }
+  if (!storedRate) {
+    return { data: input, error: null };
+  }
+
+  return {
+    data: {
+      ...input,
+      ...(needsSaleRate ? { fx_rate_used: storedRate.rate } : {}),
+      ...(needsTradeInRate && input.trade_in ? { trade_in: { ...input.trade_in, fx_rate_used: storedRate.rate } } : {})
+    },
+    error: null
+  };
+}
+
+function normalizeCreatePayload(input: SaleCreateInput): NormalizedCreatePayload {
   const paymentMethod = input.payment_method ?? input.payment?.method ?? 'cash';
   const cardBrand = input.card_brand ?? input.payment?.card_brand ?? null;
   const installments = input.installments ?? input.payment?.installments ?? null;
@@ -353,7 +451,8 @@ function normalizeCreatePayload(input: z.infer<typeof saleCreateSchema>): Normal
     ...(payments ? { payments } : {}),
     items,
     payment: input.payment,
-    trade_in: input.trade_in
+    trade_in: input.trade_in,
+    ...(input.promo_code ? { promo_code: normalizePromoCode(input.promo_code) } : {})
   };
 }
 
@@ -426,6 +525,10 @@ function mapCheckoutRpcError(error: RpcLikeError): { status: number; code: strin
     return { status: 409, code: 'stock_conflict', message: 'Stock item is no longer available for sale' };
   }
 
+  if (message.includes('promo_code_exhausted') || message.includes('promo_code_inactive')) {
+    return { status: 409, code: 'promo_code_unavailable', message: 'Promo code cannot be applied' };
+  }
+
   if (
     message.includes('validation_error')
     || message.includes('total_mismatch')
@@ -469,18 +572,22 @@ function isEmbedRelationError(error: RpcLikeError | null | undefined): boolean {
   return error?.code === 'PGRST200' || error?.code === 'PGRST201';
 }
 
-async function fetchSalesListRows() {
+async function fetchSalesListRows(saleIds: string[]) {
   let lastError: RpcLikeError | null = null;
 
+  if (saleIds.length === 0) {
+    return { data: [] as SalesListSaleRow[], error: null as RpcLikeError | null };
+  }
+
   for (const saleItemsFkName of SALES_TO_SALE_ITEMS_FK_CANDIDATES) {
     for (const stockItemsFkName of SALE_ITEMS_TO_STOCK_ITEMS_FK_CANDIDATES) {
       const { data, error } = await supabaseAdmin
         .from('sales')
-        .select(`*, customers(name, phone), sale_items!${saleItemsFkName}(stock_item_id, qty, sale_price_ars, subtotal_ars, stock_items!${stockItemsFkName}(model, imei)), sale_payments(id, method, currency, amount, card_brand, installments, surcharge_pct, note)`)
-        .order('created_at', { ascending: false });
+        .select(`*, customers(name, phone), sale_items!${saleItemsFkName}(stock_item_id, qty, sale_price_ars, subtotal_ars, stock_items!${stockItemsFkName}(model, imei)), sale_payments(id, method, currency, amount, card_brand, installments, surcharge_pct, note, created_at)`)
+        .in('id', saleIds);
 
       if (!error) {
-        return { data: data ?? [], error: null as RpcLikeError | null };
+        return { data: (data ?? []) as SalesListSaleRow[], error: null as RpcLikeError | null };
       }
 
       lastError = error;
@@ -490,7 +597,65 @@ async function fetchSalesListRows() {
     }
   }
 
-  return { data: null as unknown[] | null, error: lastError };
+  return { data: null as SalesListSaleRow[] | null, error: lastError };
+}
+
+function flattenSaleListRows(sale: SalesListSaleRow) {
+  const items = sale.sale_items ?? [];
+  const customer = Array.isArray(sale.customers) ? sale.customers[0] : sale.customers;
+  const customerName = customer?.name ?? null;
+  const customerPhone = customer?.phone ?? null;
+
+  if (items.length === 0) {
+    return [{
+      ...sale,
+      stock_item_id: null,
+      stock_model: null,
+      stock_imei: null,
+      qty: null,
+      sale_price_ars_item: null,
+      subtotal_ars_item: null,
+      customer_name: customerName,
+      customer_phone: customerPhone
+    }];
+  }
+
+  return items.map((item) => {
+    const stockItem = Array.isArray(item.stock_items) ? item.stock_items[0] : item.stock_items;
+    return ({
+      ...sale,
+      stock_item_id: item.stock_item_id as string | null,
+      stock_model: stockItem?.model ?? null,
+      stock_imei: stockItem?.imei ?? null,
+      qty: item.qty,
+      sale_price_ars_item: item.sale_price_ars,
+      subtotal_ars_item: item.subtotal_ars,
+      customer_name: customerName,
+      customer_phone: customerPhone
+    });
+  });
+}
+
+/** Same branch rule as the list: a seller tied to a branch does not reach other branches' sales by id either. */
+function isSaleInBranchScope(req: Request, saleBranchId: string | null | undefined): boolean {
+  const branchScope = resolveBranchScope(req);
+  return branchScope.ok && (!branchScope.branchId || branchScope.branchId === saleBranchId);
+}
+
+/** For routes that hand the id straight to an RPC: true only when the sale exists and is outside the caller's branch. */
+async function isSaleHiddenByBranchScope(req: Request, saleId: string): Promise<boolean> {
+  const branchScope = resolveBranchScope(req);
+  if (branchScope.ok && !branchScope.branchId) {
+    return false;
+  }
+
+  const { data: sale } = await supabaseAdmin
+    .from('sales')
+    .select('branch_id')
+    .eq('id', saleId)
+    .maybeSingle();
+
+  return Boolean(sale) && !isSaleInBranchScope(req, sale?.branch_id);
 }
 
 async function fetchSaleByIdWithRelations(saleId: string) {
@@ -500,7 +665,7 @@ async function fetchSaleByIdWithRelations(saleId: string) {
     for (const stockItemsFkName of SALE_ITEMS_TO_STOCK_ITEMS_FK_CANDIDATES) {
       const { data, error } = await supabaseAdmin
         .from('sales')
-        .select(`*, customers(name, phone), sale_items!${saleItemsFkName}(*, stock_items!${stockItemsFkName}(*)), sale_payments(*), trade_ins(*)`)
+        .select(`*, customers(name, phone, dni), sale_items!${saleItemsFkName}(*, stock_items!${stockItemsFkName}(*)), sale_payments(*), trade_ins(*)`)
         .eq('id', saleId)
         .single();
 
@@ -518,31 +683,21 @@ async function fetchSaleByIdWithRelations(saleId: string) {
   return { data: null as Record<string, unknown> | null, error: lastError };
 }
 
-async function persistIdempotencyResult(idempotencyId: string | null, status: number, body: unknown): Promise<void> {
-  if (!idempotencyId) return;
+async function syncCustomerDni(customerId: unknown, dni: string | undefined): Promise<void> {
+  if (!dni || typeof customerId !== 'string' || !customerId) return;
 
+  // Best-effort: keep the first DNI captured at checkout, never overwrite an existing one.
   await supabaseAdmin
-    .from('idempotency_keys')
-    .update({
-      response_status: status,
-      response_body: body
-    })
-    .eq('id', idempotencyId);
+    .from('customers')
+    .update({ dni })
+    .eq('id', customerId)
+    .is('dni', null);
 }
 
 function makeError(code: string, message: string, details?: unknown) {
   return { error: { code, message, details } };
 }
 
-function resolveIdempotencyKey(req: { header: (name: string) => string | undefined }, bodyKey?: string | null): string | null {
-  const fromHeader = req.header('idempotency-key')?.trim() || req.header('x-idempotency-key')?.trim();
-  const candidate = fromHeader || bodyKey?.trim() || '';
-  if (!candidate) {
-    return null;
-  }
-  return candidate.slice(0, 255);
-}
-
 function logSaleCreateEvent(payload: {
   result: 'created' | 'idempotent_replay' | 'failed';
   user_id: string;
@@ -561,130 +716,179 @@ function logSaleCreateEvent(payload: {
   }));
 }
 
-async function handleCheckoutSale(req: Request, res: Response) {
+type CheckoutPromoResult =
+  | { error: CheckoutResult }
+  | { application: PromoApplication; payload: Pick<NormalizedCreatePayload, 'items' | 'total_ars' | 'total_usd' | 'balance_due_ars'> };
+
+// Prices the promo into the items so rpc_create_sale_v2 totals stay the single source of truth.
+async function resolveCheckoutPromo(normalized: NormalizedCreatePayload): Promise<CheckoutPromoResult> {
+  const { data: promoCode, error } = await findPromoCode(normalized.promo_code ?? '');
+  if (error) {
+    return { error: { status: 400, body: makeError('promo_code_lookup_failed', 'Failed to lookup promo code', error.message) } };
+  }
+  if (!promoCode) {
+    return { error: { status: 422, body: makeError('validation_error', 'Invalid sale payload', 'promo_code_not_found') } };
+  }
+
+  const reason = checkPromoCodeAvailability(promoCode, normalized.total_ars);
+  if (reason) {
+    return { error: { status: reason === 'promo_code_exhausted' ? 409 : 422, body: makeError('promo_code_unavailable', 'Promo code cannot be applied', reason) } };
+  }
+
+  const { items, application } = applyPromoCode(promoCode, normalized.items);
+  const totalArs = computeServerTotal(items);
+  if (items.some((item) => item.sale_price_ars <= 0)) {
+    return { error: { status: 422, body: makeError('validation_error', 'Invalid sale payload', 'promo_discount_exceeds_item_price') } };
+  }
+
+  if (normalized.input_total_ars != null && Math.abs(normalized.input_total_ars - totalArs) > 0.01) {
+    return {
+      error: {
+        status: 422,
+        body: makeError('validation_error', 'Invalid sale payload', {
+          code: 'total_mismatch',
+          input_total_ars: normalized.input_total_ars,
+          server_total_ars: totalArs
+        })
+      }
+    };
+  }
+
+  const derivedTotalUsd = normalized.currency === 'USD' && normalized.fx_rate_used && normalized.fx_rate_used > 0
+    ? roundTo2(totalArs / normalized.fx_rate_used)
+    : null;
+  const balanceShift = normalized.total_ars - totalArs;
+
+  return {
+    application,
+    payload: {
+      items,
+      total_ars: totalArs,
+      total_usd: derivedTotalUsd ?? normalized.total_usd,
+      balance_due_ars: Math.max(normalized.balance_due_ars - balanceShift, 0)
+    }
+  };
+}
+
+export type CheckoutResult = {
+  status: number;
+  body: unknown;
+};
+
+export type CheckoutOptions = {
+  /** Replaces the header/body key; `null` runs the checkout without idempotency. */
+  idempotencyKey?: string | null;
+  /** Replaces the hash of the built payload, for callers whose payload carries per-attempt values. */
+  requestHash?: string;
+  /** Frees the key on a failed checkout instead of storing the error, so a retry runs again. */
+  releaseOnFailure?: boolean;
+};
+
+/**
+ * Runs the checkout flow for an already-authenticated request. Callers that build the
+ * sale payload themselves (quotes) pass it as `payload`; idempotency headers still come from `req`
+ * unless `options` says otherwise.
+ */
+export async function runCheckoutSale(req: Request, payload: unknown, options: CheckoutOptions = {}): Promise<CheckoutResult> {
   const userId = req.user?.id;
   if (!userId) {
-    return res.status(401).json(makeError('unauthorized', 'Missing authenticated user'));
+    return { status: 401, body: makeError('unauthorized', 'Missing authenticated user') };
   }
 
-  const parsed = saleCreateSchema.safeParse(req.body);
+  const parsed = saleCreateSchema.safeParse(payload);
   if (!parsed.success) {
     logValidationError('sales.create', parsed.error.flatten(), { user_id: userId });
-    return res.status(422).json(makeError('validation_error', 'Invalid sale payload', parsed.error.flatten()));
+    return { status: 422, body: makeError('validation_error', 'Invalid sale payload', parsed.error.flatten()) };
+  }
+
+  // Hash the payload as the client sent it: the fallback fx rate filled in below changes over time, and a
+  // retry after a rate update must replay the stored response instead of answering idempotency_conflict.
+  const { idempotency_key: bodyIdempotencyKey, ...clientPayload } = normalizeCreatePayload(parsed.data);
+  const requestHash = options.requestHash ?? hashPayload(clientPayload);
+
+  const withFx = await applyStoredFxRate(parsed.data);
+  if (withFx.error) {
+    return { status: 400, body: makeError('fx_rates_fetch_failed', 'Could not resolve fx rate', withFx.error) };
+  }
+  if (withFx.data.trade_in?.enabled && withFx.data.trade_in.fx_rate_used == null) {
+    logValidationError('sales.create', 'fx_rate_unavailable', { user_id: userId });
+    return { status: 422, body: makeError('validation_error', 'Invalid sale payload', 'fx_rate_unavailable') };
   }
 
-  const normalized = normalizeCreatePayload(parsed.data);
+  const normalized = normalizeCreatePayload(withFx.data);
   if (normalized.currency === 'USD' && Number(normalized.fx_rate_used ?? 0) <= 0) {
     logValidationError('sales.create', 'fx_rate_used_required_for_usd', { user_id: userId });
-    return res.status(422).json(makeError('validation_error', 'Invalid sale payload', 'fx_rate_used_required_for_usd'));
+    return { status: 422, body: makeError('validation_error', 'Invalid sale payload', 'fx_rate_used_required_for_usd') };
   }
 
   if (normalized.total_ars <= 0) {
     logValidationError('sales.create', 'total_ars_must_be_gt_0', { user_id: userId });
-    return res.status(422).json(makeError('validation_error', 'Invalid sale payload', 'total_ars_must_be_gt_0'));
+    return { status: 422, body: makeError('validation_error', 'Invalid sale payload', 'total_ars_must_be_gt_0') };
   }
 
-  if (normalized.input_total_ars != null && Math.abs(normalized.input_total_ars - normalized.total_ars) > 0.01) {
+  // With a promo code the client total is compared after the discount is applied below.
+  if (!normalized.promo_code && normalized.input_total_ars != null && Math.abs(normalized.input_total_ars - normalized.total_ars) > 0.01) {
     logValidationError('sales.create', 'total_mismatch', {
       user_id: userId,
       input_total_ars: normalized.input_total_ars,
       server_total_ars: normalized.total_ars
     });
-    return res.status(422).json(makeError('validation_error', 'Invalid sale payload', {
-      code: 'total_mismatch',
-      input_total_ars: normalized.input_total_ars,
-      server_total_ars: normalized.total_ars
-    }));
+    return {
+      status: 422,
+      body: makeError('validation_error', 'Invalid sale payload', {
+        code: 'total_mismatch',
+        input_total_ars: normalized.input_total_ars,
+        server_total_ars: normalized.total_ars
+      })
+    };
   }
 
-  const { idempotency_key: bodyIdempotencyKey, ...basePayload } = normalized;
-  const idempotencyKey = resolveIdempotencyKey(req, bodyIdempotencyKey);
-  const requestHash = hashPayload(basePayload);
+  const { idempotency_key: _idempotencyKey, ...basePayload } = normalized;
+  const idempotencyKey = options.idempotencyKey !== undefined
+    ? options.idempotencyKey
+    : resolveIdempotencyKey(req, bodyIdempotencyKey);
   let idempotencyId: string | null = null;
+  const settleFailure = (status: number, body: unknown) => (options.releaseOnFailure
+    ? releaseIdempotencyKey(idempotencyId)
+    : persistIdempotencyResult(idempotencyId, status, body));
 
   if (idempotencyKey) {
-    const findExisting = async () => supabaseAdmin
-      .from('idempotency_keys')
-      .select('id, request_hash, response_status, response_body')
-      .eq('user_id', userId)
-      .eq('route', IDEMPOTENCY_ROUTE)
-      .eq('key', idempotencyKey)
-      .maybeSingle();
-
-    const { data: existing, error: existingError } = await findExisting();
-    if (existingError) {
-      return res.status(400).json(makeError('idempotency_lookup_failed', 'Failed to lookup idempotency key', existingError.message));
+    const reservation = await reserveIdempotencyKey({ userId, route: IDEMPOTENCY_ROUTE, key: idempotencyKey, requestHash });
+    if (reservation.kind === 'rejected') {
+      return { status: reservation.status, body: reservation.body };
     }
-
-    if (existing) {
-      if (existing.request_hash !== requestHash) {
-        return res.status(409).json(makeError('idempotency_conflict', 'Same idempotency key used with different payload'));
-      }
-
-      if (existing.response_status && existing.response_body) {
-        logSaleCreateEvent({
-          result: 'idempotent_replay',
-          user_id: userId,
-          sale_id: typeof (existing.response_body as Record<string, unknown>)?.sale_id === 'string'
-            ? (existing.response_body as Record<string, unknown>).sale_id as string
-            : null,
-          items_count: normalized.items.length,
-          status: existing.response_status
-        });
-        return res.status(existing.response_status).json(existing.response_body);
-      }
-
-      return res.status(409).json(makeError('idempotency_in_progress', 'Request with this idempotency key is in progress'));
+    if (reservation.kind === 'replay') {
+      const replayBody = reservation.body as Record<string, unknown> | null;
+      logSaleCreateEvent({
+        result: 'idempotent_replay',
+        user_id: userId,
+        sale_id: typeof replayBody?.sale_id === 'string' ? replayBody.sale_id : null,
+        items_count: normalized.items.length,
+        status: reservation.status
+      });
+      return { status: reservation.status, body: reservation.body };
     }
 
-    const expiresAt = new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString();
-    const { data: inserted, error: insertError } = await supabaseAdmin
-      .from('idempotency_keys')
-      .insert({
-        user_id: userId,
-        route: IDEMPOTENCY_ROUTE,
-        key: idempotencyKey,
-        request_hash: requestHash,
-        expires_at: expiresAt
-      })
-      .select('id')
-      .single();
-
-    if (insertError) {
-      if (insertError.code === '23505') {
-        const { data: raced, error: racedError } = await findExisting();
-        if (racedError) {
-          return res.status(400).json(makeError('idempotency_lookup_failed', 'Failed to lookup idempotency key', racedError.message));
-        }
-        if (raced) {
-          if (raced.request_hash !== requestHash) {
-            return res.status(409).json(makeError('idempotency_conflict', 'Same idempotency key used with different payload'));
-          }
-          if (raced.response_status && raced.response_body) {
-            logSaleCreateEvent({
-              result: 'idempotent_replay',
-              user_id: userId,
-              sale_id: typeof (raced.response_body as Record<string, unknown>)?.sale_id === 'string'
-                ? (raced.response_body as Record<string, unknown>).sale_id as string
-                : null,
-              items_count: normalized.items.length,
-              status: raced.response_status
-            });
-            return res.status(raced.response_status).json(raced.response_body);
-          }
-          return res.status(409).json(makeError('idempotency_in_progress', 'Request with this idempotency key is in progress'));
-        }
-      }
+    idempotencyId = reservation.id;
+  }
+
+  let rpcPayload: Record<string, unknown> = basePayload;
+  let promo: PromoApplication | null = null;
 
-      return res.status(400).json(makeError('idempotency_reserve_failed', 'Failed to reserve idempotency key', insertError.message));
+  if (normalized.promo_code) {
+    const promoResult = await resolveCheckoutPromo(normalized);
+    if ('error' in promoResult) {
+      logValidationError('sales.create', promoResult.error.body, { user_id: userId, promo_code: normalized.promo_code });
+      await settleFailure(promoResult.error.status, promoResult.error.body);
+      return promoResult.error;
     }
 
-    idempotencyId = inserted?.id ?? null;
+    promo = promoResult.application;
+    Object.assign(normalized, promoResult.payload);
+    rpcPayload = { ...basePayload, ...promoResult.payload, promo };
   }
 
-  const rpcPayload = basePayload;
-
-  const { data: rpcData, error: rpcError } = await supabaseAdmin.rpc('rpc_create_sale_v2', {
+  const { data: rpcData, error: rpcError } = await supabaseAdmin.rpc(promo ? 'rpc_create_sale_with_promo_v1' : 'rpc_create_sale_v2', {
     p_payload: rpcPayload,
     p_user_id: userId
   });
@@ -700,8 +904,8 @@ async function handleCheckoutSale(req: Request, res: Response) {
       code: mapped.code,
       details: rpcError.details ?? rpcError.message
     });
-    await persistIdempotencyResult(idempotencyId, mapped.status, body);
-    return res.status(mapped.status).json(body);
+    await settleFailure(mapped.status, body);
+    return { status: mapped.status, body };
   }
 
   const responseBody = {
@@ -720,13 +924,16 @@ async function handleCheckoutSale(req: Request, res: Response) {
       balance_due_ars: rpcData?.balance_due_ars ?? normalized.balance_due_ars,
       details: rpcData?.details ?? normalized.details,
       notes: rpcData?.notes ?? normalized.notes,
-      includes_cube_20w: rpcData?.includes_cube_20w ?? normalized.includes_cube_20w
+      includes_cube_20w: rpcData?.includes_cube_20w ?? normalized.includes_cube_20w,
+      promo_code: promo?.code ?? null,
+      promo_discount_ars: promo?.discount_ars ?? 0
     },
     items_applied: normalized.items.map((item) => ({
       stock_item_id: item.stock_item_id,
       qty: item.qty,
       sale_price_ars: item.sale_price_ars,
-      subtotal_ars: roundTo2(item.qty * item.sale_price_ars)
+      subtotal_ars: roundTo2(item.qty * item.sale_price_ars),
+      promo_discount_ars: promo?.items.find((entry) => entry.stock_item_id === item.stock_item_id)?.promo_discount_ars ?? 0
     })),
     stock_synced: true,
     sale_id: rpcData?.sale_id,
@@ -746,6 +953,8 @@ async function handleCheckoutSale(req: Request, res: Response) {
     includes_cube_20w: rpcData?.includes_cube_20w ?? normalized.includes_cube_20w
   };
 
+  await syncCustomerDni(rpcData?.customer_id, normalized.customer?.dni);
+
   logSaleCreateEvent({
     result: 'created',
     user_id: userId,
@@ -754,7 +963,12 @@ async function handleCheckoutSale(req: Request, res: Response) {
     status: 201
   });
   await persistIdempotencyResult(idempotencyId, 201, responseBody);
-  return res.status(201).json(responseBody);
+  return { status: 201, body: responseBody };
+}
+
+async function handleCheckoutSale(req: Request, res: Response) {
+  const result = await runCheckoutSale(req, req.body);
+  return res.status(result.status).json(result.body);
 }
 
 router.get('/', requireRole('seller'), async (req, res) => {
@@ -763,116 +977,195 @@ router.get('/', requireRole('seller'), async (req, res) => {
     return res.status(400).json(makeError('validation_error', 'Invalid sales query', parsedQuery.error.flatten()));
   }
 
-  const filters = parsedQuery.data;
-  const { data, error } = await fetchSalesListRows();
+  const branchScope = resolveBranchScope(req, parsedQuery.data.branch_id);
+  if (!branchScope.ok) {
+    return res.status(branchScope.status).json({ error: branchScope.error });
+  }
+
+  const filters = { ...parsedQuery.data, branch_id: branchScope.branchId ?? undefined };
+  const { data: listData, error: listError } = await supabaseAdmin.rpc('rpc_list_sales_v1', {
+    p_filters: filters
+  });
+
+  if (listError) {
+    return res.status(400).json(makeError('sales_fetch_failed', 'Sales fetch failed', listError.message));
+  }
+
+  const pageRefs = (listData?.rows ?? []) as SalesListPageRef[];
+  const saleIds = [...new Set(pageRefs.map((ref) => ref.sale_id))];
+  const { data, error } = await fetchSalesListRows(saleIds);
 
   if (error) {
     return res.status(400).json(makeError('sales_fetch_failed', 'Sales fetch failed', error.message));
   }
 
-  const rows = (data ?? []).flatMap((sale) => {
-    const items = sale.sale_items ?? [];
-    const customerName = sale.customers?.name ?? null;
-    const customerPhone = sale.customers?.phone ?? null;
-
-    if (items.length === 0) {
-      return [{
-        ...sale,
-        stock_item_id: null,
-        stock_model: null,
-        stock_imei: null,
-        qty: null,
-        sale_price_ars_item: null,
-        subtotal_ars_item: null,
-        customer_name: customerName,
-        customer_phone: customerPhone
-      }];
+  const rowsByKey = new Map<string, ReturnType<typeof flattenSaleListRows>[number]>();
+  for (const sale of data ?? []) {
+    for (const row of flattenSaleListRows(sale)) {
+      rowsByKey.set(`${sale.id}:${row.stock_item_id ?? ''}`, row);
     }
+  }
 
-    return items.map((item: {
-      stock_item_id: string;
-      qty: number | null;
-      sale_price_ars: number | null;
-      subtotal_ars: number | null;
-      stock_items?: { model: string | null; imei: string | null } | Array<{ model: string | null; imei: string | null }>;
-    }) => {
-      const stockItem = Array.isArray(item.stock_items) ? item.stock_items[0] : item.stock_items;
-      return ({
-      ...sale,
-      stock_item_id: item.stock_item_id,
-      stock_model: stockItem?.model ?? null,
-      stock_imei: stockItem?.imei ?? null,
-      qty: item.qty,
-      sale_price_ars_item: item.sale_price_ars,
-      subtotal_ars_item: item.subtotal_ars,
-      customer_name: customerName,
-      customer_phone: customerPhone
-      });
-    });
+  const paginatedRows = pageRefs
+    .map((ref) => rowsByKey.get(`${ref.sale_id}:${ref.stock_item_id ?? ''}`))
+    .filter((row): row is NonNullable<typeof row> => Boolean(row));
+
+  return res.json({
+    sales: paginatedRows,
+    total: Number(listData?.total ?? 0),
+    page: filters.page ?? 1,
+    page_size: filters.page_size ?? 30,
+    total_ars: Number(listData?.total_ars ?? 0),
+    pending_ars: Number(listData?.pending_ars ?? 0)
   });
+});
 
-  const fromMillis = filters.from ? Date.parse(`${filters.from}T00:00:00Z`) : null;
-  const toMillis = filters.to ? Date.parse(`${filters.to}T23:59:59Z`) : null;
-  const query = filters.query ? filters.query.toLowerCase() : null;
+router.get('/export', requireRole('seller'), async (req, res) => {
+  const parsedQuery = salesExportQuerySchema.safeParse(req.query);
+  if (!parsedQuery.success) {
+    return res.status(400).json(makeError('validation_error', 'Invalid export query', parsedQuery.error.flatten()));
+  }
 
-  const filteredRows = rows.filter((row) => {
-    if (filters.seller_id && row.seller_id !== filters.seller_id) {
-      return false;
-    }
+  const { format, rows: mode, ...requestedFilters } = parsedQuery.data;
+  const branchScope = resolveBranchScope(req, requestedFilters.branch_id);
+  if (!branchScope.ok) {
+    return res.status(branchScope.status).json({ error: branchScope.error });
+  }
 
-    if (fromMillis != null || toMillis != null) {
-      const rowDate = Date.parse(row.sale_date ?? row.created_at ?? '');
-      if (Number.isNaN(rowDate)) return false;
-      if (fromMillis != null && rowDate < fromMillis) return false;
-      if (toMillis != null && rowDate > toMillis) return false;
+  const filters = { ...requestedFilters, branch_id: branchScope.branchId ?? undefined };
+  const loadPage = async (page: number) => {
+    const { data: listData, error: listError } = await supabaseAdmin.rpc('rpc_list_sales_v1', {
+      p_filters: { ...filters, page, page_size: EXPORT_PAGE_SIZE }
+    });
+    if (listError) {
+      return { refs: null, total: 0, error: listError };
     }
+    return {
+      refs: (listData?.rows ?? []) as SalesListPageRef[],
+      total: Number(listData?.total ?? 0),
+      error: null as RpcLikeError | null
+    };
+  };
 
-    if (query) {
-      const haystack = [
-        row.customer_name,
-        row.customer_phone,
-        row.stock_model,
-        row.stock_imei,
-        row.notes,
-        row.details
-      ]
-        .filter((value): value is string => typeof value === 'string')
-        .join(' ')
-        .toLowerCase();
-
-      if (!haystack.includes(query)) {
-        return false;
+  // Fail before any bytes are sent so errors still come back as JSON.
+  const firstPage = await loadPage(1);
+  if (firstPage.error || !firstPage.refs) {
+    return res.status(400).json(makeError('sales_export_failed', 'Sales export failed', firstPage.error?.message));
+  }
+  const maxRows = EXPORT_MAX_PAGES * EXPORT_PAGE_SIZE;
+  if (firstPage.total > maxRows) {
+    return res.status(422).json(makeError('export_too_large', 'Too many rows to export, narrow the filters', {
+      total: firstPage.total,
+      max_rows: maxRows
+    }));
+  }
+
+  const stamp = new Date().toISOString().slice(0, 10);
+  res.setHeader('Content-Type', format === 'xlsx'
+    ? 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+    : 'text/csv; charset=utf-8');
+  res.setHeader('Content-Disposition', `attachment; filename="ventas-${mode === 'payments' ? 'pagos' : 'items'}-${stamp}.${format}"`);
+
+  const writer = createSalesExportWriter(format, mode, res);
+  const sellerNames = new Map<string, string | null>();
+  // Pages are item rows, so a sale with several items can span two pages; its payments go out once.
+  const exportedSaleIds = new Set<string>();
+  let refs: SalesListPageRef[] = firstPage.refs;
+  let truncated = false;
+
+  try {
+    for (let page = 1; refs.length > 0; page += 1) {
+      if (page > 1) {
+        const next = await loadPage(page);
+        if (next.error || !next.refs) {
+          throw new Error(next.error?.message ?? 'sales_export_page_failed');
+        }
+        refs = next.refs;
+        if (refs.length === 0) break;
+      }
+      if (page > EXPORT_MAX_PAGES) {
+        truncated = true;
+        break;
       }
-    }
 
-    return true;
-  });
+      const saleIds = [...new Set(refs.map((ref) => ref.sale_id))];
+      const { data: sales, error } = await fetchSalesListRows(saleIds);
+      if (error || !sales) {
+        throw new Error(error?.message ?? 'sales_export_fetch_failed');
+      }
 
-  const salesTotalsMap = new Map<string, { total_ars: number; pending_ars: number }>();
-  for (const row of filteredRows) {
-    if (!row.id || salesTotalsMap.has(row.id)) continue;
-    salesTotalsMap.set(row.id, {
-      total_ars: Number(row.total_ars ?? 0),
-      pending_ars: Number(row.balance_due_ars ?? 0)
-    });
-  }
+      const missingSellerIds = [...new Set(sales.map((sale) => sale.seller_id as string | null))]
+        .filter((id): id is string => Boolean(id) && !sellerNames.has(id as string));
+      if (missingSellerIds.length > 0) {
+        const { data: profiles } = await supabaseAdmin
+          .from('profiles')
+          .select('id, full_name')
+          .in('id', missingSellerIds);
+        for (const profile of profiles ?? []) {
+          sellerNames.set(profile.id, profile.full_name ?? null);
+        }
+      }
 
-  const totalArs = Array.from(salesTotalsMap.values()).reduce((sum, item) => sum + item.total_ars, 0);
-  const pendingArs = Array.from(salesTotalsMap.values()).reduce((sum, item) => sum + item.pending_ars, 0);
+      const salesById = new Map(sales.map((sale) => {
+        const customer = Array.isArray(sale.customers) ? sale.customers[0] : sale.customers;
+        return [sale.id, {
+          ...sale,
+          customer_name: customer?.name ?? null,
+          customer_phone: customer?.phone ?? null,
+          seller_name: sellerNames.get(sale.seller_id as string) ?? null
+        }];
+      }));
 
-  const page = filters.page ?? 1;
-  const pageSize = filters.page_size ?? 30;
-  const offset = (page - 1) * pageSize;
-  const paginatedRows = filteredRows.slice(offset, offset + pageSize);
+      if (mode === 'payments') {
+        const { data: reversals } = await supabaseAdmin
+          .from('sale_payment_reversals')
+          .select('sale_payment_id, amount')
+          .in('sale_id', saleIds);
+        const reversedByPaymentId = new Map<string, number>();
+        for (const reversal of reversals ?? []) {
+          reversedByPaymentId.set(reversal.sale_payment_id, (reversedByPaymentId.get(reversal.sale_payment_id) ?? 0) + Number(reversal.amount ?? 0));
+        }
 
-  return res.json({
-    sales: paginatedRows,
-    total: filteredRows.length,
-    page,
-    page_size: pageSize,
-    total_ars: totalArs,
-    pending_ars: pendingArs
-  });
+        for (const saleId of saleIds) {
+          const sale = salesById.get(saleId);
+          if (!sale || exportedSaleIds.has(saleId)) continue;
+          exportedSaleIds.add(saleId);
+          for (const row of flattenSalePaymentRows(sale, reversedByPaymentId)) {
+            writer.writeRow(row);
+          }
+        }
+      } else {
+        const rowsByKey = new Map<string, ReturnType<typeof flattenSaleListRows>[number]>();
+        for (const sale of salesById.values()) {
+          for (const row of flattenSaleListRows(sale)) {
+            rowsByKey.set(`${sale.id}:${row.stock_item_id ?? ''}`, row);
+          }
+        }
+        for (const ref of refs) {
+          const row = rowsByKey.get(`${ref.sale_id}:${ref.stock_item_id ?? ''}`);
+          if (row) writer.writeRow(row);
+        }
+      }
+
+      if (refs.length < EXPORT_PAGE_SIZE) break;
+    }
+
+    // Rows were added while exporting past the limit checked above: say so in the file instead of ending silently.
+    if (truncated) {
+      writer.writeNotice(`Exportación incompleta: se alcanzó el máximo de ${maxRows} filas. Acotá los filtros.`);
+    }
+    await writer.end();
+  } catch (error) {
+    // Headers are already sent: log and cut the stream so the client sees a truncated download.
+    // eslint-disable-next-line no-console
+    console.error(JSON.stringify({
+      level: 'error',
+      event: 'sales_export_failed',
+      details: error instanceof Error ? error.message : String(error),
+      timestamp: new Date().toISOString()
+    }));
+    res.destroy(error instanceof Error ? error : undefined);
+  }
 });
 
 router.get('/:id', requireRole('seller'), async (req, res) => {
@@ -880,7 +1173,7 @@ router.get('/:id', requireRole('seller'), async (req, res) => {
 
   const { data: sale, error: saleError } = await fetchSaleByIdWithRelations(saleId);
 
-  if (saleError || !sale) {
+  if (saleError || !sale || !isSaleInBranchScope(req, sale.branch_id)) {
     return res.status(404).json(makeError('not_found', 'Sale not found', saleError?.message));
   }
 
@@ -890,18 +1183,117 @@ router.get('/:id', requireRole('seller'), async (req, res) => {
     .eq('sale_id', saleId)
     .order('created_at', { ascending: false });
 
+  const { data: saleReturns } = await supabaseAdmin
+    .from('sale_returns')
+    .select('id, reason, restock_status, restock_category, refund_method, refund_currency, refund_amount, refund_ars, total_before_ars, total_after_ars, created_by, created_at, sale_return_items(stock_item_id, qty, sale_price_ars, subtotal_ars)')
+    .eq('sale_id', saleId)
+    .order('created_at', { ascending: false });
+
+  const { data: paymentReversals } = await supabaseAdmin
+    .from('sale_payment_reversals')
+    .select('id, sale_payment_id, kind, currency, amount, reason, created_by, created_at')
+    .eq('sale_id', saleId)
+    .order('created_at', { ascending: false });
+
   return res.json({
     sale: {
       ...sale,
-      audit_logs: auditLogs ?? []
+      audit_logs: auditLogs ?? [],
+      returns: saleReturns ?? [],
+      payment_reversals: paymentReversals ?? []
     }
   });
 });
 
+router.get('/:id/receipt', requireRole('seller'), async (req, res) => {
+  const parsedQuery = receiptQuerySchema.safeParse(req.query);
+  if (!parsedQuery.success) {
+    return res.status(400).json(makeError('validation_error', 'Invalid receipt query', parsedQuery.error.flatten()));
+  }
+
+  const { data: sale, error: saleError } = await fetchSaleByIdWithRelations(req.params.id);
+  if (saleError || !sale || !isSaleInBranchScope(req, sale.branch_id)) {
+    return res.status(404).json(makeError('not_found', 'Sale not found', saleError?.message));
+  }
+
+  const receipt = buildSaleReceipt(sale);
+
+  if (parsedQuery.data.format === 'html') {
+    return res.type('html').send(renderSaleReceiptHtml(receipt));
+  }
+
+  res.setHeader('Content-Type', 'application/pdf');
+  res.setHeader('Content-Disposition', `inline; filename="comprobante-${receipt.number}.pdf"`);
+  writeSaleReceiptPdf(receipt, res);
+});
+
+router.get('/:id/versions', requireRole('admin'), async (req, res) => {
+  const parsedQuery = versionsQuerySchema.safeParse(req.query);
+  if (!parsedQuery.success) {
+    return res.status(400).json(makeError('validation_error', 'Invalid versions query', parsedQuery.error.flatten()));
+  }
+
+  const { data: sale, error: saleError } = await supabaseAdmin
+    .from('sales')
+    .select('id')
+    .eq('id', req.params.id)
+    .maybeSingle();
+
+  if (saleError) {
+    return res.status(400).json(makeError('sale_versions_fetch_failed', 'Failed to fetch sale', saleError.message));
+  }
+  if (!sale) {
+    return res.status(404).json(makeError('not_found', 'Sale not found'));
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('sale_versions')
+    .select('id, sale_id, version, action, actor_user_id, before_snapshot, after_snapshot, created_at')
+    .eq('sale_id', req.params.id)
+    .order('version', { ascending: false });
+
+  if (error) {
+    return res.status(400).json(makeError('sale_versions_fetch_failed', 'Failed to fetch sale versions', error.message));
+  }
+
+  const versions = (data ?? []) as SaleVersionRow[];
+  const actorIds = [...new Set(versions.map((version) => version.actor_user_id).filter((id): id is string => Boolean(id)))];
+  const actorNames = new Map<string, string | null>();
+  if (actorIds.length > 0) {
+    const { data: profiles } = await supabaseAdmin
+      .from('profiles')
+      .select('id, full_name')
+      .in('id', actorIds);
+    for (const profile of profiles ?? []) {
+      actorNames.set(profile.id, profile.full_name ?? null);
+    }
+  }
+
+  return res.json({
+    sale_id: req.params.id,
+    versions: versions.map((version) => {
+      const changes = diffSaleSnapshots(version.before_snapshot ?? {}, version.after_snapshot ?? {});
+      return {
+        version: version.version,
+        action: version.action,
+        actor: version.actor_user_id
+          ? { id: version.actor_user_id, full_name: actorNames.get(version.actor_user_id) ?? null }
+          : null,
+        created_at: version.created_at,
+        has_changes: !isEmptySaleDiff(changes),
+        changes,
+        ...(parsedQuery.data.include_snapshots
+          ? { before: version.before_snapshot, after: version.after_snapshot }
+          : {})
+      };
+    })
+  });
+});
+
 router.post('/checkout', requireRole('seller'), handleCheckoutSale);
 router.post('/', requireRole('seller'), handleCheckoutSale);
 
-router.post('/:id/payments', requireRole('seller'), async (req, res) => {
+router.post('/:id/payments', requireRole('seller'), idempotent('sales_payments_v1'), async (req, res) => {
   const userId = req.user?.id;
   if (!userId) {
     return res.status(401).json(makeError('unauthorized', 'Missing authenticated user'));
@@ -912,6 +1304,10 @@ router.post('/:id/payments', requireRole('seller'), async (req, res) => {
     return res.status(400).json(makeError('validation_error', 'Invalid payment payload', parsed.error.flatten()));
   }
 
+  if (await isSaleHiddenByBranchScope(req, req.params.id)) {
+    return res.status(404).json(makeError('not_found', 'Sale not found'));
+  }
+
   const { data: rpcData, error: rpcError } = await supabaseAdmin.rpc('rpc_register_sale_payment_v1', {
     p_sale_id: req.params.id,
     p_payload: parsed.data,
@@ -923,16 +1319,58 @@ router.post('/:id/payments', requireRole('seller'), async (req, res) => {
     return res.status(mapped.status).json(makeError(mapped.code, mapped.message, rpcError.details ?? rpcError.message));
   }
 
-  return res.status(201).json({
+  const paymentResult = {
     sale_id: rpcData?.sale_id,
     payment_id: rpcData?.payment_id ?? null,
     paid_ars: Number(rpcData?.paid_ars ?? 0),
     balance_due_ars: Number(rpcData?.balance_due_ars ?? 0),
     receivable_status: rpcData?.receivable_status ?? 'pending'
+  };
+
+  return res.status(201).json(paymentResult);
+});
+
+router.post('/:id/payments/:paymentId/reverse', requireRole('admin'), async (req, res) => {
+  const userId = req.user?.id;
+  if (!userId) {
+    return res.status(401).json(makeError('unauthorized', 'Missing authenticated user'));
+  }
+
+  const parsed = reversePaymentSchema.safeParse(req.body);
+  if (!parsed.success) {
+    logValidationError('sales.payments.reverse', parsed.error.flatten(), { user_id: userId, sale_id: req.params.id });
+    return res.status(400).json(makeError('validation_error', 'Invalid reversal payload', parsed.error.flatten()));
+  }
+
+  const { data: rpcData, error: rpcError } = await supabaseAdmin.rpc('rpc_reverse_sale_payment_v1', {
+    p_sale_id: req.params.id,
+    p_payment_id: req.params.paymentId,
+    p_payload: parsed.data,
+    p_user_id: userId
   });
+
+  if (rpcError) {
+    const mapped = mapRpcError(rpcError);
+    return res.status(mapped.status).json(makeError(mapped.code, mapped.message, rpcError.details ?? rpcError.message));
+  }
+
+  const reversalResult = {
+    sale_id: rpcData?.sale_id,
+    payment_id: rpcData?.payment_id ?? req.params.paymentId,
+    reversal_id: rpcData?.reversal_id ?? null,
+    kind: rpcData?.kind ?? parsed.data.kind,
+    currency: rpcData?.currency ?? null,
+    amount: Number(rpcData?.amount ?? 0),
+    remaining_amount: Number(rpcData?.remaining_amount ?? 0),
+    paid_ars: Number(rpcData?.paid_ars ?? 0),
+    balance_due_ars: Number(rpcData?.balance_due_ars ?? 0),
+    receivable_status: rpcData?.receivable_status ?? 'pending'
+  };
+
+  return res.status(201).json(reversalResult);
 });
 
-router.post('/:id/settle', requireRole('seller'), async (req, res) => {
+router.post('/:id/settle', requireRole('seller'), idempotent('sales_settle_v1'), async (req, res) => {
   const userId = req.user?.id;
   if (!userId) {
     return res.status(401).json(makeError('unauthorized', 'Missing authenticated user'));
@@ -943,6 +1381,10 @@ router.post('/:id/settle', requireRole('seller'), async (req, res) => {
     return res.status(400).json(makeError('validation_error', 'Invalid settle payload', parsed.error.flatten()));
   }
 
+  if (await isSaleHiddenByBranchScope(req, req.params.id)) {
+    return res.status(404).json(makeError('not_found', 'Sale not found'));
+  }
+
   const { data: rpcData, error: rpcError } = await supabaseAdmin.rpc('rpc_settle_sale_v1', {
     p_sale_id: req.params.id,
     p_payload: parsed.data,
@@ -954,13 +1396,15 @@ router.post('/:id/settle', requireRole('seller'), async (req, res) => {
     return res.status(mapped.status).json(makeError(mapped.code, mapped.message, rpcError.details ?? rpcError.message));
   }
 
-  return res.json({
+  const settleResult = {
     sale_id: rpcData?.sale_id,
     payment_id: rpcData?.payment_id ?? null,
     paid_ars: Number(rpcData?.paid_ars ?? 0),
     balance_due_ars: Number(rpcData?.balance_due_ars ?? 0),
     receivable_status: rpcData?.receivable_status ?? 'paid'
-  });
+  };
+
+  return res.json(settleResult);
 });
 
 router.patch('/:id', requireRole('seller'), async (req, res) => {
@@ -997,7 +1441,11 @@ router.patch('/:id', requireRole('seller'), async (req, res) => {
     }
   }
 
-  const { data: rpcData, error: rpcError } = await supabaseAdmin.rpc('rpc_update_sale_v2', {
+  if (await isSaleHiddenByBranchScope(req, req.params.id)) {
+    return res.status(404).json(makeError('not_found', 'Sale not found'));
+  }
+
+  const { data: rpcData, error: rpcError } = await supabaseAdmin.rpc('rpc_update_sale_versioned_v1', {
     p_sale_id: req.params.id,
     p_payload: normalized,
     p_user_id: userId
@@ -1008,7 +1456,9 @@ router.patch('/:id', requireRole('seller'), async (req, res) => {
     return res.status(mapped.status).json(makeError(mapped.code, mapped.message, rpcError.details ?? rpcError.message));
   }
 
-  return res.json({
+  await syncCustomerDni(rpcData?.customer_id, normalized.customer?.dni);
+
+  const updateResult = {
     sale_id: rpcData?.sale_id,
     customer_id: rpcData?.customer_id,
     total_ars: Number(rpcData?.total_ars ?? 0),
@@ -1019,11 +1469,14 @@ router.patch('/:id', requireRole('seller'), async (req, res) => {
     total_usd: rpcData?.total_usd ?? null,
     balance_due_ars: rpcData?.balance_due_ars ?? null,
     notes: rpcData?.notes ?? null,
-    includes_cube_20w: rpcData?.includes_cube_20w ?? false
-  });
+    includes_cube_20w: rpcData?.includes_cube_20w ?? false,
+    version: rpcData?.version ?? null
+  };
+
+  return res.json(updateResult);
 });
 
-router.post('/:id/cancel', requireRole('seller'), async (req, res) => {
+router.post('/:id/cancel', requireRole('seller'), idempotent('sales_cancel_v1'), async (req, res) => {
   const userId = req.user?.id;
   if (!userId) {
     return res.status(401).json(makeError('unauthorized', 'Missing authenticated user'));
@@ -1077,12 +1530,51 @@ router.post('/:id/cancel', requireRole('seller'), async (req, res) => {
     restock_category?: string | null;
   } | null;
 
-  return res.json({
+  const cancelResult = {
     sale_id: safeRpcData?.sale_id,
     status: safeRpcData?.status ?? 'cancelled',
     restock_status: safeRpcData?.restock_status ?? restock.status,
     restock_category: safeRpcData?.restock_category ?? restock.category
+  };
+
+  return res.json(cancelResult);
+});
+
+router.post('/:id/returns', requireRole('admin'), async (req, res) => {
+  const userId = req.user?.id;
+  if (!userId) {
+    return res.status(401).json(makeError('unauthorized', 'Missing authenticated user'));
+  }
+
+  const parsed = returnItemsSchema.safeParse(req.body);
+  if (!parsed.success) {
+    logValidationError('sales.returns', parsed.error.flatten(), { user_id: userId, sale_id: req.params.id });
+    return res.status(400).json(makeError('validation_error', 'Invalid return payload', parsed.error.flatten()));
+  }
+
+  const restock = mapRestockStateToDb(parsed.data.restock_state);
+  const refund = parsed.data.refund;
+
+  const { data: rpcData, error: rpcError } = await supabaseAdmin.rpc('rpc_return_sale_items_v1', {
+    p_sale_id: req.params.id,
+    p_payload: {
+      stock_item_ids: parsed.data.stock_item_ids,
+      reason: parsed.data.reason,
+      restock_status: restock.status,
+      restock_category: restock.category,
+      refund: refund
+        ? { amount: refund.amount, currency: refund.currency, method: refund.method ?? null }
+        : { amount: 0 }
+    },
+    p_user_id: userId
   });
+
+  if (rpcError) {
+    const mapped = mapRpcError(rpcError);
+    return res.status(mapped.status).json(makeError(mapped.code, mapped.message, rpcError.details ?? rpcError.message));
+  }
+
+  return res.status(201).json(rpcData ?? {});
 });
 
 router.delete('/:id', requireRole('admin'), async (req, res) => {
@@ -0,0 +1,394 @@
+import PDFDocument from 'pdfkit';
+import { addDays, formatArs, formatDateAr, formatDateTimeAr, formatMoney, formatUsd } from '../../lib/arFormat.js';
+import { STORE_PROFILE, type StoreProfile } from '../../lib/storeProfile.js';
+
+type Row = Record<string, unknown>;
+
+export type SaleReceipt = {
+  store: StoreProfile;
+  sale_id: string;
+  number: string;
+  sale_date: string | null;
+  status: string;
+  customer: { name: string | null; phone: string | null; dni: string | null };
+  items: Array<{
+    description: string;
+    imei: string | null;
+    qty: number;
+    unit_price_ars: number;
+    subtotal_ars: number;
+    warranty_days: number | null;
+    warranty_until: string | null;
+  }>;
+  payments: Array<{
+    method: string;
+    method_label: string;
+    currency: string;
+    amount: number;
+    card_brand: string | null;
+    installments: number | null;
+    surcharge_pct: number | null;
+    note: string | null;
+  }>;
+  trade_ins: Array<{
+    description: string;
+    imei: string | null;
+    trade_value_usd: number;
+    fx_rate_used: number;
+    credit_ars: number;
+  }>;
+  currency: string;
+  fx_rate_used: number | null;
+  total_ars: number;
+  total_usd: number | null;
+  paid_ars: number;
+  trade_in_credit_ars: number;
+  balance_due_ars: number;
+  notes: string | null;
+};
+
+export const PAYMENT_METHOD_LABELS: Record<string, string> = {
+  cash: 'Efectivo',
+  transfer: 'Transferencia',
+  card: 'Tarjeta',
+  mixed: 'Mixto',
+  trade_in: 'Canje'
+};
+
+function pickOne(value: unknown): Row | null {
+  if (Array.isArray(value)) return (value[0] as Row | undefined) ?? null;
+  return value && typeof value === 'object' ? value as Row : null;
+}
+
+function asArray(value: unknown): Row[] {
+  if (Array.isArray(value)) return value as Row[];
+  return value && typeof value === 'object' ? [value as Row] : [];
+}
+
+function asText(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() ? value.trim() : null;
+}
+
+function asNumber(value: unknown): number {
+  const parsed = Number(value ?? 0);
+  return Number.isFinite(parsed) ? parsed : 0;
+}
+
+function asNullableNumber(value: unknown): number | null {
+  if (value == null || value === '') return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function describeDevice(device: Row | null): string {
+  if (!device) return 'Equipo';
+  const storage = asNullableNumber(device.storage_gb);
+  const parts = [
+    asText(device.brand),
+    asText(device.model),
+    storage ? `${storage} GB` : null,
+    asText(device.color) ?? asText(device.color_other)
+  ].filter((part): part is string => Boolean(part));
+  return parts.length > 0 ? parts.join(' ') : 'Equipo';
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replaceAll('&', '&amp;')
+    .replaceAll('<', '&lt;')
+    .replaceAll('>', '&gt;')
+    .replaceAll('"', '&quot;')
+    .replaceAll("'", '&#39;');
+}
+
+/** Short human-facing sale number shared by receipts and exports. */
+export function formatSaleNumber(saleId: string): string {
+  return saleId.replaceAll('-', '').slice(0, 8).toUpperCase();
+}
+
+export function buildSaleReceipt(sale: Row): SaleReceipt {
+  const saleId = String(sale.id ?? '');
+  const saleDate = asText(sale.sale_date) ?? asText(sale.created_at);
+  const customer = pickOne(sale.customers);
+
+  const items = asArray(sale.sale_items).map((item) => {
+    const stockItem = pickOne(item.stock_items);
+    const qty = asNumber(item.qty ?? 1) || 1;
+    const unitPrice = asNumber(item.sale_price_ars);
+    const warrantyDays = asNullableNumber(stockItem?.warranty_days ?? stockItem?.warranty_days_default);
+    const warrantyUntil = warrantyDays != null ? addDays(saleDate, warrantyDays) : null;
+
+    return {
+      description: describeDevice(stockItem),
+      imei: asText(stockItem?.imei),
+      qty,
+      unit_price_ars: unitPrice,
+      subtotal_ars: asNumber(item.subtotal_ars ?? unitPrice * qty),
+      warranty_days: warrantyDays,
+      warranty_until: warrantyUntil ? warrantyUntil.toISOString() : null
+    };
+  });
+
+  const payments = asArray(sale.sale_payments)
+    .sort((a, b) => String(a.created_at ?? '').localeCompare(String(b.created_at ?? '')))
+    .map((payment) => {
+      const method = String(payment.method ?? 'unknown');
+      return {
+        method,
+        method_label: PAYMENT_METHOD_LABELS[method] ?? method,
+        currency: String(payment.currency ?? 'ARS').toUpperCase(),
+        amount: asNumber(payment.amount),
+        card_brand: asText(payment.card_brand),
+        installments: asNullableNumber(payment.installments),
+        surcharge_pct: asNullableNumber(payment.surcharge_pct),
+        note: asText(payment.note)
+      };
+    });
+
+  const tradeIns = asArray(sale.trade_ins).map((tradeIn) => {
+    const device = pickOne(tradeIn.device);
+    const tradeValueUsd = asNumber(tradeIn.trade_value_usd);
+    const fxRateUsed = asNumber(tradeIn.fx_rate_used);
+    return {
+      description: describeDevice(device),
+      imei: asText(device?.imei),
+      trade_value_usd: tradeValueUsd,
+      fx_rate_used: fxRateUsed,
+      credit_ars: Math.round(tradeValueUsd * fxRateUsed * 100) / 100
+    };
+  });
+
+  return {
+    store: STORE_PROFILE,
+    sale_id: saleId,
+    number: formatSaleNumber(saleId),
+    sale_date: saleDate,
+    status: String(sale.status ?? 'completed'),
+    customer: {
+      name: asText(customer?.name),
+      phone: asText(customer?.phone),
+      dni: asText(customer?.dni)
+    },
+    items,
+    payments,
+    trade_ins: tradeIns,
+    currency: String(sale.currency ?? 'ARS').toUpperCase(),
+    fx_rate_used: asNullableNumber(sale.fx_rate_used),
+    total_ars: asNumber(sale.total_ars),
+    total_usd: asNullableNumber(sale.total_usd),
+    paid_ars: asNumber(sale.paid_ars),
+    trade_in_credit_ars: tradeIns.reduce((sum, tradeIn) => sum + tradeIn.credit_ars, 0),
+    balance_due_ars: asNumber(sale.balance_due_ars),
+    notes: asText(sale.notes)
+  };
+}
+
+function describePayment(payment: SaleReceipt['payments'][number]): string {
+  const parts = [payment.method_label];
+  if (payment.card_brand) parts.push(payment.card_brand.toUpperCase());
+  if (payment.installments) parts.push(`${payment.installments} cuota${payment.installments === 1 ? '' : 's'}`);
+  if (payment.surcharge_pct) parts.push(`recargo ${payment.surcharge_pct}%`);
+  return parts.join(' · ');
+}
+
+function describeWarranty(item: SaleReceipt['items'][number]): string {
+  if (item.warranty_days == null) return 'Sin garantía';
+  const until = item.warranty_until ? ` (hasta ${formatDateAr(item.warranty_until)})` : '';
+  return `${item.warranty_days} días${until}`;
+}
+
+export function renderSaleReceiptHtml(receipt: SaleReceipt): string {
+  const headerLines = [receipt.store.address, receipt.store.phone, receipt.store.tax_id ? `CUIT ${receipt.store.tax_id}` : null]
+    .filter((line): line is string => Boolean(line))
+    .map((line) => `<div>${escapeHtml(line)}</div>`)
+    .join('');
+
+  const itemRows = receipt.items.map((item) => `
+      <tr>
+        <td>${escapeHtml(item.description)}${item.imei ? `<div class="muted">IMEI ${escapeHtml(item.imei)}</div>` : ''}</td>
+        <td class="num">${item.qty}</td>
+        <td class="num">${escapeHtml(formatArs(item.unit_price_ars))}</td>
+        <td class="num">${escapeHtml(formatArs(item.subtotal_ars))}</td>
+        <td>${escapeHtml(describeWarranty(item))}</td>
+      </tr>`).join('');
+
+  const paymentRows = receipt.payments.map((payment) => `
+      <tr>
+        <td>${escapeHtml(describePayment(payment))}${payment.note ? `<div class="muted">${escapeHtml(payment.note)}</div>` : ''}</td>
+        <td class="num">${escapeHtml(formatMoney(payment.amount, payment.currency))}</td>
+      </tr>`).join('');
+
+  const tradeInRows = receipt.trade_ins.map((tradeIn) => `
+      <tr>
+        <td>${escapeHtml(tradeIn.description)}${tradeIn.imei ? `<div class="muted">IMEI ${escapeHtml(tradeIn.imei)}</div>` : ''}</td>
+        <td class="num">${escapeHtml(formatUsd(tradeIn.trade_value_usd))} × ${escapeHtml(formatArs(tradeIn.fx_rate_used))}</td>
+        <td class="num">${escapeHtml(formatArs(tradeIn.credit_ars))}</td>
+      </tr>`).join('');
+
+  return `<!doctype html>
+<html lang="es">
+<head>
+  <meta charset="utf-8">
+  <title>Comprobante ${escapeHtml(receipt.number)}</title>
+  <style>
+    body { font-family: Arial, Helvetica, sans-serif; font-size: 13px; color: #111; max-width: 760px; margin: 24px auto; }
+    h1 { font-size: 20px; margin: 0; }
+    h2 { font-size: 14px; margin: 20px 0 6px; text-transform: uppercase; }
+    table { width: 100%; border-collapse: collapse; }
+    th, td { text-align: left; padding: 4px 6px; border-bottom: 1px solid #ddd; vertical-align: top; }
+    .num { text-align: right; white-space: nowrap; }
+    .muted { color: #666; font-size: 11px; }
+    .header { display: flex; justify-content: space-between; border-bottom: 2px solid #111; padding-bottom: 8px; }
+    .cancelled { color: #b00020; font-weight: bold; }
+    .totals td { border: none; }
+    .footer { margin-top: 24px; color: #666; font-size: 11px; }
+  </style>
+</head>
+<body>
+  <div class="header">
+    <div><h1>${escapeHtml(receipt.store.name)}</h1>${headerLines}</div>
+    <div class="num">
+      <div><strong>Comprobante N° ${escapeHtml(receipt.number)}</strong></div>
+      <div>${escapeHtml(formatDateTimeAr(receipt.sale_date))}</div>
+      ${receipt.status === 'cancelled' ? '<div class="cancelled">VENTA ANULADA</div>' : ''}
+    </div>
+  </div>
+
+  <h2>Cliente</h2>
+  <div>${escapeHtml(receipt.customer.name ?? '-')}</div>
+  ${receipt.customer.phone ? `<div>Tel. ${escapeHtml(receipt.customer.phone)}</div>` : ''}
+  ${receipt.customer.dni ? `<div>DNI ${escapeHtml(receipt.customer.dni)}</div>` : ''}
+
+  <h2>Equipos</h2>
+  <table>
+    <thead><tr><th>Detalle</th><th class="num">Cant.</th><th class="num">Precio</th><th class="num">Subtotal</th><th>Garantía</th></tr></thead>
+    <tbody>${itemRows}</tbody>
+  </table>
+
+  <h2>Pagos</h2>
+  <table>
+    <tbody>${paymentRows || '<tr><td colspan="2">Sin pagos registrados</td></tr>'}</tbody>
+  </table>
+${receipt.trade_ins.length > 0 ? `
+  <h2>Equipo entregado en parte de pago</h2>
+  <table>
+    <tbody>${tradeInRows}</tbody>
+  </table>
+` : ''}
+  <table class="totals">
+    <tbody>
+      <tr><td>Total</td><td class="num"><strong>${escapeHtml(formatArs(receipt.total_ars))}</strong></td></tr>
+      ${receipt.currency === 'USD' && receipt.total_usd != null ? `<tr><td>Total USD (cotización ${escapeHtml(formatArs(receipt.fx_rate_used))})</td><td class="num">${escapeHtml(formatUsd(receipt.total_usd))}</td></tr>` : ''}
+      ${receipt.trade_in_credit_ars > 0 ? `<tr><td>Crédito por canje</td><td class="num">${escapeHtml(formatArs(receipt.trade_in_credit_ars))}</td></tr>` : ''}
+      <tr><td>Pagado</td><td class="num">${escapeHtml(formatArs(receipt.paid_ars))}</td></tr>
+      <tr><td>Saldo pendiente</td><td class="num"><strong>${escapeHtml(formatArs(receipt.balance_due_ars))}</strong></td></tr>
+    </tbody>
+  </table>
+${receipt.notes ? `
+  <h2>Observaciones</h2>
+  <div>${escapeHtml(receipt.notes)}</div>
+` : ''}
+  <div class="footer">${escapeHtml(receipt.store.footer)}</div>
+</body>
+</html>
+`;
+}
+
+export function writeSaleReceiptPdf(receipt: SaleReceipt, output: NodeJS.WritableStream): void {
+  const doc = new PDFDocument({ size: 'A4', margin: 40 });
+  doc.pipe(output);
+
+  const left = doc.page.margins.left;
+  const width = doc.page.width - doc.page.margins.left - doc.page.margins.right;
+
+  const line = () => {
+    doc.moveDown(0.3);
+    doc.moveTo(left, doc.y).lineTo(left + width, doc.y).strokeColor('#cccccc').stroke();
+    doc.moveDown(0.3);
+  };
+
+  const section = (title: string) => {
+    doc.moveDown(0.8);
+    doc.font('Helvetica-Bold').fontSize(11).fillColor('#111111').text(title.toUpperCase(), left);
+    line();
+    doc.font('Helvetica').fontSize(10);
+  };
+
+  const row = (label: string, value: string, options: { bold?: boolean } = {}) => {
+    const y = doc.y;
+    doc.font(options.bold ? 'Helvetica-Bold' : 'Helvetica').fontSize(10);
+    doc.text(label, left, y, { width: width * 0.65 });
+    const labelBottom = doc.y;
+    doc.text(value, left + width * 0.65, y, { width: width * 0.35, align: 'right' });
+    doc.y = Math.max(labelBottom, doc.y);
+  };
+
+  doc.font('Helvetica-Bold').fontSize(18).text(receipt.store.name, left);
+  doc.font('Helvetica').fontSize(9).fillColor('#444444');
+  for (const headerLine of [receipt.store.address, receipt.store.phone, receipt.store.tax_id ? `CUIT ${receipt.store.tax_id}` : null]) {
+    if (headerLine) doc.text(headerLine, left);
+  }
+  doc.fillColor('#111111').fontSize(10);
+  doc.moveDown(0.5);
+  row(`Comprobante N° ${receipt.number}`, formatDateTimeAr(receipt.sale_date), { bold: true });
+  if (receipt.status === 'cancelled') {
+    doc.fillColor('#b00020').font('Helvetica-Bold').text('VENTA ANULADA', left).fillColor('#111111');
+  }
+
+  section('Cliente');
+  doc.text(receipt.customer.name ?? '-', left);
+  if (receipt.customer.phone) doc.text(`Tel. ${receipt.customer.phone}`, left);
+  if (receipt.customer.dni) doc.text(`DNI ${receipt.customer.dni}`, left);
+
+  section('Equipos');
+  for (const item of receipt.items) {
+    row(`${item.qty} × ${item.description}`, formatArs(item.subtotal_ars));
+    doc.fontSize(8).fillColor('#555555');
+    if (item.imei) doc.text(`IMEI ${item.imei}`, left);
+    doc.text(`Garantía: ${describeWarranty(item)}`, left);
+    doc.fontSize(10).fillColor('#111111');
+    doc.moveDown(0.3);
+  }
+
+  section('Pagos');
+  if (receipt.payments.length === 0) {
+    doc.text('Sin pagos registrados', left);
+  }
+  for (const payment of receipt.payments) {
+    row(describePayment(payment), formatMoney(payment.amount, payment.currency));
+    if (payment.note) {
+      doc.fontSize(8).fillColor('#555555').text(payment.note, left).fontSize(10).fillColor('#111111');
+    }
+  }
+
+  if (receipt.trade_ins.length > 0) {
+    section('Equipo entregado en parte de pago');
+    for (const tradeIn of receipt.trade_ins) {
+      row(tradeIn.description, formatArs(tradeIn.credit_ars));
+      doc.fontSize(8).fillColor('#555555');
+      if (tradeIn.imei) doc.text(`IMEI ${tradeIn.imei}`, left);
+      doc.text(`${formatUsd(tradeIn.trade_value_usd)} × ${formatArs(tradeIn.fx_rate_used)}`, left);
+      doc.fontSize(10).fillColor('#111111');
+    }
+  }
+
+  section('Totales');
+  row('Total', formatArs(receipt.total_ars), { bold: true });
+  if (receipt.currency === 'USD' && receipt.total_usd != null) {
+    row(`Total USD (cotización ${formatArs(receipt.fx_rate_used)})`, formatUsd(receipt.total_usd));
+  }
+  if (receipt.trade_in_credit_ars > 0) {
+    row('Crédito por canje', formatArs(receipt.trade_in_credit_ars));
+  }
+  row('Pagado', formatArs(receipt.paid_ars));
+  row('Saldo pendiente', formatArs(receipt.balance_due_ars), { bold: true });
+
+  if (receipt.notes) {
+    section('Observaciones');
+    doc.text(receipt.notes, left, doc.y, { width });
+  }
+
+  doc.moveDown(2);
+  doc.fontSize(8).fillColor('#666666').text(receipt.store.footer, left, doc.y, { width, align: 'center' });
+  doc.end();
+}
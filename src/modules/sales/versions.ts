@@ -0,0 +1,127 @@
+export type SaleSnapshotItem = {
+  stock_item_id: string;
+  qty: number | null;
+  sale_price_ars: number | null;
+  subtotal_ars: number | null;
+  brand: string | null;
+  model: string | null;
+  imei: string | null;
+};
+
+export type SaleSnapshot = Record<string, unknown> & {
+  customer?: { id: string; name: string | null; phone: string | null } | null;
+  items?: SaleSnapshotItem[];
+};
+
+export type SaleVersionRow = {
+  id: string;
+  sale_id: string;
+  version: number;
+  action: string;
+  actor_user_id: string | null;
+  before_snapshot: SaleSnapshot;
+  after_snapshot: SaleSnapshot;
+  created_at: string;
+};
+
+type ItemRef = { stock_item_id: string; label: string; imei: string | null };
+
+export type SaleVersionDiff = {
+  items_added: Array<ItemRef & { sale_price_ars: number | null }>;
+  items_removed: Array<ItemRef & { sale_price_ars: number | null }>;
+  price_changes: Array<ItemRef & { before: number | null; after: number | null }>;
+  customer_change: { before: SaleSnapshot['customer']; after: SaleSnapshot['customer'] } | null;
+  payment_method_change: { before: Record<string, unknown>; after: Record<string, unknown> } | null;
+  fields: Array<{ field: string; before: unknown; after: unknown }>;
+};
+
+const PAYMENT_FIELDS = ['payment_method', 'card_brand', 'installments', 'surcharge_pct'] as const;
+
+// Covered by the dedicated sections above or not meaningful to compare between versions.
+const IGNORED_FIELDS = new Set<string>([
+  'id',
+  'created_at',
+  'created_by',
+  'customer',
+  'customer_id',
+  'items',
+  ...PAYMENT_FIELDS
+]);
+
+function toNumber(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+/** numeric columns compare by value so 1500 and 1500.00 are not reported as a change. */
+function sameValue(a: unknown, b: unknown): boolean {
+  if (typeof a === 'number' || typeof b === 'number') {
+    const numberA = toNumber(a);
+    const numberB = toNumber(b);
+    if (numberA !== null && numberB !== null) {
+      return Math.abs(numberA - numberB) < 0.005;
+    }
+  }
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+function itemRef(item: SaleSnapshotItem): ItemRef {
+  const label = [item.brand, item.model].filter(Boolean).join(' ') || 'Equipo';
+  return { stock_item_id: item.stock_item_id, label, imei: item.imei ?? null };
+}
+
+export function diffSaleSnapshots(before: SaleSnapshot, after: SaleSnapshot): SaleVersionDiff {
+  const beforeItems = new Map((before.items ?? []).map((item) => [item.stock_item_id, item]));
+  const afterItems = new Map((after.items ?? []).map((item) => [item.stock_item_id, item]));
+
+  const itemsAdded: SaleVersionDiff['items_added'] = [];
+  const itemsRemoved: SaleVersionDiff['items_removed'] = [];
+  const priceChanges: SaleVersionDiff['price_changes'] = [];
+
+  for (const [stockItemId, item] of afterItems) {
+    const previous = beforeItems.get(stockItemId);
+    if (!previous) {
+      itemsAdded.push({ ...itemRef(item), sale_price_ars: toNumber(item.sale_price_ars) });
+    } else if (!sameValue(previous.sale_price_ars, item.sale_price_ars)) {
+      priceChanges.push({ ...itemRef(item), before: toNumber(previous.sale_price_ars), after: toNumber(item.sale_price_ars) });
+    }
+  }
+  for (const [stockItemId, item] of beforeItems) {
+    if (!afterItems.has(stockItemId)) {
+      itemsRemoved.push({ ...itemRef(item), sale_price_ars: toNumber(item.sale_price_ars) });
+    }
+  }
+
+  const customerChanged = !sameValue(before.customer_id, after.customer_id)
+    || !sameValue(before.customer?.name, after.customer?.name)
+    || !sameValue(before.customer?.phone, after.customer?.phone);
+
+  const paymentChanged = PAYMENT_FIELDS.some((field) => !sameValue(before[field], after[field]));
+  const pickPayment = (snapshot: SaleSnapshot) => Object.fromEntries(PAYMENT_FIELDS.map((field) => [field, snapshot[field] ?? null]));
+
+  const fieldNames = [...new Set([...Object.keys(before), ...Object.keys(after)])]
+    .filter((field) => !IGNORED_FIELDS.has(field))
+    .sort();
+
+  return {
+    items_added: itemsAdded,
+    items_removed: itemsRemoved,
+    price_changes: priceChanges,
+    customer_change: customerChanged ? { before: before.customer ?? null, after: after.customer ?? null } : null,
+    payment_method_change: paymentChanged ? { before: pickPayment(before), after: pickPayment(after) } : null,
+    fields: fieldNames
+      .filter((field) => !sameValue(before[field], after[field]))
+      .map((field) => ({ field, before: before[field] ?? null, after: after[field] ?? null }))
+  };
+}
+
+/** A version where nothing observable changed (e.g. a PATCH that resent the same values). */
+export function isEmptySaleDiff(diff: SaleVersionDiff): boolean {
+  return diff.items_added.length === 0
+    && diff.items_removed.length === 0
+    && diff.price_changes.length === 0
+    && !diff.customer_change
+    && !diff.payment_method_change
+    && diff.fields.length === 0;
+}
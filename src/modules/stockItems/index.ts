@@ -2,11 +2,17 @@ import { Router } from 'express';
 import { z } from 'zod';
 import { supabaseAdmin } from '../../lib/supabaseAdmin.js';
 import { requireRole } from '../../middleware/rbac.js';
+import { idempotent } from '../../middleware/idempotency.js';
+import { resolveBranchScope } from '../../lib/branchScope.js';
+import { OUTBOX_ACTOR_HEADER } from '../../lib/outbox.js';
+import { resolveCurrentFxRate } from '../fxRates/index.js';
 
 const router = Router();
 
 const conditionEnum = z.enum(['new', 'like_new', 'used', 'outlet']);
 const statusEnum = z.enum(['available', 'reserved', 'sold', 'service_tech', 'drawer']);
+// in_transit is only set and cleared by stock transfers, so it can be filtered on but not written.
+const listStatusEnum = z.enum([...statusEnum.options, 'in_transit']);
 const categoryEnum = z.enum(['used_premium', 'outlet', 'new']);
 const sortByEnum = z.enum(['received_at', 'created_at', 'updated_at', 'sale_price_ars', 'model', 'status']);
 const sortDirEnum = z.enum(['asc', 'desc']);
@@ -22,6 +28,27 @@ type RestError = {
   hint?: string;
 };
 
+type TransferHistoryRow = {
+  id: string;
+  transfer_id: string;
+  received_at: string | null;
+  created_at: string;
+  stock_transfers?:
+    | TransferHistoryTransfer
+    | Array<TransferHistoryTransfer>
+    | null;
+};
+
+type TransferHistoryTransfer = {
+  id: string;
+  status: string;
+  created_at: string;
+  origin_branch_id: string;
+  destination_branch_id: string;
+  origin?: { name: string | null } | Array<{ name: string | null }> | null;
+  destination?: { name: string | null } | Array<{ name: string | null }> | null;
+};
+
 type SaleHistoryRow = {
   id: string;
   sale_id: string;
@@ -184,17 +211,16 @@ const createSchema = z
     is_promo: z.boolean().optional(),
     is_sealed: z.boolean().optional(),
     notes: z.string().nullable().optional(),
-    status: statusEnum.optional()
+    status: statusEnum.optional(),
+    branch_id: z.string().uuid().optional()
   })
   .refine(
-    (data) =>
-      data.purchase_ars != null ||
-      (data.purchase_usd != null && data.fx_rate_used != null),
-    { message: 'purchase_ars or (purchase_usd + fx_rate_used) required' }
+    (data) => data.purchase_ars != null || data.purchase_usd != null,
+    { message: 'purchase_ars or purchase_usd required (fx_rate_used defaults to the stored rate)' }
   );
 
 const listSchema = z.object({
-  status: statusEnum.optional(),
+  status: listStatusEnum.optional(),
   statuses: z.string().optional(),
   category: categoryEnum.optional(),
   model: z.string().optional(),
@@ -208,6 +234,7 @@ const listSchema = z.object({
   provider: z.string().optional(),
   query: z.string().optional(),
   condition: conditionEnum.optional(),
+  branch_id: z.string().uuid().optional(),
   page: z.coerce.number().int().positive().optional().default(1),
   page_size: z.coerce.number().int().positive().max(200).optional().default(40),
   sort_by: sortByEnum.optional().default('received_at'),
@@ -278,6 +305,11 @@ router.get('/', requireRole('admin', 'seller'), async (req, res) => {
   }
 
   const params = parsed.data;
+  const branchScope = resolveBranchScope(req, params.branch_id);
+  if (!branchScope.ok) {
+    return res.status(branchScope.status).json({ error: branchScope.error });
+  }
+
   const statuses = parseStatuses(params.statuses);
   const page = params.page ?? 1;
   const pageSize = params.page_size ?? 40;
@@ -298,6 +330,7 @@ router.get('/', requireRole('admin', 'seller'), async (req, res) => {
   if (params.promo != null) query = query.eq('is_promo', params.promo);
   if (params.provider) query = query.ilike('provider_name', `%${normalizeLikeValue(params.provider)}%`);
   if (params.condition) query = query.eq('condition', params.condition);
+  if (branchScope.branchId) query = query.eq('branch_id', branchScope.branchId);
   if (params.query) {
     const search = normalizeLikeValue(params.query);
     query = query.or(`model.ilike.%${search}%,imei.ilike.%${search}%,provider_name.ilike.%${search}%,details.ilike.%${search}%`);
@@ -360,6 +393,40 @@ router.get('/imei/:imei/history', requireRole('admin', 'seller'), async (req, re
     });
   }
 
+  const { data: transferRows, error: transferError } = await supabaseAdmin
+    .from('stock_transfer_items')
+    .select('id, transfer_id, received_at, created_at, stock_transfers(id, status, created_at, origin_branch_id, destination_branch_id, origin:branches!stock_transfers_origin_branch_id_fkey(name), destination:branches!stock_transfers_destination_branch_id_fkey(name))')
+    .eq('stock_item_id', stockItem.id);
+
+  if (transferError) {
+    return res.status(400).json({
+      error: {
+        code: 'stock_history_fetch_failed',
+        message: 'Could not fetch IMEI history',
+        details: [transferError.code, transferError.message, transferError.hint].filter(Boolean).join(' | ')
+      }
+    });
+  }
+
+  const transfers = ((transferRows ?? []) as TransferHistoryRow[])
+    .map((row) => {
+      const transfer = Array.isArray(row.stock_transfers) ? row.stock_transfers[0] : row.stock_transfers;
+      const origin = Array.isArray(transfer?.origin) ? transfer?.origin[0] : transfer?.origin;
+      const destination = Array.isArray(transfer?.destination) ? transfer?.destination[0] : transfer?.destination;
+
+      return {
+        transfer_id: row.transfer_id,
+        transfer_status: transfer?.status ?? null,
+        sent_at: transfer?.created_at ?? row.created_at,
+        received_at: row.received_at,
+        origin_branch_id: transfer?.origin_branch_id ?? null,
+        origin_branch_name: origin?.name ?? null,
+        destination_branch_id: transfer?.destination_branch_id ?? null,
+        destination_branch_name: destination?.name ?? null
+      };
+    })
+    .sort((a, b) => toMillis(b.sent_at) - toMillis(a.sent_at));
+
   const sales = (historyRows ?? [])
     .map((row) => {
       const sale = Array.isArray(row.sales) ? row.sales[0] : row.sales;
@@ -386,7 +453,15 @@ router.get('/imei/:imei/history', requireRole('admin', 'seller'), async (req, re
     imei,
     stock_item: stockItem,
     sales,
-    sales_count: sales.length
+    sales_count: sales.length,
+    transfers,
+    timeline: [
+      ...sales.map((sale) => ({ type: 'sale' as const, at: sale.sale_date, sale_id: sale.sale_id, transfer_id: null })),
+      ...transfers.map((transfer) => ({ type: 'transfer_sent' as const, at: transfer.sent_at, sale_id: null, transfer_id: transfer.transfer_id })),
+      ...transfers
+        .filter((transfer) => transfer.received_at)
+        .map((transfer) => ({ type: 'transfer_received' as const, at: transfer.received_at, sale_id: null, transfer_id: transfer.transfer_id }))
+    ].sort((a, b) => toMillis(b.at) - toMillis(a.at))
   });
 });
 
@@ -407,7 +482,7 @@ router.get('/:id', requireRole('admin', 'seller'), async (req, res) => {
   return res.json(data);
 });
 
-router.post('/', requireRole('admin', 'seller'), async (req, res) => {
+router.post('/', requireRole('admin', 'seller'), idempotent('stock_items_create_v1'), async (req, res) => {
   const parsed = createSchema.safeParse(req.body);
   if (!parsed.success) {
     logValidationError(parsed.error.flatten());
@@ -417,9 +492,26 @@ router.post('/', requireRole('admin', 'seller'), async (req, res) => {
   }
 
   const payload = parsed.data;
+  const branchScope = resolveBranchScope(req, payload.branch_id);
+  if (!branchScope.ok) {
+    return res.status(branchScope.status).json({ error: branchScope.error });
+  }
+
+  let fxRateUsed = payload.fx_rate_used ?? null;
+  if (payload.purchase_usd != null && fxRateUsed == null) {
+    const { data: storedRate, error: fxError } = await resolveCurrentFxRate();
+    if (fxError) {
+      return res.status(400).json({ error: { code: 'fx_rates_fetch_failed', message: 'Could not resolve fx rate', details: fxError.message } });
+    }
+    if (!storedRate && payload.purchase_ars == null) {
+      return res.status(400).json({ error: { code: 'validation_error', message: 'Invalid stock item payload', details: 'fx_rate_unavailable' } });
+    }
+    fxRateUsed = storedRate?.rate ?? null;
+  }
+
   const purchase_ars =
     payload.purchase_ars ??
-    Number(payload.purchase_usd) * Number(payload.fx_rate_used);
+    Number(payload.purchase_usd) * Number(fxRateUsed);
 
   const insertPayload = {
     brand: payload.brand,
@@ -429,7 +521,7 @@ router.post('/', requireRole('admin', 'seller'), async (req, res) => {
     sale_price_ars: payload.sale_price_ars,
     sale_price_usd: payload.sale_price_usd ?? null,
     purchase_usd: payload.purchase_usd ?? null,
-    fx_rate_used: payload.fx_rate_used ?? null,
+    fx_rate_used: fxRateUsed,
     purchase_ars,
     warranty_days: payload.warranty_days ?? 90,
     battery_pct: payload.battery_pct ?? null,
@@ -444,12 +536,14 @@ router.post('/', requireRole('admin', 'seller'), async (req, res) => {
     is_sealed: payload.is_sealed ?? false,
     notes: payload.notes ?? null,
     status: payload.status ?? 'available',
-    trade_in_id: null
+    trade_in_id: null,
+    branch_id: branchScope.branchId ?? req.user?.branch_id ?? null
   };
 
   const { data, error } = await supabaseAdmin
     .from('stock_items')
     .insert(insertPayload)
+    .setHeader(OUTBOX_ACTOR_HEADER, req.user?.id ?? '')
     .select('*')
     .single();
 
@@ -496,6 +590,16 @@ router.patch('/:id', requireRole('admin', 'seller'), async (req, res) => {
   }
 
   const currentStatus = String(currentRow.status ?? '').toLowerCase();
+  if (currentStatus === 'in_transit') {
+    return res.status(409).json({
+      error: {
+        code: 'stock_conflict',
+        message: 'Stock item is in transit between branches',
+        details: 'receive_transfer_first'
+      }
+    });
+  }
+
   const nextStatus = String(payload.status ?? currentRow.status ?? '').toLowerCase();
   const hasSaleLink = typeof currentRow.sale_id === 'string' && currentRow.sale_id.trim().length > 0;
   const soldOrLinked = currentStatus === 'sold' || hasSaleLink;
@@ -523,6 +627,7 @@ router.patch('/:id', requireRole('admin', 'seller'), async (req, res) => {
   const { data, error } = await supabaseAdmin
     .from('stock_items')
     .update(payload)
+    .setHeader(OUTBOX_ACTOR_HEADER, req.user?.id ?? '')
     .eq('id', req.params.id)
     .select('*')
     .single();
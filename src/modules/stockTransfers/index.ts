@@ -0,0 +1,220 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { supabaseAdmin } from '../../lib/supabaseAdmin.js';
+import { resolveBranchScope } from '../../lib/branchScope.js';
+import { requireRole } from '../../middleware/rbac.js';
+
+const router = Router();
+const TRANSFER_COLUMNS = 'id, origin_branch_id, destination_branch_id, status, notes, created_by, received_by, received_at, created_at, updated_at, origin:branches!stock_transfers_origin_branch_id_fkey(name, code), destination:branches!stock_transfers_destination_branch_id_fkey(name, code)';
+const TRANSFER_ITEM_COLUMNS = 'id, stock_item_id, imei, previous_status, received_at, received_by, stock_items(brand, model, imei, status, branch_id)';
+
+type RestError = {
+  code?: string;
+  message?: string;
+  details?: string;
+  hint?: string;
+};
+
+const listSchema = z.object({
+  status: z.enum(['in_transit', 'received']).optional(),
+  branch_id: z.string().uuid().optional(),
+  page: z.coerce.number().int().positive().optional().default(1),
+  page_size: z.coerce.number().int().positive().max(100).optional().default(30)
+});
+
+const createSchema = z.object({
+  origin_branch_id: z.string().uuid(),
+  destination_branch_id: z.string().uuid(),
+  stock_item_ids: z.array(z.string().uuid()).min(1).max(200),
+  notes: z.string().trim().max(2000).nullable().optional()
+}).superRefine((value, ctx) => {
+  if (value.origin_branch_id === value.destination_branch_id) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'origin_equals_destination',
+      path: ['destination_branch_id']
+    });
+  }
+});
+
+const receiveSchema = z.object({
+  imeis: z.array(z.string().trim().min(1)).min(1).max(200)
+});
+
+function logValidationError(scope: string, details: unknown): void {
+  // eslint-disable-next-line no-console
+  console.error(JSON.stringify({
+    level: 'warn',
+    event: 'validation_error',
+    scope,
+    details,
+    timestamp: new Date().toISOString()
+  }));
+}
+
+function mapTransferError(error: RestError, fallbackCode: string, fallbackMessage: string) {
+  const message = `${error.message ?? ''} ${error.details ?? ''}`.toLowerCase();
+  if (error.code === '23505' && message.includes('uq_stock_transfer_items_pending')) {
+    return { status: 409, code: 'stock_conflict', message: 'Stock item is already in transit', details: error.details ?? error.message };
+  }
+
+  if (message.includes('stock_unavailable') || message.includes('stock_conflict')) {
+    return { status: 409, code: 'stock_conflict', message: 'Stock item is not available for transfer', details: error.details ?? error.message };
+  }
+
+  if (error.code === 'PGRST116' || message.includes('not_found')) {
+    return { status: 404, code: 'not_found', message: 'Resource not found', details: error.details ?? error.message };
+  }
+
+  if (message.includes('conflict')) {
+    return { status: 409, code: 'conflict', message: 'Transfer conflict', details: error.details ?? error.message };
+  }
+
+  if (message.includes('validation_error')) {
+    return { status: 400, code: 'validation_error', message: 'Validation failed', details: error.details ?? error.message };
+  }
+
+  return { status: 400, code: fallbackCode, message: fallbackMessage, details: error.details ?? error.message };
+}
+
+async function fetchTransfer(id: string) {
+  return supabaseAdmin
+    .from('stock_transfers')
+    .select(`${TRANSFER_COLUMNS}, stock_transfer_items(${TRANSFER_ITEM_COLUMNS})`)
+    .eq('id', id)
+    .single();
+}
+
+router.get('/', requireRole('seller'), async (req, res) => {
+  const parsed = listSchema.safeParse(req.query);
+  if (!parsed.success) {
+    logValidationError('stock-transfers.list', parsed.error.flatten());
+    return res.status(400).json({ error: { code: 'validation_error', message: 'Invalid query params', details: parsed.error.flatten() } });
+  }
+
+  const { status, page, page_size } = parsed.data;
+  const branchScope = resolveBranchScope(req, parsed.data.branch_id);
+  if (!branchScope.ok) {
+    return res.status(branchScope.status).json({ error: branchScope.error });
+  }
+
+  const from = (page - 1) * page_size;
+  const to = from + page_size - 1;
+
+  let query = supabaseAdmin
+    .from('stock_transfers')
+    .select(`${TRANSFER_COLUMNS}, stock_transfer_items(count)`, { count: 'exact' });
+
+  if (status) query = query.eq('status', status);
+  if (branchScope.branchId) {
+    query = query.or(`origin_branch_id.eq.${branchScope.branchId},destination_branch_id.eq.${branchScope.branchId}`);
+  }
+
+  const { data, error, count } = await query
+    .order('created_at', { ascending: false })
+    .range(from, to);
+
+  if (error) {
+    return res.status(400).json({ error: { code: 'stock_transfers_list_failed', message: 'Could not list transfers', details: error.message } });
+  }
+
+  return res.json({
+    transfers: data ?? [],
+    total: count ?? 0,
+    page,
+    page_size
+  });
+});
+
+router.get('/:id', requireRole('seller'), async (req, res) => {
+  const { data, error } = await fetchTransfer(req.params.id);
+  if (error || !data) {
+    return res.status(404).json({ error: { code: 'not_found', message: 'Transfer not found', details: error?.message } });
+  }
+
+  return res.json({ transfer: data });
+});
+
+router.post('/', requireRole('admin'), async (req, res) => {
+  const userId = req.user?.id;
+  if (!userId) {
+    return res.status(401).json({ error: { code: 'unauthorized', message: 'Missing authenticated user' } });
+  }
+
+  const parsed = createSchema.safeParse(req.body);
+  if (!parsed.success) {
+    logValidationError('stock-transfers.create', parsed.error.flatten());
+    return res.status(400).json({ error: { code: 'validation_error', message: 'Invalid transfer payload', details: parsed.error.flatten() } });
+  }
+
+  const { data: rpcData, error: rpcError } = await supabaseAdmin.rpc('rpc_create_stock_transfer_v1', {
+    p_payload: {
+      ...parsed.data,
+      notes: parsed.data.notes ?? null
+    },
+    p_user_id: userId
+  });
+
+  if (rpcError) {
+    const mapped = mapTransferError(rpcError, 'stock_transfer_create_failed', 'Could not create transfer');
+    return res.status(mapped.status).json({ error: { code: mapped.code, message: mapped.message, details: mapped.details } });
+  }
+
+  const { data: transfer } = await fetchTransfer(String(rpcData?.transfer_id));
+  return res.status(201).json({ transfer: transfer ?? rpcData });
+});
+
+// Destination staff scan the IMEIs they physically got; unscanned units stay in transit.
+router.post('/:id/receive', requireRole('seller'), async (req, res) => {
+  const userId = req.user?.id;
+  if (!userId) {
+    return res.status(401).json({ error: { code: 'unauthorized', message: 'Missing authenticated user' } });
+  }
+
+  const parsed = receiveSchema.safeParse(req.body);
+  if (!parsed.success) {
+    logValidationError('stock-transfers.receive', parsed.error.flatten());
+    return res.status(400).json({ error: { code: 'validation_error', message: 'Invalid receive payload', details: parsed.error.flatten() } });
+  }
+
+  const { data: current, error: currentError } = await supabaseAdmin
+    .from('stock_transfers')
+    .select('id, destination_branch_id')
+    .eq('id', req.params.id)
+    .maybeSingle();
+
+  if (currentError) {
+    const mapped = mapTransferError(currentError, 'stock_transfer_fetch_failed', 'Could not fetch transfer');
+    return res.status(mapped.status).json({ error: { code: mapped.code, message: mapped.message, details: mapped.details } });
+  }
+  if (!current) {
+    return res.status(404).json({ error: { code: 'not_found', message: 'Transfer not found' } });
+  }
+
+  const branchScope = resolveBranchScope(req, current.destination_branch_id);
+  if (!branchScope.ok) {
+    return res.status(branchScope.status).json({ error: branchScope.error });
+  }
+
+  const { data, error } = await supabaseAdmin.rpc('rpc_receive_stock_transfer_v1', {
+    p_transfer_id: req.params.id,
+    p_payload: { imeis: parsed.data.imeis },
+    p_user_id: userId
+  });
+
+  if (error) {
+    const mapped = mapTransferError(error, 'stock_transfer_receive_failed', 'Could not receive transfer');
+    return res.status(mapped.status).json({ error: { code: mapped.code, message: mapped.message, details: mapped.details } });
+  }
+
+  const { data: transfer } = await fetchTransfer(req.params.id);
+  return res.json({
+    transfer_id: req.params.id,
+    status: data?.status ?? 'in_transit',
+    received_count: Number(data?.received_count ?? 0),
+    pending_count: Number(data?.pending_count ?? 0),
+    transfer: transfer ?? null
+  });
+});
+
+export const stockTransfersRouter = router;
@@ -1,7 +1,10 @@
 import { Router } from 'express';
 import { z } from 'zod';
 import { supabaseAdmin } from '../../lib/supabaseAdmin.js';
+import { OUTBOX_ACTOR_HEADER } from '../../lib/outbox.js';
 import { requireRole } from '../../middleware/rbac.js';
+import { idempotent } from '../../middleware/idempotency.js';
+import { resolveCurrentFxRate } from '../fxRates/index.js';
 
 const router = Router();
 
@@ -26,7 +29,7 @@ const tradeInCreateSchema = z.object({
     imei: z.string().optional()
   }),
   trade_value_usd: z.number().min(0),
-  fx_rate_used: z.number().min(0),
+  fx_rate_used: z.number().positive().optional(),
   status: z.enum(['pending', 'valued']).optional(),
   sale_ref: z.string().min(1).optional(),
   customer_name: z.string().min(1).optional(),
@@ -65,23 +68,38 @@ router.post('/', requireRole('admin', 'seller'), async (req, res) => {
     return res.status(400).json({ error: { code: 'validation_error', message: 'Invalid trade-in payload', details: parsed.error.flatten() } });
   }
 
+  let fxRateUsed = parsed.data.fx_rate_used ?? null;
+  if (fxRateUsed == null) {
+    const { data: storedRate, error: fxError } = await resolveCurrentFxRate();
+    if (fxError) {
+      return res.status(400).json({ error: { code: 'fx_rates_fetch_failed', message: 'Could not resolve fx rate', details: fxError.message } });
+    }
+    if (!storedRate) {
+      return res.status(400).json({ error: { code: 'validation_error', message: 'Invalid trade-in payload', details: 'fx_rate_unavailable' } });
+    }
+    fxRateUsed = storedRate.rate;
+  }
+
   const insertPayload = {
     ...parsed.data,
+    fx_rate_used: fxRateUsed,
     status: parsed.data.status ?? 'pending',
-    sale_id: null
+    sale_id: null,
+    branch_id: req.user?.branch_id ?? null
   };
 
   const { data, error } = await supabaseAdmin
     .from('trade_ins')
     .insert(insertPayload)
-    .select('id')
+    .setHeader(OUTBOX_ACTOR_HEADER, req.user?.id ?? '')
+    .select('id, fx_rate_used')
     .single();
 
   if (error) {
     return res.status(400).json({ error: { code: 'trade_in_create_failed', message: 'Insert failed', details: error.message } });
   }
 
-  return res.status(201).json({ trade_in_id: data.id });
+  return res.status(201).json({ trade_in_id: data.id, fx_rate_used: data.fx_rate_used });
 });
 
 router.patch('/:id', requireRole('admin', 'seller'), async (req, res) => {
@@ -94,6 +112,7 @@ router.patch('/:id', requireRole('admin', 'seller'), async (req, res) => {
   const { data, error } = await supabaseAdmin
     .from('trade_ins')
     .update(parsed.data)
+    .setHeader(OUTBOX_ACTOR_HEADER, req.user?.id ?? '')
     .eq('id', req.params.id)
     .select('id')
     .single();
@@ -105,7 +124,7 @@ router.patch('/:id', requireRole('admin', 'seller'), async (req, res) => {
   return res.json({ trade_in_id: data.id });
 });
 
-router.post('/:id/convert-to-stock', requireRole('admin', 'seller'), async (req, res) => {
+router.post('/:id/convert-to-stock', requireRole('admin', 'seller'), idempotent('tradeins_convert_to_stock_v1'), async (req, res) => {
   const parsed = convertSchema.safeParse(req.body);
   if (!parsed.success) {
     logValidationError('trade-ins.convert', parsed.error.flatten());
@@ -158,12 +177,14 @@ router.post('/:id/convert-to-stock', requireRole('admin', 'seller'), async (req,
     fx_rate_used: tradeIn.fx_rate_used,
     purchase_ars,
     status: 'available',
-    trade_in_id: tradeIn.id
+    trade_in_id: tradeIn.id,
+    branch_id: tradeIn.branch_id ?? req.user?.branch_id ?? null
   };
 
   const { data: stockItem, error: stockError } = await supabaseAdmin
     .from('stock_items')
     .insert(stockItemPayload)
+    .setHeader(OUTBOX_ACTOR_HEADER, req.user?.id ?? '')
     .select('id')
     .single();
 
@@ -174,6 +195,7 @@ router.post('/:id/convert-to-stock', requireRole('admin', 'seller'), async (req,
   const { error: updateError } = await supabaseAdmin
     .from('trade_ins')
     .update({ status: 'added_to_stock' })
+    .setHeader(OUTBOX_ACTOR_HEADER, req.user?.id ?? '')
     .eq('id', tradeIn.id);
 
   if (updateError) {
@@ -0,0 +1,253 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { supabaseAdmin } from '../../lib/supabaseAdmin.js';
+import { requireRole } from '../../middleware/rbac.js';
+
+const router = Router();
+const CLAIM_COLUMNS = 'id, sale_id, sale_item_id, stock_item_id, warranty_id, customer_id, imei, status, issue_description, sale_date, warranty_days, warranty_until, in_warranty, resolution_notes, replacement_stock_item_id, closed_at, created_by, updated_by, created_at, updated_at, customers(name, phone)';
+
+type RestError = {
+  code?: string;
+  message?: string;
+  details?: string;
+  hint?: string;
+};
+
+const claimStatusSchema = z.enum(['received', 'sent_to_tech', 'repaired', 'replaced', 'rejected']);
+
+const checkSchema = z.object({
+  imei: z.string().trim().min(4).optional(),
+  sale_item_id: z.string().uuid().optional()
+}).superRefine((value, ctx) => {
+  if (!value.imei && !value.sale_item_id) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'imei_or_sale_item_id_required',
+      path: ['imei']
+    });
+  }
+});
+
+const listSchema = z.object({
+  status: claimStatusSchema.optional(),
+  imei: z.string().trim().min(1).optional(),
+  sale_id: z.string().uuid().optional(),
+  customer_id: z.string().uuid().optional(),
+  page: z.coerce.number().int().positive().optional().default(1),
+  page_size: z.coerce.number().int().positive().max(100).optional().default(30)
+});
+
+const openClaimSchema = z.object({
+  imei: z.string().trim().min(4).optional(),
+  sale_item_id: z.string().uuid().optional(),
+  issue_description: z.string().trim().min(3).max(2000)
+}).superRefine((value, ctx) => {
+  if (!value.imei && !value.sale_item_id) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'imei_or_sale_item_id_required',
+      path: ['imei']
+    });
+  }
+});
+
+const statusChangeSchema = z.object({
+  status: claimStatusSchema.exclude(['received']),
+  note: z.string().trim().max(2000).nullable().optional(),
+  replacement_stock_item_id: z.string().uuid().optional()
+}).superRefine((value, ctx) => {
+  if (value.status === 'replaced' && !value.replacement_stock_item_id) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'replacement_stock_item_id_required',
+      path: ['replacement_stock_item_id']
+    });
+  }
+});
+
+function logValidationError(scope: string, details: unknown): void {
+  // eslint-disable-next-line no-console
+  console.error(JSON.stringify({
+    level: 'warn',
+    event: 'validation_error',
+    scope,
+    details,
+    timestamp: new Date().toISOString()
+  }));
+}
+
+function mapWarrantyError(error: RestError, fallbackCode: string, fallbackMessage: string) {
+  const message = `${error.message ?? ''} ${error.details ?? ''}`.toLowerCase();
+  if (message.includes('sold_item_not_found')) {
+    return { status: 404, code: 'not_found', message: 'No completed sale found for this item', details: error.details ?? error.message };
+  }
+
+  if (message.includes('stock_conflict')) {
+    return { status: 409, code: 'stock_conflict', message: 'Replacement stock item is not available', details: error.details ?? error.message };
+  }
+
+  if (error.code === 'PGRST116' || message.includes('not_found')) {
+    return { status: 404, code: 'not_found', message: 'Warranty claim not found', details: error.details ?? error.message };
+  }
+
+  if (error.code === '23505' || message.includes('conflict')) {
+    return { status: 409, code: 'conflict', message: 'Warranty claim conflict', details: error.details ?? error.message };
+  }
+
+  if (message.includes('validation_error')) {
+    return { status: 400, code: 'validation_error', message: 'Validation failed', details: error.details ?? error.message };
+  }
+
+  return { status: 400, code: fallbackCode, message: fallbackMessage, details: error.details ?? error.message };
+}
+
+router.get('/check', requireRole('seller'), async (req, res) => {
+  const parsed = checkSchema.safeParse(req.query);
+  if (!parsed.success) {
+    logValidationError('warranties.check', parsed.error.flatten());
+    return res.status(400).json({ error: { code: 'validation_error', message: 'Invalid query params', details: parsed.error.flatten() } });
+  }
+
+  const { data, error } = await supabaseAdmin.rpc('rpc_check_warranty_v1', {
+    p_imei: parsed.data.imei ?? null,
+    p_sale_item_id: parsed.data.sale_item_id ?? null
+  });
+
+  if (error) {
+    const mapped = mapWarrantyError(error, 'warranty_check_failed', 'Could not check warranty');
+    return res.status(mapped.status).json({ error: { code: mapped.code, message: mapped.message, details: mapped.details } });
+  }
+
+  return res.json({ warranty: data });
+});
+
+router.get('/claims', requireRole('seller'), async (req, res) => {
+  const parsed = listSchema.safeParse(req.query);
+  if (!parsed.success) {
+    logValidationError('warranties.claims.list', parsed.error.flatten());
+    return res.status(400).json({ error: { code: 'validation_error', message: 'Invalid query params', details: parsed.error.flatten() } });
+  }
+
+  const { status, imei, sale_id, customer_id, page, page_size } = parsed.data;
+  const from = (page - 1) * page_size;
+  const to = from + page_size - 1;
+
+  let query = supabaseAdmin
+    .from('warranty_claims')
+    .select(CLAIM_COLUMNS, { count: 'exact' });
+
+  if (status) query = query.eq('status', status);
+  if (imei) query = query.ilike('imei', imei);
+  if (sale_id) query = query.eq('sale_id', sale_id);
+  if (customer_id) query = query.eq('customer_id', customer_id);
+
+  const { data, error, count } = await query
+    .order('created_at', { ascending: false })
+    .range(from, to);
+
+  if (error) {
+    return res.status(400).json({ error: { code: 'warranty_claims_list_failed', message: 'Could not list warranty claims', details: error.message } });
+  }
+
+  return res.json({
+    claims: data ?? [],
+    total: count ?? 0,
+    page,
+    page_size
+  });
+});
+
+router.get('/claims/:id', requireRole('seller'), async (req, res) => {
+  const { data: claim, error } = await supabaseAdmin
+    .from('warranty_claims')
+    .select(CLAIM_COLUMNS)
+    .eq('id', req.params.id)
+    .single();
+
+  if (error || !claim) {
+    return res.status(404).json({ error: { code: 'not_found', message: 'Warranty claim not found', details: error?.message } });
+  }
+
+  const { data: history } = await supabaseAdmin
+    .from('audit_logs')
+    .select('id, actor_user_id, action, before_json, after_json, meta_json, created_at')
+    .eq('entity_type', 'warranty_claim')
+    .eq('entity_id', req.params.id)
+    .order('created_at', { ascending: true });
+
+  return res.json({ claim: { ...claim, history: history ?? [] } });
+});
+
+router.post('/claims', requireRole('seller'), async (req, res) => {
+  const userId = req.user?.id;
+  if (!userId) {
+    return res.status(401).json({ error: { code: 'unauthorized', message: 'Missing authenticated user' } });
+  }
+
+  const parsed = openClaimSchema.safeParse(req.body);
+  if (!parsed.success) {
+    logValidationError('warranties.claims.open', parsed.error.flatten());
+    return res.status(400).json({ error: { code: 'validation_error', message: 'Invalid warranty claim payload', details: parsed.error.flatten() } });
+  }
+
+  const { data, error } = await supabaseAdmin.rpc('rpc_open_warranty_claim_v1', {
+    p_payload: parsed.data,
+    p_user_id: userId
+  });
+
+  if (error) {
+    const mapped = mapWarrantyError(error, 'warranty_claim_open_failed', 'Could not open warranty claim');
+    return res.status(mapped.status).json({ error: { code: mapped.code, message: mapped.message, details: mapped.details } });
+  }
+
+  return res.status(201).json({
+    claim_id: data?.claim_id ?? null,
+    status: data?.status ?? 'received',
+    sale_id: data?.sale_id ?? null,
+    stock_item_id: data?.stock_item_id ?? null,
+    warranty_until: data?.warranty_until ?? null,
+    in_warranty: Boolean(data?.in_warranty)
+  });
+});
+
+router.post('/claims/:id/status', requireRole('seller'), async (req, res) => {
+  const userId = req.user?.id;
+  if (!userId) {
+    return res.status(401).json({ error: { code: 'unauthorized', message: 'Missing authenticated user' } });
+  }
+
+  const parsed = statusChangeSchema.safeParse(req.body);
+  if (!parsed.success) {
+    logValidationError('warranties.claims.status', parsed.error.flatten());
+    return res.status(400).json({ error: { code: 'validation_error', message: 'Invalid status payload', details: parsed.error.flatten() } });
+  }
+
+  // Swapping in a replacement moves stock, so it stays with admins.
+  if (parsed.data.status === 'replaced' && req.user?.role === 'seller') {
+    return res.status(403).json({ error: { code: 'forbidden', message: 'Only admin can replace devices' } });
+  }
+
+  const { data, error } = await supabaseAdmin.rpc('rpc_update_warranty_claim_status_v1', {
+    p_claim_id: req.params.id,
+    p_status: parsed.data.status,
+    p_payload: {
+      note: parsed.data.note ?? null,
+      replacement_stock_item_id: parsed.data.replacement_stock_item_id ?? null
+    },
+    p_user_id: userId
+  });
+
+  if (error) {
+    const mapped = mapWarrantyError(error, 'warranty_claim_update_failed', 'Could not update warranty claim');
+    return res.status(mapped.status).json({ error: { code: mapped.code, message: mapped.message, details: mapped.details } });
+  }
+
+  return res.json({
+    claim_id: data?.claim_id ?? req.params.id,
+    previous_status: data?.previous_status ?? null,
+    status: data?.status ?? parsed.data.status,
+    replacement_stock_item_id: data?.replacement_stock_item_id ?? null
+  });
+});
+
+export const warrantiesRouter = router;
@@ -0,0 +1,255 @@
+import { createHmac, randomBytes } from 'node:crypto';
+import { supabaseAdmin } from '../../lib/supabaseAdmin.js';
+import { registerOutboxSubscriber, type OutboxEvent } from '../../lib/outbox.js';
+import { computeRetryDelayMs } from '../../jobs/outboxDispatcher.js';
+
+export const WEBHOOK_EVENT_TYPES = ['sale.created', 'sale.cancelled', 'stock_item.status_changed'] as const;
+export type WebhookEventType = (typeof WEBHOOK_EVENT_TYPES)[number];
+
+export const WEBHOOK_DELIVERY_COLUMNS = 'id, endpoint_id, outbox_event_id, event_type, payload, status, attempts, next_attempt_at, response_status, response_body, last_error, delivered_at, created_at';
+
+const DEFAULT_TIMEOUT_MS = 10 * 1000;
+const DEFAULT_MAX_ATTEMPTS = 8;
+const BATCH_SIZE = 50;
+const RESPONSE_BODY_LIMIT = 1000;
+
+export type WebhookEndpoint = {
+  id: string;
+  url: string;
+  secret: string;
+  is_active: boolean;
+};
+
+export type WebhookDelivery = {
+  id: string;
+  endpoint_id: string;
+  outbox_event_id: string | null;
+  event_type: string;
+  payload: Record<string, unknown>;
+  status: 'pending' | 'processing' | 'delivered' | 'failed';
+  attempts: number;
+};
+
+type WebhookEvent = {
+  type: WebhookEventType;
+  data: Record<string, unknown>;
+};
+
+function parsePositive(rawValue: string | undefined, fallback: number): number {
+  const parsed = Number(rawValue);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+function logWebhookError(event: string, details: unknown, extra?: Record<string, unknown>): void {
+  // eslint-disable-next-line no-console
+  console.error(JSON.stringify({
+    level: 'error',
+    event,
+    ...extra,
+    details,
+    timestamp: new Date().toISOString()
+  }));
+}
+
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString('hex')}`;
+}
+
+/** Receivers recompute HMAC-SHA256(secret, `${timestamp}.${rawBody}`) and compare it with X-Webhook-Signature. */
+export function signWebhookPayload(secret: string, timestamp: string, body: string): string {
+  return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+/**
+ * Maps an internal domain event to the public webhook events it produces. stock_item.status_changed comes
+ * from the stock_items capture trigger, so it covers checkout, cancels, returns, reservations, transfers,
+ * warranty replacements and manual edits alike.
+ */
+function toWebhookEvents(event: OutboxEvent): WebhookEvent[] {
+  const payload = event.payload ?? {};
+
+  if (event.event_type === 'sale.created' || event.event_type === 'sale.cancelled') {
+    return [{ type: event.event_type, data: payload }];
+  }
+
+  if (event.event_type === 'stock_item.status_changed') {
+    return [{
+      type: 'stock_item.status_changed',
+      data: {
+        sale_id: payload.sale_id ?? null,
+        stock_items: [{
+          stock_item_id: payload.stock_item_id ?? event.aggregate_id,
+          previous_status: payload.previous_status ?? null,
+          status: payload.status ?? null
+        }],
+        stock_item: payload.stock_item ?? null
+      }
+    }];
+  }
+
+  return [];
+}
+
+export function buildWebhookBody(input: { id: string; type: string; createdAt: string; data: Record<string, unknown> }) {
+  return { id: input.id, type: input.type, created_at: input.createdAt, data: input.data };
+}
+
+/**
+ * Posts one delivery and records the outcome. Automatic deliveries go back to 'pending' with backoff until
+ * WEBHOOK_MAX_ATTEMPTS; a manual replay (retryOnFailure false) is a single shot and ends as 'failed'.
+ */
+export async function sendWebhookDelivery(
+  delivery: WebhookDelivery,
+  endpoint: WebhookEndpoint,
+  options: { retryOnFailure?: boolean } = {}
+) {
+  const timeoutMs = parsePositive(process.env.WEBHOOK_TIMEOUT_MS, DEFAULT_TIMEOUT_MS);
+  const maxAttempts = parsePositive(process.env.WEBHOOK_MAX_ATTEMPTS, DEFAULT_MAX_ATTEMPTS);
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = String(Math.floor(Date.now() / 1000));
+
+  let responseStatus: number | null = null;
+  let responseBody: string | null = null;
+  let lastError: string | null = null;
+
+  try {
+    const response = await fetch(endpoint.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'myphone-webhooks/1',
+        'X-Webhook-Id': delivery.id,
+        'X-Webhook-Event': delivery.event_type,
+        'X-Webhook-Timestamp': timestamp,
+        'X-Webhook-Signature': signWebhookPayload(endpoint.secret, timestamp, body)
+      },
+      body,
+      signal: AbortSignal.timeout(timeoutMs)
+    });
+    responseStatus = response.status;
+    responseBody = (await response.text().catch(() => '')).slice(0, RESPONSE_BODY_LIMIT);
+    if (!response.ok) {
+      lastError = `HTTP ${response.status}`;
+    }
+  } catch (error) {
+    lastError = error instanceof Error ? error.message : String(error);
+  }
+
+  const delivered = lastError === null;
+  const retry = !delivered && options.retryOnFailure !== false && delivery.attempts < maxAttempts;
+  const update = {
+    locked_at: null,
+    response_status: responseStatus,
+    response_body: responseBody,
+    last_error: lastError,
+    ...(delivered ? { status: 'delivered', delivered_at: new Date().toISOString() } : {}),
+    ...(!delivered && !retry ? { status: 'failed' } : {}),
+    ...(retry ? { status: 'pending', next_attempt_at: new Date(Date.now() + computeRetryDelayMs(delivery.attempts)).toISOString() } : {})
+  };
+
+  const { data, error } = await supabaseAdmin
+    .from('webhook_deliveries')
+    .update(update)
+    .eq('id', delivery.id)
+    .select(WEBHOOK_DELIVERY_COLUMNS)
+    .maybeSingle();
+
+  if (error) {
+    logWebhookError('webhook_delivery_update_failed', error.message, { delivery_id: delivery.id });
+  }
+
+  return data ?? { ...delivery, ...update };
+}
+
+/**
+ * Outbox subscriber: only records one pending delivery per matching active endpoint; the webhookDelivery job
+ * does the HTTP sends. An outbox retry of the same event skips deliveries that already exist.
+ */
+async function fanOutWebhookEvent(event: OutboxEvent): Promise<void> {
+  const webhookEvents = toWebhookEvents(event);
+  if (webhookEvents.length === 0) return;
+
+  const { data: endpoints, error: endpointsError } = await supabaseAdmin
+    .from('webhook_endpoints')
+    .select('id, event_types')
+    .eq('is_active', true)
+    .overlaps('event_types', webhookEvents.map((entry) => entry.type));
+
+  if (endpointsError) {
+    throw new Error(`webhook_endpoints_fetch_failed: ${endpointsError.message}`);
+  }
+  if (!endpoints || endpoints.length === 0) return;
+
+  const rows = endpoints.flatMap((endpoint) => webhookEvents
+    .filter((entry) => (endpoint.event_types as string[]).includes(entry.type))
+    .map((entry) => ({
+      endpoint_id: endpoint.id,
+      outbox_event_id: event.id,
+      event_type: entry.type,
+      payload: buildWebhookBody({ id: event.id, type: entry.type, createdAt: event.created_at, data: entry.data })
+    })));
+
+  const { error: insertError } = await supabaseAdmin
+    .from('webhook_deliveries')
+    .upsert(rows, { onConflict: 'endpoint_id,outbox_event_id,event_type', ignoreDuplicates: true });
+
+  if (insertError) {
+    throw new Error(`webhook_deliveries_insert_failed: ${insertError.message}`);
+  }
+}
+
+/** Claims due deliveries (new ones and retries whose backoff elapsed) and sends them. Returns how many were delivered. */
+export async function sendDueWebhookDeliveries(): Promise<number> {
+  const { data, error } = await supabaseAdmin.rpc('rpc_claim_webhook_deliveries_v1', { p_limit: BATCH_SIZE });
+
+  if (error) {
+    logWebhookError('webhook_delivery_claim_failed', error.message);
+    return 0;
+  }
+
+  const deliveries = (data ?? []) as WebhookDelivery[];
+  if (deliveries.length === 0) return 0;
+
+  const endpointIds = [...new Set(deliveries.map((delivery) => delivery.endpoint_id))];
+  const { data: endpoints, error: endpointsError } = await supabaseAdmin
+    .from('webhook_endpoints')
+    .select('id, url, secret, is_active')
+    .in('id', endpointIds);
+
+  if (endpointsError) {
+    logWebhookError('webhook_endpoints_fetch_failed', endpointsError.message);
+    // Release the claim without spending an attempt; the lock timeout would otherwise hold them for minutes.
+    await supabaseAdmin
+      .from('webhook_deliveries')
+      .update({ status: 'pending', locked_at: null })
+      .in('id', deliveries.map((delivery) => delivery.id));
+    return 0;
+  }
+
+  const endpointById = new Map((endpoints ?? []).map((endpoint) => [endpoint.id, endpoint as WebhookEndpoint]));
+  let delivered = 0;
+
+  for (const delivery of deliveries) {
+    const endpoint = endpointById.get(delivery.endpoint_id);
+    if (!endpoint?.is_active) {
+      await supabaseAdmin
+        .from('webhook_deliveries')
+        .update({ status: 'failed', locked_at: null, last_error: 'endpoint_inactive' })
+        .eq('id', delivery.id);
+      continue;
+    }
+
+    const result = await sendWebhookDelivery(delivery, endpoint);
+    if (result.status === 'delivered') {
+      delivered += 1;
+    }
+  }
+
+  return delivered;
+}
+
+registerOutboxSubscriber({
+  name: 'webhooks',
+  events: ['sale.created', 'sale.cancelled', 'stock_item.status_changed'],
+  handle: fanOutWebhookEvent
+});
@@ -0,0 +1,277 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { supabaseAdmin } from '../../lib/supabaseAdmin.js';
+import { requireRole } from '../../middleware/rbac.js';
+import {
+  buildWebhookBody,
+  generateWebhookSecret,
+  sendWebhookDelivery,
+  WEBHOOK_DELIVERY_COLUMNS,
+  WEBHOOK_EVENT_TYPES,
+  type WebhookDelivery,
+  type WebhookEndpoint
+} from './delivery.js';
+
+const router = Router();
+const ENDPOINT_COLUMNS = 'id, url, description, event_types, is_active, created_by, created_at, updated_at';
+
+function logValidationError(scope: string, details: unknown): void {
+  // eslint-disable-next-line no-console
+  console.error(JSON.stringify({
+    level: 'warn',
+    event: 'validation_error',
+    scope,
+    details,
+    timestamp: new Date().toISOString()
+  }));
+}
+
+const endpointSchema = z.object({
+  url: z.string().trim().url().max(500).refine((value) => /^https?:\/\//i.test(value), 'url must be http(s)'),
+  description: z.string().trim().max(200).nullable().optional(),
+  event_types: z.array(z.enum(WEBHOOK_EVENT_TYPES)).min(1).transform((values) => [...new Set(values)]),
+  is_active: z.boolean().default(true)
+});
+
+const deliveriesListSchema = z.object({
+  endpoint_id: z.string().uuid().optional(),
+  status: z.enum(['pending', 'processing', 'delivered', 'failed']).optional(),
+  event_type: z.string().trim().min(1).optional(),
+  page: z.coerce.number().int().positive().optional().default(1),
+  page_size: z.coerce.number().int().positive().max(100).optional().default(50)
+});
+
+async function fetchEndpoint(id: string) {
+  return supabaseAdmin
+    .from('webhook_endpoints')
+    .select('id, url, secret, is_active')
+    .eq('id', id)
+    .maybeSingle<WebhookEndpoint>();
+}
+
+router.get('/', requireRole('admin'), async (_req, res) => {
+  const { data, error } = await supabaseAdmin
+    .from('webhook_endpoints')
+    .select(ENDPOINT_COLUMNS)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    return res.status(400).json({ error: { code: 'webhook_endpoints_fetch_failed', message: 'Fetch failed', details: error.message } });
+  }
+
+  return res.json({ endpoints: data ?? [], event_types: WEBHOOK_EVENT_TYPES });
+});
+
+router.post('/', requireRole('admin'), async (req, res) => {
+  const parsed = endpointSchema.safeParse(req.body);
+  if (!parsed.success) {
+    logValidationError('webhooks.create', parsed.error.flatten());
+    return res.status(400).json({ error: { code: 'validation_error', message: 'Invalid webhook payload', details: parsed.error.flatten() } });
+  }
+
+  const secret = generateWebhookSecret();
+  const { data, error } = await supabaseAdmin
+    .from('webhook_endpoints')
+    .insert({ ...parsed.data, secret, created_by: req.user?.id ?? null })
+    .select(ENDPOINT_COLUMNS)
+    .single();
+
+  if (error || !data) {
+    return res.status(400).json({ error: { code: 'webhook_endpoint_create_failed', message: 'Insert failed', details: error?.message } });
+  }
+
+  // The secret is only returned here and on rotation.
+  return res.status(201).json({ endpoint: data, secret });
+});
+
+router.patch('/:id', requireRole('admin'), async (req, res) => {
+  const parsed = endpointSchema.partial().safeParse(req.body);
+  if (!parsed.success) {
+    logValidationError('webhooks.patch', parsed.error.flatten());
+    return res.status(400).json({ error: { code: 'validation_error', message: 'Invalid webhook patch', details: parsed.error.flatten() } });
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('webhook_endpoints')
+    .update(parsed.data)
+    .eq('id', req.params.id)
+    .select(ENDPOINT_COLUMNS)
+    .maybeSingle();
+
+  if (error) {
+    return res.status(400).json({ error: { code: 'webhook_endpoint_update_failed', message: 'Update failed', details: error.message } });
+  }
+  if (!data) {
+    return res.status(404).json({ error: { code: 'not_found', message: 'Webhook endpoint not found' } });
+  }
+
+  return res.json({ endpoint: data });
+});
+
+router.delete('/:id', requireRole('admin'), async (req, res) => {
+  const { data, error } = await supabaseAdmin
+    .from('webhook_endpoints')
+    .delete()
+    .eq('id', req.params.id)
+    .select('id')
+    .maybeSingle();
+
+  if (error) {
+    return res.status(400).json({ error: { code: 'webhook_endpoint_delete_failed', message: 'Delete failed', details: error.message } });
+  }
+  if (!data) {
+    return res.status(404).json({ error: { code: 'not_found', message: 'Webhook endpoint not found' } });
+  }
+
+  return res.status(204).send();
+});
+
+router.post('/:id/rotate-secret', requireRole('admin'), async (req, res) => {
+  const secret = generateWebhookSecret();
+  const { data, error } = await supabaseAdmin
+    .from('webhook_endpoints')
+    .update({ secret })
+    .eq('id', req.params.id)
+    .select(ENDPOINT_COLUMNS)
+    .maybeSingle();
+
+  if (error) {
+    return res.status(400).json({ error: { code: 'webhook_endpoint_update_failed', message: 'Update failed', details: error.message } });
+  }
+  if (!data) {
+    return res.status(404).json({ error: { code: 'not_found', message: 'Webhook endpoint not found' } });
+  }
+
+  return res.json({ endpoint: data, secret });
+});
+
+/** Sends a signed 'webhook.ping' right away so the receiver can check its signature handling. */
+router.post('/:id/ping', requireRole('admin'), async (req, res) => {
+  const { data: endpoint, error: endpointError } = await fetchEndpoint(req.params.id);
+  if (endpointError) {
+    return res.status(400).json({ error: { code: 'webhook_endpoints_fetch_failed', message: 'Fetch failed', details: endpointError.message } });
+  }
+  if (!endpoint) {
+    return res.status(404).json({ error: { code: 'not_found', message: 'Webhook endpoint not found' } });
+  }
+
+  const { data: delivery, error: insertError } = await supabaseAdmin
+    .from('webhook_deliveries')
+    .insert({
+      endpoint_id: endpoint.id,
+      event_type: 'webhook.ping',
+      payload: buildWebhookBody({ id: endpoint.id, type: 'webhook.ping', createdAt: new Date().toISOString(), data: { endpoint_id: endpoint.id } }),
+      status: 'processing',
+      attempts: 1,
+      locked_at: new Date().toISOString()
+    })
+    .select('id, endpoint_id, outbox_event_id, event_type, payload, status, attempts')
+    .single<WebhookDelivery>();
+
+  if (insertError || !delivery) {
+    return res.status(400).json({ error: { code: 'webhook_delivery_create_failed', message: 'Insert failed', details: insertError?.message } });
+  }
+
+  const result = await sendWebhookDelivery(delivery, endpoint, { retryOnFailure: false });
+  return res.status(201).json({ delivery: result });
+});
+
+router.get('/deliveries', requireRole('admin'), async (req, res) => {
+  const parsed = deliveriesListSchema.safeParse(req.query);
+  if (!parsed.success) {
+    logValidationError('webhooks.deliveries.list', parsed.error.flatten());
+    return res.status(400).json({ error: { code: 'validation_error', message: 'Invalid query params', details: parsed.error.flatten() } });
+  }
+
+  const { endpoint_id: endpointId, status, event_type: eventType, page, page_size } = parsed.data;
+  const from = (page - 1) * page_size;
+  const to = from + page_size - 1;
+
+  let query = supabaseAdmin
+    .from('webhook_deliveries')
+    .select(WEBHOOK_DELIVERY_COLUMNS, { count: 'exact' });
+
+  if (endpointId) query = query.eq('endpoint_id', endpointId);
+  if (status) query = query.eq('status', status);
+  if (eventType) query = query.eq('event_type', eventType);
+
+  const { data, error, count } = await query
+    .order('created_at', { ascending: false })
+    .range(from, to);
+
+  if (error) {
+    return res.status(400).json({ error: { code: 'webhook_deliveries_fetch_failed', message: 'Fetch failed', details: error.message } });
+  }
+
+  return res.json({
+    deliveries: data ?? [],
+    total: count ?? 0,
+    page,
+    page_size
+  });
+});
+
+router.get('/deliveries/:deliveryId', requireRole('admin'), async (req, res) => {
+  const { data, error } = await supabaseAdmin
+    .from('webhook_deliveries')
+    .select(WEBHOOK_DELIVERY_COLUMNS)
+    .eq('id', req.params.deliveryId)
+    .maybeSingle();
+
+  if (error) {
+    return res.status(400).json({ error: { code: 'webhook_deliveries_fetch_failed', message: 'Fetch failed', details: error.message } });
+  }
+  if (!data) {
+    return res.status(404).json({ error: { code: 'not_found', message: 'Webhook delivery not found' } });
+  }
+
+  return res.json({ delivery: data });
+});
+
+/** Re-sends the stored body with a fresh timestamp and signature; the receiver sees the same X-Webhook-Id. */
+router.post('/deliveries/:deliveryId/replay', requireRole('admin'), async (req, res) => {
+  const { data: delivery, error } = await supabaseAdmin
+    .from('webhook_deliveries')
+    .select('id, endpoint_id, outbox_event_id, event_type, payload, status, attempts')
+    .eq('id', req.params.deliveryId)
+    .maybeSingle<WebhookDelivery>();
+
+  if (error) {
+    return res.status(400).json({ error: { code: 'webhook_deliveries_fetch_failed', message: 'Fetch failed', details: error.message } });
+  }
+  if (!delivery) {
+    return res.status(404).json({ error: { code: 'not_found', message: 'Webhook delivery not found' } });
+  }
+  if (delivery.status === 'processing') {
+    return res.status(409).json({ error: { code: 'conflict', message: 'Delivery is being sent right now' } });
+  }
+
+  const { data: endpoint, error: endpointError } = await fetchEndpoint(delivery.endpoint_id);
+  if (endpointError) {
+    return res.status(400).json({ error: { code: 'webhook_endpoints_fetch_failed', message: 'Fetch failed', details: endpointError.message } });
+  }
+  if (!endpoint?.is_active) {
+    return res.status(409).json({ error: { code: 'webhook_endpoint_inactive', message: 'Webhook endpoint is inactive' } });
+  }
+
+  // Only claims the row if nobody else did in the meantime.
+  const { data: claimed, error: claimError } = await supabaseAdmin
+    .from('webhook_deliveries')
+    .update({ status: 'processing', locked_at: new Date().toISOString(), attempts: delivery.attempts + 1 })
+    .eq('id', delivery.id)
+    .eq('status', delivery.status)
+    .select('id, endpoint_id, outbox_event_id, event_type, payload, status, attempts')
+    .maybeSingle<WebhookDelivery>();
+
+  if (claimError) {
+    return res.status(400).json({ error: { code: 'webhook_delivery_update_failed', message: 'Update failed', details: claimError.message } });
+  }
+  if (!claimed) {
+    return res.status(409).json({ error: { code: 'conflict', message: 'Delivery is being sent right now' } });
+  }
+
+  const result = await sendWebhookDelivery(claimed, endpoint, { retryOnFailure: false });
+  return res.json({ delivery: result });
+});
+
+export const webhooksRouter = router;
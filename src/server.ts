@@ -11,6 +11,10 @@ if (missingEnvVars.length > 0) {
 }
 
 const { app } = await import('./app.js');
+const { startReservationExpiryJob } = await import('./jobs/reservationExpiry.js');
+const { startOutboxDispatcherJob } = await import('./jobs/outboxDispatcher.js');
+const { startWebhookDeliveryJob } = await import('./jobs/webhookDelivery.js');
+const { startIdempotencySweeperJob } = await import('./jobs/idempotencySweeper.js');
 
 const portValue = Number(process.env.PORT || 3000);
 const port = Number.isFinite(portValue) && portValue > 0 ? portValue : 3000;
@@ -18,4 +22,8 @@ const port = Number.isFinite(portValue) && portValue > 0 ? portValue : 3000;
 app.listen(port, () => {
   // eslint-disable-next-line no-console
   console.log(`API listening on :${port}`);
+  startReservationExpiryJob();
+  startOutboxDispatcherJob();
+  startWebhookDeliveryJob();
+  startIdempotencySweeperJob();
 });
@@ -6,6 +6,7 @@ declare module 'express-serve-static-core' {
       id: string;
       email: string | null;
       role: 'owner' | 'admin' | 'seller';
+      branch_id: string | null;
     };
   }
 }